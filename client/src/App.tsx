@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, useRoute } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -8,10 +8,27 @@ import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import Positions from "@/pages/positions";
 import Candidates from "@/pages/candidates";
+import Pipeline from "@/pages/pipeline";
+import CandidateDetail from "@/pages/candidate-detail";
+import CandidateMerge from "@/pages/candidate-merge";
+import Users from "@/pages/users";
+import NoOrganization from "@/pages/no-organization";
+import Invite from "@/pages/invite";
+import ResetPassword from "@/pages/reset-password";
 import NotFound from "@/pages/not-found";
 
 function Router() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [isInvite, inviteParams] = useRoute("/invite/:token");
+  const [isPasswordReset, passwordResetParams] = useRoute("/reset-password/:token");
+
+  // Invitation and reset links work signed out and before joining any organization
+  if (isInvite) {
+    return <Invite token={inviteParams.token} />;
+  }
+  if (isPasswordReset) {
+    return <ResetPassword token={passwordResetParams.token} />;
+  }
 
   if (isLoading) {
     return <div className="min-h-screen flex items-center justify-center">Loading...</div>;
@@ -21,11 +38,19 @@ function Router() {
     return <Landing />;
   }
 
+  if (user?.organizationId === null) {
+    return <NoOrganization />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
       <Route path="/positions" component={Positions} />
       <Route path="/candidates" component={Candidates} />
+      <Route path="/candidates/:id" component={CandidateDetail} />
+      <Route path="/candidates/:id/merge/:sourceId" component={CandidateMerge} />
+      <Route path="/pipeline" component={Pipeline} />
+      <Route path="/users" component={Users} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,104 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { formatFileSize } from "@/lib/candidates";
+import { Button } from "@/components/ui/button";
+import { Download, FileText, Trash2 } from "lucide-react";
+import type { CandidateAttachment } from "@shared/schema";
+
+interface CandidateAttachmentsProps {
+  candidateId: number;
+}
+
+// Files kept besides the current resume, such as resumes from merged duplicates
+export default function CandidateAttachments({ candidateId }: CandidateAttachmentsProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/candidates/${candidateId}/attachments`];
+
+  const { data: attachments } = useQuery<CandidateAttachment[]>({
+    queryKey,
+    retry: false,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/candidates/${candidateId}/attachments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!attachments?.length) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-gray-900">Other Files</h3>
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.id}
+          className="flex items-center justify-between rounded-md border border-gray-200 p-3"
+        >
+          <div className="flex items-center">
+            <FileText className="w-6 h-6 mr-3 text-gray-400" />
+            <div>
+              <p className="text-sm font-medium text-gray-900">{attachment.fileName}</p>
+              <p className="text-xs text-gray-500">
+                {formatFileSize(attachment.fileSize)}
+                {attachment.uploadedAt &&
+                  ` · Uploaded ${format(new Date(attachment.uploadedAt), "MMM d, yyyy")}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="ghost" size="sm" asChild>
+              <a href={`/api/candidates/${candidateId}/attachments/${attachment.id}`}>
+                <Download className="w-4 h-4" />
+              </a>
+            </Button>
+            {can("candidates:manage") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={deleteMutation.isPending}
+                onClick={() => {
+                  if (confirm("Are you sure you want to delete this file?")) {
+                    deleteMutation.mutate(attachment.id);
+                  }
+                }}
+                className="text-red-600 hover:text-red-900"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
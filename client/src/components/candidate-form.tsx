@@ -1,17 +1,23 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { usePipelines } from "@/hooks/usePipelines";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
-import { insertCandidateSchema, type Candidate } from "@shared/schema";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { duplicateMatches, parseResumeFile, resumeFileError, splitTags, uploadResume } from "@/lib/candidates";
+import { insertCandidateSchema, RESUME_CONTENT_TYPES, type Candidate, type ParsedResume } from "@shared/schema";
+import type { DuplicateMatch } from "@shared/duplicates";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { X } from "lucide-react";
+import StatusTimeline from "@/components/status-timeline";
+import DuplicateCandidates from "@/components/duplicate-candidates";
+import { AlertTriangle, FileSearch, X } from "lucide-react";
 
 interface CandidateFormProps {
   candidate?: Candidate | null;
@@ -22,6 +28,12 @@ export default function CandidateForm({ candidate, onClose }: CandidateFormProps
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const isEditing = !!candidate;
+  const { positions, pipelineForPosition } = usePipelines();
+  const [statusReason, setStatusReason] = useState("");
+  const [resumeFile, setResumeFile] = useState<File | null>(null);
+  const [resumeFileProblem, setResumeFileProblem] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[] | null>(null);
+  const [tags, setTags] = useState(candidate?.tags.join(", ") ?? "");
 
   const form = useForm({
     resolver: zodResolver(insertCandidateSchema),
@@ -30,26 +42,63 @@ export default function CandidateForm({ candidate, onClose }: CandidateFormProps
       email: candidate?.email || "",
       phone: candidate?.phone || "",
       resume: candidate?.resume || "",
-      positionApplied: candidate?.positionApplied || "",
-      status: candidate?.status || "New",
+      positionId: candidate?.positionId ?? undefined,
+      status: candidate?.status || "",
     },
   });
 
+  const pipeline = pipelineForPosition({ positionId: form.watch("positionId") });
+  // Closed and archived positions stay selectable for candidates already in them
+  const positionOptions = positions.filter(
+    (position) =>
+      (position.status === "Active" && !position.archivedAt) || position.id === candidate?.positionId,
+  );
+  const stages = pipeline?.stages ?? [];
+  const statusChanged = isEditing && form.watch("status") !== candidate.status;
+
   const mutation = useMutation({
     mutationFn: async (data: any) => {
+      data = { ...data, tags: splitTags(tags) };
+      if (statusChanged && statusReason) {
+        data = { ...data, statusReason };
+      }
+      let saved: Candidate;
       if (isEditing) {
-        await apiRequest("PUT", `/api/candidates/${candidate.id}`, data);
+        saved = await (await apiRequest("PUT", `/api/candidates/${candidate.id}`, data)).json();
       } else {
-        await apiRequest("POST", "/api/candidates", data);
+        saved = await (await apiRequest("POST", "/api/candidates", data)).json();
+      }
+      // The file needs the candidate's id, so it is uploaded after saving
+      if (resumeFile) {
+        try {
+          await uploadResume(saved.id, resumeFile);
+        } catch (error) {
+          if (isUnauthorizedError(error as Error)) {
+            throw error;
+          }
+          return `Candidate saved, but the resume upload failed: ${errorMessage(error as Error)}`;
+        }
       }
     },
-    onSuccess: () => {
+    onSuccess: (uploadProblem) => {
       queryClient.invalidateQueries({ queryKey: ["/api/candidates"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
-      toast({
-        title: "Success",
-        description: `Candidate ${isEditing ? "updated" : "created"} successfully`,
-      });
+      if (isEditing) {
+        queryClient.invalidateQueries({ queryKey: [`/api/candidates/${candidate.id}`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/candidates/${candidate.id}/history`] });
+      }
+      if (uploadProblem) {
+        toast({
+          title: "Error",
+          description: uploadProblem,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: `Candidate ${isEditing ? "updated" : "created"} successfully`,
+        });
+      }
       onClose();
     },
     onError: (error) => {
@@ -64,6 +113,11 @@ export default function CandidateForm({ candidate, onClose }: CandidateFormProps
         }, 500);
         return;
       }
+      const matches = duplicateMatches(error);
+      if (matches) {
+        setDuplicates(matches);
+        return;
+      }
       toast({
         title: "Error",
         description: `Failed to ${isEditing ? "update" : "create"} candidate`,
@@ -72,10 +126,39 @@ export default function CandidateForm({ candidate, onClose }: CandidateFormProps
     },
   });
 
+  // A newly chosen file is parsed on the server; otherwise use the stored parse result
+  const fillMutation = useMutation({
+    mutationFn: async (): Promise<ParsedResume | null> =>
+      resumeFile ? await parseResumeFile(resumeFile) : candidate?.parsedResume ?? null,
+    onSuccess: (parsed) => {
+      const fields = (["name", "email", "phone"] as const).filter((field) => parsed?.[field]);
+      for (const field of fields) {
+        form.setValue(field, parsed![field]!, { shouldValidate: true });
+      }
+      toast({
+        title: fields.length ? "Filled from resume" : "Nothing found",
+        description: fields.length
+          ? `Filled ${fields.join(", ")}; please check them before saving`
+          : "No name, email or phone number was found in the resume",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: any) => {
+    setDuplicates(null);
     mutation.mutate(data);
   };
 
+  // The server only creates a likely duplicate once the user has seen the matches
+  const saveAnyway = form.handleSubmit((data) => mutation.mutate({ ...data, allowDuplicate: true }));
+
   return (
     <div>
       <DialogHeader>
@@ -151,24 +234,66 @@ export default function CandidateForm({ candidate, onClose }: CandidateFormProps
             )}
           />
 
+          <div className="space-y-2">
+            <Label htmlFor="resume-file">Resume File (PDF or DOCX)</Label>
+            <Input
+              id="resume-file"
+              type="file"
+              accept={Object.keys(RESUME_CONTENT_TYPES).join(",")}
+              onChange={(e) => {
+                const file = e.target.files?.[0] ?? null;
+                const problem = file && resumeFileError(file);
+                setResumeFile(problem ? null : file);
+                setResumeFileProblem(problem);
+              }}
+            />
+            {resumeFileProblem && <p className="text-sm font-medium text-destructive">{resumeFileProblem}</p>}
+            {isEditing && candidate.resumeFileName && !resumeFile && (
+              <p className="text-xs text-gray-500">Current file: {candidate.resumeFileName}</p>
+            )}
+            {(resumeFile || candidate?.parsedResume) && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={fillMutation.isPending}
+                onClick={() => fillMutation.mutate()}
+              >
+                <FileSearch className="w-4 h-4 mr-2" />
+                {fillMutation.isPending ? "Reading resume..." : "Fill from resume"}
+              </Button>
+            )}
+          </div>
+
           <FormField
             control={form.control}
-            name="positionApplied"
+            name="positionId"
             render={({ field }) => (
               <FormItem>
                 <FormLabel>Position Applied</FormLabel>
-                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <Select
+                  onValueChange={(value) => {
+                    const positionId = parseInt(value);
+                    field.onChange(positionId);
+                    // A different position may use a pipeline without the current stage
+                    const next = pipelineForPosition({ positionId });
+                    if (!next?.stages.some((stage) => stage.name === form.getValues("status"))) {
+                      form.setValue("status", next?.stages[0]?.name ?? "");
+                    }
+                  }}
+                  value={field.value ? String(field.value) : undefined}
+                >
                   <FormControl>
                     <SelectTrigger>
                       <SelectValue placeholder="Select Position" />
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="Senior Frontend Developer">Senior Frontend Developer</SelectItem>
-                    <SelectItem value="Backend Developer">Backend Developer</SelectItem>
-                    <SelectItem value="Full Stack Developer">Full Stack Developer</SelectItem>
-                    <SelectItem value="UI/UX Designer">UI/UX Designer</SelectItem>
-                    <SelectItem value="Product Manager">Product Manager</SelectItem>
+                    {positionOptions.map((position) => (
+                      <SelectItem key={position.id} value={String(position.id)}>
+                        {position.title}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <FormMessage />
@@ -182,17 +307,18 @@ export default function CandidateForm({ candidate, onClose }: CandidateFormProps
             render={({ field }) => (
               <FormItem>
                 <FormLabel>Status</FormLabel>
-                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <Select onValueChange={field.onChange} value={field.value || stages[0]?.name}>
                   <FormControl>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                   </FormControl>
                   <SelectContent>
-                    <SelectItem value="New">New</SelectItem>
-                    <SelectItem value="In Review">In Review</SelectItem>
-                    <SelectItem value="Shortlisted">Shortlisted</SelectItem>
-                    <SelectItem value="Rejected">Rejected</SelectItem>
+                    {stages.map((stage) => (
+                      <SelectItem key={stage.id} value={stage.name}>
+                        {stage.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <FormMessage />
@@ -200,6 +326,47 @@ export default function CandidateForm({ candidate, onClose }: CandidateFormProps
             )}
           />
 
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags</Label>
+            <Input
+              id="tags"
+              placeholder="e.g., referral, remote"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+          </div>
+
+          {statusChanged && (
+            <div className="space-y-2">
+              <Label htmlFor="status-reason">Reason for status change (optional)</Label>
+              <Input
+                id="status-reason"
+                placeholder="e.g., Passed phone screen"
+                value={statusReason}
+                onChange={(e) => setStatusReason(e.target.value)}
+              />
+            </div>
+          )}
+
+          {duplicates && (
+            <div className="rounded-md border border-amber-200 bg-amber-50 p-4 space-y-3">
+              <div className="flex items-center text-sm font-medium text-amber-800">
+                <AlertTriangle className="w-4 h-4 mr-2" />
+                This candidate may already exist
+              </div>
+              <DuplicateCandidates matches={duplicates} />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={mutation.isPending}
+                onClick={saveAnyway}
+              >
+                Save Anyway
+              </Button>
+            </div>
+          )}
+
           <div className="flex space-x-3 pt-4">
             <Button
               type="submit"
@@ -219,6 +386,15 @@ export default function CandidateForm({ candidate, onClose }: CandidateFormProps
           </div>
         </form>
       </Form>
+
+      {isEditing && (
+        <div className="mt-6 border-t border-gray-200 pt-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Status History</h3>
+          <div className="max-h-60 overflow-y-auto">
+            <StatusTimeline candidateId={candidate.id} />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
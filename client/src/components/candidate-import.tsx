@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { errorMessage } from "@/lib/queryClient";
+import { parseCsv } from "@shared/csv";
+import {
+  CANDIDATE_IMPORT_FIELDS,
+  guessImportMapping,
+  type CandidateImportDuplicate,
+  type CandidateImportMapping,
+  type CandidateImportResult,
+} from "@shared/candidateImport";
+import { DUPLICATE_REASON_LABELS } from "@shared/duplicates";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, CheckCircle, X, XCircle } from "lucide-react";
+
+interface CandidateImportProps {
+  onClose: () => void;
+}
+
+type Step = "upload" | "map" | "preview" | "done";
+
+const NOT_MAPPED = "__none__";
+
+function describeDuplicate(duplicate: CandidateImportDuplicate) {
+  const where = duplicate.candidateId ? "existing candidate" : `row ${duplicate.row}`;
+  const reasons = duplicate.reasons.map((reason) => DUPLICATE_REASON_LABELS[reason]).join(", ");
+  return `Possible duplicate of ${where} ${duplicate.name} (${reasons})`;
+}
+
+interface ImportOptions {
+  dryRun: boolean;
+  skipDuplicates: boolean;
+}
+
+async function importCandidates(file: File, mapping: CandidateImportMapping, options: ImportOptions) {
+  const body = new FormData();
+  body.append("file", file);
+  body.append("mapping", JSON.stringify(mapping));
+  body.append("dryRun", String(options.dryRun));
+  body.append("skipDuplicates", String(options.skipDuplicates));
+
+  const response = await fetch("/api/candidates/import", {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+
+  return (await response.json()) as CandidateImportResult;
+}
+
+export default function CandidateImport({ onClose }: CandidateImportProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>("upload");
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [sampleRows, setSampleRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CandidateImportMapping>({});
+  const [result, setResult] = useState<CandidateImportResult | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+  const unmappedRequired = CANDIDATE_IMPORT_FIELDS.filter(
+    ({ field, required }) => required && !mapping[field],
+  );
+
+  const mutation = useMutation({
+    mutationFn: ({ dryRun }: { dryRun: boolean }) => importCandidates(file!, mapping, { dryRun, skipDuplicates }),
+    onSuccess: (data) => {
+      setResult(data);
+      if (data.dryRun) {
+        setStep("preview");
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      setStep("done");
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Only the header and a few rows are read here; the server parses the whole file
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) {
+      return;
+    }
+    const [fileHeaders, ...rows] = parseCsv(await selected.text());
+    if (!fileHeaders?.length) {
+      toast({ title: "Error", description: "The CSV file is empty", variant: "destructive" });
+      return;
+    }
+    setFile(selected);
+    setHeaders(fileHeaders);
+    setSampleRows(rows.slice(0, 3));
+    setMapping(guessImportMapping(fileHeaders));
+    setStep("map");
+  };
+
+  const importCount = result ? result.valid - (skipDuplicates ? result.duplicates : 0) : 0;
+
+  const sampleValue = (header: string | undefined) => {
+    const column = header ? headers.indexOf(header) : -1;
+    return column >= 0 ? sampleRows.map((row) => row[column]).filter(Boolean).join(", ") : "";
+  };
+
+  return (
+    <div>
+      <DialogHeader>
+        <div className="flex items-center justify-between">
+          <DialogTitle>Import Candidates from CSV</DialogTitle>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </DialogHeader>
+
+      <div className="mt-4 space-y-4">
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV file with a header row</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+
+        {step === "map" && (
+          <>
+            <p className="text-sm text-gray-600">
+              Choose the column in <span className="font-medium">{file?.name}</span> for each field. Positions
+              are matched to existing positions by title.
+            </p>
+            <div className="space-y-3">
+              {CANDIDATE_IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="grid grid-cols-2 items-center gap-4">
+                  <Label>
+                    {label}
+                    {required && <span className="text-red-600"> *</span>}
+                  </Label>
+                  <div>
+                    <Select
+                      value={mapping[field] ?? NOT_MAPPED}
+                      onValueChange={(value) =>
+                        setMapping({ ...mapping, [field]: value === NOT_MAPPED ? undefined : value })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                        {/* Radix selects can't hold an empty value, so unnamed columns can't be mapped */}
+                        {Array.from(new Set(headers.filter(Boolean))).map((header) => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="mt-1 truncate text-xs text-gray-500">{sampleValue(mapping[field])}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex space-x-3 pt-4">
+              <Button
+                disabled={unmappedRequired.length > 0 || mutation.isPending}
+                onClick={() => mutation.mutate({ dryRun: true })}
+                className="flex-1 bg-primary hover:bg-primary/90"
+              >
+                {mutation.isPending ? "Checking..." : "Preview Import"}
+              </Button>
+              <Button variant="outline" onClick={() => setStep("upload")} className="flex-1">
+                Back
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === "preview" && result && (
+          <>
+            <p className="text-sm text-gray-700">
+              {result.valid} of {result.total} rows are ready to import.
+              {result.invalid > 0 && ` ${result.invalid} rows have errors and will be skipped.`}
+              {result.duplicates > 0 && ` ${result.duplicates} of them look like candidates that already exist.`}
+            </p>
+            {result.duplicates > 0 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="skip-duplicates"
+                  checked={skipDuplicates}
+                  onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+                />
+                <Label htmlFor="skip-duplicates" className="font-normal">
+                  Skip possible duplicates
+                </Label>
+              </div>
+            )}
+            <div className="max-h-80 overflow-y-auto rounded-md border border-gray-200">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Row</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Candidate</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium uppercase text-gray-500">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                  {result.rows.map((row) => (
+                    <tr key={row.row}>
+                      <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-3 py-2 text-gray-900">
+                        {row.candidate ? `${row.candidate.name} · ${row.candidate.status}` : "—"}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.errors.length === 0 && row.duplicates.length > 0 ? (
+                          <div className="flex items-start text-amber-700">
+                            <AlertTriangle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                            <span>{row.duplicates.map(describeDuplicate).join("; ")}</span>
+                          </div>
+                        ) : row.errors.length === 0 ? (
+                          <CheckCircle className="w-4 h-4 text-green-600" />
+                        ) : (
+                          <div className="flex items-start text-red-600">
+                            <XCircle className="w-4 h-4 mr-1 mt-0.5 flex-shrink-0" />
+                            <span>{row.errors.join("; ")}</span>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex space-x-3 pt-4">
+              <Button
+                disabled={importCount === 0 || mutation.isPending}
+                onClick={() => mutation.mutate({ dryRun: false })}
+                className="flex-1 bg-primary hover:bg-primary/90"
+              >
+                {mutation.isPending ? "Importing..." : `Import ${importCount} Candidates`}
+              </Button>
+              <Button variant="outline" onClick={() => setStep("map")} className="flex-1">
+                Back
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === "done" && result && (
+          <>
+            <p className="text-sm text-gray-700">
+              Imported {result.imported} candidates.
+              {result.valid - result.imported + result.invalid > 0 &&
+                ` ${result.valid - result.imported + result.invalid} rows were skipped.`}
+            </p>
+            <Button onClick={onClose} className="w-full bg-primary hover:bg-primary/90">
+              Done
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
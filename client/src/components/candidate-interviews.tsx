@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar, MapPin, Trash2, User as UserIcon } from "lucide-react";
+import type { CandidateInterviewWithInterviewer, UserSummary } from "@shared/schema";
+
+interface CandidateInterviewsProps {
+  candidateId: number;
+}
+
+const DURATIONS = [30, 45, 60, 90, 120];
+// Select items can't have an empty value
+const NO_INTERVIEWER = "none";
+
+function userName(user: UserSummary | null) {
+  if (!user) {
+    return "No interviewer";
+  }
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.email || user.id;
+}
+
+// Interviews with the candidate, soonest first; those who manage candidates
+// schedule and cancel them. Times are entered and shown in the browser's zone.
+export default function CandidateInterviews({ candidateId }: CandidateInterviewsProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/candidates/${candidateId}/interviews`];
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [interviewerId, setInterviewerId] = useState(NO_INTERVIEWER);
+  const [location, setLocation] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: interviews, isLoading } = useQuery<CandidateInterviewWithInterviewer[]>({
+    queryKey,
+    retry: false,
+  });
+
+  const { data: users } = useQuery<UserSummary[]>({
+    queryKey: ["/api/users"],
+    enabled: can("candidates:manage"),
+    retry: false,
+  });
+
+  const handleError = (error: Error, title: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title, description: errorMessage(error), variant: "destructive" });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/candidates/${candidateId}/interviews`, {
+        scheduledAt: new Date(scheduledAt).toISOString(),
+        durationMinutes,
+        interviewerId: interviewerId === NO_INTERVIEWER ? null : interviewerId,
+        location: location.trim() || null,
+        notes: notes.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setScheduledAt("");
+      setDurationMinutes(60);
+      setInterviewerId(NO_INTERVIEWER);
+      setLocation("");
+      setNotes("");
+    },
+    onError: (error) => handleError(error, "Failed to schedule interview"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/candidates/${candidateId}/interviews/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => handleError(error, "Failed to cancel interview"),
+  });
+
+  return (
+    <div className="space-y-6">
+      {isLoading ? (
+        <div className="text-center text-sm text-gray-500">Loading interviews...</div>
+      ) : !interviews?.length ? (
+        <div className="text-center text-sm text-gray-500">No interviews scheduled</div>
+      ) : (
+        <div className="space-y-2">
+          {interviews.map((interview) => (
+            <div
+              key={interview.id}
+              className="flex items-start justify-between rounded-md border border-gray-200 p-3"
+            >
+              <div className="space-y-1">
+                <p className="flex items-center text-sm font-medium text-gray-900">
+                  <Calendar className="w-4 h-4 mr-2 text-gray-400" />
+                  {format(new Date(interview.scheduledAt), "MMM d, yyyy h:mm a")} · {interview.durationMinutes} min
+                </p>
+                <p className="flex items-center text-sm text-gray-600">
+                  <UserIcon className="w-4 h-4 mr-2 text-gray-400" />
+                  {userName(interview.interviewer)}
+                </p>
+                {interview.location && (
+                  <p className="flex items-center text-sm text-gray-600">
+                    <MapPin className="w-4 h-4 mr-2 text-gray-400" />
+                    {interview.location}
+                  </p>
+                )}
+                {interview.notes && <p className="text-sm text-gray-500 whitespace-pre-wrap">{interview.notes}</p>}
+              </div>
+              {can("candidates:manage") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Cancel interview"
+                  disabled={cancelMutation.isPending}
+                  onClick={() => {
+                    if (confirm("Are you sure you want to cancel this interview?")) {
+                      cancelMutation.mutate(interview.id);
+                    }
+                  }}
+                  className="text-red-600 hover:text-red-900"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {can("candidates:manage") && (
+        <form
+          className="space-y-4 border-t border-gray-200 pt-6"
+          onSubmit={(e) => {
+            e.preventDefault();
+            scheduleMutation.mutate();
+          }}
+        >
+          <h3 className="text-sm font-semibold text-gray-900">Schedule an interview</h3>
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <Label htmlFor="interview-time">When</Label>
+              <Input
+                id="interview-time"
+                type="datetime-local"
+                value={scheduledAt}
+                onChange={(e) => setScheduledAt(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="interview-duration">Duration</Label>
+              <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(Number(value))}>
+                <SelectTrigger id="interview-duration" className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DURATIONS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} min
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="interview-interviewer">Interviewer</Label>
+              <Select value={interviewerId} onValueChange={setInterviewerId}>
+                <SelectTrigger id="interview-interviewer" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_INTERVIEWER}>No interviewer</SelectItem>
+                  {users?.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {userName(user)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex-1 min-w-64">
+              <Label htmlFor="interview-location">Location</Label>
+              <Input
+                id="interview-location"
+                value={location}
+                maxLength={500}
+                placeholder="Room, address or meeting link"
+                onChange={(e) => setLocation(e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="interview-notes">Notes</Label>
+            <Textarea
+              id="interview-notes"
+              value={notes}
+              maxLength={5000}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={!scheduledAt || scheduleMutation.isPending}
+            className="bg-primary hover:bg-primary/90 text-white"
+          >
+            {scheduleMutation.isPending ? "Scheduling..." : "Schedule"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import ReactMarkdown from "react-markdown";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { mentionHandle } from "@shared/mentions";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Edit, Trash2 } from "lucide-react";
+import type {
+  CandidateNoteRevisionWithEditor,
+  CandidateNoteWithAuthor,
+  UserSummary,
+} from "@shared/schema";
+
+interface CandidateNotesProps {
+  candidateId: number;
+}
+
+function authorName(author: UserSummary | null) {
+  if (!author) {
+    return "Unknown user";
+  }
+  const name = [author.firstName, author.lastName].filter(Boolean).join(" ");
+  return name || author.email || author.id;
+}
+
+function NoteBody({ body }: { body: string }) {
+  return (
+    <div className="prose prose-sm max-w-none text-gray-700">
+      <ReactMarkdown>{body}</ReactMarkdown>
+    </div>
+  );
+}
+
+interface NoteEditorProps {
+  initialBody?: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (body: string) => void;
+  onCancel?: () => void;
+}
+
+// Textarea that suggests teammates while an @handle is being typed
+function NoteEditor({ initialBody = "", submitLabel, isPending, onSubmit, onCancel }: NoteEditorProps) {
+  const [body, setBody] = useState(initialBody);
+  const [cursor, setCursor] = useState(initialBody.length);
+
+  const { data: users } = useQuery<UserSummary[]>({
+    queryKey: ["/api/users"],
+    retry: false,
+  });
+
+  const partial = body.slice(0, cursor).match(/(?:^|\s)@([\w.+-]*)$/)?.[1]?.toLowerCase();
+  const suggestions =
+    partial === undefined
+      ? []
+      : (users ?? []).filter((user) => mentionHandle(user).startsWith(partial)).slice(0, 5);
+
+  const insertMention = (user: UserSummary) => {
+    const start = cursor - (partial?.length ?? 0);
+    const handle = `${mentionHandle(user)} `;
+    setBody(body.slice(0, start) + handle + body.slice(cursor));
+    setCursor(start + handle.length);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          placeholder="Write a note... Markdown is supported and @name notifies a teammate"
+          rows={4}
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value);
+            setCursor(e.target.selectionStart);
+          }}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute z-10 mt-1 w-64 rounded-md border border-gray-200 bg-white shadow-md">
+            {suggestions.map((user) => (
+              <button
+                key={user.id}
+                type="button"
+                onClick={() => insertMention(user)}
+                className="block w-full px-3 py-2 text-left text-sm hover:bg-gray-50"
+              >
+                <span className="font-medium text-gray-900">{authorName(user)}</span>
+                <span className="ml-2 text-gray-500">@{mentionHandle(user)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="button"
+          size="sm"
+          disabled={isPending || !body.trim()}
+          onClick={() => onSubmit(body)}
+          className="bg-primary hover:bg-primary/90"
+        >
+          {isPending ? "Saving..." : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function NoteRevisions({ candidateId, noteId }: { candidateId: number; noteId: number }) {
+  const { data: revisions, isLoading } = useQuery<CandidateNoteRevisionWithEditor[]>({
+    queryKey: [`/api/candidates/${candidateId}/notes/${noteId}/revisions`],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <div className="text-xs text-gray-500">Loading edit history...</div>;
+  }
+
+  return (
+    <ol className="space-y-3 border-l border-gray-200 pl-4">
+      {revisions?.map((revision) => (
+        <li key={revision.id}>
+          <p className="text-xs text-gray-500">
+            Replaced by {authorName(revision.editor)}
+            {revision.createdAt && ` · ${format(new Date(revision.createdAt), "MMM d, yyyy h:mm a")}`}
+          </p>
+          <NoteBody body={revision.body} />
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export default function CandidateNotes({ candidateId }: CandidateNotesProps) {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  // Remount the new-note editor after a successful save to clear it
+  const [editorKey, setEditorKey] = useState(0);
+  const notesKey = [`/api/candidates/${candidateId}/notes`];
+
+  const { data: notes, isLoading } = useQuery<CandidateNoteWithAuthor[]>({
+    queryKey: notesKey,
+    retry: false,
+  });
+
+  const handleError = (error: Error, action: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: `Failed to ${action} note`,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (body: string) => {
+      await apiRequest("POST", `/api/candidates/${candidateId}/notes`, { body });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+      setEditorKey((key) => key + 1);
+    },
+    onError: (error) => handleError(error, "add"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, body }: { id: number; body: string }) => {
+      await apiRequest("PUT", `/api/candidates/${candidateId}/notes/${id}`, { body });
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/candidates/${candidateId}/notes/${id}/revisions`] });
+      setEditingId(null);
+    },
+    onError: (error) => handleError(error, "update"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/candidates/${candidateId}/notes/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notesKey });
+    },
+    onError: (error) => handleError(error, "delete"),
+  });
+
+  return (
+    <div className="space-y-6">
+      {can("notes:write") && (
+        <NoteEditor
+          key={editorKey}
+          submitLabel="Add Note"
+          isPending={createMutation.isPending}
+          onSubmit={(body) => createMutation.mutate(body)}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading notes...</div>
+      ) : !notes?.length ? (
+        <div className="text-center text-sm text-gray-500">No notes yet</div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {notes.map((note) => (
+            <li key={note.id} className="py-4">
+              <div className="mb-2 flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                  <span className="font-medium text-gray-900">{authorName(note.author)}</span>
+                  {note.createdAt && ` · ${format(new Date(note.createdAt), "MMM d, yyyy h:mm a")}`}
+                  {note.revisionCount > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setHistoryId(historyId === note.id ? null : note.id)}
+                      className="ml-1 underline hover:text-gray-700"
+                    >
+                      (edited)
+                    </button>
+                  )}
+                </p>
+                {note.authorId === user?.id && can("notes:write") && editingId !== note.id && (
+                  <div className="flex space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(note.id)}>
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (confirm("Are you sure you want to delete this note?")) {
+                          deleteMutation.mutate(note.id);
+                        }
+                      }}
+                      className="text-red-600 hover:text-red-900"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {editingId === note.id ? (
+                <NoteEditor
+                  initialBody={note.body}
+                  submitLabel="Save"
+                  isPending={updateMutation.isPending}
+                  onSubmit={(body) => updateMutation.mutate({ id: note.id, body })}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <NoteBody body={note.body} />
+              )}
+
+              {historyId === note.id && (
+                <div className="mt-3">
+                  <NoteRevisions candidateId={candidateId} noteId={note.id} />
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
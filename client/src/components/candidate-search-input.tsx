@@ -0,0 +1,98 @@
+import { useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { applyQueryHint, candidateQueryHints, type QueryHintSources } from "@/lib/candidateQuery";
+import { parseCandidateQuery } from "@shared/candidateQuery";
+
+interface CandidateSearchInputProps extends QueryHintSources {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Search box for the candidate query syntax, with hints for the term being typed
+export default function CandidateSearchInput({ id, value, onChange, statuses, positions }: CandidateSearchInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(value.length);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const hints = isOpen ? candidateQueryHints(value, cursor, { statuses, positions }) : [];
+  const syntaxError = parseCandidateQuery(value).error;
+
+  const moveCursor = (position: number) => {
+    setCursor(position);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const accept = (index: number) => {
+    const next = applyQueryHint(value, cursor, hints[index]);
+    onChange(next.value);
+    moveCursor(next.cursor);
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (hints.length === 0) {
+      return;
+    }
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((activeIndex + step + hints.length) % hints.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      accept(Math.min(activeIndex, hints.length - 1));
+    } else if (e.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        ref={inputRef}
+        id={id}
+        placeholder='e.g. status:"In Review" created:>2025-01-01 -tag:referral'
+        value={value}
+        autoComplete="off"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart ?? e.target.value.length);
+          setIsOpen(true);
+          setActiveIndex(0);
+        }}
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? value.length)}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        aria-invalid={!!syntaxError}
+      />
+      {hints.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full overflow-hidden rounded-md border border-gray-200 bg-white py-1 shadow-md">
+          {hints.map((hint, index) => (
+            <li
+              key={hint.insert}
+              // Keep focus in the input so the click doesn't close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(index);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex cursor-pointer items-center justify-between px-3 py-1.5 text-sm ${
+                index === activeIndex ? "bg-gray-100" : ""
+              }`}
+            >
+              <span className="font-mono text-gray-900">{hint.label}</span>
+              {hint.description && <span className="ml-3 text-xs text-gray-500">{hint.description}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {syntaxError && (
+        <p className="mt-1 text-sm font-medium text-destructive">
+          {syntaxError.message} (at character {syntaxError.position + 1})
+        </p>
+      )}
+    </div>
+  );
+}
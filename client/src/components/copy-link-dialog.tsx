@@ -0,0 +1,50 @@
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Copy } from "lucide-react";
+
+interface CopyLinkDialogProps {
+  title: string;
+  description: string;
+  // Open while set
+  link: string | null;
+  onClose: () => void;
+}
+
+// Shows a one-time link, such as an invitation, for an admin to pass on
+export default function CopyLinkDialog({ title, description, link, onClose }: CopyLinkDialogProps) {
+  const { toast } = useToast();
+
+  const copyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: "Copied", description: "The link is on your clipboard" });
+    } catch {
+      toast({ title: "Couldn't copy", description: "Select the link and copy it instead", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={link !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-600">{description}</p>
+        <div className="flex gap-2">
+          <Input readOnly value={link ?? ""} onFocus={(e) => e.target.select()} aria-label="Link" />
+          <Button type="button" variant="outline" size="icon" title="Copy link" onClick={copyLink}>
+            <Copy className="w-4 h-4" />
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button type="button" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
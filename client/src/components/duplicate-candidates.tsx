@@ -0,0 +1,37 @@
+import type { ReactNode } from "react";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { DUPLICATE_REASON_LABELS, type DuplicateMatch } from "@shared/duplicates";
+
+interface DuplicateCandidatesProps {
+  matches: DuplicateMatch[];
+  // Extra control shown next to each match, e.g. a merge link
+  action?: (match: DuplicateMatch) => ReactNode;
+}
+
+export default function DuplicateCandidates({ matches, action }: DuplicateCandidatesProps) {
+  return (
+    <ul className="space-y-2">
+      {matches.map((match) => (
+        <li key={match.candidate.id} className="flex items-center justify-between gap-3 text-sm">
+          <div className="min-w-0">
+            <Link href={`/candidates/${match.candidate.id}`} className="font-medium text-primary hover:text-primary/90">
+              {match.candidate.name}
+            </Link>
+            <p className="truncate text-xs text-gray-600">
+              {match.candidate.email} · {match.candidate.phone} · {match.candidate.positionApplied}
+            </p>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {match.reasons.map((reason) => (
+                <Badge key={reason} variant="outline" className="text-xs">
+                  {DUPLICATE_REASON_LABELS[reason]}
+                </Badge>
+              ))}
+            </div>
+          </div>
+          {action?.(match)}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,42 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import type { ExportFormat } from "@shared/schema";
+
+interface ExportMenuProps {
+  exportUrl: (format: ExportFormat) => string;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  jsonl: "JSON Lines",
+};
+
+// Plain download links, so the browser streams the file straight to disk
+export default function ExportMenu({ exportUrl }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={exportUrl(format)} download>
+              {FORMAT_LABELS[format]}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
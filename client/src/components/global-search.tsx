@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { errorMessage } from "@/lib/queryClient";
+import { Search } from "lucide-react";
+import { SEARCH_SOURCE_LABELS, type SearchMatch, type SearchResult } from "@shared/search";
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 250;
+
+function MatchSnippet({ match }: { match: SearchMatch }) {
+  return (
+    <p className="mt-1 text-xs text-gray-600">
+      <span className="mr-1 font-medium text-gray-500">{SEARCH_SOURCE_LABELS[match.source]}:</span>
+      {match.snippet.map((part, index) =>
+        part.highlight ? (
+          <mark key={index} className="rounded bg-yellow-100 px-0.5 text-gray-900">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </p>
+  );
+}
+
+// Sidebar entry and Ctrl/⌘+K dialog searching candidate profiles, resumes and notes
+export default function GlobalSearch() {
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(text.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text]);
+
+  const { data: results, isFetching, error } = useQuery<SearchResult[]>({
+    queryKey: [`/api/search?q=${encodeURIComponent(query)}`],
+    enabled: open && query.length > 0,
+    placeholderData: keepPreviousData,
+    // Results change whenever candidates or notes do
+    staleTime: 0,
+    retry: false,
+  });
+
+  const openResult = (result: SearchResult) => {
+    setOpen(false);
+    const [best] = result.matches;
+    navigate(`/candidates/${result.candidate.id}${best?.source === "note" ? "?tab=notes" : ""}`);
+  };
+
+  return (
+    <>
+      <Button variant="ghost" className="w-full justify-start text-gray-700" onClick={() => setOpen(true)}>
+        <Search className="w-5 h-5 mr-3" />
+        Search
+        <kbd className="ml-auto rounded border border-gray-200 px-1.5 text-xs text-gray-500">Ctrl K</kbd>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <DialogTitle className="sr-only">Search candidates</DialogTitle>
+          {/* The server ranks results, so cmdk's own filtering is off */}
+          <Command shouldFilter={false}>
+            <CommandInput
+              placeholder='Search profiles, resumes and notes, e.g. "react native" -intern'
+              value={text}
+              onValueChange={setText}
+            />
+            <CommandList className="max-h-[28rem]">
+              {query.length > 0 && !isFetching && (
+                <CommandEmpty>{error ? errorMessage(error) : "No candidates found."}</CommandEmpty>
+              )}
+              {query.length > 0 && results && results.length > 0 && (
+                <CommandGroup heading="Candidates">
+                  {results.map((result) => (
+                    <CommandItem
+                      key={result.candidate.id}
+                      value={String(result.candidate.id)}
+                      onSelect={() => openResult(result)}
+                      className="block"
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900">{result.candidate.name}</span>
+                        <span className="text-xs text-gray-500">
+                          {result.candidate.positionApplied} · {result.candidate.status}
+                        </span>
+                      </div>
+                      {result.matches.map((match) => (
+                        <MatchSnippet key={`${match.source}-${match.noteId ?? ""}`} match={match} />
+                      ))}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect } from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface ListPaginationProps {
+  total: number;
+  limit: number;
+  offset: number;
+  onOffsetChange: (offset: number) => void;
+}
+
+// First, last and the pages around the current one; null marks a gap
+function visiblePages(current: number, count: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let page = 0; page < count; page++) {
+    if (page === 0 || page === count - 1 || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+}
+
+export default function ListPagination({ total, limit, offset, onOffsetChange }: ListPaginationProps) {
+  const current = Math.floor(offset / limit);
+  const count = Math.ceil(total / limit);
+  const disabledClass = "pointer-events-none opacity-50";
+
+  // Deleting the last row of the last page would otherwise leave it empty
+  useEffect(() => {
+    if (offset > 0 && offset >= total) {
+      onOffsetChange(Math.max(0, count - 1) * limit);
+    }
+  }, [offset, total, count, limit, onOffsetChange]);
+
+  return (
+    <div className="flex items-center justify-between border-t border-gray-200 px-6 py-3">
+      <p className="text-sm text-gray-600 whitespace-nowrap">
+        Showing {total === 0 ? 0 : offset + 1}–{Math.min(offset + limit, total)} of {total}
+      </p>
+      {count > 1 && (
+        <Pagination className="mx-0 w-auto justify-end">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                className={current === 0 ? disabledClass : "cursor-pointer"}
+                aria-disabled={current === 0}
+                onClick={() => onOffsetChange((current - 1) * limit)}
+              />
+            </PaginationItem>
+            {visiblePages(current, count).map((page, index) => (
+              <PaginationItem key={page ?? `gap-${index}`}>
+                {page === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink
+                    className="cursor-pointer"
+                    isActive={page === current}
+                    onClick={() => onOffsetChange(page * limit)}
+                  >
+                    {page + 1}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                className={current >= count - 1 ? disabledClass : "cursor-pointer"}
+                aria-disabled={current >= count - 1}
+                onClick={() => onOffsetChange((current + 1) * limit)}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+}
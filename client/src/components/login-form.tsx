@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// Email and password sign-in (AUTH_STRATEGY=local). Signing in refetches the
+// user, which renders whatever page the visitor is on.
+export default function LoginForm() {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const loginMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/login", { email, password });
+    },
+    onSuccess: () => {
+      setPassword("");
+      queryClient.resetQueries();
+    },
+  });
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        loginMutation.mutate();
+      }}
+    >
+      <div>
+        <Label htmlFor="login-email">Email</Label>
+        <Input
+          id="login-email"
+          type="email"
+          autoComplete="username"
+          value={email}
+          maxLength={254}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+      </div>
+      <div>
+        <Label htmlFor="login-password">Password</Label>
+        <Input
+          id="login-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          maxLength={200}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+      </div>
+      {loginMutation.error && <p className="text-sm text-red-600">{errorMessage(loginMutation.error)}</p>}
+      <Button
+        type="submit"
+        disabled={!email.trim() || !password || loginMutation.isPending}
+        className="w-full bg-primary hover:bg-primary/90 text-white"
+      >
+        {loginMutation.isPending ? "Signing in..." : "Sign In"}
+      </Button>
+      <p className="text-xs text-gray-500 text-center">Forgot your password? Ask an admin for a reset link.</p>
+    </form>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+import type { NotificationWithActor } from "@shared/schema";
+
+export default function NotificationsMenu() {
+  const [, navigate] = useLocation();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const { data: notifications } = useQuery<NotificationWithActor[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60_000,
+    retry: false,
+  });
+  const unreadCount = notifications?.filter((notification) => !notification.readAt).length ?? 0;
+
+  const readMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const readAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const openNotification = (notification: NotificationWithActor) => {
+    if (!notification.readAt) {
+      readMutation.mutate(notification.id);
+    }
+    setOpen(false);
+    if (notification.candidateId) {
+      navigate(`/candidates/${notification.candidateId}?tab=notes`);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" className="w-full justify-start text-gray-700">
+          <Bell className="w-5 h-5 mr-3" />
+          Notifications
+          {unreadCount > 0 && (
+            <span className="ml-auto rounded-full bg-red-600 px-2 text-xs font-semibold text-white">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b border-gray-200 px-4 py-2">
+          <span className="text-sm font-semibold text-gray-900">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => readAllMutation.mutate()}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {!notifications?.length ? (
+          <div className="p-4 text-center text-sm text-gray-500">No notifications</div>
+        ) : (
+          <ul className="max-h-96 divide-y divide-gray-100 overflow-y-auto">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className={`block w-full px-4 py-3 text-left text-sm hover:bg-gray-50 ${
+                    notification.readAt ? "text-gray-500" : "bg-blue-50 text-gray-900"
+                  }`}
+                >
+                  <p>{notification.message}</p>
+                  {notification.createdAt && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+import type { Organization } from "@shared/schema";
+
+// Switches the organization the user works in. Everything cached belongs to
+// the previous one, so the cache is cleared and the dashboard reloaded.
+export default function OrganizationSwitcher() {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const handleError = (error: Error, title: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title, description: errorMessage(error), variant: "destructive" });
+  };
+
+  const enterOrganization = () => {
+    navigate("/");
+    queryClient.resetQueries();
+  };
+
+  const switchMutation = useMutation({
+    mutationFn: async (organizationId: number) => {
+      await apiRequest("PUT", "/api/organizations/current", { organizationId });
+    },
+    onSuccess: enterOrganization,
+    onError: (error) => handleError(error, "Failed to switch organization"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/organizations", { name });
+      return (await response.json()) as Organization;
+    },
+    onSuccess: (organization) => {
+      setIsCreateOpen(false);
+      setName("");
+      enterOrganization();
+      toast({ title: "Success", description: `Switched to ${organization.name}` });
+    },
+    onError: (error) => handleError(error, "Failed to create organization"),
+  });
+
+  return (
+    <div className="flex items-center gap-2 border-b border-gray-200 p-4">
+      <Select
+        value={user?.organizationId ? String(user.organizationId) : ""}
+        disabled={switchMutation.isPending}
+        onValueChange={(value) => switchMutation.mutate(Number(value))}
+      >
+        <SelectTrigger aria-label="Organization">
+          <SelectValue placeholder="Organization" />
+        </SelectTrigger>
+        <SelectContent>
+          {organizations.map((organization) => (
+            <SelectItem key={organization.id} value={String(organization.id)}>
+              {organization.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {can("users:manage") && (
+        <Button variant="outline" size="icon" title="New organization" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Organization</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div>
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                value={name}
+                maxLength={100}
+                placeholder="e.g. Acme Recruiting"
+                onChange={(e) => setName(e.target.value)}
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                It starts empty and only you are a member; invite others from the Users page.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!name.trim() || createMutation.isPending}
+                className="bg-primary hover:bg-primary/90 text-white"
+              >
+                {createMutation.isPending ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
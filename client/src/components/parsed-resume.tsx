@@ -0,0 +1,57 @@
+import { Badge } from "@/components/ui/badge";
+import type { ParsedResume } from "@shared/schema";
+
+interface ParsedResumeDetailsProps {
+  parsedResume: ParsedResume;
+}
+
+export default function ParsedResumeDetails({ parsedResume }: ParsedResumeDetailsProps) {
+  const { skills, employers, education } = parsedResume;
+
+  if (!skills.length && !employers.length && !education.length) {
+    return <p className="text-sm text-gray-500">Nothing could be read from the uploaded resume</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {skills.length > 0 && (
+        <div>
+          <h4 className="mb-2 text-xs font-semibold uppercase text-gray-500">Skills</h4>
+          <div className="flex flex-wrap gap-1">
+            {skills.map((skill) => (
+              <Badge key={skill} variant="secondary">{skill}</Badge>
+            ))}
+          </div>
+        </div>
+      )}
+      {employers.length > 0 && (
+        <div>
+          <h4 className="mb-2 text-xs font-semibold uppercase text-gray-500">Experience</h4>
+          <ul className="space-y-1 text-sm text-gray-700">
+            {employers.map((employer, index) => (
+              <li key={index}>
+                <span className="font-medium text-gray-900">{employer.name}</span>
+                {employer.title && ` · ${employer.title}`}
+                {employer.period && <span className="text-gray-500"> ({employer.period})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {education.length > 0 && (
+        <div>
+          <h4 className="mb-2 text-xs font-semibold uppercase text-gray-500">Education</h4>
+          <ul className="space-y-1 text-sm text-gray-700">
+            {education.map((entry, index) => (
+              <li key={index}>
+                <span className="font-medium text-gray-900">{entry.institution}</span>
+                {entry.degree && ` · ${entry.degree}`}
+                {entry.period && <span className="text-gray-500"> ({entry.period})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { usePipelines } from "@/hooks/usePipelines";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { fetchPage } from "@/lib/pagination";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { Candidate, Position } from "@shared/schema";
+
+interface PositionDeleteDialogProps {
+  // The position being deleted; the dialog is closed while this is null
+  position: Position | null;
+  onClose: () => void;
+  onArchive: (position: Position) => void;
+}
+
+type DeletePolicy = "archive" | "reassign";
+
+// Confirms a delete, and when candidates applied for the position offers to
+// archive it instead or move them to another position first
+export default function PositionDeleteDialog({ position, onClose, onArchive }: PositionDeleteDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { positions } = usePipelines();
+  const [policy, setPolicy] = useState<DeletePolicy>("archive");
+  const [reassignTo, setReassignTo] = useState("");
+
+  useEffect(() => {
+    setPolicy("archive");
+    setReassignTo("");
+  }, [position?.id]);
+
+  const { data: page, isLoading } = useQuery({
+    queryKey: ["/api/candidates", "count", position?.id],
+    queryFn: () =>
+      fetchPage<Candidate>("/api/candidates", new URLSearchParams({ positionId: String(position!.id), limit: "1" })),
+    enabled: !!position,
+    // The count must be current when deciding what to do
+    staleTime: 0,
+    retry: false,
+  });
+  const candidateCount = page?.total ?? 0;
+  const targets = positions.filter((p) => p.id !== position?.id && !p.archivedAt);
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const query = candidateCount > 0 ? `?reassignTo=${reassignTo}` : "";
+      await apiRequest("DELETE", `/api/positions/${position!.id}${query}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Success",
+        description:
+          candidateCount > 0
+            ? `Moved ${candidateCount} candidate${candidateCount === 1 ? "" : "s"} and deleted the position`
+            : "Position deleted successfully",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      // A 409 means candidates were added meanwhile; show the new count
+      queryClient.invalidateQueries({ queryKey: ["/api/candidates", "count", position?.id] });
+      toast({
+        title: "Failed to delete position",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleConfirm = () => {
+    if (candidateCount > 0 && policy === "archive") {
+      onArchive(position!);
+      onClose();
+    } else {
+      deleteMutation.mutate();
+    }
+  };
+
+  const confirmLabel =
+    candidateCount === 0 ? "Delete" : policy === "archive" ? "Archive" : "Move and Delete";
+
+  return (
+    <Dialog open={!!position} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Delete "{position?.title}"?</DialogTitle>
+          <DialogDescription>
+            {isLoading
+              ? "Checking for candidates..."
+              : candidateCount === 0
+                ? "No candidates have applied for this position. This can't be undone."
+                : `${candidateCount} candidate${candidateCount === 1 ? " has" : "s have"} applied for this position, so it can't simply be deleted.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isLoading && candidateCount > 0 && (
+          <RadioGroup value={policy} onValueChange={(value) => setPolicy(value as DeletePolicy)} className="gap-4">
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="archive" id="policy-archive" className="mt-1" />
+              <Label htmlFor="policy-archive" className="font-normal">
+                <span className="font-medium">Archive it instead</span>
+                <span className="block text-sm text-gray-500">
+                  It's hidden from the positions list and new candidates; its candidates keep it, and it can be
+                  restored later.
+                </span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-2">
+              <RadioGroupItem value="reassign" id="policy-reassign" className="mt-1" />
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="policy-reassign" className="font-normal">
+                  <span className="font-medium">Move the candidates, then delete it</span>
+                  <span className="block text-sm text-gray-500">
+                    They keep their status, which must be a stage of the new position's pipeline.
+                  </span>
+                </Label>
+                {policy === "reassign" && (
+                  <Select value={reassignTo} onValueChange={setReassignTo}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select Position" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {targets.map((target) => (
+                        <SelectItem key={target.id} value={String(target.id)}>
+                          {target.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+          </RadioGroup>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant={candidateCount > 0 && policy === "archive" ? "default" : "destructive"}
+            disabled={
+              isLoading ||
+              deleteMutation.isPending ||
+              (candidateCount > 0 && policy === "reassign" && !reassignTo)
+            }
+            onClick={handleConfirm}
+          >
+            {deleteMutation.isPending ? "Deleting..." : confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
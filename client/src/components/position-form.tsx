@@ -2,8 +2,9 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { usePipelines } from "@/hooks/usePipelines";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
 import { insertPositionSchema, type Position } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -23,6 +24,7 @@ export default function PositionForm({ position, onClose }: PositionFormProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const isEditing = !!position;
+  const { pipelines } = usePipelines();
 
   const form = useForm({
     resolver: zodResolver(insertPositionSchema),
@@ -32,6 +34,7 @@ export default function PositionForm({ position, onClose }: PositionFormProps) {
       description: position?.description || "",
       location: position?.location || "",
       status: position?.status || "Active",
+      pipelineId: position?.pipelineId ?? null,
     },
   });
 
@@ -65,8 +68,8 @@ export default function PositionForm({ position, onClose }: PositionFormProps) {
         return;
       }
       toast({
-        title: "Error",
-        description: `Failed to ${isEditing ? "update" : "create"} position`,
+        title: `Failed to ${isEditing ? "update" : "create"} position`,
+        description: errorMessage(error),
         variant: "destructive",
       });
     },
@@ -184,6 +187,37 @@ export default function PositionForm({ position, onClose }: PositionFormProps) {
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="pipelineId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Hiring Pipeline</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === "default" ? null : parseInt(value))}
+                  defaultValue={field.value ? String(field.value) : "default"}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="default">Default pipeline</SelectItem>
+                    {pipelines
+                      .filter((pipeline) => !pipeline.isDefault)
+                      .map((pipeline) => (
+                        <SelectItem key={pipeline.id} value={String(pipeline.id)}>
+                          {pipeline.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <div className="flex space-x-3 pt-4">
             <Button
               type="submit"
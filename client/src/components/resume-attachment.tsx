@@ -0,0 +1,142 @@
+import { useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { formatFileSize, resumeFileError, uploadResume } from "@/lib/candidates";
+import { Button } from "@/components/ui/button";
+import { Download, FileText, Trash2, Upload } from "lucide-react";
+import { MAX_RESUME_BYTES, RESUME_CONTENT_TYPES, type Candidate } from "@shared/schema";
+
+interface ResumeAttachmentProps {
+  candidate: Candidate;
+}
+
+export default function ResumeAttachment({ candidate }: ResumeAttachmentProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/candidates/${candidate.id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/candidates"] });
+  };
+
+  const onError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: errorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadResume(candidate.id, file),
+    onSuccess,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/candidates/${candidate.id}/resume`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (inputRef.current) {
+      inputRef.current.value = "";
+    }
+    if (!file) {
+      return;
+    }
+    const error = resumeFileError(file);
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  return (
+    <div className="space-y-4">
+      {candidate.resumeFileKey ? (
+        <div className="flex items-center justify-between rounded-md border border-gray-200 p-4">
+          <div className="flex items-center">
+            <FileText className="w-8 h-8 mr-3 text-gray-400" />
+            <div>
+              <p className="text-sm font-medium text-gray-900">{candidate.resumeFileName}</p>
+              <p className="text-xs text-gray-500">
+                {candidate.resumeFileSize != null && formatFileSize(candidate.resumeFileSize)}
+                {candidate.resumeUploadedAt &&
+                  ` · Uploaded ${format(new Date(candidate.resumeUploadedAt), "MMM d, yyyy")}`}
+              </p>
+            </div>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="ghost" size="sm" asChild>
+              <a href={`/api/candidates/${candidate.id}/resume`}>
+                <Download className="w-4 h-4" />
+              </a>
+            </Button>
+            {can("candidates:manage") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={removeMutation.isPending}
+                onClick={() => {
+                  if (confirm("Are you sure you want to remove this resume?")) {
+                    removeMutation.mutate();
+                  }
+                }}
+                className="text-red-600 hover:text-red-900"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <p className="text-center text-sm text-gray-500">No resume uploaded</p>
+      )}
+
+      {can("candidates:manage") && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={Object.keys(RESUME_CONTENT_TYPES).join(",")}
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button
+            variant="outline"
+            disabled={uploadMutation.isPending}
+            onClick={() => inputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {uploadMutation.isPending
+              ? "Uploading..."
+              : candidate.resumeFileKey ? "Replace Resume" : "Upload Resume"}
+          </Button>
+          <p className="text-xs text-gray-500">PDF or DOCX, up to {formatFileSize(MAX_RESUME_BYTES)}</p>
+        </>
+      )}
+    </div>
+  );
+}
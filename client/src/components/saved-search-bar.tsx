@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useSavedSearches } from "@/hooks/useSavedSearches";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { CandidateListFilters } from "@/lib/candidates";
+import type { PageRequest } from "@/lib/pagination";
+import {
+  isSavedSearchModified,
+  SAVED_SEARCHES_QUERY_KEY,
+  savedSearchHref,
+  savedSearchValues,
+} from "@/lib/savedSearches";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bookmark, ChevronDown, Pin, PinOff, Save, Trash2, Users, X } from "lucide-react";
+import type { InsertSavedSearch, SavedSearch, SavedSearchWithCount } from "@shared/schema";
+import type { CandidateSortField } from "@shared/pagination";
+
+interface SavedSearchBarProps {
+  // The saved search opened from ?saved=, if any
+  active: SavedSearchWithCount | undefined;
+  filters: CandidateListFilters;
+  request: PageRequest<CandidateSortField>;
+  onClear: () => void;
+}
+
+// Picks, saves, shares and pins named candidate list filters
+export default function SavedSearchBar({ active, filters, request, onClear }: SavedSearchBarProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+  const { savedSearches } = useSavedSearches();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [shared, setShared] = useState(false);
+
+  const isOwner = !!active && active.ownerId === user?.id;
+  const isModified = !!active && isSavedSearchModified(active, filters, request);
+
+  const handleError = (error: Error, action: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: `Failed to ${action} saved search`,
+      description: errorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/saved-searches", {
+        ...savedSearchValues(filters, request),
+        name,
+        shared,
+      });
+      return (await response.json()) as SavedSearch;
+    },
+    onSuccess: (savedSearch) => {
+      queryClient.invalidateQueries({ queryKey: SAVED_SEARCHES_QUERY_KEY });
+      setIsSaveOpen(false);
+      navigate(savedSearchHref(savedSearch));
+      toast({
+        title: "Success",
+        description: `Saved "${savedSearch.name}"`,
+      });
+    },
+    onError: (error) => handleError(error, "save"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (values: Partial<InsertSavedSearch>) => {
+      await apiRequest("PUT", `/api/saved-searches/${active!.id}`, values);
+    },
+    onSuccess: (_, values) => {
+      queryClient.invalidateQueries({ queryKey: SAVED_SEARCHES_QUERY_KEY });
+      toast({
+        title: "Success",
+        description:
+          values.shared === undefined
+            ? `Updated "${active!.name}"`
+            : values.shared
+              ? `"${active!.name}" is now shared with your team`
+              : `"${active!.name}" is no longer shared`,
+      });
+    },
+    onError: (error) => handleError(error, "update"),
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: async (pinned: boolean) => {
+      await apiRequest("PUT", `/api/saved-searches/${active!.id}/pin`, { pinned });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SAVED_SEARCHES_QUERY_KEY });
+    },
+    onError: (error) => handleError(error, "pin"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/saved-searches/${active!.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SAVED_SEARCHES_QUERY_KEY });
+      onClear();
+      toast({
+        title: "Success",
+        description: "Saved search deleted",
+      });
+    },
+    onError: (error) => handleError(error, "delete"),
+  });
+
+  const openSaveDialog = () => {
+    setName(active && isModified ? `${active.name} (copy)` : "");
+    setShared(false);
+    setIsSaveOpen(true);
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete the saved search "${active!.name}"?`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="w-4 h-4 mr-2" />
+            {active ? active.name : "Saved Searches"}
+            <ChevronDown className="w-4 h-4 ml-2" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72">
+          {savedSearches.length === 0 ? (
+            <DropdownMenuLabel className="font-normal text-gray-500">No saved searches yet</DropdownMenuLabel>
+          ) : (
+            savedSearches.map((savedSearch) => (
+              <DropdownMenuItem key={savedSearch.id} onSelect={() => navigate(savedSearchHref(savedSearch))}>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{savedSearch.name}</p>
+                  {savedSearch.ownerId !== user?.id ? (
+                    <p className="text-xs text-gray-500">
+                      Shared by {savedSearch.owner?.firstName ?? savedSearch.owner?.email ?? "a teammate"}
+                    </p>
+                  ) : (
+                    savedSearch.shared && <p className="text-xs text-gray-500">Shared with your team</p>
+                  )}
+                </div>
+                <span className="ml-2 text-xs text-gray-500">{savedSearch.count}</span>
+              </DropdownMenuItem>
+            ))
+          )}
+          {active && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={onClear}>
+                <X className="w-4 h-4 mr-2" />
+                Clear Filters
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {active && isModified && <Badge variant="secondary">Modified</Badge>}
+      {active && isOwner && isModified && (
+        <Button
+          variant="outline"
+          disabled={updateMutation.isPending}
+          onClick={() => updateMutation.mutate(savedSearchValues(filters, request))}
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {updateMutation.isPending ? "Saving..." : "Save Changes"}
+        </Button>
+      )}
+      {(!active || isModified) && (
+        <Button variant="outline" onClick={openSaveDialog}>
+          <Bookmark className="w-4 h-4 mr-2" />
+          {active ? "Save as New" : "Save Search"}
+        </Button>
+      )}
+      {active && (
+        <Button
+          variant="ghost"
+          disabled={pinMutation.isPending}
+          onClick={() => pinMutation.mutate(!active.pinned)}
+        >
+          {active.pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+          {active.pinned ? "Unpin" : "Pin to Sidebar"}
+        </Button>
+      )}
+      {active && isOwner && (
+        <Button
+          variant="ghost"
+          disabled={updateMutation.isPending}
+          onClick={() => updateMutation.mutate({ shared: !active.shared })}
+        >
+          <Users className="w-4 h-4 mr-2" />
+          {active.shared ? "Stop Sharing" : "Share"}
+        </Button>
+      )}
+      {active && isOwner && (
+        <Button
+          variant="ghost"
+          disabled={deleteMutation.isPending}
+          onClick={handleDelete}
+          className="text-red-600 hover:text-red-900"
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete
+        </Button>
+      )}
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save Search</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div>
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                maxLength={100}
+                placeholder="e.g. Shortlisted backend developers"
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="saved-search-shared"
+                checked={shared}
+                onCheckedChange={(checked) => setShared(checked === true)}
+              />
+              <Label htmlFor="saved-search-shared" className="font-normal">
+                Share with your team
+              </Label>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveOpen(false)}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={!name.trim() || createMutation.isPending}
+                className="bg-primary hover:bg-primary/90 text-white"
+              >
+                {createMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
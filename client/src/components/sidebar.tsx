@@ -1,9 +1,18 @@
-import { Link, useLocation } from "wouter";
-import { BarChart3, Briefcase, Users, LogOut } from "lucide-react";
+import { Link, useLocation, useSearch } from "wouter";
+import { BarChart3, Briefcase, Users, Kanban, LogOut, Bookmark, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import GlobalSearch from "@/components/global-search";
+import NotificationsMenu from "@/components/notifications-menu";
+import OrganizationSwitcher from "@/components/organization-switcher";
+import { useAuth } from "@/hooks/useAuth";
+import { useSavedSearches } from "@/hooks/useSavedSearches";
+import { savedSearchHref } from "@/lib/savedSearches";
 
 export default function Sidebar() {
   const [location] = useLocation();
+  const search = useSearch();
+  const { can } = useAuth();
+  const { pinnedSearches } = useSavedSearches();
 
   const handleLogout = () => {
     window.location.href = "/api/logout";
@@ -13,6 +22,8 @@ export default function Sidebar() {
     { path: "/", label: "Dashboard", icon: BarChart3 },
     { path: "/positions", label: "Positions", icon: Briefcase },
     { path: "/candidates", label: "Candidates", icon: Users },
+    { path: "/pipeline", label: "Pipeline", icon: Kanban },
+    ...(can("users:manage") ? [{ path: "/users", label: "Users", icon: ShieldCheck }] : []),
   ];
 
   return (
@@ -21,11 +32,13 @@ export default function Sidebar() {
         <div className="flex h-16 items-center justify-center border-b border-gray-200">
           <h1 className="text-xl font-bold text-gray-900">RecruiterHub</h1>
         </div>
+        <OrganizationSwitcher />
         
-        <nav className="flex-1 space-y-1 p-4">
+        <nav className="flex-1 space-y-1 overflow-y-auto p-4">
           {navItems.map((item) => {
             const Icon = item.icon;
-            const isActive = location === item.path;
+            const isActive =
+              location === item.path || (item.path !== "/" && location.startsWith(`${item.path}/`));
             
             return (
               <Link key={item.path} href={item.path} asChild>
@@ -42,9 +55,35 @@ export default function Sidebar() {
               </Link>
             );
           })}
+
+          {pinnedSearches.length > 0 && (
+            <div className="pt-4">
+              <p className="px-4 pb-1 text-xs font-semibold uppercase tracking-wider text-gray-500">Saved Searches</p>
+              {pinnedSearches.map((savedSearch) => {
+                const isActive = location === "/candidates" && search === `saved=${savedSearch.id}`;
+                return (
+                  <Link key={savedSearch.id} href={savedSearchHref(savedSearch)} asChild>
+                    <div
+                      className={`flex items-center rounded-lg px-4 py-2 text-sm transition-colors cursor-pointer ${
+                        isActive
+                          ? "bg-blue-100 text-blue-800 font-semibold"
+                          : "text-gray-700 hover:bg-gray-50 hover:text-gray-900"
+                      }`}
+                    >
+                      <Bookmark className="w-4 h-4 mr-3 shrink-0" />
+                      <span className="truncate">{savedSearch.name}</span>
+                      <span className="ml-auto pl-2 text-xs text-gray-500">{savedSearch.count}</span>
+                    </div>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
         </nav>
         
-        <div className="border-t border-gray-200 p-4">
+        <div className="space-y-1 border-t border-gray-200 p-4">
+          <GlobalSearch />
+          <NotificationsMenu />
           <Button
             onClick={handleLogout}
             variant="ghost"
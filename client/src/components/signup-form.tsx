@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface SignupFormProps {
+  // The invitation's token; without one this creates the first account of a
+  // new install and asks for the email
+  token?: string;
+  onSignedUp?: () => void;
+}
+
+// Creates a local account and signs in with it
+export default function SignupForm({ token, onSignedUp }: SignupFormProps) {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const mismatch = confirmation !== "" && password !== confirmation;
+
+  const signupMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/signup", {
+        token,
+        email: token ? undefined : email,
+        firstName,
+        lastName,
+        password,
+      });
+    },
+    onSuccess: () => {
+      onSignedUp?.();
+      queryClient.resetQueries();
+    },
+  });
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        signupMutation.mutate();
+      }}
+    >
+      {!token && (
+        <div>
+          <Label htmlFor="signup-email">Email</Label>
+          <Input
+            id="signup-email"
+            type="email"
+            autoComplete="username"
+            value={email}
+            maxLength={254}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="signup-first-name">First name</Label>
+          <Input
+            id="signup-first-name"
+            autoComplete="given-name"
+            value={firstName}
+            maxLength={100}
+            onChange={(e) => setFirstName(e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="signup-last-name">Last name</Label>
+          <Input
+            id="signup-last-name"
+            autoComplete="family-name"
+            value={lastName}
+            maxLength={100}
+            onChange={(e) => setLastName(e.target.value)}
+          />
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="signup-password">Password</Label>
+        <Input
+          id="signup-password"
+          type="password"
+          autoComplete="new-password"
+          value={password}
+          maxLength={200}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <p className="mt-1 text-xs text-gray-500">At least 8 characters</p>
+      </div>
+      <div>
+        <Label htmlFor="signup-confirmation">Confirm password</Label>
+        <Input
+          id="signup-confirmation"
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          maxLength={200}
+          onChange={(e) => setConfirmation(e.target.value)}
+        />
+        {mismatch && <p className="mt-1 text-sm text-red-600">Passwords don't match</p>}
+      </div>
+      {signupMutation.error && <p className="text-sm text-red-600">{errorMessage(signupMutation.error)}</p>}
+      <Button
+        type="submit"
+        disabled={
+          (!token && !email.trim()) ||
+          password.length < 8 ||
+          password !== confirmation ||
+          signupMutation.isPending
+        }
+        className="w-full bg-primary hover:bg-primary/90 text-white"
+      >
+        {signupMutation.isPending ? "Creating account..." : "Create Account"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,31 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import type { SortOrder } from "@shared/pagination";
+
+interface SortableHeaderProps<S extends string> {
+  label: string;
+  field: S;
+  sort: S;
+  order: SortOrder;
+  onSort: (field: S) => void;
+}
+
+export default function SortableHeader<S extends string>({ label, field, sort, order, onSort }: SortableHeaderProps<S>) {
+  const active = field === sort;
+  const Icon = !active ? ArrowUpDown : order === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <th
+      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+      aria-sort={active ? (order === "asc" ? "ascending" : "descending") : undefined}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={`inline-flex items-center uppercase tracking-wider hover:text-gray-900 ${active ? "text-gray-900" : ""}`}
+      >
+        {label}
+        <Icon className={`w-3 h-3 ml-1 ${active ? "" : "text-gray-400"}`} />
+      </button>
+    </th>
+  );
+}
@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { usePipelines } from "@/hooks/usePipelines";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight } from "lucide-react";
+import type { CandidateStatusChangeWithActor, UserSummary } from "@shared/schema";
+
+interface StatusTimelineProps {
+  candidateId: number;
+}
+
+function actorName(actor: UserSummary | null) {
+  if (!actor) {
+    return "Unknown user";
+  }
+  const name = [actor.firstName, actor.lastName].filter(Boolean).join(" ");
+  return name || actor.email || actor.id;
+}
+
+export default function StatusTimeline({ candidateId }: StatusTimelineProps) {
+  const { statusClass } = usePipelines();
+
+  const { data: history, isLoading } = useQuery<CandidateStatusChangeWithActor[]>({
+    queryKey: [`/api/candidates/${candidateId}/history`],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <div className="text-sm text-gray-500">Loading history...</div>;
+  }
+
+  if (!history?.length) {
+    return <div className="text-sm text-gray-500">No status changes recorded yet</div>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {history.map((change) => (
+        <li key={change.id} className="ml-4">
+          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+          <div className="flex items-center gap-2 text-sm">
+            {change.fromStatus ? (
+              <>
+                <Badge className={statusClass(change.fromStatus)}>{change.fromStatus}</Badge>
+                <ArrowRight className="w-3 h-3 text-gray-400" />
+              </>
+            ) : (
+              <span className="text-gray-600">Created as</span>
+            )}
+            <Badge className={statusClass(change.toStatus)}>{change.toStatus}</Badge>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {actorName(change.actor)}
+            {change.createdAt && ` · ${format(new Date(change.createdAt), "MMM d, yyyy h:mm a")}`}
+          </p>
+          {change.reason && <p className="mt-1 text-sm text-gray-700">{change.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import CopyLinkDialog from "@/components/copy-link-dialog";
+import { Trash2 } from "lucide-react";
+import { DEFAULT_ROLE, ROLES, ROLE_LABELS, type Role } from "@shared/permissions";
+import type { InvitationWithInviter } from "@shared/schema";
+
+type CreatedInvitation = InvitationWithInviter & { token: string };
+
+// Invites people to the current organization by email. The link is shown once,
+// when the invitation is created; the admin sends it on themselves.
+export default function UserInvitations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>(DEFAULT_ROLE);
+  const [link, setLink] = useState<string | null>(null);
+
+  const { data: invitations, isLoading } = useQuery<InvitationWithInviter[]>({
+    queryKey: ["/api/invitations"],
+    retry: false,
+  });
+
+  const handleError = (error: Error, title: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({ title, description: errorMessage(error), variant: "destructive" });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/invitations", { email, role });
+      return (await response.json()) as CreatedInvitation;
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      setEmail("");
+      setRole(DEFAULT_ROLE);
+      setLink(`${window.location.origin}/invite/${invitation.token}`);
+    },
+    onError: (error) => handleError(error, "Failed to invite"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitation: InvitationWithInviter) => {
+      await apiRequest("DELETE", `/api/invitations/${invitation.id}`);
+    },
+    onSuccess: (_, invitation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({ title: "Success", description: `The invitation for ${invitation.email} was revoked` });
+    },
+    onError: (error) => handleError(error, "Failed to revoke invitation"),
+  });
+
+  return (
+    <Card className="bg-white shadow-sm mt-8">
+      <CardHeader>
+        <CardTitle>Invitations</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="flex flex-wrap items-end gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            inviteMutation.mutate();
+          }}
+        >
+          <div className="flex-1 min-w-64">
+            <Label htmlFor="invitation-email">Email</Label>
+            <Input
+              id="invitation-email"
+              type="email"
+              value={email}
+              maxLength={254}
+              placeholder="name@example.com"
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="invitation-role">Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+              <SelectTrigger id="invitation-role" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {ROLE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="submit"
+            disabled={!email.trim() || inviteMutation.isPending}
+            className="bg-primary hover:bg-primary/90 text-white"
+          >
+            {inviteMutation.isPending ? "Inviting..." : "Invite"}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="text-center text-sm text-gray-500">Loading invitations...</div>
+        ) : !invitations?.length ? (
+          <div className="text-center text-sm text-gray-500">No pending invitations</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Email
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Invited by
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Expires
+                  </th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {invitations.map((invitation) => {
+                  const expiresAt = new Date(invitation.expiresAt);
+                  return (
+                    <tr key={invitation.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {invitation.email}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {ROLE_LABELS[invitation.role]}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {invitation.invitedBy
+                          ? [invitation.invitedBy.firstName, invitation.invitedBy.lastName].filter(Boolean).join(" ") ||
+                            invitation.invitedBy.email
+                          : "—"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {format(expiresAt, "MMM d, yyyy h:mm a")}
+                        {expiresAt.getTime() <= Date.now() && (
+                          <Badge variant="destructive" className="ml-2">
+                            Expired
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Revoke"
+                          disabled={revokeMutation.isPending}
+                          onClick={() => revokeMutation.mutate(invitation)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <CopyLinkDialog
+        title="Invitation created"
+        description="Send this link to the person you invited. It works once and expires in 7 days, and it won't be shown again."
+        link={link}
+        onClose={() => setLink(null)}
+      />
+    </Card>
+  );
+}
@@ -1,7 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
+import type { AuthConfig, AuthUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery({
+  const { data: user, isLoading } = useQuery<AuthUser>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -10,5 +12,16 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    // Only hides actions; the server checks the same permission
+    can: (permission: Permission) => !!user?.role && hasPermission(user.role, permission),
   };
 }
+
+// Which sign-in the server uses; available before signing in
+export function useAuthConfig() {
+  const { data: config, isLoading } = useQuery<AuthConfig>({
+    queryKey: ["/api/auth/config"],
+    retry: false,
+  });
+  return { config, isLoading };
+}
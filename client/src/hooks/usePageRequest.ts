@@ -0,0 +1,32 @@
+import { useState } from "react";
+import { DEFAULT_PAGE_SIZE, type SortOrder } from "@shared/pagination";
+import { defaultSortOrder, type PageRequest } from "@/lib/pagination";
+
+// Sort and page state for a paginated table; newest rows first until a column is picked
+export function usePageRequest<S extends string>(initialSort: S) {
+  const [request, setRequest] = useState<PageRequest<S>>({
+    sort: initialSort,
+    order: defaultSortOrder(initialSort),
+    offset: 0,
+    limit: DEFAULT_PAGE_SIZE,
+  });
+
+  // Clicking the sorted column flips it; a new column starts from its natural order
+  const sortBy = (sort: S) =>
+    setRequest({
+      ...request,
+      sort,
+      order: sort === request.sort ? (request.order === "asc" ? "desc" : "asc") : defaultSortOrder(sort),
+      offset: 0,
+    });
+
+  // Restores a stored sort, e.g. from a saved search, on the first page
+  const setSort = (sort: S, order: SortOrder) => setRequest((current) => ({ ...current, sort, order, offset: 0 }));
+
+  const setOffset = (offset: number) => setRequest((current) => ({ ...current, offset }));
+
+  // Filters change which rows exist, so page numbers start over
+  const resetPage = () => setRequest((current) => ({ ...current, offset: 0 }));
+
+  return { request, sortBy, setSort, setOffset, resetPage };
+}
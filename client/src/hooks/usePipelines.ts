@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { findStage, stageBadgeClass } from "@/lib/pipelines";
+import { fetchAllPages } from "@/lib/pagination";
+import type { PipelineWithStages, Position } from "@shared/schema";
+
+export function usePipelines() {
+  const { data: pipelines = [], isLoading } = useQuery<PipelineWithStages[]>({
+    queryKey: ["/api/pipelines"],
+    retry: false,
+  });
+  // Archived positions too, as their candidates still use their pipelines
+  const { data: positions = [] } = useQuery({
+    queryKey: ["/api/positions", "all"],
+    queryFn: () => fetchAllPages<Position>("/api/positions", new URLSearchParams({ archived: "all" })),
+    retry: false,
+  });
+
+  const defaultPipeline = pipelines.find((pipeline) => pipeline.isDefault);
+
+  // Mirrors the server: a position's own pipeline, else the default one
+  const pipelineForPosition = (candidate: { positionId?: number | null }) => {
+    const match = positions.find((position) => position.id === candidate.positionId);
+    return pipelines.find((pipeline) => pipeline.id === match?.pipelineId) ?? defaultPipeline;
+  };
+
+  const statusClass = (status: string, pipeline?: PipelineWithStages) =>
+    stageBadgeClass(findStage(pipelines, status, pipeline)?.color);
+
+  return {
+    pipelines,
+    positions,
+    defaultPipeline,
+    isLoading,
+    pipelineForPosition,
+    statusClass,
+  };
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchSavedSearches, SAVED_SEARCHES_QUERY_KEY } from "@/lib/savedSearches";
+
+// The user's saved searches and teammates' shared ones, with live candidate counts
+export function useSavedSearches() {
+  const { data: savedSearches = [], isLoading } = useQuery({
+    queryKey: SAVED_SEARCHES_QUERY_KEY,
+    queryFn: fetchSavedSearches,
+    // Picks up teammates' changes to shared searches and candidates
+    refetchInterval: 60_000,
+    retry: false,
+  });
+
+  return {
+    savedSearches,
+    pinnedSearches: savedSearches.filter((savedSearch) => savedSearch.pinned),
+    isLoading,
+  };
+}
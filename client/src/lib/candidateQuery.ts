@@ -0,0 +1,109 @@
+import { format, subDays } from "date-fns";
+import { CANDIDATE_QUERY_FIELDS } from "@shared/candidateQuery";
+
+export interface QueryHint {
+  label: string;
+  description?: string;
+  // Replaces the term under the cursor
+  insert: string;
+  // A finished term gets a trailing space; a bare "field:" still needs its value
+  complete: boolean;
+}
+
+export interface QueryHintSources {
+  statuses: string[];
+  positions: string[];
+}
+
+const MAX_HINTS = 8;
+
+function quoteValue(value: string) {
+  return /[\s"]/.test(value) ? `"${value.replace(/["\\]/g, "\\$&")}"` : value;
+}
+
+// Where the term under the cursor starts and ends; spaces inside quotes don't split terms
+function termBounds(input: string, cursor: number) {
+  let start = 0;
+  let quoted = false;
+  for (let i = 0; i < cursor; i++) {
+    if (input[i] === '"') {
+      quoted = !quoted;
+    } else if (!quoted && /\s/.test(input[i])) {
+      start = i + 1;
+    }
+  }
+  let end = cursor;
+  while (end < input.length && (quoted || !/\s/.test(input[end]))) {
+    if (input[end] === '"') {
+      quoted = !quoted;
+    }
+    end++;
+  }
+  return { start, end };
+}
+
+function valueHints(field: string, values: string[], typed: string): QueryHint[] {
+  const needle = typed.replace(/^"/, "").toLowerCase();
+  return values
+    .filter((value) => value.toLowerCase().includes(needle))
+    .map((value) => ({ label: value, insert: `${field}:${quoteValue(value)}`, complete: true }));
+}
+
+function dateHints(field: string): QueryHint[] {
+  const today = new Date();
+  const monthAgo = format(subDays(today, 30), "yyyy-MM-dd");
+  return [
+    { label: `${field}:>${monthAgo}`, description: "In the last 30 days", insert: `${field}:>${monthAgo}`, complete: true },
+    { label: `${field}:<${monthAgo}`, description: "More than 30 days ago", insert: `${field}:<${monthAgo}`, complete: true },
+    {
+      label: `${field}:${format(today, "yyyy-MM-dd")}`,
+      description: "Today",
+      insert: `${field}:${format(today, "yyyy-MM-dd")}`,
+      complete: true,
+    },
+  ];
+}
+
+// Suggestions for the term being typed at `cursor`: field names, then known values for them
+export function candidateQueryHints(input: string, cursor: number, sources: QueryHintSources): QueryHint[] {
+  const { start } = termBounds(input, cursor);
+  const term = input.slice(start, cursor).replace(/^-/, "");
+
+  const fieldMatch = /^([A-Za-z]+):(.*)$/.exec(term);
+  if (!fieldMatch) {
+    // Between terms the list would only get in the way; an empty box lists every field
+    if (!term && input.trim()) {
+      return [];
+    }
+    return CANDIDATE_QUERY_FIELDS.filter(({ field }) => field.startsWith(term.toLowerCase()))
+      .map(({ field, description }) => ({ label: `${field}:`, description, insert: `${field}:`, complete: false }))
+      .slice(0, MAX_HINTS);
+  }
+
+  const [, name, typed] = fieldMatch;
+  const entry = CANDIDATE_QUERY_FIELDS.find(({ field }) => field === name.toLowerCase());
+  if (!entry) {
+    return [];
+  }
+  switch (entry.field) {
+    case "status":
+      return valueHints(entry.field, sources.statuses, typed).slice(0, MAX_HINTS);
+    case "position":
+      return valueHints(entry.field, sources.positions, typed).slice(0, MAX_HINTS);
+    case "created":
+    case "updated":
+      return /^[<>=]*$/.test(typed) ? dateHints(entry.field) : [];
+    default:
+      return [];
+  }
+}
+
+// The input after accepting a hint, and where the cursor goes
+export function applyQueryHint(input: string, cursor: number, hint: QueryHint) {
+  const { start, end } = termBounds(input, cursor);
+  const negation = input[start] === "-" ? "-" : "";
+  const rest = input.slice(end);
+  const separator = hint.complete && !rest.startsWith(" ") ? " " : "";
+  const before = input.slice(0, start) + negation + hint.insert + separator;
+  return { value: before + rest, cursor: before.length + (hint.complete && separator === "" ? 1 : 0) };
+}
@@ -0,0 +1,125 @@
+import {
+  MAX_RESUME_BYTES,
+  RESUME_CONTENT_TYPES,
+  type Candidate,
+  type CandidateWithPosition,
+  type ExportFormat,
+  type ParsedResume,
+  type Position,
+} from "@shared/schema";
+import type { DuplicateMatch } from "@shared/duplicates";
+import type { CandidateSortField, Page } from "@shared/pagination";
+import { fetchAllPages, fetchPage, pageParams, type PageRequest } from "@/lib/pagination";
+
+// Select values, so positionId is an id as a string
+export interface CandidateListFilters {
+  positionId: string;
+  status: string;
+  search: string;
+}
+
+// "all" in a select means no filter on that field
+function candidateFilterParams(filters: CandidateListFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.positionId && filters.positionId !== "all") {
+    params.append("positionId", filters.positionId);
+  }
+  if (filters.status && filters.status !== "all") {
+    params.append("status", filters.status);
+  }
+  if (filters.search) {
+    params.append("search", filters.search);
+  }
+  return params;
+}
+
+// Every candidate matching the filters, for views like the pipeline board
+export function fetchCandidates(filters: CandidateListFilters): Promise<CandidateWithPosition[]> {
+  return fetchAllPages("/api/candidates", candidateFilterParams(filters));
+}
+
+export function fetchCandidatePage(
+  filters: CandidateListFilters,
+  request: PageRequest<CandidateSortField>,
+): Promise<Page<CandidateWithPosition>> {
+  return fetchPage("/api/candidates", pageParams(request, candidateFilterParams(filters)));
+}
+
+// Exports the same candidates the list shows under these filters
+export function candidateExportUrl(filters: CandidateListFilters, format: ExportFormat): string {
+  const params = candidateFilterParams(filters);
+  params.append("format", format);
+  return `/api/candidates/export?${params.toString()}`;
+}
+
+// Candidates from before positions were linked by id may only have the title
+export function positionTitle(candidate: Candidate & { position?: Position | null }): string {
+  return candidate.position?.title ?? candidate.positionApplied;
+}
+
+// Uploaded files are served by the API; otherwise fall back to the pasted link
+export function resumeHref(candidate: Candidate): string | null {
+  return candidate.resumeFileKey ? `/api/candidates/${candidate.id}/resume` : candidate.resume;
+}
+
+// POST /api/candidates answers 409 with the likely matches when the new
+// candidate looks like an existing one
+export function duplicateMatches(error: Error): DuplicateMatch[] | null {
+  if (!error.message.startsWith("409: ")) {
+    return null;
+  }
+  try {
+    return JSON.parse(error.message.slice(5)).duplicates ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Tags are typed comma-separated; the server lowercases and de-duplicates them
+export function splitTags(text: string): string[] {
+  return text
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+export function formatFileSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Mirrors the server's checks so obviously bad files fail before uploading
+export function resumeFileError(file: File): string | null {
+  if (!(file.type in RESUME_CONTENT_TYPES)) {
+    return "Resume must be a PDF or DOCX file";
+  }
+  if (file.size > MAX_RESUME_BYTES) {
+    return `Resume must be at most ${MAX_RESUME_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+async function postResume<T>(url: string, file: File): Promise<T> {
+  const body = new FormData();
+  body.append("resume", file);
+
+  const response = await fetch(url, {
+    method: "POST",
+    body,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export function uploadResume(candidateId: number, file: File): Promise<Candidate> {
+  return postResume(`/api/candidates/${candidateId}/resume`, file);
+}
+
+// Parses without storing anything, for prefilling a form
+export function parseResumeFile(file: File): Promise<ParsedResume> {
+  return postResume("/api/resumes/parse", file);
+}
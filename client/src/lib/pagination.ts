@@ -0,0 +1,47 @@
+import { MAX_PAGE_SIZE, type Page, type SortOrder } from "@shared/pagination";
+
+export interface PageRequest<S extends string> {
+  sort: S;
+  order: SortOrder;
+  offset: number;
+  limit: number;
+}
+
+export function pageParams<S extends string>(request: PageRequest<S>, params = new URLSearchParams()) {
+  params.set("sort", request.sort);
+  params.set("order", request.order);
+  params.set("offset", String(request.offset));
+  params.set("limit", String(request.limit));
+  return params;
+}
+
+export async function fetchPage<T>(path: string, params: URLSearchParams): Promise<Page<T>> {
+  const response = await fetch(`${path}?${params.toString()}`, {
+    credentials: "include"
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Follows cursors until the list is exhausted, for views that need every row
+export async function fetchAllPages<T>(path: string, params = new URLSearchParams()): Promise<T[]> {
+  const items: T[] = [];
+  params.set("limit", String(MAX_PAGE_SIZE));
+  for (;;) {
+    const page = await fetchPage<T>(path, params);
+    items.push(...page.items);
+    if (!page.nextCursor) {
+      return items;
+    }
+    params.set("cursor", page.nextCursor);
+  }
+}
+
+// Text columns read naturally A→Z; dates newest first
+export function defaultSortOrder(sort: string): SortOrder {
+  return sort === "createdAt" || sort === "updatedAt" ? "desc" : "asc";
+}
@@ -0,0 +1,34 @@
+import type { PipelineStage, PipelineWithStages } from "@shared/schema";
+
+// Full class names so Tailwind keeps them; keyed by PIPELINE_COLORS
+const stageBadgeClasses: Record<string, string> = {
+  gray: "bg-gray-100 text-gray-800",
+  blue: "bg-blue-100 text-blue-800",
+  indigo: "bg-indigo-100 text-indigo-800",
+  purple: "bg-purple-100 text-purple-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  orange: "bg-orange-100 text-orange-800",
+  green: "bg-green-100 text-green-800",
+  red: "bg-red-100 text-red-800",
+};
+
+export function stageBadgeClass(color: string | undefined): string {
+  return stageBadgeClasses[color ?? "gray"] ?? stageBadgeClasses.gray;
+}
+
+// Every stage name across all pipelines, default pipeline's order first
+export function allStageNames(pipelines: PipelineWithStages[]): string[] {
+  const sorted = [...pipelines].sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+  return Array.from(new Set(sorted.flatMap((pipeline) => pipeline.stages.map((stage) => stage.name))));
+}
+
+export function findStage(
+  pipelines: PipelineWithStages[],
+  status: string,
+  pipeline?: PipelineWithStages,
+): PipelineStage | undefined {
+  return (
+    pipeline?.stages.find((stage) => stage.name === status) ??
+    pipelines.flatMap((p) => p.stages).find((stage) => stage.name === status)
+  );
+}
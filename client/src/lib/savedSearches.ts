@@ -0,0 +1,62 @@
+import type { InsertSavedSearch, SavedSearch, SavedSearchWithCount } from "@shared/schema";
+import type { CandidateSortField } from "@shared/pagination";
+import type { CandidateListFilters } from "@/lib/candidates";
+import type { PageRequest } from "@/lib/pagination";
+
+// Kept under /api/candidates so every change to a candidate refreshes the counts
+export const SAVED_SEARCHES_QUERY_KEY = ["/api/candidates", "saved-searches"] as const;
+
+export async function fetchSavedSearches(): Promise<SavedSearchWithCount[]> {
+  const response = await fetch("/api/saved-searches", {
+    credentials: "include"
+  });
+
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// The candidate list opens a saved search from ?saved=
+export function savedSearchHref(savedSearch: Pick<SavedSearch, "id">): string {
+  return `/candidates?saved=${savedSearch.id}`;
+}
+
+export function savedSearchFilters(savedSearch: SavedSearch): CandidateListFilters {
+  return {
+    positionId: savedSearch.positionId ? String(savedSearch.positionId) : "all",
+    status: savedSearch.status ?? "all",
+    search: savedSearch.search,
+  };
+}
+
+// What the candidate list is showing, in the shape a saved search stores
+export function savedSearchValues(
+  filters: CandidateListFilters,
+  request: PageRequest<CandidateSortField>,
+): Omit<InsertSavedSearch, "name" | "shared"> {
+  return {
+    positionId: filters.positionId === "all" ? null : parseInt(filters.positionId),
+    status: filters.status === "all" ? null : filters.status,
+    search: filters.search.trim(),
+    sort: request.sort,
+    order: request.order,
+  };
+}
+
+// Whether the list has been changed since the saved search was opened
+export function isSavedSearchModified(
+  savedSearch: SavedSearch,
+  filters: CandidateListFilters,
+  request: PageRequest<CandidateSortField>,
+): boolean {
+  const values = savedSearchValues(filters, request);
+  return (
+    values.positionId !== savedSearch.positionId ||
+    values.status !== savedSearch.status ||
+    values.search !== savedSearch.search ||
+    values.sort !== savedSearch.sort ||
+    values.order !== savedSearch.order
+  );
+}
@@ -0,0 +1,274 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams, useSearch } from "wouter";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePipelines } from "@/hooks/usePipelines";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { positionTitle, resumeHref } from "@/lib/candidates";
+import Sidebar from "@/components/sidebar";
+import CandidateForm from "@/components/candidate-form";
+import StatusTimeline from "@/components/status-timeline";
+import CandidateNotes from "@/components/candidate-notes";
+import ResumeAttachment from "@/components/resume-attachment";
+import CandidateAttachments from "@/components/candidate-attachments";
+import CandidateInterviews from "@/components/candidate-interviews";
+import DuplicateCandidates from "@/components/duplicate-candidates";
+import ParsedResumeDetails from "@/components/parsed-resume";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, ArrowLeft, Edit, ExternalLink, GitMerge, Mail, Phone, Briefcase } from "lucide-react";
+import type { CandidateWithPosition } from "@shared/schema";
+import type { DuplicateMatch } from "@shared/duplicates";
+
+const TABS = ["profile", "activity", "notes", "attachments", "interviews"] as const;
+type Tab = (typeof TABS)[number];
+
+export default function CandidateDetail() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const { pipelineForPosition, statusClass } = usePipelines();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  // The active tab lives in ?tab= so links can point straight at it
+  const requestedTab = new URLSearchParams(search).get("tab");
+  const tab: Tab = TABS.includes(requestedTab as Tab) ? (requestedTab as Tab) : "profile";
+  const setTab = (value: string) => {
+    navigate(value === "profile" ? location : `${location}?tab=${value}`, { replace: true });
+  };
+
+  const { data: candidate, isLoading: candidateLoading, error } = useQuery<CandidateWithPosition>({
+    queryKey: [`/api/candidates/${id}`],
+    retry: false,
+  });
+
+  const { data: duplicates } = useQuery<DuplicateMatch[]>({
+    queryKey: [`/api/candidates/${id}/duplicates`],
+    enabled: !!candidate,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  useEffect(() => {
+    if (error && isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [error, toast]);
+
+  if (isLoading || !isAuthenticated) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+      <div className="pl-64">
+        <div className="p-8">
+          <Link href="/candidates" className="mb-4 inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to candidates
+          </Link>
+
+          {candidateLoading ? (
+            <div className="p-8 text-center">Loading candidate...</div>
+          ) : !candidate ? (
+            <div className="p-8 text-center text-gray-500">
+              <p>Candidate not found</p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-8 flex items-center justify-between">
+                <div>
+                  <div className="flex items-center gap-3">
+                    <h1 className="text-2xl font-bold text-gray-900">{candidate.name}</h1>
+                    <Badge className={statusClass(candidate.status, pipelineForPosition(candidate))}>
+                      {candidate.status}
+                    </Badge>
+                  </div>
+                  <p className="text-gray-600">
+                    {positionTitle(candidate)}
+                  </p>
+                  {candidate.tags.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {candidate.tags.map((tag) => (
+                        <Badge key={tag} variant="outline" className="text-xs">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {can("candidates:manage") && (
+                  <Button
+                    onClick={() => setIsModalOpen(true)}
+                    className="bg-primary hover:bg-primary/90 text-white"
+                  >
+                    <Edit className="w-4 h-4 mr-2" />
+                    Edit Candidate
+                  </Button>
+                )}
+                <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+                  <DialogContent className="max-w-md">
+                    <CandidateForm candidate={candidate} onClose={() => setIsModalOpen(false)} />
+                  </DialogContent>
+                </Dialog>
+              </div>
+
+              {duplicates && duplicates.length > 0 && (
+                <Card className="mb-6 border-amber-200 bg-amber-50 shadow-sm">
+                  <CardContent className="p-4 space-y-3">
+                    <div className="flex items-center text-sm font-medium text-amber-800">
+                      <AlertTriangle className="w-4 h-4 mr-2" />
+                      Possible duplicates of this candidate
+                    </div>
+                    <DuplicateCandidates
+                      matches={duplicates}
+                      action={(match) =>
+                        can("candidates:delete") && (
+                          <Button variant="outline" size="sm" asChild>
+                            <Link href={`/candidates/${candidate.id}/merge/${match.candidate.id}`}>
+                              <GitMerge className="w-4 h-4 mr-2" />
+                              Review & Merge
+                            </Link>
+                          </Button>
+                        )
+                      }
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              <Tabs value={tab} onValueChange={setTab}>
+                <TabsList>
+                  <TabsTrigger value="profile">Profile</TabsTrigger>
+                  <TabsTrigger value="activity">Activity</TabsTrigger>
+                  <TabsTrigger value="notes">Notes</TabsTrigger>
+                  <TabsTrigger value="attachments">Attachments</TabsTrigger>
+                  <TabsTrigger value="interviews">Interviews</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="profile">
+                  <Card className="bg-white shadow-sm">
+                    <CardContent className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div className="space-y-3">
+                        <h3 className="text-sm font-semibold text-gray-900">Contact</h3>
+                        <a href={`mailto:${candidate.email}`} className="flex items-center text-sm text-primary hover:text-primary/90">
+                          <Mail className="w-4 h-4 mr-2" />
+                          {candidate.email}
+                        </a>
+                        <a href={`tel:${candidate.phone}`} className="flex items-center text-sm text-gray-700">
+                          <Phone className="w-4 h-4 mr-2" />
+                          {candidate.phone}
+                        </a>
+                        {resumeHref(candidate) ? (
+                          <a
+                            href={resumeHref(candidate)!}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center text-sm text-primary hover:text-primary/90"
+                          >
+                            View Resume
+                            <ExternalLink className="w-3 h-3 ml-1" />
+                          </a>
+                        ) : (
+                          <p className="text-sm text-gray-500">No resume</p>
+                        )}
+                      </div>
+                      <div className="space-y-3">
+                        <h3 className="text-sm font-semibold text-gray-900">Position</h3>
+                        {candidate.position ? (
+                          <div className="text-sm text-gray-700">
+                            <div className="flex items-center font-medium text-gray-900">
+                              <Briefcase className="w-4 h-4 mr-2" />
+                              {candidate.position.title}
+                            </div>
+                            <p className="mt-1">
+                              {candidate.position.department} · {candidate.position.location}
+                            </p>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-gray-700">{candidate.positionApplied}</p>
+                        )}
+                        {candidate.createdAt && (
+                          <p className="text-xs text-gray-500">
+                            Applied {format(new Date(candidate.createdAt), "MMM d, yyyy")}
+                          </p>
+                        )}
+                      </div>
+                      {candidate.parsedResume && (
+                        <div className="md:col-span-2 border-t border-gray-200 pt-6">
+                          <h3 className="mb-3 text-sm font-semibold text-gray-900">From Resume</h3>
+                          <ParsedResumeDetails parsedResume={candidate.parsedResume} />
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="activity">
+                  <Card className="bg-white shadow-sm">
+                    <CardContent className="p-6">
+                      <StatusTimeline candidateId={candidate.id} />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="notes">
+                  <Card className="bg-white shadow-sm">
+                    <CardContent className="p-6">
+                      <CandidateNotes candidateId={candidate.id} />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="attachments">
+                  <Card className="bg-white shadow-sm">
+                    <CardContent className="p-6 space-y-6">
+                      <ResumeAttachment candidate={candidate} />
+                      <CandidateAttachments candidateId={candidate.id} />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+
+                <TabsContent value="interviews">
+                  <Card className="bg-white shadow-sm">
+                    <CardContent className="p-6">
+                      <CandidateInterviews candidateId={candidate.id} />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              </Tabs>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import Sidebar from "@/components/sidebar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ArrowLeft, ArrowLeftRight, GitMerge } from "lucide-react";
+import {
+  CANDIDATE_MERGE_FIELDS,
+  defaultMergeSide,
+  isMergeConflict,
+  mergeFieldValue,
+  type CandidateMergeChoices,
+  type CandidateMergeField,
+  type MergeSide,
+} from "@shared/candidateMerge";
+import type { Candidate, CandidateWithPosition } from "@shared/schema";
+
+// The record at /candidates/:id survives; :sourceId is merged into it and removed
+export default function CandidateMerge() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const { id, sourceId } = useParams<{ id: string; sourceId: string }>();
+  const [, navigate] = useLocation();
+  const [choices, setChoices] = useState<CandidateMergeChoices>({});
+
+  const { data: target, isLoading: targetLoading, error: targetError } = useQuery<CandidateWithPosition>({
+    queryKey: [`/api/candidates/${id}`],
+    retry: false,
+  });
+  const { data: source, isLoading: sourceLoading, error: sourceError } = useQuery<CandidateWithPosition>({
+    queryKey: [`/api/candidates/${sourceId}`],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  useEffect(() => {
+    const error = targetError ?? sourceError;
+    if (error && isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [targetError, sourceError, toast]);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/candidates/${id}/merge`, { sourceId: parseInt(sourceId), choices });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.removeQueries({ queryKey: [`/api/candidates/${sourceId}`] });
+      for (const suffix of ["", "/history", "/notes", "/attachments", "/duplicates"]) {
+        queryClient.invalidateQueries({ queryKey: [`/api/candidates/${id}${suffix}`] });
+      }
+      toast({
+        title: "Success",
+        description: "Candidates merged successfully",
+      });
+      navigate(`/candidates/${id}`);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !isAuthenticated) {
+    return <div>Loading...</div>;
+  }
+
+  const sideFor = (field: CandidateMergeField): MergeSide =>
+    choices[field] ?? defaultMergeSide(field, target!, source!);
+
+  const renderValue = (field: CandidateMergeField, candidate: Candidate) =>
+    mergeFieldValue(field, candidate) ?? <span className="text-gray-400">—</span>;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+      <div className="pl-64">
+        <div className="p-8">
+          <Link href={`/candidates/${id}`} className="mb-4 inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to candidate
+          </Link>
+
+          {targetLoading || sourceLoading ? (
+            <div className="p-8 text-center">Loading candidates...</div>
+          ) : !target || !source ? (
+            <div className="p-8 text-center text-gray-500">
+              <p>Candidate not found</p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-8 flex items-center justify-between">
+                <div>
+                  <h1 className="text-2xl font-bold text-gray-900">Merge Candidates</h1>
+                  <p className="text-gray-600">
+                    {source.name} will be merged into {target.name} and removed. Notes, status history and
+                    files from both records are kept.
+                  </p>
+                </div>
+                <Button variant="outline" asChild>
+                  <Link href={`/candidates/${sourceId}/merge/${id}`}>
+                    <ArrowLeftRight className="w-4 h-4 mr-2" />
+                    Keep the Other Record
+                  </Link>
+                </Button>
+              </div>
+
+              <Card className="bg-white shadow-sm">
+                <CardContent className="p-6">
+                  <div className="grid grid-cols-[10rem_1fr_1fr] gap-x-6 gap-y-4 text-sm">
+                    <div />
+                    <div className="text-xs font-medium uppercase text-gray-500">Kept record (#{target.id})</div>
+                    <div className="text-xs font-medium uppercase text-gray-500">Merged record (#{source.id})</div>
+                    {CANDIDATE_MERGE_FIELDS.map(({ field, label }) => {
+                      const conflict = isMergeConflict(field, target, source);
+                      return (
+                        <RadioGroup
+                          key={field}
+                          className="contents"
+                          value={sideFor(field)}
+                          onValueChange={(side) => setChoices({ ...choices, [field]: side as MergeSide })}
+                        >
+                          <div className="font-medium text-gray-900">{label}</div>
+                          {(["target", "source"] as const).map((side) => {
+                            const candidate = side === "target" ? target : source;
+                            return (
+                              <div key={side} className="flex items-center gap-2 text-gray-700">
+                                {conflict && <RadioGroupItem value={side} id={`${field}-${side}`} />}
+                                <Label
+                                  htmlFor={`${field}-${side}`}
+                                  className={
+                                    !conflict && sideFor(field) !== side ? "font-normal text-gray-400" : "font-normal"
+                                  }
+                                >
+                                  {renderValue(field, candidate)}
+                                </Label>
+                              </div>
+                            );
+                          })}
+                        </RadioGroup>
+                      );
+                    })}
+                  </div>
+
+                  <div className="mt-8 flex space-x-3">
+                    <Button
+                      disabled={mutation.isPending}
+                      onClick={() => mutation.mutate()}
+                      className="bg-primary hover:bg-primary/90 text-white"
+                    >
+                      <GitMerge className="w-4 h-4 mr-2" />
+                      {mutation.isPending ? "Merging..." : "Merge Candidates"}
+                    </Button>
+                    <Button variant="outline" asChild>
+                      <Link href={`/candidates/${id}`}>Cancel</Link>
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,59 +1,99 @@
-import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect, useRef } from "react";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
+import { format } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { usePipelines } from "@/hooks/usePipelines";
+import { usePageRequest } from "@/hooks/usePageRequest";
+import { useSavedSearches } from "@/hooks/useSavedSearches";
+import { allStageNames } from "@/lib/pipelines";
+import {
+  candidateExportUrl,
+  fetchCandidatePage,
+  positionTitle,
+  resumeHref,
+  type CandidateListFilters,
+} from "@/lib/candidates";
+import { savedSearchFilters } from "@/lib/savedSearches";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import Sidebar from "@/components/sidebar";
 import CandidateForm from "@/components/candidate-form";
+import CandidateImport from "@/components/candidate-import";
+import ExportMenu from "@/components/export-menu";
+import CandidateSearchInput from "@/components/candidate-search-input";
+import SavedSearchBar from "@/components/saved-search-bar";
+import ListPagination from "@/components/list-pagination";
+import SortableHeader from "@/components/sortable-header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Edit, Trash2, ExternalLink } from "lucide-react";
+import { Plus, Edit, Trash2, ExternalLink, Upload } from "lucide-react";
 import type { Candidate } from "@shared/schema";
+import type { CandidateSortField } from "@shared/pagination";
+import { parseCandidateQuery } from "@shared/candidateQuery";
+
+const NO_FILTERS: CandidateListFilters = {
+  positionId: "all",
+  status: "all",
+  search: "",
+};
 
 export default function Candidates() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, can } = useAuth();
   const queryClient = useQueryClient();
+  const { pipelines, positions, pipelineForPosition, statusClass } = usePipelines();
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [editingCandidate, setEditingCandidate] = useState<Candidate | null>(null);
-  const [filters, setFilters] = useState({
-    position: "all",
-    status: "all",
-    search: "",
-  });
+  const [filters, setFilters] = useState<CandidateListFilters>(NO_FILTERS);
 
-  const { data: candidates, isLoading: candidatesLoading, error } = useQuery({
-    queryKey: ["/api/candidates", filters],
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      if (filters.position && filters.position !== "all") {
-        params.append("position", filters.position);
-      }
-      if (filters.status && filters.status !== "all") {
-        params.append("status", filters.status);
-      }
-      if (filters.search) {
-        params.append("search", filters.search);
-      }
-      
-      const response = await fetch(`/api/candidates?${params.toString()}`, {
-        credentials: "include"
-      });
-      
-      if (!response.ok) {
-        throw new Error(`${response.status}: ${response.statusText}`);
-      }
-      
-      return response.json();
-    },
+  const { request, sortBy, setSort, setOffset, resetPage } = usePageRequest<CandidateSortField>("createdAt");
+
+  // ?saved= opens a saved search: its filters and sort are applied once, then
+  // stay editable like any others
+  const [, navigate] = useLocation();
+  const savedId = new URLSearchParams(useSearch()).get("saved");
+  const { savedSearches, isLoading: savedSearchesLoading } = useSavedSearches();
+  const activeSavedSearch = savedSearches.find((savedSearch) => String(savedSearch.id) === savedId);
+  const appliedSavedId = useRef<string | null>(null);
+  useEffect(() => {
+    if (savedId === appliedSavedId.current || savedSearchesLoading) {
+      return;
+    }
+    appliedSavedId.current = savedId;
+    if (activeSavedSearch) {
+      setFilters(savedSearchFilters(activeSavedSearch));
+      setSort(activeSavedSearch.sort, activeSavedSearch.order);
+    }
+  }, [savedId, activeSavedSearch, savedSearchesLoading]);
+
+  const clearSavedSearch = () => {
+    setFilters(NO_FILTERS);
+    setSort("createdAt", "desc");
+    navigate("/candidates");
+  };
+
+  // Until a half-typed search parses, keep showing the last results
+  const searchError = parseCandidateQuery(filters.search).error;
+  const { data: page, isLoading: candidatesLoading, error } = useQuery({
+    queryKey: ["/api/candidates", "page", filters, request],
+    queryFn: () => fetchCandidatePage(filters, request),
+    placeholderData: keepPreviousData,
+    enabled: !searchError,
     retry: false,
   });
+  const candidates = page?.items;
+
+  const updateFilters = (changes: Partial<CandidateListFilters>) => {
+    setFilters({ ...filters, ...changes });
+    resetPage();
+  };
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -130,19 +170,8 @@ export default function Candidates() {
     setEditingCandidate(null);
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "New":
-        return "bg-blue-100 text-blue-800";
-      case "In Review":
-        return "bg-yellow-100 text-yellow-800";
-      case "Shortlisted":
-        return "bg-green-100 text-green-800";
-      case "Rejected":
-        return "bg-red-100 text-red-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
+  const getStatusColor = (candidate: Candidate) => {
+    return statusClass(candidate.status, pipelineForPosition(candidate));
   };
 
   if (isLoading || !isAuthenticated) {
@@ -159,62 +188,93 @@ export default function Candidates() {
               <h1 className="text-2xl font-bold text-gray-900">Candidates</h1>
               <p className="text-gray-600">Manage candidate applications</p>
             </div>
-            <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
-              <DialogTrigger asChild>
-                <Button className="bg-primary hover:bg-primary/90 text-white">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Candidate
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-md">
-                <CandidateForm 
-                  candidate={editingCandidate} 
-                  onClose={handleCloseModal}
-                />
-              </DialogContent>
-            </Dialog>
+            <div className="flex space-x-3">
+              {can("candidates:export") && (
+                <ExportMenu exportUrl={(format) => candidateExportUrl(filters, format)} />
+              )}
+              {can("candidates:import") && (
+                <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="outline">
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import CSV
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="max-w-2xl">
+                    {/* Remount on every open so the wizard starts from the first step */}
+                    {isImportOpen && <CandidateImport onClose={() => setIsImportOpen(false)} />}
+                  </DialogContent>
+                </Dialog>
+              )}
+              <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+                {can("candidates:manage") && (
+                  <DialogTrigger asChild>
+                    <Button className="bg-primary hover:bg-primary/90 text-white">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Candidate
+                    </Button>
+                  </DialogTrigger>
+                )}
+                <DialogContent className="max-w-md">
+                  <CandidateForm 
+                    candidate={editingCandidate} 
+                    onClose={handleCloseModal}
+                  />
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
           
+          <SavedSearchBar
+            active={activeSavedSearch}
+            filters={filters}
+            request={request}
+            onClear={clearSavedSearch}
+          />
+
           {/* Filters */}
           <Card className="bg-white shadow-sm mb-6">
             <CardContent className="p-6">
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
                   <Label htmlFor="position-filter">Filter by Position</Label>
-                  <Select value={filters.position} onValueChange={(value) => setFilters({...filters, position: value})}>
+                  <Select value={filters.positionId} onValueChange={(value) => updateFilters({ positionId: value })}>
                     <SelectTrigger>
                       <SelectValue placeholder="All Positions" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Positions</SelectItem>
-                      <SelectItem value="Senior Frontend Developer">Senior Frontend Developer</SelectItem>
-                      <SelectItem value="Backend Developer">Backend Developer</SelectItem>
-                      <SelectItem value="Full Stack Developer">Full Stack Developer</SelectItem>
+                      {positions.map((position) => (
+                        <SelectItem key={position.id} value={String(position.id)}>
+                          {position.title}
+                          {position.archivedAt && " (archived)"}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
                 <div>
                   <Label htmlFor="status-filter">Filter by Status</Label>
-                  <Select value={filters.status} onValueChange={(value) => setFilters({...filters, status: value})}>
+                  <Select value={filters.status} onValueChange={(value) => updateFilters({ status: value })}>
                     <SelectTrigger>
                       <SelectValue placeholder="All Status" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Status</SelectItem>
-                      <SelectItem value="New">New</SelectItem>
-                      <SelectItem value="In Review">In Review</SelectItem>
-                      <SelectItem value="Shortlisted">Shortlisted</SelectItem>
-                      <SelectItem value="Rejected">Rejected</SelectItem>
+                      {allStageNames(pipelines).map((name) => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
                 <div>
                   <Label htmlFor="search">Search</Label>
-                  <Input
+                  <CandidateSearchInput
                     id="search"
-                    placeholder="Search candidates..."
                     value={filters.search}
-                    onChange={(e) => setFilters({...filters, search: e.target.value})}
+                    onChange={(search) => updateFilters({ search })}
+                    statuses={allStageNames(pipelines)}
+                    positions={positions.map((position) => position.title)}
                   />
                 </div>
               </div>
@@ -235,34 +295,32 @@ export default function Candidates() {
                   <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50">
                       <tr>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Name
-                        </th>
+                        <SortableHeader label="Name" field="name" sort={request.sort} order={request.order} onSort={sortBy} />
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Contact
                         </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Position Applied
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Status
-                        </th>
+                        <SortableHeader label="Position Applied" field="position" sort={request.sort} order={request.order} onSort={sortBy} />
+                        <SortableHeader label="Status" field="status" sort={request.sort} order={request.order} onSort={sortBy} />
+                        <SortableHeader label="Added" field="createdAt" sort={request.sort} order={request.order} onSort={sortBy} />
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Actions
                         </th>
                       </tr>
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
-                      {candidates?.map((candidate: Candidate) => (
+                      {candidates?.map((candidate) => (
                         <tr key={candidate.id} className="hover:bg-gray-50">
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-gray-900">
+                            <Link
+                              href={`/candidates/${candidate.id}`}
+                              className="text-sm font-medium text-gray-900 hover:text-primary"
+                            >
                               {candidate.name}
-                            </div>
+                            </Link>
                             <div className="text-sm text-gray-500">
-                              {candidate.resume ? (
+                              {resumeHref(candidate) ? (
                                 <a 
-                                  href={candidate.resume} 
+                                  href={resumeHref(candidate)!} 
                                   target="_blank" 
                                   rel="noopener noreferrer"
                                   className="text-primary hover:text-primary/90 flex items-center"
@@ -280,35 +338,50 @@ export default function Candidates() {
                             <div className="text-sm text-gray-500">{candidate.phone}</div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {candidate.positionApplied}
+                            {positionTitle(candidate)}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
-                            <Badge className={getStatusColor(candidate.status)}>
+                            <Badge className={getStatusColor(candidate)}>
                               {candidate.status}
                             </Badge>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {candidate.createdAt && format(new Date(candidate.createdAt), "MMM d, yyyy")}
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEdit(candidate)}
-                              className="text-primary hover:text-primary/90 mr-2"
-                            >
-                              <Edit className="w-4 h-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDelete(candidate.id)}
-                              className="text-red-600 hover:text-red-900"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
+                            {can("candidates:manage") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEdit(candidate)}
+                                className="text-primary hover:text-primary/90 mr-2"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {can("candidates:delete") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(candidate.id)}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
                           </td>
                         </tr>
                       ))}
                     </tbody>
                   </table>
+                  {page && (
+                    <ListPagination
+                      total={page.total}
+                      limit={page.limit}
+                      offset={request.offset}
+                      onOffsetChange={setOffset}
+                    />
+                  )}
                 </div>
               )}
             </CardContent>
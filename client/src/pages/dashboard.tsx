@@ -3,19 +3,34 @@ import { useAuth } from "@/hooks/useAuth";
 import { useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { usePipelines } from "@/hooks/usePipelines";
+import { allStageNames, findStage, stageBadgeClass } from "@/lib/pipelines";
 import Sidebar from "@/components/sidebar";
 import { Card, CardContent } from "@/components/ui/card";
-import { Briefcase, Users, Clock, Star } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Briefcase, Users, Clock, CheckCircle } from "lucide-react";
+import type { DashboardStats } from "@shared/schema";
 
 export default function Dashboard() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading } = useAuth();
 
-  const { data: stats, isLoading: statsLoading, error } = useQuery({
+  const { pipelines } = usePipelines();
+
+  const { data: stats, isLoading: statsLoading, error } = useQuery<DashboardStats>({
     queryKey: ["/api/dashboard/stats"],
     retry: false,
   });
 
+  // Statuses from the stats that no pipeline knows about still get listed
+  const stageNames = Array.from(
+    new Set([...allStageNames(pipelines), ...Object.keys(stats?.statusCounts ?? {})]),
+  );
+  const countWhere = (terminal: boolean) =>
+    stageNames
+      .filter((name) => (findStage(pipelines, name)?.isTerminal ?? false) === terminal)
+      .reduce((total, name) => total + (stats?.statusCounts[name] ?? 0), 0);
+
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
       toast({
@@ -98,9 +113,9 @@ export default function Dashboard() {
                     <Clock className="w-5 h-5 text-yellow-600" />
                   </div>
                   <div className="ml-4">
-                    <p className="text-sm text-gray-600">In Review</p>
+                    <p className="text-sm text-gray-600">In Progress</p>
                     <p className="text-2xl font-bold text-gray-900">
-                      {statsLoading ? "..." : stats?.inReview || 0}
+                      {statsLoading ? "..." : countWhere(false)}
                     </p>
                   </div>
                 </div>
@@ -111,12 +126,12 @@ export default function Dashboard() {
               <CardContent className="p-6">
                 <div className="flex items-center">
                   <div className="p-3 bg-purple-100 rounded-lg">
-                    <Star className="w-5 h-5 text-purple-600" />
+                    <CheckCircle className="w-5 h-5 text-purple-600" />
                   </div>
                   <div className="ml-4">
-                    <p className="text-sm text-gray-600">Shortlisted</p>
+                    <p className="text-sm text-gray-600">Closed</p>
                     <p className="text-2xl font-bold text-gray-900">
-                      {statsLoading ? "..." : stats?.shortlisted || 0}
+                      {statsLoading ? "..." : countWhere(true)}
                     </p>
                   </div>
                 </div>
@@ -124,12 +139,31 @@ export default function Dashboard() {
             </Card>
           </div>
           
+          {/* Pipeline breakdown */}
+          <Card className="bg-white shadow-sm mb-8">
+            <CardContent className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Candidates by Stage</h3>
+              <div className="flex flex-wrap gap-3">
+                {stageNames.map((name) => (
+                  <div key={name} className="flex items-center p-3 bg-gray-50 rounded-lg">
+                    <Badge className={stageBadgeClass(findStage(pipelines, name)?.color)}>
+                      {name}
+                    </Badge>
+                    <span className="ml-3 text-sm font-semibold text-gray-900">
+                      {stats?.statusCounts[name] ?? 0}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Recent Activity */}
           <Card className="bg-white shadow-sm">
             <CardContent className="p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Activity</h3>
               <div className="space-y-4">
-                {stats?.totalCandidates > 0 ? (
+                {stats && stats.totalCandidates > 0 ? (
                   <div className="flex items-center p-3 bg-gray-50 rounded-lg">
                     <div className="p-2 bg-blue-100 rounded-lg">
                       <Users className="w-4 h-4 text-blue-600" />
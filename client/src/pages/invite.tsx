@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { useAuth, useAuthConfig } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import LoginForm from "@/components/login-form";
+import SignupForm from "@/components/signup-form";
+import { MailOpen } from "lucide-react";
+import { ROLE_LABELS, type Role } from "@shared/permissions";
+
+interface InvitationDetails {
+  email: string;
+  role: Role;
+  organizationName: string;
+  expiresAt: string;
+}
+
+// Where an invitation link leads. Works signed out too: it names the
+// organization, then sends the visitor to sign in and back here to accept.
+// With local sign-in they can create their account here instead, which
+// accepts the invitation too.
+export default function Invite({ token }: { token: string }) {
+  const { toast } = useToast();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { config } = useAuthConfig();
+  const [hasAccount, setHasAccount] = useState(false);
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  const { data: invitation, isLoading: invitationLoading, error } = useQuery<InvitationDetails>({
+    queryKey: [`/api/invitations/token/${encodeURIComponent(token)}`],
+    retry: false,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/invitations/token/${encodeURIComponent(token)}/accept`);
+    },
+    onSuccess: () => {
+      navigate("/");
+      queryClient.resetQueries();
+      toast({ title: "Welcome", description: `You joined ${invitation?.organizationName}` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to accept invitation", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const returnTo = encodeURIComponent(`/invite/${token}`);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2">
+            <MailOpen className="h-8 w-8 text-gray-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Invitation</h1>
+          </div>
+
+          {isLoading || invitationLoading ? (
+            <p className="text-sm text-gray-600">Loading invitation...</p>
+          ) : error || !invitation ? (
+            <>
+              <p className="mt-4 text-sm text-red-600">{error ? errorMessage(error) : "Invitation not found"}</p>
+              <p className="mt-2 text-sm text-gray-600">Ask the person who invited you for a new link.</p>
+            </>
+          ) : (
+            <>
+              <p className="mt-4 text-sm text-gray-600">
+                <span className="font-medium text-gray-900">{invitation.email}</span> is invited to join{" "}
+                <span className="font-medium text-gray-900">{invitation.organizationName}</span> as{" "}
+                {ROLE_LABELS[invitation.role]}.
+              </p>
+              <p className="mt-2 text-xs text-gray-500">
+                Expires {format(new Date(invitation.expiresAt), "MMM d, yyyy h:mm a")}
+              </p>
+              {isAuthenticated ? (
+                <div className="mt-6 flex items-center gap-2">
+                  <Button
+                    disabled={acceptMutation.isPending}
+                    className="bg-primary hover:bg-primary/90 text-white"
+                    onClick={() => acceptMutation.mutate()}
+                  >
+                    {acceptMutation.isPending ? "Joining..." : "Accept invitation"}
+                  </Button>
+                  <span className="text-xs text-gray-500">Signed in as {user?.email ?? user?.id}</span>
+                </div>
+              ) : config?.strategy === "local" ? (
+                <div className="mt-6 space-y-4">
+                  {hasAccount ? (
+                    <LoginForm />
+                  ) : (
+                    <SignupForm token={token} onSignedUp={() => navigate("/")} />
+                  )}
+                  <Button variant="link" className="w-full" onClick={() => setHasAccount(!hasAccount)}>
+                    {hasAccount ? "New here? Create an account" : "Already have an account? Sign in"}
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  className="mt-6 bg-primary hover:bg-primary/90 text-white"
+                  onClick={() => {
+                    window.location.href = `/api/login?returnTo=${returnTo}`;
+                  }}
+                >
+                  Sign in to accept
+                </Button>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,14 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { useAuthConfig } from "@/hooks/useAuth";
+import LoginForm from "@/components/login-form";
+import SignupForm from "@/components/signup-form";
 
 export default function Landing() {
+  const { config } = useAuthConfig();
+  // Set by the server when sign-in is refused, e.g. for a deactivated account
+  const loginFailed = new URLSearchParams(window.location.search).get("login") === "failed";
+
   const handleLogin = () => {
     window.location.href = "/api/login";
   };
@@ -17,23 +24,62 @@ export default function Landing() {
             </div>
             
             <div className="space-y-4">
-              <p className="text-sm text-gray-600 text-center">
-                Streamline your recruitment process with our comprehensive platform
-              </p>
-              
-              <Button 
-                onClick={handleLogin}
-                className="w-full bg-primary hover:bg-primary/90 text-white py-3 px-4 rounded-lg font-medium transition-colors"
-              >
-                Sign In to Continue
-              </Button>
+              {loginFailed && (
+                <p className="text-sm text-red-600 text-center">
+                  Sign-in failed. If your account was deactivated, ask an admin to reactivate it.
+                </p>
+              )}
+
+              {config?.strategy === "local" ? (
+                config.setupRequired ? (
+                  <>
+                    <p className="text-sm text-gray-600 text-center">
+                      Create the first account. It becomes the admin, who invites everyone else.
+                    </p>
+                    <SignupForm />
+                  </>
+                ) : (
+                  <LoginForm />
+                )
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 text-center">
+                    Streamline your recruitment process with our comprehensive platform
+                  </p>
+
+                  {config && config.providers.length > 1 ? (
+                    // One button per OIDC provider
+                    config.providers.map((provider) => (
+                      <Button
+                        key={provider.id}
+                        variant="outline"
+                        onClick={() => {
+                          window.location.href = `/api/login/${encodeURIComponent(provider.id)}`;
+                        }}
+                        className="w-full py-3 px-4 rounded-lg font-medium"
+                      >
+                        Sign in with {provider.label}
+                      </Button>
+                    ))
+                  ) : (
+                    <Button
+                      onClick={handleLogin}
+                      className="w-full bg-primary hover:bg-primary/90 text-white py-3 px-4 rounded-lg font-medium transition-colors"
+                    >
+                      Sign In to Continue
+                    </Button>
+                  )}
+                </>
+              )}
             </div>
             
-            <div className="mt-6 text-center">
-              <p className="text-xs text-gray-500">
-                Secure authentication powered by Replit
-              </p>
-            </div>
+            {config?.strategy === "replit" && (
+              <div className="mt-6 text-center">
+                <p className="text-xs text-gray-500">
+                  Secure authentication powered by Replit
+                </p>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
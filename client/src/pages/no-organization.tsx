@@ -0,0 +1,32 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Building2 } from "lucide-react";
+
+// Shown to signed-in users who don't belong to any organization yet
+export default function NoOrganization() {
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2">
+            <Building2 className="h-8 w-8 text-gray-500" />
+            <h1 className="text-2xl font-bold text-gray-900">No organization yet</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            You aren't a member of any organization. Ask an admin to add you to one, then reload this page.
+          </p>
+          <Button
+            variant="outline"
+            className="mt-6"
+            onClick={() => {
+              window.location.href = "/api/logout";
+            }}
+          >
+            Logout
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState, useEffect } from "react";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { usePipelines } from "@/hooks/usePipelines";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { allStageNames, findStage, stageBadgeClass } from "@/lib/pipelines";
+import { fetchCandidates, positionTitle, type CandidateListFilters } from "@/lib/candidates";
+import Sidebar from "@/components/sidebar";
+import CandidateSearchInput from "@/components/candidate-search-input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Candidate } from "@shared/schema";
+import { parseCandidateQuery } from "@shared/candidateQuery";
+
+export default function Pipeline() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading, can } = useAuth();
+  const canMove = can("candidates:manage");
+  const queryClient = useQueryClient();
+  const { pipelines, positions, pipelineForPosition } = usePipelines();
+  const [dragOverStatus, setDragOverStatus] = useState<string | null>(null);
+  const [filters, setFilters] = useState<CandidateListFilters>({
+    positionId: "all",
+    status: "all",
+    search: "",
+  });
+  const queryKey = ["/api/candidates", "all", filters];
+
+  // Until a half-typed search parses, keep showing the last results
+  const { data: candidates, isLoading: candidatesLoading, error } = useQuery({
+    queryKey,
+    queryFn: () => fetchCandidates(filters),
+    placeholderData: keepPreviousData,
+    enabled: !parseCandidateQuery(filters.search).error,
+    retry: false,
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: string }) => {
+      await apiRequest("PUT", `/api/candidates/${id}`, { status });
+    },
+    // Move the card immediately and put it back if the server rejects the move
+    onMutate: async ({ id, status }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Candidate[]>(queryKey);
+      queryClient.setQueryData<Candidate[]>(queryKey, (old) =>
+        old?.map((candidate) => (candidate.id === id ? { ...candidate, status } : candidate)),
+      );
+      return { previous };
+    },
+    onError: (error, _variables, context) => {
+      queryClient.setQueryData(queryKey, context?.previous);
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    },
+    onSettled: (_data, _error, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/candidates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/candidates/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/candidates/${id}/history`] });
+    },
+  });
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  useEffect(() => {
+    if (error && isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [error, toast]);
+
+  // A single position shows its own pipeline; otherwise show every known stage
+  const selectedPipeline =
+    filters.positionId !== "all" ? pipelineForPosition({ positionId: parseInt(filters.positionId) }) : undefined;
+  const columns = selectedPipeline
+    ? selectedPipeline.stages.map((stage) => stage.name)
+    : Array.from(new Set([
+        ...allStageNames(pipelines),
+        ...(candidates ?? []).map((candidate) => candidate.status),
+      ]));
+
+  const handleDrop = (status: string, event: React.DragEvent) => {
+    event.preventDefault();
+    setDragOverStatus(null);
+    const id = parseInt(event.dataTransfer.getData("text/plain"));
+    const candidate = candidates?.find((c) => c.id === id);
+    if (candidate && candidate.status !== status) {
+      moveMutation.mutate({ id, status });
+    }
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+      <div className="pl-64">
+        <div className="p-8">
+          <div className="mb-8">
+            <h1 className="text-2xl font-bold text-gray-900">Pipeline</h1>
+            <p className="text-gray-600">Drag candidates between stages</p>
+          </div>
+
+          {/* Filters */}
+          <Card className="bg-white shadow-sm mb-6">
+            <CardContent className="p-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="position-filter">Filter by Position</Label>
+                  <Select value={filters.positionId} onValueChange={(value) => setFilters({...filters, positionId: value})}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="All Positions" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Positions</SelectItem>
+                      {positions.map((position) => (
+                        <SelectItem key={position.id} value={String(position.id)}>
+                          {position.title}
+                          {position.archivedAt && " (archived)"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="search">Search</Label>
+                  <CandidateSearchInput
+                    id="search"
+                    value={filters.search}
+                    onChange={(search) => setFilters({ ...filters, search })}
+                    statuses={allStageNames(pipelines)}
+                    positions={positions.map((position) => position.title)}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {candidatesLoading ? (
+            <div className="p-8 text-center">Loading candidates...</div>
+          ) : (
+            <div className="flex gap-4 overflow-x-auto pb-4">
+              {columns.map((status) => {
+                const stage = findStage(pipelines, status, selectedPipeline);
+                const columnCandidates = (candidates ?? []).filter((c) => c.status === status);
+
+                return (
+                  <div
+                    key={status}
+                    onDragOver={(e) => {
+                      if (!canMove) {
+                        return;
+                      }
+                      e.preventDefault();
+                      setDragOverStatus(status);
+                    }}
+                    onDragLeave={() => setDragOverStatus(null)}
+                    onDrop={(e) => handleDrop(status, e)}
+                    className={`flex w-72 flex-shrink-0 flex-col rounded-lg p-3 ${
+                      dragOverStatus === status ? "bg-blue-50 ring-2 ring-blue-300" : "bg-gray-100"
+                    }`}
+                  >
+                    <div className="mb-3 flex items-center justify-between">
+                      <Badge className={stageBadgeClass(stage?.color)}>{status}</Badge>
+                      <span className="text-sm text-gray-500">{columnCandidates.length}</span>
+                    </div>
+                    <div className="flex-1 space-y-2 min-h-24">
+                      {columnCandidates.map((candidate) => (
+                        <div
+                          key={candidate.id}
+                          draggable={canMove}
+                          onDragStart={(e) => e.dataTransfer.setData("text/plain", String(candidate.id))}
+                          className={`rounded-md bg-white p-3 shadow-sm hover:shadow ${
+                            canMove ? "cursor-grab active:cursor-grabbing" : ""
+                          }`}
+                        >
+                          <Link
+                            href={`/candidates/${candidate.id}`}
+                            className="text-sm font-medium text-gray-900 hover:text-primary"
+                          >
+                            {candidate.name}
+                          </Link>
+                          <div className="text-xs text-gray-500">{positionTitle(candidate)}</div>
+                          <div className="text-xs text-gray-500">{candidate.email}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
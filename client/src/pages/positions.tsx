@@ -1,40 +1,57 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { keepPreviousData, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { usePageRequest } from "@/hooks/usePageRequest";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { fetchPage, pageParams } from "@/lib/pagination";
 import Sidebar from "@/components/sidebar";
 import PositionForm from "@/components/position-form";
+import PositionDeleteDialog from "@/components/position-delete-dialog";
+import ExportMenu from "@/components/export-menu";
+import ListPagination from "@/components/list-pagination";
+import SortableHeader from "@/components/sortable-header";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
-import { Plus, Edit, Trash2 } from "lucide-react";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Plus, Edit, Trash2, Archive, ArchiveRestore } from "lucide-react";
 import type { Position } from "@shared/schema";
+import type { PositionSortField } from "@shared/pagination";
 
 export default function Positions() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, can } = useAuth();
   const queryClient = useQueryClient();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingPosition, setEditingPosition] = useState<Position | null>(null);
+  const [deletingPosition, setDeletingPosition] = useState<Position | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
 
-  const { data: positions, isLoading: positionsLoading, error } = useQuery({
-    queryKey: ["/api/positions"],
+  const { request, sortBy, setOffset, resetPage } = usePageRequest<PositionSortField>("createdAt");
+
+  const archivedParam = showArchived ? "true" : "false";
+  const { data: page, isLoading: positionsLoading, error } = useQuery({
+    queryKey: ["/api/positions", "page", archivedParam, request],
+    queryFn: () =>
+      fetchPage<Position>("/api/positions", pageParams(request, new URLSearchParams({ archived: archivedParam }))),
+    placeholderData: keepPreviousData,
     retry: false,
   });
+  const positions = page?.items;
 
-  const deleteMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/positions/${id}`);
+  const archiveMutation = useMutation({
+    mutationFn: async ({ position, archived }: { position: Position; archived: boolean }) => {
+      await apiRequest("PUT", `/api/positions/${position.id}/archive`, { archived });
     },
-    onSuccess: () => {
+    onSuccess: (_, { position, archived }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/positions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       toast({
         title: "Success",
-        description: "Position deleted successfully",
+        description: archived ? `Archived "${position.title}"` : `Restored "${position.title}"`,
       });
     },
     onError: (error) => {
@@ -51,7 +68,7 @@ export default function Positions() {
       }
       toast({
         title: "Error",
-        description: "Failed to delete position",
+        description: errorMessage(error),
         variant: "destructive",
       });
     },
@@ -89,11 +106,6 @@ export default function Positions() {
     setIsModalOpen(true);
   };
 
-  const handleDelete = (id: number) => {
-    if (confirm("Are you sure you want to delete this position?")) {
-      deleteMutation.mutate(id);
-    }
-  };
 
   const handleCloseModal = () => {
     setIsModalOpen(false);
@@ -114,48 +126,61 @@ export default function Positions() {
               <h1 className="text-2xl font-bold text-gray-900">Positions</h1>
               <p className="text-gray-600">Manage your job openings</p>
             </div>
-            <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
-              <DialogTrigger asChild>
-                <Button className="bg-primary hover:bg-primary/90 text-white">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Position
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-md">
-                <PositionForm 
-                  position={editingPosition} 
-                  onClose={handleCloseModal}
-                />
-              </DialogContent>
-            </Dialog>
+            <div className="flex space-x-3">
+              <ExportMenu
+                exportUrl={(format) => `/api/positions/export?format=${format}&archived=${archivedParam}`}
+              />
+              <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+                {can("positions:manage") && (
+                  <DialogTrigger asChild>
+                    <Button className="bg-primary hover:bg-primary/90 text-white">
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Position
+                    </Button>
+                  </DialogTrigger>
+                )}
+                <DialogContent className="max-w-md">
+                  <PositionForm 
+                    position={editingPosition} 
+                    onClose={handleCloseModal}
+                  />
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
           
+          <Tabs
+            value={showArchived ? "archived" : "current"}
+            onValueChange={(value) => {
+              setShowArchived(value === "archived");
+              resetPage();
+            }}
+            className="mb-4"
+          >
+            <TabsList>
+              <TabsTrigger value="current">Current</TabsTrigger>
+              <TabsTrigger value="archived">Archived</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
           <Card className="bg-white shadow-sm">
             <CardContent className="p-0">
               {positionsLoading ? (
                 <div className="p-8 text-center">Loading positions...</div>
               ) : positions?.length === 0 ? (
                 <div className="p-8 text-center text-gray-500">
-                  <p>No positions found</p>
-                  <p className="text-sm mt-1">Start by adding your first position</p>
+                  <p>{showArchived ? "No archived positions" : "No positions found"}</p>
+                  {!showArchived && <p className="text-sm mt-1">Start by adding your first position</p>}
                 </div>
               ) : (
                 <div className="overflow-x-auto">
                   <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50">
                       <tr>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Title
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Department
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Location
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Status
-                        </th>
+                        <SortableHeader label="Title" field="title" sort={request.sort} order={request.order} onSort={sortBy} />
+                        <SortableHeader label="Department" field="department" sort={request.sort} order={request.order} onSort={sortBy} />
+                        <SortableHeader label="Location" field="location" sort={request.sort} order={request.order} onSort={sortBy} />
+                        <SortableHeader label="Status" field="status" sort={request.sort} order={request.order} onSort={sortBy} />
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Actions
                         </th>
@@ -187,31 +212,61 @@ export default function Positions() {
                             </Badge>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleEdit(position)}
-                              className="text-primary hover:text-primary/90 mr-2"
-                            >
-                              <Edit className="w-4 h-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleDelete(position.id)}
-                              className="text-red-600 hover:text-red-900"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
+                            {can("positions:manage") && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleEdit(position)}
+                                  className="text-primary hover:text-primary/90 mr-2"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title={position.archivedAt ? "Restore" : "Archive"}
+                                  disabled={archiveMutation.isPending}
+                                  onClick={() => archiveMutation.mutate({ position, archived: !position.archivedAt })}
+                                  className="text-gray-600 hover:text-gray-900 mr-2"
+                                >
+                                  {position.archivedAt ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                                </Button>
+                              </>
+                            )}
+                            {can("positions:delete") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setDeletingPosition(position)}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
                           </td>
                         </tr>
                       ))}
                     </tbody>
                   </table>
+                  {page && (
+                    <ListPagination
+                      total={page.total}
+                      limit={page.limit}
+                      offset={request.offset}
+                      onOffsetChange={setOffset}
+                    />
+                  )}
                 </div>
               )}
             </CardContent>
           </Card>
+
+          <PositionDeleteDialog
+            position={deletingPosition}
+            onClose={() => setDeletingPosition(null)}
+            onArchive={(position) => archiveMutation.mutate({ position, archived: true })}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound } from "lucide-react";
+
+interface PasswordResetDetails {
+  email: string | null;
+  expiresAt: string;
+}
+
+// Where a password reset link from an admin leads; reachable signed out
+export default function ResetPassword({ token }: { token: string }) {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const mismatch = confirmation !== "" && password !== confirmation;
+
+  const { data: reset, isLoading, error } = useQuery<PasswordResetDetails>({
+    queryKey: [`/api/auth/password-reset/${encodeURIComponent(token)}`],
+    retry: false,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/auth/password-reset/${encodeURIComponent(token)}`, { password });
+    },
+  });
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2">
+            <KeyRound className="h-8 w-8 text-gray-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Reset password</h1>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-600">Loading...</p>
+          ) : resetMutation.isSuccess ? (
+            <>
+              <p className="mt-4 text-sm text-gray-600">Your password was changed. Sign in with the new one.</p>
+              <Button
+                className="mt-6 bg-primary hover:bg-primary/90 text-white"
+                onClick={() => {
+                  window.location.href = "/";
+                }}
+              >
+                Sign In
+              </Button>
+            </>
+          ) : error || !reset ? (
+            <>
+              <p className="mt-4 text-sm text-red-600">{error ? errorMessage(error) : "Reset link not found"}</p>
+              <p className="mt-2 text-sm text-gray-600">Ask an admin for a new link.</p>
+            </>
+          ) : (
+            <form
+              className="mt-4 space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                resetMutation.mutate();
+              }}
+            >
+              <p className="text-sm text-gray-600">
+                Choose a new password for <span className="font-medium text-gray-900">{reset.email}</span>. You'll be
+                signed out everywhere else.
+              </p>
+              <p className="text-xs text-gray-500">
+                This link expires {format(new Date(reset.expiresAt), "MMM d, yyyy h:mm a")}
+              </p>
+              <div>
+                <Label htmlFor="reset-password">New password</Label>
+                <Input
+                  id="reset-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  maxLength={200}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+                <p className="mt-1 text-xs text-gray-500">At least 8 characters</p>
+              </div>
+              <div>
+                <Label htmlFor="reset-confirmation">Confirm password</Label>
+                <Input
+                  id="reset-confirmation"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  maxLength={200}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                />
+                {mismatch && <p className="mt-1 text-sm text-red-600">Passwords don't match</p>}
+              </div>
+              {resetMutation.error && <p className="text-sm text-red-600">{errorMessage(resetMutation.error)}</p>}
+              <Button
+                type="submit"
+                disabled={password.length < 8 || password !== confirmation || resetMutation.isPending}
+                className="w-full bg-primary hover:bg-primary/90 text-white"
+              >
+                {resetMutation.isPending ? "Saving..." : "Set Password"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
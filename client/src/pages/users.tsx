@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useAuth, useAuthConfig } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import Sidebar from "@/components/sidebar";
+import UserInvitations from "@/components/user-invitations";
+import CopyLinkDialog from "@/components/copy-link-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { KeyRound, UserMinus } from "lucide-react";
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, type Role } from "@shared/permissions";
+import type { ManagedUser, User } from "@shared/schema";
+
+function displayName(user: User) {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.email || user.id;
+}
+
+// Admins see the current organization's members, assign each a role there
+// (see shared/permissions.ts for what each allows) and remove them; people
+// join by invitation. Deactivating someone signs them out everywhere and keeps
+// them out until they're reactivated, so it and password reset links are only
+// offered for users whose every organization the admin administers.
+export default function Users() {
+  const { toast } = useToast();
+  const { user: currentUser, isAuthenticated, isLoading, can } = useAuth();
+  const queryClient = useQueryClient();
+  const { config } = useAuthConfig();
+  const [resetLink, setResetLink] = useState<string | null>(null);
+
+  const { data: users, isLoading: usersLoading, error } = useQuery<ManagedUser[]>({
+    queryKey: ["/api/admin/users"],
+    enabled: can("users:manage"),
+    retry: false,
+  });
+
+  const handleError = (error: Error, title: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title,
+      description: errorMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const removeMutation = useMutation({
+    mutationFn: async (user: User) => {
+      await apiRequest("DELETE", `/api/organizations/current/members/${user.id}`);
+    },
+    onSuccess: (_, user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Success",
+        description: `${displayName(user)} was removed from the organization`,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to remove member"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ user, role }: { user: User; role: Role }) => {
+      await apiRequest("PUT", `/api/admin/users/${user.id}/role`, { role });
+    },
+    onSuccess: (_, { user, role }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      if (user.id === currentUser?.id) {
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      }
+      toast({
+        title: "Success",
+        description: `${displayName(user)}'s role is now ${ROLE_LABELS[role]}`,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to change role"),
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: async ({ user, active }: { user: User; active: boolean }) => {
+      await apiRequest("PUT", `/api/admin/users/${user.id}/active`, { active });
+    },
+    onSuccess: (_, { user, active }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({
+        title: "Success",
+        description: `${displayName(user)} was ${active ? "reactivated" : "deactivated and signed out"}`,
+      });
+    },
+    onError: (error) => handleError(error, "Failed to change access"),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const response = await apiRequest("POST", `/api/admin/users/${user.id}/password-reset`);
+      return (await response.json()) as { token: string };
+    },
+    onSuccess: ({ token }) => {
+      setResetLink(`${window.location.origin}/reset-password/${token}`);
+    },
+    onError: (error) => handleError(error, "Failed to create reset link"),
+  });
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  useEffect(() => {
+    if (error && isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [error, toast]);
+
+  if (isLoading || !isAuthenticated) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Sidebar />
+      <div className="pl-64">
+        <div className="p-8">
+          <div className="mb-8">
+            <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+            <p className="text-gray-600">
+              Invite people to this organization and choose what each member can do here
+            </p>
+          </div>
+
+          <Card className="bg-white shadow-sm">
+            <CardContent className="p-0">
+              {!can("users:manage") ? (
+                <div className="p-8 text-center text-gray-500">Only admins can manage users</div>
+              ) : usersLoading ? (
+                <div className="p-8 text-center">Loading users...</div>
+              ) : error ? (
+                <div className="p-8 text-center text-red-600">{errorMessage(error)}</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Name
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Email
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Role
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Can
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Last login
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Active
+                        </th>
+                        <th className="px-6 py-3" />
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {users?.map((user) => (
+                        <tr key={user.id} className={user.deactivatedAt ? "bg-gray-50 text-gray-400" : "hover:bg-gray-50"}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            {displayName(user)}
+                            {user.id === currentUser?.id && <span className="ml-2 text-gray-500">(you)</span>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{user.email}</td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <Select
+                              value={user.role}
+                              disabled={roleMutation.isPending}
+                              onValueChange={(role) => roleMutation.mutate({ user, role: role as Role })}
+                            >
+                              <SelectTrigger className="w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {ROLE_LABELS[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-500">{ROLE_DESCRIPTIONS[user.role]}</td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {user.lastLoginAt ? format(new Date(user.lastLoginAt), "MMM d, yyyy h:mm a") : "Never"}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <Switch
+                              aria-label={`${displayName(user)} is active`}
+                              title={user.manageable ? undefined : "Also belongs to organizations you don't administer"}
+                              checked={!user.deactivatedAt}
+                              disabled={!user.manageable || user.id === currentUser?.id || activeMutation.isPending}
+                              onCheckedChange={(active) => activeMutation.mutate({ user, active })}
+                            />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-right">
+                            {config?.strategy === "local" && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Password reset link"
+                                disabled={!user.manageable || resetMutation.isPending}
+                                onClick={() => resetMutation.mutate(user)}
+                              >
+                                <KeyRound className="w-4 h-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Remove from organization"
+                              // Leaving is blocked so no one locks themselves out by accident
+                              disabled={user.id === currentUser?.id || removeMutation.isPending}
+                              onClick={() => removeMutation.mutate(user)}
+                            >
+                              <UserMinus className="w-4 h-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {can("users:manage") && <UserInvitations />}
+
+          <CopyLinkDialog
+            title="Password reset link"
+            description="Send this link to the user. It works once and expires in an hour, and it won't be shown again. Any earlier link for them stops working."
+            link={resetLink}
+            onClose={() => setResetLink(null)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
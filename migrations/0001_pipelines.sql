@@ -0,0 +1,21 @@
+CREATE TABLE "pipeline_stages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pipeline_id" integer NOT NULL,
+	"name" varchar NOT NULL,
+	"color" varchar DEFAULT 'gray' NOT NULL,
+	"sort_order" integer NOT NULL,
+	"is_terminal" boolean DEFAULT false NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pipelines" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "pipeline_id" integer;--> statement-breakpoint
+ALTER TABLE "pipeline_stages" ADD CONSTRAINT "pipeline_stages_pipeline_id_pipelines_id_fk" FOREIGN KEY ("pipeline_id") REFERENCES "public"."pipelines"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_pipeline_stage_name" ON "pipeline_stages" USING btree ("pipeline_id","name");--> statement-breakpoint
+ALTER TABLE "positions" ADD CONSTRAINT "positions_pipeline_id_pipelines_id_fk" FOREIGN KEY ("pipeline_id") REFERENCES "public"."pipelines"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- Seed the default pipeline with the statuses the app used before pipelines existed
+INSERT INTO "pipelines" ("name", "is_default") VALUES ('Default', true);
+--> statement-breakpoint
+INSERT INTO "pipeline_stages" ("pipeline_id", "name", "color", "sort_order", "is_terminal")
+SELECT "id", stage.name, stage.color, stage.sort_order, stage.is_terminal
+FROM "pipelines",
+  (VALUES
+    ('New', 'blue', 0, false),
+    ('In Review', 'yellow', 1, false),
+    ('Shortlisted', 'green', 2, false),
+    ('Hired', 'purple', 3, true),
+    ('Rejected', 'red', 4, true)
+  ) AS stage(name, color, sort_order, is_terminal)
+WHERE "pipelines"."is_default" = true;
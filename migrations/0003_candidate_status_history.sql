@@ -0,0 +1,13 @@
+CREATE TABLE "candidate_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"candidate_id" integer NOT NULL,
+	"from_status" varchar,
+	"to_status" varchar NOT NULL,
+	"actor_id" varchar,
+	"reason" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "candidate_status_history" ADD CONSTRAINT "candidate_status_history_candidate_id_candidates_id_fk" FOREIGN KEY ("candidate_id") REFERENCES "public"."candidates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "candidate_status_history" ADD CONSTRAINT "candidate_status_history_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_status_history_candidate" ON "candidate_status_history" USING btree ("candidate_id");
\ No newline at end of file
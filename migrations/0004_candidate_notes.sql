@@ -0,0 +1,39 @@
+CREATE TABLE "candidate_note_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"note_id" integer NOT NULL,
+	"body" text NOT NULL,
+	"editor_id" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "candidate_notes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"candidate_id" integer NOT NULL,
+	"author_id" varchar,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" varchar NOT NULL,
+	"type" varchar NOT NULL,
+	"actor_id" varchar,
+	"candidate_id" integer,
+	"note_id" integer,
+	"message" text NOT NULL,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "candidate_note_revisions" ADD CONSTRAINT "candidate_note_revisions_note_id_candidate_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."candidate_notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "candidate_note_revisions" ADD CONSTRAINT "candidate_note_revisions_editor_id_users_id_fk" FOREIGN KEY ("editor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "candidate_notes" ADD CONSTRAINT "candidate_notes_candidate_id_candidates_id_fk" FOREIGN KEY ("candidate_id") REFERENCES "public"."candidates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "candidate_notes" ADD CONSTRAINT "candidate_notes_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_candidate_id_candidates_id_fk" FOREIGN KEY ("candidate_id") REFERENCES "public"."candidates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_note_id_candidate_notes_id_fk" FOREIGN KEY ("note_id") REFERENCES "public"."candidate_notes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_candidate_notes_candidate" ON "candidate_notes" USING btree ("candidate_id");--> statement-breakpoint
+CREATE INDEX "IDX_notifications_user" ON "notifications" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "candidates" ADD COLUMN "resume_file_key" varchar;--> statement-breakpoint
+ALTER TABLE "candidates" ADD COLUMN "resume_file_name" varchar;--> statement-breakpoint
+ALTER TABLE "candidates" ADD COLUMN "resume_content_type" varchar;--> statement-breakpoint
+ALTER TABLE "candidates" ADD COLUMN "resume_file_size" integer;--> statement-breakpoint
+ALTER TABLE "candidates" ADD COLUMN "resume_uploaded_at" timestamp;
\ No newline at end of file
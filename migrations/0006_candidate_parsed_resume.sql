@@ -0,0 +1 @@
+ALTER TABLE "candidates" ADD COLUMN "parsed_resume" jsonb;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "candidate_attachments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"candidate_id" integer NOT NULL,
+	"file_key" varchar NOT NULL,
+	"file_name" varchar NOT NULL,
+	"content_type" varchar NOT NULL,
+	"file_size" integer NOT NULL,
+	"uploaded_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "candidate_attachments" ADD CONSTRAINT "candidate_attachments_candidate_id_candidates_id_fk" FOREIGN KEY ("candidate_id") REFERENCES "public"."candidates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_candidate_attachments_candidate" ON "candidate_attachments" USING btree ("candidate_id");
\ No newline at end of file
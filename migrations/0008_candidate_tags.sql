@@ -0,0 +1 @@
+ALTER TABLE "candidates" ADD COLUMN "tags" text[] DEFAULT '{}' NOT NULL;
\ No newline at end of file
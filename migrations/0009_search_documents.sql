@@ -0,0 +1,26 @@
+CREATE TABLE "search_documents" (
+	"source" varchar NOT NULL,
+	"source_id" integer NOT NULL,
+	"candidate_id" integer NOT NULL,
+	"body" text NOT NULL,
+	"vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', "body"), CASE "source" WHEN 'profile' THEN 'A' WHEN 'note' THEN 'B' ELSE 'C' END::"char")) STORED,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "search_documents_source_source_id_pk" PRIMARY KEY("source","source_id")
+);
+--> statement-breakpoint
+ALTER TABLE "search_documents" ADD CONSTRAINT "search_documents_candidate_id_candidates_id_fk" FOREIGN KEY ("candidate_id") REFERENCES "public"."candidates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_search_documents_vector" ON "search_documents" USING gin ("vector");--> statement-breakpoint
+CREATE INDEX "IDX_search_documents_candidate" ON "search_documents" USING btree ("candidate_id");--> statement-breakpoint
+-- Index existing profiles and notes. Employers and education from parsed
+-- resumes are added the next time each candidate is saved; resume text needs
+-- the file to be uploaded again.
+INSERT INTO "search_documents" ("source", "source_id", "candidate_id", "body")
+SELECT 'profile', "id", "id", concat_ws(E'\n',
+  "name", "email", "phone", "position_applied", "status",
+  nullif(array_to_string("tags", ' '), ''),
+  (SELECT nullif(string_agg(skill, ', '), '') FROM jsonb_array_elements_text(coalesce("parsed_resume"->'skills', '[]'::jsonb)) AS skill)
+)
+FROM "candidates";
+--> statement-breakpoint
+INSERT INTO "search_documents" ("source", "source_id", "candidate_id", "body")
+SELECT 'note', "id", "candidate_id", "body" FROM "candidate_notes";
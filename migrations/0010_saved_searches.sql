@@ -0,0 +1,25 @@
+CREATE TABLE "saved_search_pins" (
+	"user_id" varchar NOT NULL,
+	"saved_search_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "saved_search_pins_user_id_saved_search_id_pk" PRIMARY KEY("user_id","saved_search_id")
+);
+--> statement-breakpoint
+CREATE TABLE "saved_searches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"owner_id" varchar NOT NULL,
+	"name" varchar NOT NULL,
+	"position" varchar,
+	"status" varchar,
+	"search" text DEFAULT '' NOT NULL,
+	"sort" varchar DEFAULT 'createdAt' NOT NULL,
+	"order" varchar DEFAULT 'desc' NOT NULL,
+	"shared" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "saved_search_pins" ADD CONSTRAINT "saved_search_pins_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_search_pins" ADD CONSTRAINT "saved_search_pins_saved_search_id_saved_searches_id_fk" FOREIGN KEY ("saved_search_id") REFERENCES "public"."saved_searches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_saved_searches_owner" ON "saved_searches" USING btree ("owner_id");
\ No newline at end of file
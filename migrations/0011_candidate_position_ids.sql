@@ -0,0 +1,27 @@
+ALTER TABLE "saved_searches" ADD COLUMN "position_id" integer;--> statement-breakpoint
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_position_id_positions_id_fk" FOREIGN KEY ("position_id") REFERENCES "public"."positions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Link candidates to the position whose title they applied for. Titles match
+-- ignoring case and surrounding spaces; when several positions share a title
+-- the oldest wins. Unmatched candidates keep their text and a null position_id.
+UPDATE "candidates" SET "position_id" = p."id", "position_applied" = p."title"
+FROM (
+  SELECT DISTINCT ON (lower(trim("title"))) "id", "title" FROM "positions" ORDER BY lower(trim("title")), "id"
+) AS p
+WHERE "candidates"."position_id" IS NULL AND lower(trim("candidates"."position_applied")) = lower(trim(p."title"));
+--> statement-breakpoint
+UPDATE "candidates" SET "position_applied" = "positions"."title"
+FROM "positions"
+WHERE "candidates"."position_id" = "positions"."id" AND "candidates"."position_applied" <> "positions"."title";
+--> statement-breakpoint
+UPDATE "saved_searches" SET "position_id" = p."id"
+FROM (
+  SELECT DISTINCT ON (lower(trim("title"))) "id", "title" FROM "positions" ORDER BY lower(trim("title")), "id"
+) AS p
+WHERE lower(trim("saved_searches"."position")) = lower(trim(p."title"));
+--> statement-breakpoint
+-- A saved search for a title no position has keeps filtering on it through its search text
+UPDATE "saved_searches"
+SET "search" = trim(concat_ws(' ', "search", 'position:"' || replace(replace("position", '\', '\\'), '"', '\"') || '"'))
+WHERE "position" IS NOT NULL AND "position_id" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "saved_searches" DROP COLUMN "position";
@@ -0,0 +1 @@
+ALTER TABLE "positions" ADD COLUMN "archived_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "users" ADD COLUMN "role" varchar DEFAULT 'read_only' NOT NULL;--> statement-breakpoint
+-- Everyone could do everything before roles existed: existing users keep
+-- recruiter access and the oldest becomes the admin who can assign roles
+UPDATE "users" SET "role" = 'recruiter';
+--> statement-breakpoint
+UPDATE "users" SET "role" = 'admin'
+WHERE "id" = (SELECT "id" FROM "users" ORDER BY "created_at" NULLS LAST, "id" LIMIT 1);
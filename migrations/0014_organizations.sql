@@ -0,0 +1,38 @@
+CREATE TABLE "organization_members" (
+	"organization_id" integer NOT NULL,
+	"user_id" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "organization_members_organization_id_user_id_pk" PRIMARY KEY("organization_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "organizations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+-- Everything so far belongs to one organization, which every existing user
+-- joins; on a new database the first user to sign in joins it
+INSERT INTO "organizations" ("name") VALUES ('Default');
+--> statement-breakpoint
+INSERT INTO "organization_members" ("organization_id", "user_id")
+SELECT (SELECT min("id") FROM "organizations"), "id" FROM "users";
+--> statement-breakpoint
+ALTER TABLE "candidates" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+ALTER TABLE "positions" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+ALTER TABLE "saved_searches" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+UPDATE "candidates" SET "organization_id" = (SELECT min("id") FROM "organizations");--> statement-breakpoint
+UPDATE "positions" SET "organization_id" = (SELECT min("id") FROM "organizations");--> statement-breakpoint
+UPDATE "saved_searches" SET "organization_id" = (SELECT min("id") FROM "organizations");--> statement-breakpoint
+ALTER TABLE "candidates" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "positions" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "saved_searches" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_organization_members_user" ON "organization_members" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "candidates" ADD CONSTRAINT "candidates_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "positions" ADD CONSTRAINT "positions_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_candidates_organization" ON "candidates" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "IDX_positions_organization" ON "positions" USING btree ("organization_id");
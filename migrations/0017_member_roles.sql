@@ -0,0 +1,6 @@
+ALTER TABLE "organization_members" ADD COLUMN "role" varchar DEFAULT 'read_only' NOT NULL;--> statement-breakpoint
+-- Roles applied in every organization so far; each membership keeps the one
+-- its user had
+UPDATE "organization_members" SET "role" = "users"."role"
+FROM "users" WHERE "users"."id" = "organization_members"."user_id";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "role";
@@ -0,0 +1,19 @@
+ALTER TABLE "pipelines" ADD COLUMN "organization_id" integer;--> statement-breakpoint
+-- Pipelines were shared by every organization. The first one keeps them and
+-- every other organization gets a copy of each, which its positions move to
+ALTER TABLE "pipelines" ADD COLUMN "copied_from_id" integer;--> statement-breakpoint
+UPDATE "pipelines" SET "organization_id" = (SELECT min("id") FROM "organizations");--> statement-breakpoint
+INSERT INTO "pipelines" ("organization_id", "name", "is_default", "created_at", "updated_at", "copied_from_id")
+SELECT "organizations"."id", "pipelines"."name", "pipelines"."is_default", "pipelines"."created_at", "pipelines"."updated_at", "pipelines"."id"
+FROM "organizations" CROSS JOIN "pipelines"
+WHERE "organizations"."id" <> "pipelines"."organization_id";--> statement-breakpoint
+INSERT INTO "pipeline_stages" ("pipeline_id", "name", "color", "sort_order", "is_terminal")
+SELECT "pipelines"."id", "pipeline_stages"."name", "pipeline_stages"."color", "pipeline_stages"."sort_order", "pipeline_stages"."is_terminal"
+FROM "pipelines" JOIN "pipeline_stages" ON "pipeline_stages"."pipeline_id" = "pipelines"."copied_from_id";--> statement-breakpoint
+UPDATE "positions" SET "pipeline_id" = "pipelines"."id"
+FROM "pipelines"
+WHERE "pipelines"."copied_from_id" = "positions"."pipeline_id" AND "pipelines"."organization_id" = "positions"."organization_id";--> statement-breakpoint
+ALTER TABLE "pipelines" DROP COLUMN "copied_from_id";--> statement-breakpoint
+ALTER TABLE "pipelines" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "pipelines" ADD CONSTRAINT "pipelines_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_pipelines_organization" ON "pipelines" USING btree ("organization_id");
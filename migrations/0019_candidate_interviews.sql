@@ -0,0 +1,16 @@
+CREATE TABLE "candidate_interviews" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"candidate_id" integer NOT NULL,
+	"scheduled_at" timestamp NOT NULL,
+	"duration_minutes" integer DEFAULT 60 NOT NULL,
+	"interviewer_id" varchar,
+	"location" varchar,
+	"notes" text,
+	"created_by_id" varchar,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "candidate_interviews" ADD CONSTRAINT "candidate_interviews_candidate_id_candidates_id_fk" FOREIGN KEY ("candidate_id") REFERENCES "public"."candidates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "candidate_interviews" ADD CONSTRAINT "candidate_interviews_interviewer_id_users_id_fk" FOREIGN KEY ("interviewer_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "candidate_interviews" ADD CONSTRAINT "candidate_interviews_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "IDX_candidate_interviews_candidate" ON "candidate_interviews" USING btree ("candidate_id");
\ No newline at end of file
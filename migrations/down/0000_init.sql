@@ -0,0 +1,7 @@
+DROP TABLE "candidates";
+--> statement-breakpoint
+DROP TABLE "positions";
+--> statement-breakpoint
+DROP TABLE "sessions";
+--> statement-breakpoint
+DROP TABLE "users";
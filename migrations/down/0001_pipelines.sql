@@ -0,0 +1,7 @@
+ALTER TABLE "positions" DROP CONSTRAINT "positions_pipeline_id_pipelines_id_fk";
+--> statement-breakpoint
+ALTER TABLE "positions" DROP COLUMN "pipeline_id";
+--> statement-breakpoint
+DROP TABLE "pipeline_stages";
+--> statement-breakpoint
+DROP TABLE "pipelines";
@@ -0,0 +1 @@
+DELETE FROM "pipelines" WHERE "is_default" = true;
@@ -0,0 +1 @@
+DROP TABLE "candidate_status_history";
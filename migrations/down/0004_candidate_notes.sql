@@ -0,0 +1,5 @@
+DROP TABLE "notifications";
+--> statement-breakpoint
+DROP TABLE "candidate_note_revisions";
+--> statement-breakpoint
+DROP TABLE "candidate_notes";
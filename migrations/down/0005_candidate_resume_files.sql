@@ -0,0 +1,9 @@
+ALTER TABLE "candidates" DROP COLUMN "resume_uploaded_at";
+--> statement-breakpoint
+ALTER TABLE "candidates" DROP COLUMN "resume_file_size";
+--> statement-breakpoint
+ALTER TABLE "candidates" DROP COLUMN "resume_content_type";
+--> statement-breakpoint
+ALTER TABLE "candidates" DROP COLUMN "resume_file_name";
+--> statement-breakpoint
+ALTER TABLE "candidates" DROP COLUMN "resume_file_key";
@@ -0,0 +1,3 @@
+DROP TABLE "saved_search_pins";
+--> statement-breakpoint
+DROP TABLE "saved_searches";
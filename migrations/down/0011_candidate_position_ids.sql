@@ -0,0 +1,9 @@
+ALTER TABLE "saved_searches" ADD COLUMN "position" varchar;
+--> statement-breakpoint
+UPDATE "saved_searches" SET "position" = "positions"."title"
+FROM "positions"
+WHERE "saved_searches"."position_id" = "positions"."id";
+--> statement-breakpoint
+ALTER TABLE "saved_searches" DROP CONSTRAINT "saved_searches_position_id_positions_id_fk";
+--> statement-breakpoint
+ALTER TABLE "saved_searches" DROP COLUMN "position_id";
@@ -0,0 +1,5 @@
+ALTER TABLE "saved_searches" DROP COLUMN "organization_id";--> statement-breakpoint
+ALTER TABLE "positions" DROP COLUMN "organization_id";--> statement-breakpoint
+ALTER TABLE "candidates" DROP COLUMN "organization_id";--> statement-breakpoint
+DROP TABLE "organization_members";--> statement-breakpoint
+DROP TABLE "organizations";
@@ -0,0 +1,3 @@
+DROP TABLE "invitations";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "deactivated_at";--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "last_login_at";
@@ -0,0 +1,2 @@
+DROP TABLE "password_resets";--> statement-breakpoint
+DROP TABLE "user_credentials";
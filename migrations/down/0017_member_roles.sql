@@ -0,0 +1,9 @@
+ALTER TABLE "users" ADD COLUMN "role" varchar DEFAULT 'read_only' NOT NULL;--> statement-breakpoint
+-- A user's role in their oldest organization becomes their role everywhere
+UPDATE "users" SET "role" = (
+	SELECT "role" FROM "organization_members"
+	WHERE "organization_members"."user_id" = "users"."id"
+	ORDER BY "organization_id" LIMIT 1
+)
+WHERE EXISTS (SELECT 1 FROM "organization_members" WHERE "organization_members"."user_id" = "users"."id");--> statement-breakpoint
+ALTER TABLE "organization_members" DROP COLUMN "role";
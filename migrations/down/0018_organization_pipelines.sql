@@ -0,0 +1,11 @@
+-- Only the first organization's pipelines are kept for everyone; other
+-- positions move to the one with the same name, or to the default
+UPDATE "positions" SET "pipeline_id" = (
+	SELECT min("kept"."id") FROM "pipelines" AS "kept", "pipelines" AS "own"
+	WHERE "own"."id" = "positions"."pipeline_id"
+		AND "kept"."name" = "own"."name"
+		AND "kept"."organization_id" = (SELECT min("id") FROM "organizations")
+)
+WHERE "organization_id" <> (SELECT min("id") FROM "organizations");--> statement-breakpoint
+DELETE FROM "pipelines" WHERE "organization_id" <> (SELECT min("id") FROM "organizations");--> statement-breakpoint
+ALTER TABLE "pipelines" DROP COLUMN "organization_id";
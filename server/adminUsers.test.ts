@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, inviteAndSignUp, signUp, TestClient, TEST_PASSWORD } from "./testing";
+
+// Alice administers organization A. Bob administers B, where Alice is only a
+// recruiter. Carol belongs to both and Dan to A alone.
+describe("user administration across organizations", () => {
+  let app: Express;
+  let alice: TestClient;
+  let bob: TestClient;
+  let carol: TestClient;
+  let dan: TestClient;
+  const ids = {} as { alice: string; carol: string; dan: string; a: number; b: number };
+
+  const userId = async (client: TestClient) => (await client.get("/api/auth/user").expect(200)).body.id;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    alice = await signUp(app, "alice@example.com");
+    ids.alice = await userId(alice);
+    ids.a = (await alice.get("/api/organizations")).body[0].id;
+    carol = await inviteAndSignUp(app, alice, "carol@example.com", "recruiter");
+    ids.carol = await userId(carol);
+    dan = await inviteAndSignUp(app, alice, "dan@example.com", "recruiter");
+    ids.dan = await userId(dan);
+
+    ids.b = (await alice.post("/api/organizations").send({ name: "Beta" }).expect(201)).body.id;
+    bob = await inviteAndSignUp(app, alice, "bob@example.com", "admin");
+    const invitation = await alice.post("/api/invitations").send({ email: "carol@example.com", role: "hiring_manager" });
+    await carol.post(`/api/invitations/token/${invitation.body.token}/accept`).expect(200);
+    await bob.put(`/api/admin/users/${ids.alice}/role`).send({ role: "recruiter" }).expect(200);
+    await alice.put("/api/organizations/current").send({ organizationId: ids.a }).expect(200);
+  });
+
+  it("gives an accepted invitation's role to the new membership only", async () => {
+    const inA = await alice.get("/api/admin/users").expect(200);
+    expect(inA.body.find((user: { id: string }) => user.id === ids.carol)).toMatchObject({ role: "recruiter" });
+    const inB = await bob.get("/api/admin/users").expect(200);
+    expect(inB.body.find((user: { id: string }) => user.id === ids.carol)).toMatchObject({ role: "hiring_manager" });
+  });
+
+  it("marks only accounts the admin has a say over everywhere as manageable", async () => {
+    const res = await alice.get("/api/admin/users").expect(200);
+    const manageable = Object.fromEntries(
+      res.body.map((user: { id: string; manageable: boolean }) => [user.id, user.manageable]),
+    );
+    expect(manageable).toEqual({ [ids.alice]: false, [ids.carol]: false, [ids.dan]: true });
+  });
+
+  it("refuses to deactivate a member who also belongs to an organization the admin doesn't administer", async () => {
+    await alice.put(`/api/admin/users/${ids.carol}/active`).send({ active: false }).expect(403);
+    await bob.put(`/api/admin/users/${ids.carol}/active`).send({ active: false }).expect(403);
+    const res = await carol.get("/api/auth/user").expect(200);
+    expect(res.body.deactivatedAt).toBeNull();
+  });
+
+  it("refuses to deactivate someone outside the current organization", async () => {
+    await bob.put(`/api/admin/users/${ids.dan}/active`).send({ active: false }).expect(404);
+  });
+
+  it("won't let an admin deactivate themselves", async () => {
+    await bob.put(`/api/admin/users/${await userId(bob)}/active`).send({ active: false }).expect(400);
+  });
+
+  it("deactivates a member of the admin's organizations only, signing them out", async () => {
+    await alice.put(`/api/admin/users/${ids.dan}/active`).send({ active: false }).expect(200);
+    await dan.get("/api/auth/user").expect(401);
+    await new TestClient(app)
+      .post("/api/auth/login")
+      .send({ email: "dan@example.com", password: TEST_PASSWORD })
+      .expect(401);
+
+    await alice.put(`/api/admin/users/${ids.dan}/active`).send({ active: true }).expect(200);
+    const again = new TestClient(app);
+    await again.post("/api/auth/login").send({ email: "dan@example.com", password: TEST_PASSWORD }).expect(204);
+    await again.get("/api/auth/user").expect(200);
+  });
+
+  it("won't let an account without an email accept an invitation sent to someone", async () => {
+    const erin = await inviteAndSignUp(app, alice, "erin@example.com", "recruiter");
+    // As an OIDC account whose provider sends no email claim
+    await storage.upsertUser({ id: await userId(erin), email: null });
+    const invitation = await bob.post("/api/invitations").send({ email: "frank@example.com", role: "admin" }).expect(201);
+    await erin.post(`/api/invitations/token/${invitation.body.token}/accept`).expect(403);
+    const organizations = await erin.get("/api/organizations").expect(200);
+    expect(organizations.body.map((organization: { id: number }) => organization.id)).toEqual([ids.a]);
+  });
+});
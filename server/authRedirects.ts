@@ -0,0 +1,8 @@
+// Where to go after signing in, e.g. back to an invitation link; only paths
+// on this site are accepted
+export function returnToPath(value: unknown): string | undefined {
+  return typeof value === "string" && /^\/(?![\/\\])/.test(value) ? value : undefined;
+}
+
+// Sign-in was refused, e.g. because the account is deactivated
+export const LOGIN_FAILED_PATH = "/?login=failed";
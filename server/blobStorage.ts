@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+
+/**
+ * Stores opaque files (resumes, attachments) by key. Keys are generated by
+ * the server and may contain "/" to group related blobs.
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to undefined when no blob exists under the key
+  get(key: string): Promise<Readable | undefined>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
+
+export class LocalBlobStore implements BlobStore {
+  private root: string;
+
+  constructor(dir: string) {
+    this.root = path.resolve(dir);
+  }
+
+  // Keys never come from user input, but refuse anything that escapes the root anyway
+  private pathFor(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid blob key "${key}"`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated blob
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Readable | undefined> {
+    const filePath = this.pathFor(key);
+    try {
+      await fs.promises.access(filePath);
+    } catch {
+      return undefined;
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+}
+
+// BLOB_STORAGE picks where uploaded files live. Only "local" (a directory on
+// disk, BLOB_STORAGE_DIR, default ./uploads) exists so far; an S3-compatible
+// store would implement BlobStore and be added here.
+function createBlobStore(): BlobStore {
+  const backend = process.env.BLOB_STORAGE ?? "local";
+  switch (backend) {
+    case "local":
+      return new LocalBlobStore(process.env.BLOB_STORAGE_DIR ?? "uploads");
+    default:
+      throw new Error(`Unknown BLOB_STORAGE "${backend}". Use local.`);
+  }
+}
+
+export const blobStore = createBlobStore();
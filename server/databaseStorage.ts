@@ -0,0 +1,1551 @@
+import {
+  and,
+  arrayContains,
+  asc,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  ilike,
+  isNotNull,
+  isNull,
+  lt,
+  ne,
+  not,
+  or,
+  exists,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import {
+  users,
+  organizations,
+  organizationMembers,
+  invitations,
+  userCredentials,
+  passwordResets,
+  positions,
+  candidates,
+  pipelines,
+  pipelineStages,
+  candidateStatusHistory,
+  candidateNotes,
+  candidateNoteRevisions,
+  notifications,
+  candidateAttachments,
+  candidateInterviews,
+  searchDocuments,
+  savedSearches,
+  savedSearchPins,
+  type User,
+  type UpsertUser,
+  type Organization,
+  type InsertOrganization,
+  type Member,
+  type Invitation,
+  type InvitationWithInviter,
+  type UserCredential,
+  type PasswordReset,
+  type Position,
+  type InsertPosition,
+  type Candidate,
+  type CandidateWithPosition,
+  type InsertCandidate,
+  type PipelineWithStages,
+  type InsertPipeline,
+  DEFAULT_PIPELINE,
+  type InsertPipelineStage,
+  type DashboardStats,
+  type CandidateStatusChangeWithActor,
+  type CandidateNote,
+  type CandidateNoteWithAuthor,
+  type CandidateNoteRevisionWithEditor,
+  type Notification,
+  type InsertNotification,
+  type NotificationWithActor,
+  type ResumeFile,
+  type ParsedResume,
+  type CandidateAttachment,
+  type CandidateInterview,
+  type CandidateInterviewWithInterviewer,
+  type InsertCandidateInterview,
+  type SavedSearch,
+  type SavedSearchWithOwner,
+  type InsertSavedSearch,
+} from "@shared/schema";
+import {
+  DuplicateIndex,
+  nameTokens,
+  normalizeEmail,
+  normalizePhone,
+  type DuplicateFields,
+  type DuplicateMatch,
+} from "@shared/duplicates";
+import type { CandidateMergeValues } from "@shared/candidateMerge";
+import { dateTermRange, type CandidateQueryTerm } from "@shared/candidateQuery";
+import type { CandidateSortField, PositionSortField } from "@shared/pagination";
+import type { SearchResult, SearchSource } from "@shared/search";
+import type { Role } from "@shared/permissions";
+import { blobStore } from "./blobStorage";
+import { getDb, type Database, type Transaction } from "./db";
+import type {
+  CandidateFilters,
+  IStorage,
+  NewInvitation,
+  PositionFilters,
+  StatusChangeContext,
+} from "./storage";
+import type { PageOptions, PageResult } from "./pagination";
+import {
+  HIGHLIGHT_START,
+  HIGHLIGHT_STOP,
+  groupSearchHits,
+  headlineParts,
+  profileSearchText,
+  type SearchHit,
+} from "./search";
+
+// Escape LIKE wildcards so a search behaves like MemStorage's substring match
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+}
+
+// SQL for one search term, matching candidateMatchesQuery in shared/candidateQuery.ts
+function candidateTermCondition(term: CandidateQueryTerm): SQL {
+  let condition: SQL;
+  switch (term.type) {
+    case "text": {
+      const pattern = likePattern(term.value);
+      condition = or(
+        ilike(candidates.name, pattern),
+        ilike(candidates.email, pattern),
+        ilike(candidates.positionApplied, pattern),
+        ilike(candidates.status, pattern),
+      )!;
+      break;
+    }
+    case "field":
+      switch (term.field) {
+        case "status":
+          condition = sql`lower(${candidates.status}) = ${term.value.toLowerCase()}`;
+          break;
+        case "tag":
+          condition = arrayContains(candidates.tags, [term.value.toLowerCase()]);
+          break;
+        default: {
+          const column = term.field === "position" ? candidates.positionApplied : candidates[term.field];
+          condition = ilike(column, likePattern(term.value));
+        }
+      }
+      break;
+    case "date": {
+      const column = term.field === "created" ? candidates.createdAt : candidates.updatedAt;
+      const { from, to } = dateTermRange(term);
+      // A missing date never matches, so negating the term includes it
+      condition = and(
+        isNotNull(column),
+        from ? gte(column, from) : undefined,
+        to ? lt(column, to) : undefined,
+      )!;
+      break;
+    }
+  }
+  return term.negated ? not(condition) : condition;
+}
+
+// ts_headline settings: up to two short fragments around the matched words
+const HEADLINE_OPTIONS = [
+  `StartSel=${HIGHLIGHT_START}`,
+  `StopSel=${HIGHLIGHT_STOP}`,
+  "MaxWords=28",
+  "MinWords=12",
+  "MaxFragments=2",
+  'FragmentDelimiter=" … "',
+].join(", ");
+
+// Rows fetched per query by the iterate* methods
+const BATCH_SIZE = 500;
+
+const candidateSortColumns: Record<CandidateSortField, PgColumn> = {
+  name: candidates.name,
+  status: candidates.status,
+  position: candidates.positionApplied,
+  createdAt: candidates.createdAt,
+  updatedAt: candidates.updatedAt,
+};
+
+const positionSortColumns: Record<PositionSortField, PgColumn> = {
+  title: positions.title,
+  department: positions.department,
+  location: positions.location,
+  status: positions.status,
+  createdAt: positions.createdAt,
+  updatedAt: positions.updatedAt,
+};
+
+// Timestamps are compared at millisecond precision, since that is all a
+// cursor built from a JS Date can hold
+function sortExpression(column: PgColumn): SQL {
+  return column.columnType === "PgTimestamp" ? sql`date_trunc('milliseconds', ${column})` : sql`${column}`;
+}
+
+// Orders by the sort column with id as a tie-breaker, both in the same
+// direction, which is what makes (value, id) cursors work
+function pageOrder(column: PgColumn, idColumn: PgColumn, options: PageOptions<string>) {
+  const direction = options.order === "asc" ? asc : desc;
+  return [direction(sortExpression(column)), direction(idColumn)];
+}
+
+// Rows after the cursor in that ordering; date cursors hold a timestamp
+function afterCursor(column: PgColumn, idColumn: PgColumn, options: PageOptions<string>): SQL | undefined {
+  if (!options.after) {
+    return undefined;
+  }
+  const beyond = options.order === "asc" ? gt : lt;
+  const expression = sortExpression(column);
+  const value =
+    column.columnType === "PgTimestamp"
+      ? sql`${new Date(options.after.value).toISOString()}::timestamp`
+      : options.after.value;
+  return or(beyond(expression, value), and(eq(expression, value), beyond(idColumn, options.after.id)));
+}
+
+const userSummaryColumns = {
+  columns: { id: true, email: true, firstName: true, lastName: true, profileImageUrl: true },
+} as const;
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database = getDb()) {}
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    return await this.db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values(userData)
+        .onConflictDoUpdate({
+          target: users.id,
+          set: {
+            ...userData,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      if (!(await this.hasMembers(tx))) {
+        // Checked again under the lock so two first sign-ins can't both become admin
+        await tx.execute(sql`lock table ${organizationMembers} in share row exclusive mode`);
+        const [first] = await tx.select().from(organizations).orderBy(asc(organizations.id)).limit(1);
+        if (first && !(await this.hasMembers(tx))) {
+          await tx.insert(organizationMembers).values({ organizationId: first.id, userId: user.id, role: "admin" });
+        }
+      }
+      return user;
+    });
+  }
+
+  async createFirstUser(userData: UpsertUser): Promise<User | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Held until commit, so a concurrent first sign-up waits and then finds this account
+      await tx.execute(sql`lock table ${users} in share row exclusive mode`);
+      const [existing] = await tx.select({ id: users.id }).from(users).limit(1);
+      if (existing) {
+        return undefined;
+      }
+      const [user] = await tx.insert(users).values(userData).returning();
+      const [first] = await tx.select().from(organizations).orderBy(asc(organizations.id)).limit(1);
+      if (first) {
+        await tx.insert(organizationMembers).values({ organizationId: first.id, userId: user.id, role: "admin" });
+      }
+      return user;
+    });
+  }
+
+  async createInvitedUser(invitationId: number, userData: UpsertUser, passwordHash: string): Promise<User | undefined> {
+    return await this.db.transaction(async (tx) => {
+      // Held until commit, so a concurrent sign-up with the same email waits and then finds this account
+      await tx.execute(sql`lock table ${users} in share row exclusive mode`);
+      if (userData.email) {
+        const [existing] = await tx
+          .select({ id: users.id })
+          .from(users)
+          .where(sql`lower(${users.email}) = ${userData.email.toLowerCase()}`)
+          .limit(1);
+        if (existing) {
+          return undefined;
+        }
+      }
+      const [user] = await tx.insert(users).values(userData).returning();
+      // The conditions make the token single-use even under concurrent sign-ups
+      const [claimed] = await tx
+        .update(invitations)
+        .set({ acceptedAt: new Date(), acceptedById: user.id })
+        .where(and(eq(invitations.id, invitationId), isNull(invitations.acceptedAt), gt(invitations.expiresAt, new Date())))
+        .returning();
+      if (!claimed) {
+        await tx.delete(users).where(eq(users.id, user.id));
+        return undefined;
+      }
+      await tx.insert(userCredentials).values({ userId: user.id, passwordHash });
+      await tx
+        .insert(organizationMembers)
+        .values({ organizationId: claimed.organizationId, userId: user.id, role: claimed.role });
+      return user;
+    });
+  }
+
+  private async hasMembers(tx: Transaction): Promise<boolean> {
+    const [member] = await tx.select({ userId: organizationMembers.userId }).from(organizationMembers).limit(1);
+    return !!member;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return await this.db.select().from(users).orderBy(asc(users.firstName), asc(users.email));
+  }
+
+  async setUserDeactivated(id: string, deactivated: boolean): Promise<User> {
+    const [user] = await this.db
+      .update(users)
+      // Deactivating twice keeps the original date
+      .set({ deactivatedAt: deactivated ? sql`coalesce(${users.deactivatedAt}, now())` : null, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    if (!user) {
+      throw new Error(`User with id ${id} not found`);
+    }
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`)
+      .limit(1);
+    return user;
+  }
+
+  // Local credential operations
+  async getUserCredential(userId: string): Promise<UserCredential | undefined> {
+    const [credential] = await this.db.select().from(userCredentials).where(eq(userCredentials.userId, userId));
+    return credential;
+  }
+
+  async setUserPassword(userId: string, passwordHash: string): Promise<void> {
+    const values = { passwordHash, failedLoginCount: 0, lockedUntil: null, updatedAt: new Date() };
+    await this.db
+      .insert(userCredentials)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: userCredentials.userId, set: values });
+  }
+
+  async recordFailedLogin(userId: string, maxAttempts: number, lockedUntil: Date): Promise<UserCredential> {
+    // One statement, so concurrent attempts can't undercount
+    const locks = sql`${userCredentials.failedLoginCount} + 1 >= ${maxAttempts}`;
+    const [credential] = await this.db
+      .update(userCredentials)
+      .set({
+        failedLoginCount: sql`case when ${locks} then 0 else ${userCredentials.failedLoginCount} + 1 end`,
+        lockedUntil: sql`case when ${locks} then ${sql.param(lockedUntil, userCredentials.lockedUntil)} else ${userCredentials.lockedUntil} end`,
+        updatedAt: new Date(),
+      })
+      .where(eq(userCredentials.userId, userId))
+      .returning();
+    if (!credential) {
+      throw new Error(`User with id ${userId} has no password`);
+    }
+    return credential;
+  }
+
+  async recordLogin(userId: string): Promise<User> {
+    return await this.db.transaction(async (tx) => {
+      await tx
+        .update(userCredentials)
+        .set({ failedLoginCount: 0, lockedUntil: null, updatedAt: new Date() })
+        .where(eq(userCredentials.userId, userId));
+      const [user] = await tx.update(users).set({ lastLoginAt: new Date() }).where(eq(users.id, userId)).returning();
+      if (!user) {
+        throw new Error(`User with id ${userId} not found`);
+      }
+      return user;
+    });
+  }
+
+  async createPasswordReset(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordReset> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(passwordResets).where(and(eq(passwordResets.userId, userId), isNull(passwordResets.usedAt)));
+      const [reset] = await tx.insert(passwordResets).values({ userId, tokenHash, expiresAt }).returning();
+      return reset;
+    });
+  }
+
+  async getPasswordResetByTokenHash(tokenHash: string): Promise<PasswordReset | undefined> {
+    const [reset] = await this.db.select().from(passwordResets).where(eq(passwordResets.tokenHash, tokenHash));
+    return reset;
+  }
+
+  async completePasswordReset(id: number, passwordHash: string): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      // The usedAt condition makes the link single-use even under concurrent submits
+      const [reset] = await tx
+        .update(passwordResets)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResets.id, id), isNull(passwordResets.usedAt)))
+        .returning();
+      if (!reset) {
+        throw new Error(`Password reset with id ${id} not found or already used`);
+      }
+      const values = { passwordHash, failedLoginCount: 0, lockedUntil: null, updatedAt: new Date() };
+      await tx
+        .insert(userCredentials)
+        .values({ userId: reset.userId, ...values })
+        .onConflictDoUpdate({ target: userCredentials.userId, set: values });
+    });
+  }
+
+  // Organization operations
+  async getOrganizations(userId: string): Promise<Organization[]> {
+    const rows = await this.db
+      .select({ organization: organizations })
+      .from(organizations)
+      .innerJoin(organizationMembers, eq(organizationMembers.organizationId, organizations.id))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(asc(organizations.name), asc(organizations.id));
+    return rows.map((row) => row.organization);
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await this.db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async createOrganization(organization: InsertOrganization, creatorId: string): Promise<Organization> {
+    return await this.db.transaction(async (tx) => {
+      const [newOrganization] = await tx.insert(organizations).values(organization).returning();
+      await tx.insert(organizationMembers).values({ organizationId: newOrganization.id, userId: creatorId, role: "admin" });
+      await this.insertPipeline(tx, newOrganization.id, DEFAULT_PIPELINE);
+      return newOrganization;
+    });
+  }
+
+  async updateOrganization(id: number, organization: Partial<InsertOrganization>): Promise<Organization> {
+    const [updated] = await this.db
+      .update(organizations)
+      .set({ ...organization, updatedAt: new Date() })
+      .where(eq(organizations.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error(`Organization with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<Member[]> {
+    const rows = await this.db
+      .select({ user: users, role: organizationMembers.role })
+      .from(users)
+      .innerJoin(organizationMembers, eq(organizationMembers.userId, users.id))
+      .where(eq(organizationMembers.organizationId, organizationId))
+      .orderBy(asc(users.firstName), asc(users.email));
+    return rows.map((row) => ({ ...row.user, role: row.role }));
+  }
+
+  private memberCondition(organizationId: number, userId: string): SQL {
+    return and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId))!;
+  }
+
+  async getMemberRole(organizationId: number, userId: string): Promise<Role | undefined> {
+    const [member] = await this.db
+      .select({ role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(this.memberCondition(organizationId, userId));
+    return member?.role;
+  }
+
+  async setMemberRole(organizationId: number, userId: string, role: Role): Promise<void> {
+    const updated = await this.db
+      .update(organizationMembers)
+      .set({ role })
+      .where(this.memberCondition(organizationId, userId))
+      .returning({ userId: organizationMembers.userId });
+    if (updated.length === 0) {
+      throw new Error(`User with id ${userId} is not a member of organization ${organizationId}`);
+    }
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: string): Promise<void> {
+    await this.db.delete(organizationMembers).where(this.memberCondition(organizationId, userId));
+  }
+
+  // Invitation operations
+  async getInvitations(organizationId: number): Promise<InvitationWithInviter[]> {
+    const rows = await this.db.query.invitations.findMany({
+      where: and(eq(invitations.organizationId, organizationId), isNull(invitations.acceptedAt)),
+      orderBy: desc(invitations.id),
+      with: { invitedBy: userSummaryColumns },
+    });
+    return rows.map(({ tokenHash, ...invitation }) => invitation);
+  }
+
+  async getInvitation(organizationId: number, id: number): Promise<Invitation | undefined> {
+    const [invitation] = await this.db
+      .select()
+      .from(invitations)
+      .where(and(eq(invitations.organizationId, organizationId), eq(invitations.id, id)));
+    return invitation;
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const [invitation] = await this.db.select().from(invitations).where(eq(invitations.tokenHash, tokenHash));
+    return invitation;
+  }
+
+  async createInvitation(organizationId: number, invitedById: string, invitation: NewInvitation): Promise<Invitation> {
+    const [newInvitation] = await this.db
+      .insert(invitations)
+      .values({ ...invitation, organizationId, invitedById })
+      .returning();
+    return newInvitation;
+  }
+
+  async deleteInvitation(id: number): Promise<void> {
+    const deleted = await this.db
+      .delete(invitations)
+      .where(eq(invitations.id, id))
+      .returning({ id: invitations.id });
+    if (deleted.length === 0) {
+      throw new Error(`Invitation with id ${id} not found`);
+    }
+  }
+
+  async acceptInvitation(id: number, userId: string): Promise<Invitation> {
+    return await this.db.transaction(async (tx) => {
+      // The acceptedAt condition makes the token single-use even under concurrent accepts
+      const [accepted] = await tx
+        .update(invitations)
+        .set({ acceptedAt: new Date(), acceptedById: userId })
+        .where(and(eq(invitations.id, id), isNull(invitations.acceptedAt)))
+        .returning();
+      if (!accepted) {
+        throw new Error(`Invitation with id ${id} not found or already accepted`);
+      }
+      // A member keeps the role they have
+      await tx
+        .insert(organizationMembers)
+        .values({ organizationId: accepted.organizationId, userId, role: accepted.role })
+        .onConflictDoNothing();
+      return accepted;
+    });
+  }
+
+  // Position operations
+  async getPositions(organizationId: number): Promise<Position[]> {
+    return await this.db
+      .select()
+      .from(positions)
+      .where(eq(positions.organizationId, organizationId))
+      .orderBy(desc(positions.createdAt));
+  }
+
+  async getPosition(organizationId: number, id: number): Promise<Position | undefined> {
+    const [position] = await this.db
+      .select()
+      .from(positions)
+      .where(and(eq(positions.organizationId, organizationId), eq(positions.id, id)));
+    return position;
+  }
+
+  private positionConditions(organizationId: number, filters: PositionFilters = {}): SQL {
+    const inOrganization = eq(positions.organizationId, organizationId);
+    if (filters.archived === undefined) {
+      return inOrganization;
+    }
+    return and(inOrganization, filters.archived ? isNotNull(positions.archivedAt) : isNull(positions.archivedAt))!;
+  }
+
+  async getPositionPage(
+    organizationId: number,
+    options: PageOptions<PositionSortField>,
+    filters?: PositionFilters,
+  ): Promise<PageResult<Position>> {
+    const column = positionSortColumns[options.sort];
+    const condition = this.positionConditions(organizationId, filters);
+    const [{ total }] = await this.db.select({ total: count() }).from(positions).where(condition);
+    // One extra row tells whether there is a next page
+    const rows = await this.db
+      .select()
+      .from(positions)
+      .where(and(condition, afterCursor(column, positions.id, options)))
+      .orderBy(...pageOrder(column, positions.id, options))
+      .limit(options.limit + 1)
+      .offset(options.offset ?? 0);
+    return { items: rows.slice(0, options.limit), total, hasMore: rows.length > options.limit };
+  }
+
+  async *iteratePositions(organizationId: number, filters?: PositionFilters): AsyncIterable<Position> {
+    const condition = this.positionConditions(organizationId, filters);
+    let lastId: number | undefined;
+    while (true) {
+      const batch = await this.db
+        .select()
+        .from(positions)
+        .where(and(condition, lastId === undefined ? undefined : lt(positions.id, lastId)))
+        .orderBy(desc(positions.id))
+        .limit(BATCH_SIZE);
+      for (const position of batch) {
+        yield position;
+      }
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  async createPosition(organizationId: number, position: InsertPosition): Promise<Position> {
+    const [newPosition] = await this.db
+      .insert(positions)
+      .values({ ...position, organizationId })
+      .returning();
+    return newPosition;
+  }
+
+  async updatePosition(organizationId: number, id: number, position: Partial<InsertPosition>): Promise<Position> {
+    return await this.db.transaction(async (tx) => {
+      const [updatedPosition] = await tx
+        .update(positions)
+        .set({ ...position, updatedAt: new Date() })
+        .where(and(eq(positions.organizationId, organizationId), eq(positions.id, id)))
+        .returning();
+      if (!updatedPosition) {
+        throw new Error(`Position with id ${id} not found`);
+      }
+      if (position.title !== undefined) {
+        const renamed = await tx
+          .update(candidates)
+          .set({ positionApplied: updatedPosition.title })
+          .where(and(eq(candidates.positionId, id), ne(candidates.positionApplied, updatedPosition.title)))
+          .returning();
+        await this.indexCandidates(tx, renamed);
+      }
+      return updatedPosition;
+    });
+  }
+
+  async setPositionArchived(organizationId: number, id: number, archived: boolean): Promise<Position> {
+    const [updatedPosition] = await this.db
+      .update(positions)
+      // Archiving twice keeps the original date
+      .set({ archivedAt: archived ? sql`coalesce(${positions.archivedAt}, now())` : null, updatedAt: new Date() })
+      .where(and(eq(positions.organizationId, organizationId), eq(positions.id, id)))
+      .returning();
+    if (!updatedPosition) {
+      throw new Error(`Position with id ${id} not found`);
+    }
+    return updatedPosition;
+  }
+
+  async deletePosition(organizationId: number, id: number, reassignTo?: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      // Lock the position so no candidate is added to it meanwhile
+      const [existing] = await tx
+        .select({ id: positions.id })
+        .from(positions)
+        .where(and(eq(positions.organizationId, organizationId), eq(positions.id, id)))
+        .for("update");
+      if (!existing) {
+        throw new Error(`Position with id ${id} not found`);
+      }
+      if (reassignTo === undefined) {
+        const [{ total }] = await tx
+          .select({ total: count() })
+          .from(candidates)
+          .where(eq(candidates.positionId, id));
+        if (total > 0) {
+          throw new Error(`Position with id ${id} still has candidates`);
+        }
+      } else {
+        const title = (await this.positionTitles(tx, organizationId, [reassignTo])).get(reassignTo)!;
+        const moved = await tx
+          .update(candidates)
+          .set({ positionId: reassignTo, positionApplied: title, updatedAt: new Date() })
+          .where(eq(candidates.positionId, id))
+          .returning();
+        await this.indexCandidates(tx, moved);
+        await tx.update(savedSearches).set({ positionId: reassignTo }).where(eq(savedSearches.positionId, id));
+      }
+      // Remaining saved searches match any position (ON DELETE SET NULL)
+      await tx.delete(positions).where(eq(positions.id, id));
+    });
+  }
+
+  // Pipeline operations
+  private async findPipeline(organizationId: number, id: number, tx: Database | Transaction = this.db) {
+    return await tx.query.pipelines.findFirst({
+      where: and(eq(pipelines.organizationId, organizationId), eq(pipelines.id, id)),
+      with: { stages: { orderBy: asc(pipelineStages.sortOrder) } },
+    });
+  }
+
+  private async replaceStages(tx: Transaction, pipelineId: number, stages: InsertPipelineStage[]) {
+    await tx.delete(pipelineStages).where(eq(pipelineStages.pipelineId, pipelineId));
+    await tx.insert(pipelineStages).values(
+      stages.map((stage, index) => ({ ...stage, pipelineId, sortOrder: index })),
+    );
+  }
+
+  // Only one pipeline per organization may be the default at a time
+  private async clearDefaultPipeline(tx: Transaction, organizationId: number, exceptId: number) {
+    await tx
+      .update(pipelines)
+      .set({ isDefault: false, updatedAt: new Date() })
+      .where(and(eq(pipelines.organizationId, organizationId), eq(pipelines.isDefault, true), ne(pipelines.id, exceptId)));
+  }
+
+  private async insertPipeline(tx: Transaction, organizationId: number, pipeline: InsertPipeline) {
+    const { stages, ...fields } = pipeline;
+    const [newPipeline] = await tx.insert(pipelines).values({ ...fields, organizationId }).returning();
+    await this.replaceStages(tx, newPipeline.id, stages);
+    if (newPipeline.isDefault) {
+      await this.clearDefaultPipeline(tx, organizationId, newPipeline.id);
+    }
+    return newPipeline;
+  }
+
+  async getPipelines(organizationId: number): Promise<PipelineWithStages[]> {
+    return await this.db.query.pipelines.findMany({
+      where: eq(pipelines.organizationId, organizationId),
+      orderBy: asc(pipelines.id),
+      with: { stages: { orderBy: asc(pipelineStages.sortOrder) } },
+    });
+  }
+
+  async getPipeline(organizationId: number, id: number): Promise<PipelineWithStages | undefined> {
+    return await this.findPipeline(organizationId, id);
+  }
+
+  async getPipelineForPosition(organizationId: number, positionId: number | null): Promise<PipelineWithStages> {
+    if (positionId) {
+      const [position] = await this.db
+        .select({ pipelineId: positions.pipelineId })
+        .from(positions)
+        .where(and(eq(positions.organizationId, organizationId), eq(positions.id, positionId)));
+      if (position?.pipelineId) {
+        const pipeline = await this.findPipeline(organizationId, position.pipelineId);
+        if (pipeline) {
+          return pipeline;
+        }
+      }
+    }
+
+    const pipeline = await this.db.query.pipelines.findFirst({
+      where: and(eq(pipelines.organizationId, organizationId), eq(pipelines.isDefault, true)),
+      with: { stages: { orderBy: asc(pipelineStages.sortOrder) } },
+    });
+    if (!pipeline) {
+      throw new Error("No default pipeline configured");
+    }
+    return pipeline;
+  }
+
+  async createPipeline(organizationId: number, pipeline: InsertPipeline): Promise<PipelineWithStages> {
+    return await this.db.transaction(async (tx) => {
+      const newPipeline = await this.insertPipeline(tx, organizationId, pipeline);
+      return (await this.findPipeline(organizationId, newPipeline.id, tx))!;
+    });
+  }
+
+  async updatePipeline(organizationId: number, id: number, pipeline: Partial<InsertPipeline>): Promise<PipelineWithStages> {
+    return await this.db.transaction(async (tx) => {
+      const { stages, ...fields } = pipeline;
+      const [updatedPipeline] = await tx
+        .update(pipelines)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(and(eq(pipelines.organizationId, organizationId), eq(pipelines.id, id)))
+        .returning();
+      if (!updatedPipeline) {
+        throw new Error(`Pipeline with id ${id} not found`);
+      }
+      if (stages) {
+        await this.replaceStages(tx, id, stages);
+      }
+      if (updatedPipeline.isDefault) {
+        await this.clearDefaultPipeline(tx, organizationId, id);
+      }
+      return (await this.findPipeline(organizationId, id, tx))!;
+    });
+  }
+
+  async deletePipeline(organizationId: number, id: number): Promise<void> {
+    // Stages cascade and positions fall back to the default pipeline via ON DELETE SET NULL
+    const deleted = await this.db
+      .delete(pipelines)
+      .where(and(eq(pipelines.organizationId, organizationId), eq(pipelines.id, id)))
+      .returning({ id: pipelines.id });
+    if (deleted.length === 0) {
+      throw new Error(`Pipeline with id ${id} not found`);
+    }
+  }
+
+  // Search documents are written alongside the rows they index; Postgres derives the vector
+  private async indexDocument(
+    tx: Database | Transaction,
+    source: SearchSource,
+    sourceId: number,
+    candidateId: number,
+    body: string,
+  ) {
+    await tx
+      .insert(searchDocuments)
+      .values({ source, sourceId, candidateId, body })
+      .onConflictDoUpdate({
+        target: [searchDocuments.source, searchDocuments.sourceId],
+        set: { candidateId, body, updatedAt: new Date() },
+      });
+  }
+
+  private async unindexDocument(tx: Database | Transaction, source: SearchSource, sourceId: number) {
+    await tx
+      .delete(searchDocuments)
+      .where(and(eq(searchDocuments.source, source), eq(searchDocuments.sourceId, sourceId)));
+  }
+
+  private async indexCandidates(tx: Database | Transaction, rows: Candidate[]) {
+    if (rows.length === 0) {
+      return;
+    }
+    await tx
+      .insert(searchDocuments)
+      .values(
+        rows.map((row) => ({
+          source: "profile" as const,
+          sourceId: row.id,
+          candidateId: row.id,
+          body: profileSearchText(row),
+        })),
+      )
+      .onConflictDoUpdate({
+        target: [searchDocuments.source, searchDocuments.sourceId],
+        set: { body: sql`excluded.body`, updatedAt: new Date() },
+      });
+  }
+
+  // Candidate operations
+  private candidateConditions(organizationId: number, filters?: CandidateFilters): SQL[] {
+    const conditions: SQL[] = [eq(candidates.organizationId, organizationId)];
+
+    if (filters) {
+      if (filters.positionId) {
+        conditions.push(eq(candidates.positionId, filters.positionId));
+      }
+
+      if (filters.status) {
+        conditions.push(eq(candidates.status, filters.status));
+      }
+
+      if (filters.search) {
+        conditions.push(...filters.search.terms.map(candidateTermCondition));
+      }
+    }
+    return conditions;
+  }
+
+  async getCandidates(organizationId: number, filters?: CandidateFilters): Promise<Candidate[]> {
+    return await this.db
+      .select()
+      .from(candidates)
+      .where(and(...this.candidateConditions(organizationId, filters)))
+      .orderBy(desc(candidates.createdAt));
+  }
+
+  async getCandidatePage(
+    organizationId: number,
+    filters: CandidateFilters,
+    options: PageOptions<CandidateSortField>,
+  ): Promise<PageResult<CandidateWithPosition>> {
+    const conditions = this.candidateConditions(organizationId, filters);
+    const column = candidateSortColumns[options.sort];
+    const [{ total }] = await this.db.select({ total: count() }).from(candidates).where(and(...conditions));
+    const rows = await this.db
+      .select({ candidate: candidates, position: positions })
+      .from(candidates)
+      .leftJoin(positions, eq(candidates.positionId, positions.id))
+      .where(and(...conditions, afterCursor(column, candidates.id, options)))
+      .orderBy(...pageOrder(column, candidates.id, options))
+      .limit(options.limit + 1)
+      .offset(options.offset ?? 0);
+    return {
+      items: rows.slice(0, options.limit).map(({ candidate, position }) => ({ ...candidate, position })),
+      total,
+      hasMore: rows.length > options.limit,
+    };
+  }
+
+  async countCandidates(organizationId: number, filters?: CandidateFilters): Promise<number> {
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(candidates)
+      .where(and(...this.candidateConditions(organizationId, filters)));
+    return total;
+  }
+
+  // Keyset pagination on id, newest first, so each batch is an index range scan
+  async *iterateCandidates(organizationId: number, filters?: CandidateFilters): AsyncIterable<Candidate> {
+    const conditions = this.candidateConditions(organizationId, filters);
+    let lastId: number | undefined;
+    while (true) {
+      const batch = await this.db
+        .select()
+        .from(candidates)
+        .where(and(...conditions, lastId === undefined ? undefined : lt(candidates.id, lastId)))
+        .orderBy(desc(candidates.id))
+        .limit(BATCH_SIZE);
+      for (const candidate of batch) {
+        yield candidate;
+      }
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  async getCandidate(organizationId: number, id: number): Promise<Candidate | undefined> {
+    const [candidate] = await this.db
+      .select()
+      .from(candidates)
+      .where(and(eq(candidates.organizationId, organizationId), eq(candidates.id, id)));
+    return candidate;
+  }
+
+  async getCandidateWithPosition(organizationId: number, id: number): Promise<CandidateWithPosition | undefined> {
+    const candidate = await this.db.query.candidates.findFirst({
+      where: and(eq(candidates.organizationId, organizationId), eq(candidates.id, id)),
+      with: { position: true },
+    });
+    return candidate ? { ...candidate, position: candidate.position ?? null } : undefined;
+  }
+
+  // Position titles by id, to copy into positionApplied; every id must exist
+  // in the organization
+  private async positionTitles(
+    tx: Transaction,
+    organizationId: number,
+    ids: number[],
+  ): Promise<Map<number, string>> {
+    const rows = await tx
+      .select({ id: positions.id, title: positions.title })
+      .from(positions)
+      .where(and(eq(positions.organizationId, organizationId), inArray(positions.id, ids)));
+    const titles = new Map(rows.map((row) => [row.id, row.title]));
+    const missing = ids.find((id) => !titles.has(id));
+    if (missing !== undefined) {
+      throw new Error(`Position with id ${missing} not found`);
+    }
+    return titles;
+  }
+
+  async createCandidate(
+    organizationId: number,
+    candidate: InsertCandidate,
+    context: StatusChangeContext = {},
+  ): Promise<Candidate> {
+    return await this.db.transaction(async (tx) => {
+      const titles = await this.positionTitles(tx, organizationId, [candidate.positionId]);
+      const [newCandidate] = await tx
+        .insert(candidates)
+        .values({ ...candidate, organizationId, positionApplied: titles.get(candidate.positionId)! })
+        .returning();
+      await this.indexCandidates(tx, [newCandidate]);
+      await tx.insert(candidateStatusHistory).values({
+        candidateId: newCandidate.id,
+        fromStatus: null,
+        toStatus: newCandidate.status,
+        actorId: context.actorId,
+        reason: context.reason,
+      });
+      return newCandidate;
+    });
+  }
+
+  async createCandidates(
+    organizationId: number,
+    candidateData: InsertCandidate[],
+    context: StatusChangeContext = {},
+  ): Promise<Candidate[]> {
+    if (candidateData.length === 0) {
+      return [];
+    }
+    return await this.db.transaction(async (tx) => {
+      const titles = await this.positionTitles(
+        tx,
+        organizationId,
+        Array.from(new Set(candidateData.map((candidate) => candidate.positionId))),
+      );
+      const newCandidates = await tx
+        .insert(candidates)
+        .values(
+          candidateData.map((candidate) => ({
+            ...candidate,
+            organizationId,
+            positionApplied: titles.get(candidate.positionId)!,
+          })),
+        )
+        .returning();
+      await this.indexCandidates(tx, newCandidates);
+      await tx.insert(candidateStatusHistory).values(
+        newCandidates.map((candidate) => ({
+          candidateId: candidate.id,
+          fromStatus: null,
+          toStatus: candidate.status,
+          actorId: context.actorId,
+          reason: context.reason,
+        })),
+      );
+      return newCandidates;
+    });
+  }
+
+  async updateCandidate(
+    organizationId: number,
+    id: number,
+    candidate: Partial<InsertCandidate>,
+    context: StatusChangeContext = {},
+  ): Promise<Candidate> {
+    return await this.db.transaction(async (tx) => {
+      // Lock the row so concurrent updates record transitions in order
+      const [existingCandidate] = await tx
+        .select({ status: candidates.status })
+        .from(candidates)
+        .where(and(eq(candidates.organizationId, organizationId), eq(candidates.id, id)))
+        .for("update");
+      if (!existingCandidate) {
+        throw new Error(`Candidate with id ${id} not found`);
+      }
+
+      const positionApplied =
+        candidate.positionId === undefined
+          ? undefined
+          : (await this.positionTitles(tx, organizationId, [candidate.positionId])).get(candidate.positionId);
+      const [updatedCandidate] = await tx
+        .update(candidates)
+        .set({ ...candidate, positionApplied, updatedAt: new Date() })
+        .where(eq(candidates.id, id))
+        .returning();
+      await this.indexCandidates(tx, [updatedCandidate]);
+
+      if (updatedCandidate.status !== existingCandidate.status) {
+        await tx.insert(candidateStatusHistory).values({
+          candidateId: id,
+          fromStatus: existingCandidate.status,
+          toStatus: updatedCandidate.status,
+          actorId: context.actorId,
+          reason: context.reason,
+        });
+      }
+      return updatedCandidate;
+    });
+  }
+
+  async setCandidateResumeFile(
+    organizationId: number,
+    id: number,
+    file: ResumeFile | null,
+    parsedResume: ParsedResume | null = null,
+    resumeText: string | null = null,
+  ): Promise<Candidate> {
+    return await this.db.transaction(async (tx) => {
+      const [updatedCandidate] = await tx
+        .update(candidates)
+        .set({
+          resumeFileKey: file?.key ?? null,
+          resumeFileName: file?.fileName ?? null,
+          resumeContentType: file?.contentType ?? null,
+          resumeFileSize: file?.size ?? null,
+          resumeUploadedAt: file ? new Date() : null,
+          parsedResume: file ? parsedResume : null,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(candidates.organizationId, organizationId), eq(candidates.id, id)))
+        .returning();
+      if (!updatedCandidate) {
+        throw new Error(`Candidate with id ${id} not found`);
+      }
+      await this.indexCandidates(tx, [updatedCandidate]);
+      if (file && resumeText) {
+        await this.indexDocument(tx, "resume", id, id, resumeText);
+      } else {
+        await this.unindexDocument(tx, "resume", id);
+      }
+      return updatedCandidate;
+    });
+  }
+
+  async deleteCandidate(organizationId: number, id: number): Promise<void> {
+    const fileKeys = await this.db.transaction(async (tx) => {
+      // The attachment rows go with the candidate (on delete cascade)
+      const attachments = await tx
+        .select({ fileKey: candidateAttachments.fileKey })
+        .from(candidateAttachments)
+        .where(eq(candidateAttachments.candidateId, id));
+      const [deleted] = await tx
+        .delete(candidates)
+        .where(and(eq(candidates.organizationId, organizationId), eq(candidates.id, id)))
+        .returning({ resumeFileKey: candidates.resumeFileKey });
+      if (!deleted) {
+        throw new Error(`Candidate with id ${id} not found`);
+      }
+      return [deleted.resumeFileKey, ...attachments.map((attachment) => attachment.fileKey)];
+    });
+    for (const key of fileKeys) {
+      if (key) {
+        await blobStore.delete(key);
+      }
+    }
+  }
+
+  // SQL narrows the rows to those sharing an email, phone or name word, and
+  // the shared matcher decides which of them are actual duplicates
+  async findDuplicateCandidates(
+    organizationId: number,
+    fields: DuplicateFields,
+    excludeId?: number,
+  ): Promise<DuplicateMatch[]> {
+    const email = normalizeEmail(fields.email);
+    const phone = normalizePhone(fields.phone);
+    const conditions: SQL[] = [
+      sql`regexp_replace(lower(trim(${candidates.email})), '\\+[^@]*@', '@') = ${email}`,
+      ...nameTokens(fields.name).map((token) => ilike(candidates.name, likePattern(token))),
+    ];
+    if (phone) {
+      conditions.push(sql`right(regexp_replace(${candidates.phone}, '\\D', '', 'g'), 10) = ${phone}`);
+    }
+    const rows = await this.db
+      .select()
+      .from(candidates)
+      .where(
+        and(
+          eq(candidates.organizationId, organizationId),
+          or(...conditions),
+          excludeId === undefined ? undefined : ne(candidates.id, excludeId),
+        ),
+      )
+      .orderBy(asc(candidates.id));
+    return new DuplicateIndex(rows)
+      .find(fields)
+      .map(({ item, reasons }) => ({ candidate: item, reasons }));
+  }
+
+  async mergeCandidates(
+    organizationId: number,
+    targetId: number,
+    sourceId: number,
+    values: CandidateMergeValues,
+    context: StatusChangeContext = {},
+  ): Promise<Candidate> {
+    return await this.db.transaction(async (tx) => {
+      const locked = await tx
+        .select()
+        .from(candidates)
+        .where(
+          and(
+            eq(candidates.organizationId, organizationId),
+            or(eq(candidates.id, targetId), eq(candidates.id, sourceId)),
+          ),
+        )
+        .orderBy(asc(candidates.id))
+        .for("update");
+      const target = locked.find((candidate) => candidate.id === targetId);
+      const source = locked.find((candidate) => candidate.id === sourceId);
+      if (!target || !source) {
+        throw new Error(`Candidate with id ${target ? sourceId : targetId} not found`);
+      }
+
+      await tx
+        .update(candidateStatusHistory)
+        .set({ candidateId: targetId })
+        .where(eq(candidateStatusHistory.candidateId, sourceId));
+      await tx.update(candidateNotes).set({ candidateId: targetId }).where(eq(candidateNotes.candidateId, sourceId));
+      await tx
+        .update(searchDocuments)
+        .set({ candidateId: targetId })
+        .where(and(eq(searchDocuments.source, "note"), eq(searchDocuments.candidateId, sourceId)));
+      await tx.update(notifications).set({ candidateId: targetId }).where(eq(notifications.candidateId, sourceId));
+      await tx
+        .update(candidateAttachments)
+        .set({ candidateId: targetId })
+        .where(eq(candidateAttachments.candidateId, sourceId));
+      await tx
+        .update(candidateInterviews)
+        .set({ candidateId: targetId })
+        .where(eq(candidateInterviews.candidateId, sourceId));
+
+      const [mergedCandidate] = await tx
+        .update(candidates)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(candidates.id, targetId))
+        .returning();
+      await this.indexCandidates(tx, [mergedCandidate]);
+      // The resume text follows the resume file; the source's other documents go with it
+      if (source.resumeFileKey && source.resumeFileKey === mergedCandidate.resumeFileKey) {
+        await this.unindexDocument(tx, "resume", targetId);
+        await tx
+          .update(searchDocuments)
+          .set({ sourceId: targetId, candidateId: targetId })
+          .where(and(eq(searchDocuments.source, "resume"), eq(searchDocuments.sourceId, sourceId)));
+      }
+
+      const orphanedFiles = [target, source].filter(
+        (candidate) => candidate.resumeFileKey && candidate.resumeFileKey !== mergedCandidate.resumeFileKey,
+      );
+      if (orphanedFiles.length > 0) {
+        await tx.insert(candidateAttachments).values(
+          orphanedFiles.map((candidate) => ({
+            candidateId: targetId,
+            fileKey: candidate.resumeFileKey!,
+            fileName: candidate.resumeFileName ?? "resume",
+            contentType: candidate.resumeContentType ?? "application/octet-stream",
+            fileSize: candidate.resumeFileSize ?? 0,
+            uploadedAt: candidate.resumeUploadedAt ?? new Date(),
+          })),
+        );
+      }
+
+      if (mergedCandidate.status !== target.status) {
+        await tx.insert(candidateStatusHistory).values({
+          candidateId: targetId,
+          fromStatus: target.status,
+          toStatus: mergedCandidate.status,
+          actorId: context.actorId,
+          reason: context.reason,
+        });
+      }
+      await tx.delete(candidates).where(eq(candidates.id, sourceId));
+      return mergedCandidate;
+    });
+  }
+
+  async getCandidateStatusHistory(candidateId: number): Promise<CandidateStatusChangeWithActor[]> {
+    return await this.db.query.candidateStatusHistory.findMany({
+      where: eq(candidateStatusHistory.candidateId, candidateId),
+      orderBy: desc(candidateStatusHistory.id),
+      with: { actor: userSummaryColumns },
+    });
+  }
+
+  // Attachment operations
+  async getCandidateAttachments(candidateId: number): Promise<CandidateAttachment[]> {
+    return await this.db
+      .select()
+      .from(candidateAttachments)
+      .where(eq(candidateAttachments.candidateId, candidateId))
+      .orderBy(desc(candidateAttachments.id));
+  }
+
+  async getCandidateAttachment(id: number): Promise<CandidateAttachment | undefined> {
+    const [attachment] = await this.db
+      .select()
+      .from(candidateAttachments)
+      .where(eq(candidateAttachments.id, id));
+    return attachment;
+  }
+
+  async deleteCandidateAttachment(id: number): Promise<void> {
+    const [deleted] = await this.db
+      .delete(candidateAttachments)
+      .where(eq(candidateAttachments.id, id))
+      .returning({ fileKey: candidateAttachments.fileKey });
+    if (!deleted) {
+      throw new Error(`Attachment with id ${id} not found`);
+    }
+    await blobStore.delete(deleted.fileKey);
+  }
+
+  // Interview operations
+  async getCandidateInterviews(candidateId: number): Promise<CandidateInterviewWithInterviewer[]> {
+    return await this.db.query.candidateInterviews.findMany({
+      where: eq(candidateInterviews.candidateId, candidateId),
+      orderBy: [asc(candidateInterviews.scheduledAt), asc(candidateInterviews.id)],
+      with: { interviewer: userSummaryColumns },
+    });
+  }
+
+  async getCandidateInterview(id: number): Promise<CandidateInterview | undefined> {
+    const [interview] = await this.db.select().from(candidateInterviews).where(eq(candidateInterviews.id, id));
+    return interview;
+  }
+
+  async createCandidateInterview(
+    candidateId: number,
+    createdById: string,
+    interview: InsertCandidateInterview,
+  ): Promise<CandidateInterview> {
+    const [newInterview] = await this.db
+      .insert(candidateInterviews)
+      .values({ ...interview, location: interview.location || null, notes: interview.notes || null, candidateId, createdById })
+      .returning();
+    return newInterview;
+  }
+
+  async deleteCandidateInterview(id: number): Promise<void> {
+    const deleted = await this.db
+      .delete(candidateInterviews)
+      .where(eq(candidateInterviews.id, id))
+      .returning({ id: candidateInterviews.id });
+    if (deleted.length === 0) {
+      throw new Error(`Interview with id ${id} not found`);
+    }
+  }
+
+  // Note operations
+  async getCandidateNotes(candidateId: number): Promise<CandidateNoteWithAuthor[]> {
+    const notes = await this.db.query.candidateNotes.findMany({
+      where: eq(candidateNotes.candidateId, candidateId),
+      orderBy: desc(candidateNotes.id),
+      with: { author: userSummaryColumns, revisions: { columns: { id: true } } },
+    });
+    return notes.map(({ revisions, ...note }) => ({ ...note, revisionCount: revisions.length }));
+  }
+
+  async getCandidateNote(id: number): Promise<CandidateNote | undefined> {
+    const [note] = await this.db.select().from(candidateNotes).where(eq(candidateNotes.id, id));
+    return note;
+  }
+
+  async createCandidateNote(candidateId: number, authorId: string, body: string): Promise<CandidateNote> {
+    return await this.db.transaction(async (tx) => {
+      const [newNote] = await tx.insert(candidateNotes).values({ candidateId, authorId, body }).returning();
+      await this.indexDocument(tx, "note", newNote.id, candidateId, body);
+      return newNote;
+    });
+  }
+
+  async updateCandidateNote(id: number, body: string, editorId: string): Promise<CandidateNote> {
+    return await this.db.transaction(async (tx) => {
+      const [existingNote] = await tx
+        .select({ body: candidateNotes.body })
+        .from(candidateNotes)
+        .where(eq(candidateNotes.id, id))
+        .for("update");
+      if (!existingNote) {
+        throw new Error(`Note with id ${id} not found`);
+      }
+
+      await tx.insert(candidateNoteRevisions).values({ noteId: id, body: existingNote.body, editorId });
+      const [updatedNote] = await tx
+        .update(candidateNotes)
+        .set({ body, updatedAt: new Date() })
+        .where(eq(candidateNotes.id, id))
+        .returning();
+      await this.indexDocument(tx, "note", id, updatedNote.candidateId, body);
+      return updatedNote;
+    });
+  }
+
+  async deleteCandidateNote(id: number): Promise<void> {
+    // Revisions and notifications cascade; the search document isn't a foreign key
+    await this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(candidateNotes)
+        .where(eq(candidateNotes.id, id))
+        .returning({ id: candidateNotes.id });
+      if (deleted.length === 0) {
+        throw new Error(`Note with id ${id} not found`);
+      }
+      await this.unindexDocument(tx, "note", id);
+    });
+  }
+
+  async getCandidateNoteRevisions(noteId: number): Promise<CandidateNoteRevisionWithEditor[]> {
+    return await this.db.query.candidateNoteRevisions.findMany({
+      where: eq(candidateNoteRevisions.noteId, noteId),
+      orderBy: desc(candidateNoteRevisions.id),
+      with: { editor: userSummaryColumns },
+    });
+  }
+
+  // Search operations
+  async fullTextSearch(organizationId: number, text: string, limit: number): Promise<SearchResult[]> {
+    const query = sql`websearch_to_tsquery('english', ${text})`;
+    const score = sql<number>`ts_rank(${searchDocuments.vector}, ${query})`.mapWith(Number);
+    const rows = await this.db
+      .select({
+        source: searchDocuments.source,
+        sourceId: searchDocuments.sourceId,
+        candidateId: searchDocuments.candidateId,
+        score,
+        headline: sql<string>`ts_headline('english', ${searchDocuments.body}, ${query}, ${HEADLINE_OPTIONS})`,
+      })
+      .from(searchDocuments)
+      .innerJoin(candidates, eq(candidates.id, searchDocuments.candidateId))
+      .where(and(eq(candidates.organizationId, organizationId), sql`${searchDocuments.vector} @@ ${query}`))
+      .orderBy(desc(score))
+      // Each candidate can contribute several documents, so rank more than `limit`
+      .limit(limit * 5);
+    const hits: SearchHit[] = rows.map(({ headline, ...row }) => ({ ...row, snippet: headlineParts(headline) }));
+    const groups = groupSearchHits(hits, limit);
+    if (groups.length === 0) {
+      return [];
+    }
+    const found = await this.db
+      .select()
+      .from(candidates)
+      .where(inArray(candidates.id, groups.map((group) => group.candidateId)));
+    return groups.map(({ candidateId, ...result }) => ({
+      ...result,
+      candidate: found.find((candidate) => candidate.id === candidateId)!,
+    }));
+  }
+
+  // Saved search operations
+  async getSavedSearches(organizationId: number, userId: string): Promise<SavedSearchWithOwner[]> {
+    const rows = await this.db.query.savedSearches.findMany({
+      where: and(
+        eq(savedSearches.organizationId, organizationId),
+        or(eq(savedSearches.ownerId, userId), eq(savedSearches.shared, true)),
+      ),
+      orderBy: [asc(savedSearches.name), asc(savedSearches.id)],
+      with: {
+        owner: userSummaryColumns,
+        pins: { columns: { userId: true }, where: eq(savedSearchPins.userId, userId) },
+      },
+    });
+    return rows.map(({ pins, ...savedSearch }) => ({ ...savedSearch, pinned: pins.length > 0 }));
+  }
+
+  async getSavedSearch(organizationId: number, id: number): Promise<SavedSearch | undefined> {
+    const [savedSearch] = await this.db
+      .select()
+      .from(savedSearches)
+      .where(and(eq(savedSearches.organizationId, organizationId), eq(savedSearches.id, id)));
+    return savedSearch;
+  }
+
+  async createSavedSearch(
+    organizationId: number,
+    ownerId: string,
+    savedSearch: InsertSavedSearch,
+  ): Promise<SavedSearch> {
+    const [newSavedSearch] = await this.db
+      .insert(savedSearches)
+      .values({ ...savedSearch, organizationId, ownerId })
+      .returning();
+    return newSavedSearch;
+  }
+
+  async updateSavedSearch(id: number, savedSearch: Partial<InsertSavedSearch>): Promise<SavedSearch> {
+    return await this.db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(savedSearches)
+        .set({ ...savedSearch, updatedAt: new Date() })
+        .where(eq(savedSearches.id, id))
+        .returning();
+      if (!updated) {
+        throw new Error(`Saved search with id ${id} not found`);
+      }
+      if (!updated.shared) {
+        await tx
+          .delete(savedSearchPins)
+          .where(and(eq(savedSearchPins.savedSearchId, id), ne(savedSearchPins.userId, updated.ownerId)));
+      }
+      return updated;
+    });
+  }
+
+  async deleteSavedSearch(id: number): Promise<void> {
+    // Pins cascade
+    const deleted = await this.db
+      .delete(savedSearches)
+      .where(eq(savedSearches.id, id))
+      .returning({ id: savedSearches.id });
+    if (deleted.length === 0) {
+      throw new Error(`Saved search with id ${id} not found`);
+    }
+  }
+
+  async setSavedSearchPinned(id: number, userId: string, pinned: boolean): Promise<void> {
+    if (pinned) {
+      await this.db.insert(savedSearchPins).values({ userId, savedSearchId: id }).onConflictDoNothing();
+    } else {
+      await this.db
+        .delete(savedSearchPins)
+        .where(and(eq(savedSearchPins.savedSearchId, id), eq(savedSearchPins.userId, userId)));
+    }
+  }
+
+  // Notification operations
+  private notificationConditions(organizationId: number, userId: string): SQL {
+    return and(
+      eq(notifications.userId, userId),
+      or(
+        isNull(notifications.candidateId),
+        exists(
+          this.db
+            .select({ id: candidates.id })
+            .from(candidates)
+            .where(and(eq(candidates.id, notifications.candidateId), eq(candidates.organizationId, organizationId))),
+        ),
+      ),
+    )!;
+  }
+
+  async getNotifications(organizationId: number, userId: string): Promise<NotificationWithActor[]> {
+    return await this.db.query.notifications.findMany({
+      where: this.notificationConditions(organizationId, userId),
+      orderBy: desc(notifications.id),
+      with: { actor: userSummaryColumns },
+    });
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await this.db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  async markNotificationRead(id: number, userId: string): Promise<void> {
+    const [notification] = await this.db
+      .select({ readAt: notifications.readAt })
+      .from(notifications)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
+    if (!notification) {
+      throw new Error(`Notification with id ${id} not found`);
+    }
+    if (!notification.readAt) {
+      await this.db.update(notifications).set({ readAt: new Date() }).where(eq(notifications.id, id));
+    }
+  }
+
+  async markAllNotificationsRead(organizationId: number, userId: string): Promise<void> {
+    await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(this.notificationConditions(organizationId, userId), isNull(notifications.readAt)));
+  }
+
+  // Dashboard stats
+  async getDashboardStats(organizationId: number): Promise<DashboardStats> {
+    const [positionStats] = await this.db
+      .select({ totalPositions: count() })
+      .from(positions)
+      .where(this.positionConditions(organizationId, { archived: false }));
+
+    const statusRows = await this.db
+      .select({ status: candidates.status, count: count() })
+      .from(candidates)
+      .where(eq(candidates.organizationId, organizationId))
+      .groupBy(candidates.status);
+
+    return {
+      totalPositions: positionStats.totalPositions,
+      totalCandidates: statusRows.reduce((total, row) => total + row.count, 0),
+      statusCounts: Object.fromEntries(statusRows.map((row) => [row.status, row.count])),
+    };
+  }
+}
@@ -1,15 +1,63 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzleNodePg } from 'drizzle-orm/node-postgres';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { PGlite } from '@electric-sql/pglite';
+import pg from "pg";
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+// The base every driver's drizzle client extends, so storage and migrations
+// work the same on each
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Which client talks to Postgres:
+// - "neon" (default): Neon serverless over websockets
+// - "pg": a plain Postgres server via node-postgres
+// - "pglite": an in-process Postgres, in memory or in the DATABASE_URL directory
+export type DatabaseDriver = "neon" | "pg" | "pglite";
+
+export const databaseDriver = (process.env.DATABASE_DRIVER ?? "neon") as DatabaseDriver;
+
+let db: Database | undefined;
+
+export function getDb(): Database {
+  if (db) {
+    return db;
+  }
+
+  switch (databaseDriver) {
+    case "pglite": {
+      const client = new PGlite(process.env.DATABASE_URL);
+      db = drizzlePglite({ client, schema });
+      break;
+    }
+    case "pg": {
+      const pool = new pg.Pool({ connectionString: requireDatabaseUrl() });
+      db = drizzleNodePg({ client: pool, schema });
+      break;
+    }
+    case "neon": {
+      const pool = new Pool({ connectionString: requireDatabaseUrl() });
+      db = drizzleNeon({ client: pool, schema });
+      break;
+    }
+    default:
+      throw new Error(`Unknown DATABASE_DRIVER "${databaseDriver}". Use neon, pg or pglite.`);
+  }
+
+  return db;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+function requireDatabaseUrl(): string {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+  return process.env.DATABASE_URL;
+}
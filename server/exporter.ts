@@ -0,0 +1,135 @@
+import type { Response } from "express";
+import ExcelJS from "exceljs";
+import { formatCsvRow } from "@shared/csv";
+import type { Candidate, ExportFormat, Position } from "@shared/schema";
+
+type CellValue = string | number | Date | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+export const candidateExportColumns: ExportColumn<Candidate>[] = [
+  { key: "id", header: "ID", value: (c) => c.id },
+  { key: "name", header: "Name", value: (c) => c.name },
+  { key: "email", header: "Email", value: (c) => c.email },
+  { key: "phone", header: "Phone", value: (c) => c.phone },
+  { key: "positionApplied", header: "Position Applied", value: (c) => c.positionApplied },
+  { key: "status", header: "Status", value: (c) => c.status },
+  { key: "tags", header: "Tags", value: (c) => c.tags.join(", ") },
+  { key: "resume", header: "Resume Link", value: (c) => c.resume },
+  { key: "resumeFileName", header: "Resume File", value: (c) => c.resumeFileName },
+  { key: "createdAt", header: "Created", value: (c) => c.createdAt },
+  { key: "updatedAt", header: "Updated", value: (c) => c.updatedAt },
+];
+
+export const positionExportColumns: ExportColumn<Position>[] = [
+  { key: "id", header: "ID", value: (p) => p.id },
+  { key: "title", header: "Title", value: (p) => p.title },
+  { key: "department", header: "Department", value: (p) => p.department },
+  { key: "location", header: "Location", value: (p) => p.location },
+  { key: "status", header: "Status", value: (p) => p.status },
+  { key: "description", header: "Description", value: (p) => p.description },
+  { key: "createdAt", header: "Created", value: (p) => p.createdAt },
+  { key: "updatedAt", header: "Updated", value: (p) => p.updatedAt },
+];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  jsonl: "application/x-ndjson; charset=utf-8",
+};
+
+function drained(res: Response) {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      res.off("drain", onDrain);
+      res.off("close", onClose);
+    };
+    const onDrain = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("Client disconnected during export"));
+    };
+    res.on("drain", onDrain);
+    res.on("close", onClose);
+  });
+}
+
+// Waits for the socket to drain when its buffer is full, so a slow client
+// can't make the whole export pile up in memory
+async function write(res: Response, chunk: string) {
+  if (!res.write(chunk)) {
+    await drained(res);
+  }
+}
+
+function csvCell(value: CellValue): string {
+  const text = value instanceof Date ? value.toISOString() : value == null ? "" : String(value);
+  // Spreadsheet apps evaluate cells starting with these as formulas; plain
+  // numbers like "+1 555-0100" are safe and left alone
+  return /^[=+\-@\t\r]/.test(text) && !/^[+-]?[\d\s().-]+$/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Streams `rows` to the response as a file download, one row at a time.
+ * Headers are sent before the first row, so a failure midway can only
+ * abort the connection rather than return a JSON error.
+ */
+export async function sendExport<T>(
+  res: Response,
+  format: ExportFormat,
+  baseName: string,
+  columns: ExportColumn<T>[],
+  rows: AsyncIterable<T>,
+) {
+  const date = new Date().toISOString().slice(0, 10);
+  res.attachment(`${baseName}-${date}.${format}`);
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+
+  switch (format) {
+    case "csv": {
+      // BOM so Excel opens the file as UTF-8
+      await write(res, "\uFEFF" + formatCsvRow(columns.map((column) => column.header)));
+      for await (const row of rows) {
+        await write(res, formatCsvRow(columns.map((column) => csvCell(column.value(row)))));
+      }
+      res.end();
+      break;
+    }
+    case "jsonl": {
+      for await (const row of rows) {
+        const record = Object.fromEntries(columns.map((column) => [column.key, column.value(row)]));
+        await write(res, JSON.stringify(record) + "\n");
+      }
+      res.end();
+      break;
+    }
+    case "xlsx": {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+        stream: res,
+        useStyles: false,
+        useSharedStrings: false,
+      });
+      const sheet = workbook.addWorksheet(baseName);
+      sheet.columns = columns.map((column) => ({ header: column.header, key: column.key }));
+      for await (const row of rows) {
+        sheet.addRow(columns.map((column) => column.value(row))).commit();
+        // The workbook writes to the response itself, so check its buffer
+        // before pulling the next row, as write() does
+        if (res.writableNeedDrain) {
+          await drained(res);
+        }
+      }
+      sheet.commit();
+      // Ends the response once the zip is finalized
+      await workbook.commit();
+      break;
+    }
+  }
+}
@@ -0,0 +1,47 @@
+// Counts failures per key, such as a client's IP address. The first failure
+// opens a window; once it holds `limit` failures the key is blocked until the
+// window ends. Counts live in memory, so each server instance keeps its own.
+export class FailureLimiter {
+  private readonly windows = new Map<string, { failures: number; endsAt: number }>();
+  private nextPruneAt = 0;
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number,
+  ) {}
+
+  // When the key may try again, if it's blocked now
+  blockedUntil(key: string): Date | undefined {
+    const window = this.current(key);
+    return window && window.failures >= this.limit ? new Date(window.endsAt) : undefined;
+  }
+
+  recordFailure(key: string) {
+    const now = Date.now();
+    this.prune(now);
+    const window = this.current(key);
+    if (window) {
+      window.failures++;
+    } else {
+      this.windows.set(key, { failures: 1, endsAt: now + this.windowMs });
+    }
+  }
+
+  private current(key: string) {
+    const window = this.windows.get(key);
+    return window && window.endsAt > Date.now() ? window : undefined;
+  }
+
+  // Ended windows are dropped now and then so every address ever seen isn't kept
+  private prune(now: number) {
+    if (now < this.nextPruneAt) {
+      return;
+    }
+    this.windows.forEach((window, key) => {
+      if (window.endsAt <= now) {
+        this.windows.delete(key);
+      }
+    });
+    this.nextPruneAt = now + this.windowMs;
+  }
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Express } from "express";
+import { MAX_FAILED_LOGINS } from "./localAuth";
+import { TEST_PASSWORD } from "./testing";
+
+// A fresh app on MemStorage persisted to `dataDir`, as after a restart. The
+// storage singleton is created when its module loads, so the modules are
+// loaded again each time.
+async function restartApp(dataDir: string) {
+  vi.resetModules();
+  vi.stubEnv("STORAGE_BACKEND", "memory");
+  vi.stubEnv("MEMORY_STORAGE_DIR", dataDir);
+  const { storage } = await import("./storage");
+  const testing = await import("./testing");
+  const app: Express = await testing.createTestApp();
+  return { app, storage, testing };
+}
+
+// Only file persistence for MemStorage is under test, which doesn't depend
+// on the backend the other suites run against
+describe.skipIf(process.env.STORAGE_BACKEND !== "memory")("MemStorage file persistence", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("keeps a locked account locked across restarts, from the journal and from the snapshot", async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "recruitmaster-journal-"));
+    try {
+      const first = await restartApp(dataDir);
+      await first.testing.signUp(first.app, "locked@example.com");
+      for (let attempt = 0; attempt < MAX_FAILED_LOGINS; attempt++) {
+        await new first.testing.TestClient(first.app)
+          .post("/api/auth/login")
+          .send({ email: "locked@example.com", password: "wrong password" })
+          .expect(401);
+      }
+
+      // The first restart replays the journal and compacts it into a
+      // snapshot, which the second one loads
+      for (let restart = 0; restart < 2; restart++) {
+        const { app, storage, testing } = await restartApp(dataDir);
+        const user = await storage.getUserByEmail("locked@example.com");
+        const credential = await storage.getUserCredential(user!.id);
+        expect(credential!.lockedUntil).toBeInstanceOf(Date);
+        expect(credential!.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+
+        await new testing.TestClient(app)
+          .post("/api/auth/login")
+          .send({ email: "locked@example.com", password: TEST_PASSWORD })
+          .expect(401);
+      }
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+
+export type JournalEntry =
+  | { type: "put"; collection: string; key: string | number; value: unknown }
+  | { type: "delete"; collection: string; key: string | number }
+  | { type: "counter"; name: string; value: number };
+
+export interface PersistedState {
+  collections: Record<string, [string | number, unknown][]>;
+  counters: Record<string, number>;
+}
+
+const SNAPSHOT_FILE = "snapshot.json";
+const JOURNAL_FILE = "journal.log";
+
+// JSON has no date type, so fields named like `createdAt`/`expiresAt`/
+// `lockedUntil` are revived into Dates on load.
+function reviveDates(key: string, value: unknown) {
+  if (typeof value === "string" && /At$|Until$|^expire$/.test(key)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
+
+/**
+ * Append-only journal of storage operations plus a compacted JSON snapshot,
+ * kept in a local directory. Writes are synchronous so an operation is on
+ * disk before the request that caused it returns.
+ */
+export class FileJournal {
+  private snapshotPath: string;
+  private journalPath: string;
+  private pendingEntries = 0;
+
+  constructor(private dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+    this.snapshotPath = path.join(dir, SNAPSHOT_FILE);
+    this.journalPath = path.join(dir, JOURNAL_FILE);
+  }
+
+  /**
+   * Rebuilds state from the last snapshot and every journal entry written
+   * after it. Returns undefined when the directory holds no data yet.
+   */
+  load(): PersistedState | undefined {
+    const hasSnapshot = fs.existsSync(this.snapshotPath);
+    const hasJournal = fs.existsSync(this.journalPath);
+    if (!hasSnapshot && !hasJournal) {
+      return undefined;
+    }
+
+    const state: PersistedState = hasSnapshot
+      ? JSON.parse(fs.readFileSync(this.snapshotPath, "utf-8"), reviveDates)
+      : { collections: {}, counters: {} };
+
+    const collections = new Map(
+      Object.entries(state.collections).map(([name, entries]) => [name, new Map(entries)]),
+    );
+
+    if (hasJournal) {
+      const lines = fs.readFileSync(this.journalPath, "utf-8").split("\n").filter(Boolean);
+      lines.forEach((line, index) => {
+        let entry: JournalEntry;
+        try {
+          entry = JSON.parse(line, reviveDates);
+        } catch (error) {
+          // A torn final line means we crashed mid-append; everything before it is intact
+          if (index === lines.length - 1) return;
+          throw new Error(`Corrupt journal entry at line ${index + 1} in ${this.journalPath}`);
+        }
+
+        if (entry.type === "counter") {
+          state.counters[entry.name] = entry.value;
+          return;
+        }
+
+        if (!collections.has(entry.collection)) {
+          collections.set(entry.collection, new Map());
+        }
+        const collection = collections.get(entry.collection)!;
+        if (entry.type === "put") {
+          collection.set(entry.key, entry.value);
+        } else {
+          collection.delete(entry.key);
+        }
+      });
+      this.pendingEntries = lines.length;
+    }
+
+    state.collections = Object.fromEntries(
+      Array.from(collections, ([name, entries]) => [name, Array.from(entries)]),
+    );
+    return state;
+  }
+
+  append(entry: JournalEntry): void {
+    fs.appendFileSync(this.journalPath, JSON.stringify(entry) + "\n");
+    this.pendingEntries++;
+  }
+
+  hasPendingEntries(): boolean {
+    return this.pendingEntries > 0;
+  }
+
+  /**
+   * Writes a full snapshot (via a temp file and rename, so a crash never
+   * leaves a half-written snapshot) and then truncates the journal.
+   */
+  compact(state: PersistedState): void {
+    const tempPath = `${this.snapshotPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(state));
+    fs.renameSync(tempPath, this.snapshotPath);
+    fs.writeFileSync(this.journalPath, "");
+    this.pendingEntries = 0;
+  }
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { getDb } from "./db";
+import { runMigrations } from "./migrator";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +39,15 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Bring the schema up to date before any request can touch it. Set
+  // MIGRATE_ON_BOOT=false to run `npm run db:migrate` as a separate step.
+  if (process.env.STORAGE_BACKEND === "database" && process.env.MIGRATE_ON_BOOT !== "false") {
+    const applied = await runMigrations(getDb());
+    if (applied.length > 0) {
+      log(`applied migrations: ${applied.join(", ")}`, "migrate");
+    }
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,15 @@
+import type { Invitation } from "@shared/schema";
+
+// How long an invitation link stays valid
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Why an invitation can no longer be accepted, if it can't
+export function invitationUnavailableReason(invitation: Invitation): string | undefined {
+  if (invitation.acceptedAt) {
+    return "This invitation has already been used";
+  }
+  if (invitation.expiresAt.getTime() <= Date.now()) {
+    return "This invitation has expired";
+  }
+  return undefined;
+}
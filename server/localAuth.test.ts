@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createTestApp, inviteAndSignUp, TestClient, TEST_PASSWORD } from "./testing";
+import { MAX_FAILED_LOGINS, MAX_FAILED_LOGINS_PER_IP } from "./localAuth";
+import { hashPassword } from "./passwords";
+
+describe("local sign-in", () => {
+  let app: Express;
+  let admin: TestClient;
+
+  // Each test signs in from its own address so the per-IP limit of one
+  // doesn't carry over to the next
+  const signIn = (ip: string, email: string, password: string) =>
+    new TestClient(app).post("/api/auth/login").set("X-Forwarded-For", ip).send({ email, password });
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  it("creates only one first account when two sign-ups race", async () => {
+    const created = await Promise.all(
+      ["first", "second"].map((name) => storage.createFirstUser({ id: name, email: `${name}@example.com` })),
+    );
+    const [first, ...others] = created.filter((user) => user !== undefined);
+    expect(others).toEqual([]);
+    expect(await storage.getUsers()).toHaveLength(1);
+
+    await storage.setUserPassword(first!.id, await hashPassword(TEST_PASSWORD));
+    admin = new TestClient(app);
+    await admin
+      .post("/api/auth/login")
+      .set("X-Forwarded-For", "192.0.2.1")
+      .send({ email: first!.email, password: TEST_PASSWORD })
+      .expect(204);
+    const res = await admin.get("/api/auth/user").expect(200);
+    expect(res.body.role).toBe("admin");
+  });
+
+  it("refuses an uninvited sign-up that saw no accounts yet once the first one exists", async () => {
+    // As when another sign-up creates the first account right after this one checked
+    const getUsers = vi.spyOn(storage, "getUsers").mockResolvedValueOnce([]);
+    await new TestClient(app)
+      .post("/api/auth/signup")
+      .send({ email: "late@example.com", password: TEST_PASSWORD })
+      .expect(403);
+    expect(getUsers).toHaveBeenCalled();
+    getUsers.mockRestore();
+    expect(await storage.getUserByEmail("late@example.com")).toBeUndefined();
+  });
+
+  it("creates one account and membership when two sign-ups race on one invitation", async () => {
+    const invitation = await admin.post("/api/invitations").send({ email: "raced@example.com", role: "recruiter" }).expect(201);
+    const clients = [new TestClient(app), new TestClient(app)];
+    const results = await Promise.all(
+      clients.map((client) => client.post("/api/auth/signup").send({ token: invitation.body.token, password: TEST_PASSWORD })),
+    );
+    expect(results.map((res) => res.status).sort()).toEqual([201, 409]);
+
+    const user = await storage.getUserByEmail("raced@example.com");
+    expect(user!.id).toBe(results.find((res) => res.status === 201)!.body.id);
+    expect(await storage.getOrganizations(user!.id)).toHaveLength(1);
+    await signIn("192.0.2.5", "raced@example.com", TEST_PASSWORD).expect(204);
+  });
+
+  it("answers a locked account like a wrong password, even with the right one", async () => {
+    await inviteAndSignUp(app, admin, "locked@example.com", "recruiter");
+    for (let attempt = 0; attempt < MAX_FAILED_LOGINS; attempt++) {
+      await signIn("192.0.2.2", "locked@example.com", "wrong password").expect(401);
+    }
+    const locked = await signIn("192.0.2.2", "locked@example.com", TEST_PASSWORD).expect(401);
+    const unknown = await signIn("192.0.2.2", "nobody@example.com", TEST_PASSWORD).expect(401);
+    expect(locked.body).toEqual(unknown.body);
+  });
+
+  it("blocks an address after too many failed sign-ins, whichever accounts they were for", async () => {
+    await inviteAndSignUp(app, admin, "busy@example.com", "recruiter");
+    for (let attempt = 0; attempt < MAX_FAILED_LOGINS_PER_IP; attempt++) {
+      await signIn("192.0.2.3", `guess${attempt}@example.com`, "wrong password").expect(401);
+    }
+    const blocked = await signIn("192.0.2.3", "busy@example.com", TEST_PASSWORD).expect(429);
+    expect(Number(blocked.headers["retry-after"])).toBeGreaterThan(0);
+    // The account itself isn't locked, so it can still sign in from elsewhere
+    await signIn("192.0.2.4", "busy@example.com", TEST_PASSWORD).expect(204);
+  });
+});
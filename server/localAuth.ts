@@ -0,0 +1,265 @@
+import { randomUUID } from "crypto";
+import passport from "passport";
+import { Strategy as LocalStrategy, type IVerifyOptions } from "passport-local";
+import type { Express, Request } from "express";
+import { z } from "zod";
+import {
+  loginSchema,
+  passwordResetSchema,
+  signupSchema,
+  type Invitation,
+  type PasswordReset,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { sessionRegistry } from "./sessionStore";
+import { hashPassword, verifyPassword } from "./passwords";
+import { hashSecretToken } from "./tokens";
+import { invitationUnavailableReason } from "./invitations";
+import { FailureLimiter } from "./failureLimiter";
+
+// Failed sign-ins in a row that lock an account, and for how long
+export const MAX_FAILED_LOGINS = 5;
+export const LOCKOUT_MS = 15 * 60 * 1000;
+
+// Failed sign-ins from one IP address, to any accounts, that block it for the
+// rest of the window. Higher than the per-account limit so an office behind
+// one address isn't blocked by a few typos.
+export const MAX_FAILED_LOGINS_PER_IP = 30;
+export const IP_LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+// How long a password reset link stays valid
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+const INVALID_LOGIN = "Invalid email or password";
+
+// Compared against when the email has no account, so the response takes as
+// long as a wrong password and doesn't tell which emails have accounts
+let dummyHash: Promise<string> | undefined;
+
+// Same shape as an OIDC session user, so req.user.claims.sub is the user id
+function sessionUser(user: User): Express.User {
+  return { claims: { sub: user.id, email: user.email } };
+}
+
+function retryMessage(retryAt: Date) {
+  const minutes = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 60000));
+  return `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+function isLocked(lockedUntil: Date | null): lockedUntil is Date {
+  return !!lockedUntil && lockedUntil.getTime() > Date.now();
+}
+
+// Why a password reset link can no longer be used, if it can't
+export function passwordResetUnavailableReason(reset: PasswordReset): string | undefined {
+  if (reset.usedAt) {
+    return "This reset link has already been used";
+  }
+  if (reset.expiresAt.getTime() <= Date.now()) {
+    return "This reset link has expired";
+  }
+  return undefined;
+}
+
+async function verify(
+  email: string,
+  password: string,
+  done: (error: unknown, user?: Express.User | false, options?: IVerifyOptions) => void,
+) {
+  try {
+    const user = await storage.getUserByEmail(email);
+    const credential = user && (await storage.getUserCredential(user.id));
+    if (!user || !credential) {
+      dummyHash ??= hashPassword(randomUUID());
+      await verifyPassword(password, await dummyHash);
+      return done(null, false, { message: INVALID_LOGIN });
+    }
+    // A locked account answers like a wrong password, even to the right one,
+    // so locking doesn't tell anyone the account exists
+    const matches = await verifyPassword(password, credential.passwordHash);
+    if (isLocked(credential.lockedUntil)) {
+      return done(null, false, { message: INVALID_LOGIN });
+    }
+    if (!matches) {
+      await storage.recordFailedLogin(user.id, MAX_FAILED_LOGINS, new Date(Date.now() + LOCKOUT_MS));
+      return done(null, false, { message: INVALID_LOGIN });
+    }
+    // Checked after the password so it doesn't reveal who has an account
+    if (user.deactivatedAt) {
+      return done(null, false, { message: "This account is deactivated. Ask an admin to reactivate it" });
+    }
+    done(null, sessionUser(await storage.recordLogin(user.id)));
+  } catch (error) {
+    done(error);
+  }
+}
+
+function login(req: Request, user: Express.User): Promise<void> {
+  return new Promise((resolve, reject) => req.login(user, (err) => (err ? reject(err) : resolve())));
+}
+
+async function findPasswordReset(token: string) {
+  const reset = await storage.getPasswordResetByTokenHash(hashSecretToken(token));
+  return { reset, unavailable: reset && passwordResetUnavailableReason(reset) };
+}
+
+// Email and password sign-in, for installs without an OIDC provider. Accounts
+// are created from invitations, except the first one of a new install, and
+// admins hand out reset links for forgotten passwords.
+export function setupLocalAuth(app: Express) {
+  passport.use(new LocalStrategy({ usernameField: "email" }, verify));
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  // Keyed by req.ip, which is the client's address behind the trusted proxy
+  const failedLoginsByIp = new FailureLimiter(MAX_FAILED_LOGINS_PER_IP, IP_LOGIN_WINDOW_MS);
+
+  app.post("/api/auth/login", (req, res) => {
+    const ip = req.ip ?? "";
+    const blockedUntil = failedLoginsByIp.blockedUntil(ip);
+    if (blockedUntil) {
+      res.set("Retry-After", String(Math.ceil((blockedUntil.getTime() - Date.now()) / 1000)));
+      return res.status(429).json({ message: retryMessage(blockedUntil) });
+    }
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid data", errors: parsed.error.errors });
+    }
+    req.body = parsed.data;
+    passport.authenticate("local", async (error: unknown, user: Express.User | false, info?: IVerifyOptions) => {
+      try {
+        if (error) {
+          throw error;
+        }
+        if (!user) {
+          failedLoginsByIp.recordFailure(ip);
+          return res.status(401).json({ message: info?.message ?? INVALID_LOGIN });
+        }
+        await login(req, user);
+        res.status(204).send();
+      } catch (error) {
+        console.error("Error signing in:", error);
+        res.status(500).json({ message: "Failed to sign in" });
+      }
+    })(req, res);
+  });
+
+  app.post("/api/auth/signup", async (req, res) => {
+    try {
+      const { token, email, firstName, lastName, password } = signupSchema.parse(req.body);
+      let invitation: Invitation | undefined;
+      let accountEmail: string;
+      if (token) {
+        invitation = await storage.getInvitationByTokenHash(hashSecretToken(token));
+        if (!invitation) {
+          return res.status(404).json({ message: "Invitation not found" });
+        }
+        const unavailable = invitationUnavailableReason(invitation);
+        if (unavailable) {
+          return res.status(410).json({ message: unavailable });
+        }
+        accountEmail = invitation.email;
+      } else {
+        if ((await storage.getUsers()).length > 0) {
+          return res.status(403).json({ message: "You need an invitation to sign up" });
+        }
+        if (!email) {
+          return res.status(400).json({ message: "Email is required" });
+        }
+        accountEmail = email;
+      }
+      if (await storage.getUserByEmail(accountEmail)) {
+        return res.status(409).json({ message: "An account with this email already exists. Sign in instead" });
+      }
+
+      const passwordHash = await hashPassword(password);
+      const account = {
+        id: randomUUID(),
+        email: accountEmail,
+        firstName: firstName || null,
+        lastName: lastName || null,
+        lastLoginAt: new Date(),
+      };
+      let user: User | undefined;
+      if (invitation) {
+        user = await storage.createInvitedUser(invitation.id, account, passwordHash);
+        // Another sign-up may have used the invitation or the email since the checks above
+        if (!user) {
+          return (await storage.getUserByEmail(accountEmail))
+            ? res.status(409).json({ message: "An account with this email already exists. Sign in instead" })
+            : res.status(410).json({ message: "This invitation is no longer available" });
+        }
+      } else {
+        // Another first account may have been created since the check above
+        user = await storage.createFirstUser(account);
+        if (!user) {
+          return res.status(403).json({ message: "You need an invitation to sign up" });
+        }
+        await storage.setUserPassword(user.id, passwordHash);
+      }
+      await login(req, sessionUser(user));
+      if (invitation) {
+        req.session.organizationId = invitation.organizationId;
+      }
+      res.status(201).json({ id: user.id, email: user.email });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error signing up:", error);
+        res.status(500).json({ message: "Failed to sign up" });
+      }
+    }
+  });
+
+  app.get("/api/auth/password-reset/:token", async (req, res) => {
+    try {
+      const { reset, unavailable } = await findPasswordReset(req.params.token);
+      if (!reset) {
+        return res.status(404).json({ message: "Reset link not found" });
+      }
+      if (unavailable) {
+        return res.status(410).json({ message: unavailable });
+      }
+      const user = await storage.getUser(reset.userId);
+      res.json({ email: user?.email ?? null, expiresAt: reset.expiresAt });
+    } catch (error) {
+      console.error("Error fetching password reset:", error);
+      res.status(500).json({ message: "Failed to fetch reset link" });
+    }
+  });
+
+  // Also unlocks the account and signs the user out everywhere
+  app.post("/api/auth/password-reset/:token", async (req, res) => {
+    try {
+      const { password } = passwordResetSchema.parse(req.body);
+      const { reset, unavailable } = await findPasswordReset(req.params.token);
+      if (!reset) {
+        return res.status(404).json({ message: "Reset link not found" });
+      }
+      if (unavailable) {
+        return res.status(410).json({ message: unavailable });
+      }
+      await storage.completePasswordReset(reset.id, await hashPassword(password));
+      for (const session of await sessionRegistry.listUserSessions(reset.userId)) {
+        await sessionRegistry.revokeSession(session.sid);
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error resetting password:", error);
+        res.status(500).json({ message: "Failed to reset password" });
+      }
+    }
+  });
+
+  app.get("/api/logout", (req, res) => {
+    req.logout(() => {
+      res.redirect("/");
+    });
+  });
+}
@@ -0,0 +1,48 @@
+import { getDb } from "./db";
+import {
+  runMigrations,
+  rollbackMigrations,
+  baselineMigrations,
+  getMigrationStatus,
+} from "./migrator";
+
+// Usage: tsx server/migrate.ts <up|down [steps]|status|baseline>
+async function main() {
+  const [command = "up", arg] = process.argv.slice(2);
+  const db = getDb();
+
+  switch (command) {
+    case "up": {
+      const applied = await runMigrations(db);
+      console.log(applied.length ? `Applied: ${applied.join(", ")}` : "Database is up to date");
+      break;
+    }
+    case "down": {
+      const steps = arg ? parseInt(arg) : 1;
+      const reverted = await rollbackMigrations(db, steps);
+      console.log(reverted.length ? `Reverted: ${reverted.join(", ")}` : "Nothing to revert");
+      break;
+    }
+    case "status": {
+      for (const migration of await getMigrationStatus(db)) {
+        const appliedAt = migration.appliedAt ? ` (${migration.appliedAt.toISOString()})` : "";
+        console.log(`${migration.state.padEnd(8)} ${migration.tag}${appliedAt}`);
+      }
+      break;
+    }
+    case "baseline": {
+      const marked = await baselineMigrations(db);
+      console.log(marked.length ? `Marked as applied: ${marked.join(", ")}` : "Nothing to baseline");
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Use up, down, status or baseline.`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
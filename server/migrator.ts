@@ -0,0 +1,191 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { asc, eq, sql } from "drizzle-orm";
+import { pgTable, serial, timestamp, varchar } from "drizzle-orm/pg-core";
+import type { Database, Transaction } from "./db";
+
+// Resolves to the repo root both from server/ (tsx) and dist/ (bundled build)
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Arbitrary constant shared by every instance so only one migrates at a time
+const MIGRATION_LOCK_ID = 72_707_369;
+
+// Bookkeeping table; deliberately not in shared/schema.ts so drizzle-kit
+// never generates a migration for it.
+const appliedMigrations = pgTable("__migrations", {
+  id: serial("id").primaryKey(),
+  tag: varchar("tag").notNull().unique(),
+  hash: varchar("hash").notNull(),
+  appliedAt: timestamp("applied_at").notNull().defaultNow(),
+});
+
+interface MigrationFile {
+  tag: string;
+  hash: string;
+  statements: string[];
+  downStatements?: string[];
+}
+
+export interface MigrationStatus {
+  tag: string;
+  state: "applied" | "pending" | "modified";
+  appliedAt?: Date;
+}
+
+function splitStatements(content: string): string[] {
+  return content
+    .split("--> statement-breakpoint")
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+}
+
+function readMigrationFiles(): MigrationFile[] {
+  const journalPath = path.join(migrationsFolder, "meta", "_journal.json");
+  if (!fs.existsSync(journalPath)) {
+    throw new Error(`Migration journal not found at ${journalPath}`);
+  }
+
+  const journal = JSON.parse(fs.readFileSync(journalPath, "utf-8")) as {
+    entries: { idx: number; tag: string }[];
+  };
+
+  return [...journal.entries]
+    .sort((a, b) => a.idx - b.idx)
+    .map(({ tag }) => {
+      const content = fs.readFileSync(path.join(migrationsFolder, `${tag}.sql`), "utf-8");
+      const downPath = path.join(migrationsFolder, "down", `${tag}.sql`);
+      return {
+        tag,
+        hash: createHash("sha256").update(content).digest("hex"),
+        statements: splitStatements(content),
+        downStatements: fs.existsSync(downPath)
+          ? splitStatements(fs.readFileSync(downPath, "utf-8"))
+          : undefined,
+      };
+    });
+}
+
+// Runs `fn` in a transaction holding the migration lock. The lock is released
+// on commit/rollback, so a crashed instance can never leave it held.
+async function withMigrationLock<T>(db: Database, fn: (tx: Transaction) => Promise<T>): Promise<T> {
+  return await db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(${MIGRATION_LOCK_ID})`);
+    await tx.execute(sql`
+      create table if not exists "__migrations" (
+        "id" serial primary key,
+        "tag" varchar not null unique,
+        "hash" varchar not null,
+        "applied_at" timestamp not null default now()
+      )
+    `);
+    return await fn(tx);
+  });
+}
+
+async function loadApplied(tx: Transaction) {
+  return await tx.select().from(appliedMigrations).orderBy(asc(appliedMigrations.id));
+}
+
+function assertUnmodified(files: MigrationFile[], applied: { tag: string; hash: string }[]) {
+  for (const row of applied) {
+    const file = files.find((f) => f.tag === row.tag);
+    if (file && file.hash !== row.hash) {
+      throw new Error(
+        `Migration ${row.tag} was modified after it was applied. ` +
+        "Generate a new migration instead of editing an applied one.",
+      );
+    }
+  }
+}
+
+/**
+ * Applies every pending migration in journal order inside a single
+ * transaction, so a failing statement leaves the schema untouched.
+ * Returns the tags that were applied.
+ */
+export async function runMigrations(db: Database): Promise<string[]> {
+  const files = readMigrationFiles();
+
+  return await withMigrationLock(db, async (tx) => {
+    const applied = await loadApplied(tx);
+    assertUnmodified(files, applied);
+
+    const appliedTags = new Set(applied.map((row) => row.tag));
+    const pending = files.filter((file) => !appliedTags.has(file.tag));
+
+    for (const migration of pending) {
+      for (const statement of migration.statements) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.insert(appliedMigrations).values({ tag: migration.tag, hash: migration.hash });
+    }
+
+    return pending.map((migration) => migration.tag);
+  });
+}
+
+/**
+ * Reverts the most recently applied migrations using the hand-written
+ * scripts in migrations/down/<tag>.sql. Returns the reverted tags.
+ */
+export async function rollbackMigrations(db: Database, steps = 1): Promise<string[]> {
+  const files = readMigrationFiles();
+
+  return await withMigrationLock(db, async (tx) => {
+    const applied = await loadApplied(tx);
+    const toRevert = applied.slice(-steps).reverse();
+
+    for (const row of toRevert) {
+      const file = files.find((f) => f.tag === row.tag);
+      if (!file?.downStatements) {
+        throw new Error(`No down migration found at migrations/down/${row.tag}.sql`);
+      }
+      for (const statement of file.downStatements) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.delete(appliedMigrations).where(eq(appliedMigrations.tag, row.tag));
+    }
+
+    return toRevert.map((row) => row.tag);
+  });
+}
+
+/**
+ * Marks every migration as applied without running it. Used once for
+ * databases that were created with `drizzle-kit push` before migrations existed.
+ */
+export async function baselineMigrations(db: Database): Promise<string[]> {
+  const files = readMigrationFiles();
+
+  return await withMigrationLock(db, async (tx) => {
+    const appliedTags = new Set((await loadApplied(tx)).map((row) => row.tag));
+    const pending = files.filter((file) => !appliedTags.has(file.tag));
+
+    for (const migration of pending) {
+      await tx.insert(appliedMigrations).values({ tag: migration.tag, hash: migration.hash });
+    }
+
+    return pending.map((migration) => migration.tag);
+  });
+}
+
+export async function getMigrationStatus(db: Database): Promise<MigrationStatus[]> {
+  const files = readMigrationFiles();
+
+  return await withMigrationLock(db, async (tx) => {
+    const applied = new Map((await loadApplied(tx)).map((row) => [row.tag, row]));
+
+    return files.map((file) => {
+      const row = applied.get(file.tag);
+      if (!row) {
+        return { tag: file.tag, state: "pending" as const };
+      }
+      return {
+        tag: file.tag,
+        state: row.hash === file.hash ? ("applied" as const) : ("modified" as const),
+        appliedAt: row.appliedAt,
+      };
+    });
+  });
+}
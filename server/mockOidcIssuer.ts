@@ -0,0 +1,140 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { createHash, generateKeyPairSync, randomBytes, sign } from "crypto";
+
+type Claims = Record<string, unknown>;
+
+interface Grant {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  claims: Claims;
+}
+
+function base64url(value: Buffer | string) {
+  return Buffer.from(value).toString("base64url");
+}
+
+// A minimal OpenID Connect provider for tests: discovery, JWKS, and the
+// authorization code flow with PKCE. /authorize approves right away, for
+// whoever `signIn` last set the ID token claims of.
+export class MockOidcIssuer {
+  url = "";
+  private claims: Claims = {};
+  private readonly grants = new Map<string, Grant>();
+  private readonly keys = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  private readonly server = http.createServer((req, res) => {
+    this.handle(req, res).catch((error) => {
+      res.writeHead(500).end(String(error));
+    });
+  });
+
+  // Client id -> secret, or null for a public client
+  constructor(private readonly clients: Record<string, string | null>) {}
+
+  async start() {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  close() {
+    return new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  // The claims of the next ID token, besides iss, aud, iat, exp and nonce
+  signIn(claims: Claims & { sub: string }) {
+    this.claims = claims;
+  }
+
+  private idToken(grant: Grant) {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: "RS256", kid: "test", typ: "JWT" }));
+    const payload = base64url(
+      JSON.stringify({ iss: this.url, aud: grant.clientId, iat: now, exp: now + 3600, nonce: grant.nonce, ...grant.claims }),
+    );
+    const signature = sign("sha256", Buffer.from(`${header}.${payload}`), this.keys.privateKey);
+    return `${header}.${payload}.${base64url(signature)}`;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url!, this.url);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body));
+    };
+
+    switch (url.pathname) {
+      case "/.well-known/openid-configuration":
+        return json(200, {
+          issuer: this.url,
+          authorization_endpoint: `${this.url}/authorize`,
+          token_endpoint: `${this.url}/token`,
+          jwks_uri: `${this.url}/jwks`,
+          response_types_supported: ["code"],
+          subject_types_supported: ["public"],
+          id_token_signing_alg_values_supported: ["RS256"],
+          code_challenge_methods_supported: ["S256"],
+          token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post", "none"],
+        });
+      case "/jwks":
+        return json(200, { keys: [{ ...this.keys.publicKey.export({ format: "jwk" }), kid: "test", alg: "RS256", use: "sig" }] });
+      case "/authorize": {
+        const params = url.searchParams;
+        const code = base64url(randomBytes(16));
+        this.grants.set(code, {
+          clientId: params.get("client_id") ?? "",
+          redirectUri: params.get("redirect_uri") ?? "",
+          codeChallenge: params.get("code_challenge") ?? "",
+          nonce: params.get("nonce") ?? undefined,
+          claims: this.claims,
+        });
+        const redirect = new URL(params.get("redirect_uri")!);
+        redirect.searchParams.set("code", code);
+        if (params.has("state")) {
+          redirect.searchParams.set("state", params.get("state")!);
+        }
+        res.writeHead(302, { Location: redirect.href }).end();
+        return;
+      }
+      case "/token": {
+        let body = "";
+        for await (const chunk of req) {
+          body += chunk;
+        }
+        const form = new URLSearchParams(body);
+        let clientId = form.get("client_id");
+        let secret = form.get("client_secret");
+        const authorization = req.headers.authorization;
+        if (authorization?.startsWith("Basic ")) {
+          const [id, password] = Buffer.from(authorization.slice(6), "base64").toString().split(":");
+          clientId = decodeURIComponent(id);
+          secret = decodeURIComponent(password);
+        }
+        if (!clientId || !(clientId in this.clients) || this.clients[clientId] !== secret) {
+          return json(401, { error: "invalid_client" });
+        }
+        const code = form.get("code") ?? "";
+        const grant = this.grants.get(code);
+        this.grants.delete(code);
+        const verifier = form.get("code_verifier") ?? "";
+        if (
+          form.get("grant_type") !== "authorization_code" ||
+          !grant ||
+          grant.clientId !== clientId ||
+          grant.redirectUri !== form.get("redirect_uri") ||
+          base64url(createHash("sha256").update(verifier).digest()) !== grant.codeChallenge
+        ) {
+          return json(400, { error: "invalid_grant" });
+        }
+        return json(200, {
+          access_token: base64url(randomBytes(16)),
+          token_type: "Bearer",
+          expires_in: 3600,
+          id_token: this.idToken(grant),
+        });
+      }
+      default:
+        return json(404, { error: "not_found" });
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Express } from "express";
+import { LOGIN_FAILED_PATH } from "./authRedirects";
+import { storage } from "./storage";
+import { MockOidcIssuer } from "./mockOidcIssuer";
+import type { TestClient } from "./testing";
+
+// The providers sign in through the same mock issuer: "acme" as a
+// confidential client with the standard claims, "corp" as a public client
+// whose profile comes from claims of its own, and "intra" as one with its own
+// email claim but nothing vouching for it
+const issuer = new MockOidcIssuer({ acme: "acme-secret", corp: null, intra: null });
+// The callback URL is built from the Host header, which has to match between
+// starting sign-in and coming back
+const HOST = "recruit.example.com";
+
+describe("OIDC sign-in", () => {
+  let app: Express;
+  let newClient: () => TestClient;
+
+  // Runs the whole redirect dance as `claims`, and returns the callback's response
+  async function signIn(client: TestClient, provider: string, claims: Record<string, unknown> & { sub: string }) {
+    issuer.signIn(claims);
+    const login = await client.get(`/api/login/${provider}`).set("Host", HOST).expect(302);
+    const authorize = await fetch(login.headers.location, { redirect: "manual" });
+    const callback = new URL(authorize.headers.get("location")!);
+    return await client.get(`${callback.pathname}${callback.search}`).set("Host", HOST).expect(302);
+  }
+
+  async function signedInUser(provider: string, claims: Record<string, unknown> & { sub: string }) {
+    const client = newClient();
+    const res = await signIn(client, provider, claims);
+    expect(res.headers.location).toBe("/");
+    return (await client.get("/api/auth/user").expect(200)).body;
+  }
+
+  beforeAll(async () => {
+    await issuer.start();
+    // The sign-in strategy is read from the environment when the auth module loads
+    vi.stubEnv("AUTH_STRATEGY", "oidc");
+    vi.stubEnv(
+      "OIDC_PROVIDERS",
+      JSON.stringify([
+        { id: "acme", label: "Acme", issuer: issuer.url, clientId: "acme", clientSecret: "acme-secret" },
+        {
+          id: "corp",
+          label: "Corp",
+          issuer: issuer.url,
+          clientId: "corp",
+          claims: {
+            email: "mail",
+            emailVerified: "mail_verified",
+            firstName: "first",
+            lastName: "last",
+            profileImageUrl: "avatar",
+          },
+        },
+        { id: "intra", label: "Intra", issuer: issuer.url, clientId: "intra", claims: { email: "mail" } },
+      ]),
+    );
+    const { createTestApp, TestClient } = await import("./testing");
+    app = await createTestApp();
+    newClient = () => new TestClient(app);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await issuer.close();
+  });
+
+  it("creates an account from the standard claims, prefixed with the provider", async () => {
+    const user = await signedInUser("acme", {
+      sub: "ann",
+      email: "ann@example.com",
+      email_verified: true,
+      given_name: "Ann",
+      family_name: "Lee",
+      picture: "https://example.com/ann.png",
+    });
+    expect(user).toMatchObject({
+      id: "acme:ann",
+      email: "ann@example.com",
+      firstName: "Ann",
+      lastName: "Lee",
+      profileImageUrl: "https://example.com/ann.png",
+      // The installation's first account administers the first organization
+      role: "admin",
+    });
+  });
+
+  it("reads the profile from the claims a provider is configured with", async () => {
+    const user = await signedInUser("corp", {
+      sub: "bo",
+      mail: "bo@example.com",
+      first: "Bo",
+      last: "Ng",
+      avatar: "https://example.com/bo.png",
+      given_name: "Ignored",
+    });
+    expect(user).toMatchObject({
+      id: "corp:bo",
+      email: "bo@example.com",
+      firstName: "Bo",
+      lastName: "Ng",
+      profileImageUrl: "https://example.com/bo.png",
+    });
+  });
+
+  it("updates a returning subject's profile", async () => {
+    const user = await signedInUser("acme", {
+      sub: "ann",
+      email: "ann@example.com",
+      email_verified: true,
+      given_name: "Annie",
+      family_name: "Lee",
+    });
+    expect(user).toMatchObject({ id: "acme:ann", firstName: "Annie" });
+  });
+
+  it("links a new subject to the account with its email when the provider verified it", async () => {
+    const user = await signedInUser("corp", { sub: "ann.corp", mail: "ann@example.com", mail_verified: true });
+    expect(user.id).toBe("acme:ann");
+    expect(await storage.getUser("corp:ann.corp")).toBeUndefined();
+  });
+
+  it("refuses a new subject whose email has an account but isn't verified", async () => {
+    const client = newClient();
+    const res = await signIn(client, "corp", { sub: "mallory", mail: "ann@example.com", mail_verified: false });
+    expect(res.headers.location).toBe(LOGIN_FAILED_PATH);
+    await client.get("/api/auth/user").expect(401);
+    expect(await storage.getUser("corp:mallory")).toBeUndefined();
+  });
+
+  it("doesn't take the standard email_verified as vouching for a custom email claim", async () => {
+    for (const provider of ["corp", "intra"]) {
+      const client = newClient();
+      const res = await signIn(client, provider, { sub: "eve", mail: "ann@example.com", email_verified: true });
+      expect(res.headers.location).toBe(LOGIN_FAILED_PATH);
+      await client.get("/api/auth/user").expect(401);
+      expect(await storage.getUser(`${provider}:eve`)).toBeUndefined();
+    }
+  });
+
+  it("keeps the same subject apart across providers", async () => {
+    const user = await signedInUser("corp", { sub: "ann", mail: "other.ann@example.com" });
+    expect(user.id).toBe("corp:ann");
+  });
+
+  it("refuses a deactivated account", async () => {
+    await storage.setUserDeactivated("corp:bo", true);
+    const client = newClient();
+    const res = await signIn(client, "corp", { sub: "bo", mail: "bo@example.com" });
+    expect(res.headers.location).toBe(LOGIN_FAILED_PATH);
+    await client.get("/api/auth/user").expect(401);
+  });
+});
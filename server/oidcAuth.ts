@@ -0,0 +1,298 @@
+import * as client from "openid-client";
+import { Strategy, type VerifyFunction } from "openid-client/passport";
+import passport from "passport";
+import type { Express, Request } from "express";
+import memoize from "memoizee";
+import { z } from "zod";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { LOGIN_FAILED_PATH, returnToPath } from "./authRedirects";
+
+// Which ID token claims hold the user's profile; the defaults are the
+// standard OIDC ones
+const claimMappingSchema = z.object({
+  email: z.string().min(1).default("email"),
+  firstName: z.string().min(1).default("given_name"),
+  lastName: z.string().min(1).default("family_name"),
+  profileImageUrl: z.string().min(1).default("picture"),
+  // A boolean claim saying the provider verified the email. Left out, only
+  // the standard email claim counts as verified, through email_verified.
+  emailVerified: z.string().min(1).optional(),
+});
+
+// One entry of OIDC_PROVIDERS
+const providerSchema = z.object({
+  // Used in /api/login/<id> and /api/callback/<id>, and prefixes the ids of
+  // the provider's users
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "Use lowercase letters, digits, - and _"),
+  // Shown on the sign-in button
+  label: z.string().min(1),
+  issuer: z.string().url(),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1).optional(),
+  scopes: z.array(z.string().min(1)).min(1).default(["openid", "email", "profile"]),
+  // Defaults to /api/callback/<id> on the host the sign-in started from
+  callbackUrl: z.string().url().optional(),
+  claims: claimMappingSchema.default({}),
+  prompt: z.string().min(1).optional(),
+});
+
+export type OidcProvider = z.infer<typeof providerSchema> & {
+  // Where the provider redirects back to, from callbackUrl when it's set
+  callbackPath: string;
+  userIdPrefix: string;
+};
+
+const providersSchema = z
+  .array(providerSchema)
+  .min(1)
+  .refine((providers) => new Set(providers.map((provider) => provider.id)).size === providers.length, {
+    message: "Provider ids must be unique",
+  });
+
+// OIDC_PROVIDERS holds a JSON array of providers, e.g.
+// [{"id":"google","label":"Google","issuer":"https://accounts.google.com","clientId":"...","clientSecret":"..."}]
+export function parseOidcProviders(value: string | undefined): OidcProvider[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(value ?? "");
+  } catch {
+    throw new Error("OIDC_PROVIDERS must be a JSON array of providers");
+  }
+  const parsed = providersSchema.safeParse(json);
+  if (!parsed.success) {
+    const issues = parsed.error.errors.map((issue) => `${issue.path.join(".") || "OIDC_PROVIDERS"}: ${issue.message}`);
+    throw new Error(`Invalid OIDC_PROVIDERS: ${issues.join("; ")}`);
+  }
+  return parsed.data.map((provider) => ({
+    ...provider,
+    callbackPath: provider.callbackUrl ? new URL(provider.callbackUrl).pathname : `/api/callback/${provider.id}`,
+    userIdPrefix: `${provider.id}:`,
+  }));
+}
+
+// Replit's OIDC with the client id from REPL_ID. It came first, so its users
+// keep their unprefixed ids and its callback stays at /api/callback.
+export function replitProvider(): OidcProvider {
+  return {
+    id: "replit",
+    label: "Replit",
+    issuer: process.env.ISSUER_URL ?? "https://replit.com/oidc",
+    clientId: process.env.REPL_ID!,
+    scopes: ["openid", "email", "profile", "offline_access"],
+    claims: {
+      email: "email",
+      firstName: "first_name",
+      lastName: "last_name",
+      profileImageUrl: "profile_image_url",
+    },
+    prompt: "login consent",
+    callbackPath: "/api/callback",
+    userIdPrefix: "",
+  };
+}
+
+const providers = new Map<string, OidcProvider>();
+
+function isLoopback(url: URL) {
+  return ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+}
+
+const getOidcConfig = memoize(
+  async (providerId: string) => {
+    const provider = providers.get(providerId)!;
+    const issuer = new URL(provider.issuer);
+    return await client.discovery(
+      issuer,
+      provider.clientId,
+      provider.clientSecret,
+      undefined,
+      // Plain HTTP only for an issuer on this machine, e.g. one used in development
+      issuer.protocol === "http:" && isLoopback(issuer) ? { execute: [client.allowInsecureRequests] } : undefined,
+    );
+  },
+  { maxAge: 3600 * 1000, promise: true },
+);
+
+function strategyName(provider: OidcProvider) {
+  return `oidc:${provider.id}`;
+}
+
+function callbackUrl(req: Request, provider: OidcProvider) {
+  return provider.callbackUrl ?? `${req.protocol}://${req.get("host")}${provider.callbackPath}`;
+}
+
+// Sessions from before there were several providers were all Replit's
+function sessionProvider(user: any): OidcProvider | undefined {
+  return providers.get(user?.provider ?? "replit");
+}
+
+// claims.sub holds the app's user id, which routes read as req.user.claims.sub;
+// it differs from the provider's subject when the id is prefixed or linked
+function updateUserSession(
+  user: any,
+  tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
+  userId: string,
+) {
+  const claims = tokens.claims();
+  if (claims) {
+    user.claims = { ...claims, sub: userId };
+  }
+  user.access_token = tokens.access_token;
+  // Providers may not send a new refresh token, or an ID token, on refresh
+  user.refresh_token = tokens.refresh_token ?? user.refresh_token;
+  const expiresIn = tokens.expiresIn();
+  user.expires_at = claims?.exp ?? (expiresIn !== undefined ? Math.floor(Date.now() / 1000) + expiresIn : user.expires_at);
+}
+
+// The claim vouching for the email claim the provider is configured with
+function emailVerifiedClaim(provider: OidcProvider): string | undefined {
+  return provider.claims.emailVerified ?? (provider.claims.email === "email" ? "email_verified" : undefined);
+}
+
+// Finds the user by the provider's subject. A new subject whose email already
+// has an account, e.g. from another provider, signs in to that account if the
+// provider verified the email, and is refused otherwise.
+async function upsertAccount(provider: OidcProvider, claims: client.IDToken): Promise<User | undefined> {
+  const claim = (name: string) => {
+    const value = claims[name];
+    return typeof value === "string" && value ? value : undefined;
+  };
+  const email = claim(provider.claims.email);
+  let id = provider.userIdPrefix + claims.sub;
+  if (email && !(await storage.getUser(id))) {
+    const existing = await storage.getUserByEmail(email);
+    if (existing) {
+      const verifiedClaim = emailVerifiedClaim(provider);
+      if (!verifiedClaim || claims[verifiedClaim] !== true) {
+        return undefined;
+      }
+      id = existing.id;
+    }
+  }
+  return await storage.upsertUser({
+    id,
+    email,
+    firstName: claim(provider.claims.firstName),
+    lastName: claim(provider.claims.lastName),
+    profileImageUrl: claim(provider.claims.profileImageUrl),
+    lastLoginAt: new Date(),
+  });
+}
+
+function verifyFor(provider: OidcProvider): VerifyFunction {
+  return async (tokens, verified) => {
+    try {
+      const claims = tokens.claims();
+      const account = claims && (await upsertAccount(provider, claims));
+      if (!account || account.deactivatedAt) {
+        return verified(null, false);
+      }
+      const user = { provider: provider.id };
+      updateUserSession(user, tokens, account.id);
+      verified(null, user);
+    } catch (error) {
+      verified(error);
+    }
+  };
+}
+
+function rememberReturnTo(req: Request) {
+  const returnTo = returnToPath(req.query.returnTo);
+  if (returnTo) {
+    (req.session as any).returnTo = returnTo;
+  }
+}
+
+// Sign-in through one or more OpenID Connect providers. Each gets its own
+// login and callback route; the landing page lists them.
+export async function setupOidcAuth(app: Express, list: OidcProvider[]) {
+  for (const provider of list) {
+    providers.set(provider.id, provider);
+    const config = await getOidcConfig(provider.id);
+    passport.use(
+      new Strategy(
+        {
+          name: strategyName(provider),
+          // Keeps each provider's state apart when they share an issuer host
+          sessionKey: strategyName(provider),
+          config,
+          scope: provider.scopes.join(" "),
+        },
+        verifyFor(provider),
+      ),
+    );
+  }
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  // With a single provider sign-in starts right away; with several the
+  // landing page offers a choice and returnTo waits in the session
+  app.get("/api/login", (req, res) => {
+    rememberReturnTo(req);
+    res.redirect(list.length === 1 ? `/api/login/${list[0].id}` : "/");
+  });
+
+  app.get("/api/login/:provider", (req, res, next) => {
+    const provider = providers.get(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ message: "Sign-in provider not found" });
+    }
+    rememberReturnTo(req);
+    passport.authenticate(strategyName(provider), {
+      prompt: provider.prompt,
+      callbackURL: callbackUrl(req, provider),
+    } as passport.AuthenticateOptions)(req, res, next);
+  });
+
+  for (const provider of list) {
+    app.get(provider.callbackPath, (req, res, next) => {
+      passport.authenticate(strategyName(provider), {
+        successReturnToOrRedirect: "/",
+        failureRedirect: LOGIN_FAILED_PATH,
+        // Login regenerates the session; keep returnTo from /api/login
+        keepSessionInfo: true,
+        callbackURL: callbackUrl(req, provider),
+      } as passport.AuthenticateOptions)(req, res, next);
+    });
+  }
+
+  // Also ends the provider's session when it supports that
+  app.get("/api/logout", (req, res) => {
+    const provider = sessionProvider(req.user);
+    req.logout(async () => {
+      try {
+        const config = provider && (await getOidcConfig(provider.id));
+        if (provider && config?.serverMetadata().end_session_endpoint) {
+          return res.redirect(
+            client.buildEndSessionUrl(config, {
+              client_id: provider.clientId,
+              post_logout_redirect_uri: `${req.protocol}://${req.get("host")}`,
+            }).href,
+          );
+        }
+      } catch (error) {
+        console.error("Error ending provider session:", error);
+      }
+      res.redirect("/");
+    });
+  });
+}
+
+// For isAuthenticated once the access token has expired; false when the
+// session can't be renewed and the user has to sign in again
+export async function refreshOidcSession(user: any): Promise<boolean> {
+  const provider = sessionProvider(user);
+  if (!provider || !user.refresh_token) {
+    return false;
+  }
+  try {
+    const config = await getOidcConfig(provider.id);
+    const tokens = await client.refreshTokenGrant(config, user.refresh_token);
+    updateUserSession(user, tokens, user.claims.sub);
+    return true;
+  } catch {
+    return false;
+  }
+}
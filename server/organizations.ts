@@ -0,0 +1,42 @@
+import type { Request, RequestHandler } from "express";
+import type { Organization } from "@shared/schema";
+import { storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    // The organization the user is working in; switched via PUT /api/organizations/current
+    organizationId?: number;
+  }
+}
+
+// The organization picked in the session if the user is still a member of
+// it, otherwise the first one they belong to, which becomes the session's
+export async function resolveOrganization(req: Request): Promise<Organization | undefined> {
+  const organizations = await storage.getOrganizations((req.user as any).claims.sub);
+  const current =
+    organizations.find((organization) => organization.id === req.session.organizationId) ?? organizations[0];
+  if (current && current.id !== req.session.organizationId) {
+    req.session.organizationId = current.id;
+  }
+  return current;
+}
+
+// Use after isAuthenticated and before requirePermission on every route that
+// reads or writes an organization's data. Membership is checked on every
+// request, so someone removed from an organization loses access right away.
+export const withOrganization: RequestHandler = async (req, res, next) => {
+  try {
+    if (!(await resolveOrganization(req))) {
+      return res.status(403).json({ message: "You aren't a member of any organization" });
+    }
+    next();
+  } catch (error) {
+    console.error("Error resolving organization:", error);
+    res.status(500).json({ message: "Failed to resolve organization" });
+  }
+};
+
+// Only valid behind withOrganization
+export function currentOrganizationId(req: Request): number {
+  return req.session.organizationId!;
+}
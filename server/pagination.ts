@@ -0,0 +1,173 @@
+import { z } from "zod";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  SORT_ORDERS,
+  type CandidateSortField,
+  type Page,
+  type PositionSortField,
+  type SortOrder,
+} from "@shared/pagination";
+import type { Candidate, Position } from "@shared/schema";
+
+// Dates sort by their timestamp, text fields by their value
+export type SortValue = string | number;
+
+// Where the previous page ended: its last row's sort value and id
+export interface PageCursor {
+  value: SortValue;
+  id: number;
+}
+
+export interface PageOptions<S extends string> {
+  sort: S;
+  order: SortOrder;
+  limit: number;
+  // Either skip rows by count or continue after a cursor, not both
+  offset?: number;
+  after?: PageCursor;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  total: number;
+  hasMore: boolean;
+}
+
+function dateValue(date: Date | null): number {
+  return date?.getTime() ?? 0;
+}
+
+export function candidateSortValue(candidate: Candidate, sort: CandidateSortField): SortValue {
+  switch (sort) {
+    case "name":
+      return candidate.name;
+    case "status":
+      return candidate.status;
+    case "position":
+      return candidate.positionApplied;
+    case "createdAt":
+      return dateValue(candidate.createdAt);
+    case "updatedAt":
+      return dateValue(candidate.updatedAt);
+  }
+}
+
+export function positionSortValue(position: Position, sort: PositionSortField): SortValue {
+  switch (sort) {
+    case "createdAt":
+      return dateValue(position.createdAt);
+    case "updatedAt":
+      return dateValue(position.updatedAt);
+    default:
+      return position[sort];
+  }
+}
+
+// Cursors are opaque to clients; they also carry the sort so a cursor from
+// one ordering can't be replayed against another
+function encodeCursor(sort: string, order: SortOrder, cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify([sort, order, cursor.value, cursor.id])).toString("base64url");
+}
+
+function decodeCursor(encoded: string, sort: string, order: SortOrder): PageCursor | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8"));
+    if (
+      Array.isArray(decoded) &&
+      decoded[0] === sort &&
+      decoded[1] === order &&
+      (typeof decoded[2] === "string" || typeof decoded[2] === "number") &&
+      Number.isInteger(decoded[3])
+    ) {
+      return { value: decoded[2], id: decoded[3] };
+    }
+  } catch {
+    // Falls through to undefined
+  }
+  return undefined;
+}
+
+/**
+ * Parses `limit`, `offset`, `cursor`, `sort` and `order` query parameters.
+ * Without `sort` the newest rows come first; an explicit sort defaults to
+ * ascending except for dates.
+ */
+export function pageQuerySchema<S extends string>(sortFields: readonly [S, ...S[]]) {
+  return z
+    .object({
+      limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+      offset: z.coerce.number().int().min(0).optional(),
+      cursor: z.string().min(1).optional(),
+      sort: z.enum(sortFields as unknown as [string, ...string[]]).optional(),
+      order: z.enum(SORT_ORDERS).optional(),
+    })
+    .transform((query, ctx): PageOptions<S> => {
+      const sort = (query.sort ?? "createdAt") as S;
+      const order = query.order ?? (sort === "createdAt" || sort === "updatedAt" ? "desc" : "asc");
+      if (query.cursor === undefined) {
+        return { sort, order, limit: query.limit, offset: query.offset ?? 0 };
+      }
+      if (query.offset !== undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cursor"], message: "Use either cursor or offset" });
+        return z.NEVER;
+      }
+      const after = decodeCursor(query.cursor, sort, order);
+      if (!after) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["cursor"],
+          message: "Invalid cursor for this sort order",
+        });
+        return z.NEVER;
+      }
+      return { sort, order, limit: query.limit, after };
+    });
+}
+
+// Wraps a storage result in the response envelope
+export function toPage<T extends { id: number }, S extends string>(
+  result: PageResult<T>,
+  options: PageOptions<S>,
+  sortValue: (item: T, sort: S) => SortValue,
+): Page<T> {
+  const last = result.items[result.items.length - 1];
+  return {
+    items: result.items,
+    total: result.total,
+    limit: options.limit,
+    offset: options.after ? null : options.offset ?? 0,
+    nextCursor:
+      result.hasMore && last
+        ? encodeCursor(options.sort, options.order, { value: sortValue(last, options.sort), id: last.id })
+        : null,
+  };
+}
+
+function compareValues(a: SortValue, b: SortValue): number {
+  return typeof a === "number" && typeof b === "number" ? a - b : String(a).localeCompare(String(b));
+}
+
+// Sorts, then pages, rows already held in memory; ties are broken by id so
+// cursors stay stable
+export function paginateInMemory<T extends { id: number }, S extends string>(
+  items: T[],
+  options: PageOptions<S>,
+  sortValue: (item: T, sort: S) => SortValue,
+): PageResult<T> {
+  const direction = options.order === "asc" ? 1 : -1;
+  const compare = (a: { value: SortValue; id: number }, b: { value: SortValue; id: number }) =>
+    direction * (compareValues(a.value, b.value) || a.id - b.id);
+
+  const sorted = items
+    .map((item) => ({ item, value: sortValue(item, options.sort), id: item.id }))
+    .sort(compare);
+  const after = options.after;
+  const start = after ? sorted.findIndex((entry) => compare(entry, after) > 0) : options.offset ?? 0;
+  const rest = start < 0 ? [] : sorted.slice(start);
+  return {
+    items: rest.slice(0, options.limit).map((entry) => entry.item),
+    total: items.length,
+    hasMore: rest.length > options.limit,
+  };
+}
@@ -0,0 +1,29 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+
+// scrypt cost parameters. They're stored with each hash, so raising them later
+// doesn't invalidate existing passwords.
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+function derive(password: string, salt: Buffer, options: ScryptOptions, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, keyLength, options, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+// Formatted as scrypt$N$r$p$salt$key with base64 salt and key
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt, COST, KEY_LENGTH);
+  return ["scrypt", COST.N, COST.r, COST.p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, "base64");
+  const actual = await derive(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) }, expected.length);
+  return timingSafeEqual(actual, expected);
+}
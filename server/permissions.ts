@@ -0,0 +1,62 @@
+import type { Request, RequestHandler } from "express";
+import { hasPermission, type Permission, type Role } from "@shared/permissions";
+import { storage } from "./storage";
+
+// Comma-separated user ids (OIDC subjects) of installation admins: admins in
+// every organization they belong to, whatever role they were given there, and
+// the only ones who manage accounts across organizations. A way back in if
+// every admin was demoted or removed
+const adminUserIds = new Set(
+  (process.env.ADMIN_USER_IDS ?? "").split(",").map((id) => id.trim()).filter(Boolean),
+);
+
+export function isInstallationAdmin(userId: string): boolean {
+  return adminUserIds.has(userId);
+}
+
+export function effectiveRole(userId: string, role: Role): Role {
+  return isInstallationAdmin(userId) ? "admin" : role;
+}
+
+// The user's role in the organization the session works in; undefined when
+// they aren't a member of it, except for installation admins
+export async function currentRole(req: Request): Promise<Role | undefined> {
+  const userId = (req.user as any).claims.sub;
+  const organizationId = req.session.organizationId;
+  const role = organizationId ? await storage.getMemberRole(organizationId, userId) : undefined;
+  return role ? effectiveRole(userId, role) : isInstallationAdmin(userId) ? "admin" : undefined;
+}
+
+// Whether the actor may change what reaches beyond one organization for the
+// user: their password, sessions and whether they can sign in at all. That
+// takes being an admin of every organization the user belongs to.
+export async function canManageAccount(actorId: string, userId: string): Promise<boolean> {
+  if (isInstallationAdmin(actorId)) {
+    return true;
+  }
+  const organizations = await storage.getOrganizations(userId);
+  for (const organization of organizations) {
+    if ((await storage.getMemberRole(organization.id, actorId)) !== "admin") {
+      return false;
+    }
+  }
+  return organizations.length > 0;
+}
+
+// Use after isAuthenticated, and after withOrganization where the route works
+// on an organization's data. The role is read on every request so changes
+// apply without signing in again.
+export function requirePermission(permission: Permission): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const role = await currentRole(req);
+      if (!role || !hasPermission(role, permission)) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+}
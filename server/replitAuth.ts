@@ -1,145 +1,78 @@
-import * as client from "openid-client";
-import { Strategy, type VerifyFunction } from "openid-client/passport";
-
 import passport from "passport";
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
-import memoize from "memoizee";
-import MemoryStore from "memorystore";
 import { storage } from "./storage";
+import { sessionRegistry, SESSION_TTL_MS } from "./sessionStore";
+import { setupLocalAuth } from "./localAuth";
+import { parseOidcProviders, refreshOidcSession, replitProvider, setupOidcAuth, type OidcProvider } from "./oidcAuth";
+import { LOGIN_FAILED_PATH, returnToPath } from "./authRedirects";
+import { AUTH_STRATEGIES, type AuthProvider, type AuthStrategy } from "@shared/schema";
+
+// AUTH_STRATEGY picks how users sign in. Without it, Replit OIDC is used on
+// Replit (REPL_ID is set), the providers in OIDC_PROVIDERS when that is set,
+// and the shared demo user everywhere else, e.g. on Render.
+function parseAuthStrategy(value: string | undefined): AuthStrategy {
+  if (!value) {
+    return process.env.REPL_ID ? "replit" : process.env.OIDC_PROVIDERS ? "oidc" : "demo";
+  }
+  const strategy = AUTH_STRATEGIES.find((candidate) => candidate === value);
+  if (!strategy) {
+    throw new Error(`AUTH_STRATEGY must be one of ${AUTH_STRATEGIES.join(", ")}, got "${value}"`);
+  }
+  return strategy;
+}
 
-// Check if we're in a Render environment (no REPL_ID means not on Replit)
-const isRenderDeployment = !process.env.REPL_ID;
+export const authStrategy = parseAuthStrategy(process.env.AUTH_STRATEGY);
 
-if (!isRenderDeployment && !process.env.REPLIT_DOMAINS) {
-  throw new Error(
-    "Environment variable REPLIT_DOMAINS not provided. " +
-    "Set REPLIT_DOMAINS to your domain (e.g., 'your-app.onrender.com' for Render deployment)"
-  );
-}
+const oidcProviders: OidcProvider[] =
+  authStrategy === "replit"
+    ? [replitProvider()]
+    : authStrategy === "oidc"
+      ? parseOidcProviders(process.env.OIDC_PROVIDERS)
+      : [];
 
-const getOidcConfig = memoize(
-  async () => {
-    return await client.discovery(
-      new URL(process.env.ISSUER_URL ?? "https://replit.com/oidc"),
-      process.env.REPL_ID!
-    );
-  },
-  { maxAge: 3600 * 1000 }
-);
+// For the landing page's sign-in buttons
+export const authProviders: AuthProvider[] = oidcProviders.map(({ id, label }) => ({ id, label }));
 
 export function getSession() {
-  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
-  const Store = MemoryStore(session);
-  const sessionStore = new Store({
-    checkPeriod: 86400000, // prune expired entries every 24h
-  });
   return session({
     secret: process.env.SESSION_SECRET!,
-    store: sessionStore,
+    store: sessionRegistry.store,
     resave: false,
     saveUninitialized: false,
     cookie: {
       httpOnly: true,
       secure: true,
-      maxAge: sessionTtl,
+      maxAge: SESSION_TTL_MS,
     },
   });
 }
 
-function updateUserSession(
-  user: any,
-  tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
-) {
-  user.claims = tokens.claims();
-  user.access_token = tokens.access_token;
-  user.refresh_token = tokens.refresh_token;
-  user.expires_at = user.claims?.exp;
-}
-
-async function upsertUser(
-  claims: any,
-) {
-  await storage.upsertUser({
-    id: claims["sub"],
-    email: claims["email"],
-    firstName: claims["first_name"],
-    lastName: claims["last_name"],
-    profileImageUrl: claims["profile_image_url"],
-  });
-}
-
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
   app.use(getSession());
   app.use(passport.initialize());
   app.use(passport.session());
 
-  if (isRenderDeployment) {
-    // Simple demo authentication for Render deployment
-    setupDemoAuth(app);
-  } else {
-    // Full Replit OIDC authentication
-    await setupReplitAuth(app);
+  switch (authStrategy) {
+    case "demo":
+      // Simple demo authentication for Render deployment
+      setupDemoAuth(app);
+      break;
+    case "local":
+      setupLocalAuth(app);
+      // The client shows the sign-in form itself
+      app.get("/api/login", (req, res) => {
+        res.redirect(returnToPath(req.query.returnTo) ?? "/");
+      });
+      break;
+    case "replit":
+    case "oidc":
+      await setupOidcAuth(app, oidcProviders);
+      break;
   }
 }
 
-async function setupReplitAuth(app: Express) {
-  const config = await getOidcConfig();
-
-  const verify: VerifyFunction = async (
-    tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers,
-    verified: passport.AuthenticateCallback
-  ) => {
-    const user = {};
-    updateUserSession(user, tokens);
-    await upsertUser(tokens.claims());
-    verified(null, user);
-  };
-
-  for (const domain of process.env
-    .REPLIT_DOMAINS!.split(",")) {
-    const strategy = new Strategy(
-      {
-        name: `replitauth:${domain}`,
-        config,
-        scope: "openid email profile offline_access",
-        callbackURL: `https://${domain}/api/callback`,
-      },
-      verify,
-    );
-    passport.use(strategy);
-  }
-
-  passport.serializeUser((user: Express.User, cb) => cb(null, user));
-  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
-
-  app.get("/api/login", (req, res, next) => {
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      prompt: "login consent",
-      scope: ["openid", "email", "profile", "offline_access"],
-    })(req, res, next);
-  });
-
-  app.get("/api/callback", (req, res, next) => {
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      successReturnToOrRedirect: "/",
-      failureRedirect: "/api/login",
-    })(req, res, next);
-  });
-
-  app.get("/api/logout", (req, res) => {
-    req.logout(() => {
-      res.redirect(
-        client.buildEndSessionUrl(config, {
-          client_id: process.env.REPL_ID!,
-          post_logout_redirect_uri: `${req.protocol}://${req.hostname}`,
-        }).href
-      );
-    });
-  });
-}
-
 function setupDemoAuth(app: Express) {
   // Demo user for Render deployment
   const demoUser = {
@@ -157,19 +90,23 @@ function setupDemoAuth(app: Express) {
 
   app.get("/api/login", async (req, res) => {
     // Auto-create demo user in storage
-    await storage.upsertUser({
+    const account = await storage.upsertUser({
       id: demoUser.claims.sub,
       email: demoUser.claims.email,
       firstName: demoUser.claims.first_name,
       lastName: demoUser.claims.last_name,
-      profileImageUrl: demoUser.claims.profile_image_url
+      profileImageUrl: demoUser.claims.profile_image_url,
+      lastLoginAt: new Date(),
     });
+    if (account.deactivatedAt) {
+      return res.redirect(LOGIN_FAILED_PATH);
+    }
 
     req.login(demoUser, (err) => {
       if (err) {
         return res.status(500).json({ error: "Login failed" });
       }
-      res.redirect("/");
+      res.redirect(returnToPath(req.query.returnTo) ?? "/");
     });
   });
 
@@ -187,34 +124,19 @@ export const isAuthenticated: RequestHandler = async (req, res, next) => {
 
   const user = req.user as any;
 
-  // For demo auth (Render deployment), just check if user exists
-  if (isRenderDeployment) {
+  // Demo and local sessions don't hold tokens that expire
+  if (oidcProviders.length === 0) {
     return next();
   }
 
-  // For Replit OIDC, check token expiration
+  // For OIDC, check token expiration
   if (!user.expires_at) {
     return res.status(401).json({ message: "Unauthorized" });
   }
 
   const now = Math.floor(Date.now() / 1000);
-  if (now <= user.expires_at) {
-    return next();
-  }
-
-  const refreshToken = user.refresh_token;
-  if (!refreshToken) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
-  }
-
-  try {
-    const config = await getOidcConfig();
-    const tokenResponse = await client.refreshTokenGrant(config, refreshToken);
-    updateUserSession(user, tokenResponse);
+  if (now <= user.expires_at || (await refreshOidcSession(user))) {
     return next();
-  } catch (error) {
-    res.status(401).json({ message: "Unauthorized" });
-    return;
   }
+  res.status(401).json({ message: "Unauthorized" });
 };
@@ -0,0 +1,211 @@
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy } from "unpdf";
+import type { ParsedResume, ParsedResumeEducation, ParsedResumeEmployer } from "@shared/schema";
+
+/**
+ * Extracts plain text from an uploaded resume. Everything runs in-process;
+ * no file ever leaves the server.
+ */
+export async function extractResumeText(data: Buffer, contentType: string): Promise<string> {
+  switch (contentType) {
+    case "application/pdf": {
+      const pdf = await getDocumentProxy(new Uint8Array(data));
+      const { text } = await extractText(pdf, { mergePages: true });
+      return text;
+    }
+    case "application/vnd.openxmlformats-officedocument.wordprocessingml.document": {
+      const { value } = await mammoth.extractRawText({ buffer: data });
+      return value;
+    }
+    default:
+      throw new Error(`Cannot extract text from ${contentType}`);
+  }
+}
+
+type Section = "header" | "skills" | "experience" | "education" | "other";
+
+const SECTION_HEADINGS: [Section, RegExp][] = [
+  ["skills", /^(technical |core |key )?(skills|competencies|technologies)( & tools| and tools)?$/i],
+  ["experience", /^(work |professional |employment )?(experience|history)$|^employment$/i],
+  ["education", /^(education|academic background|qualifications)$/i],
+  ["other", /^(summary|profile|objective|projects|certifications|interests|languages|references|awards)$/i],
+];
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/;
+// At least 7 digits, optionally with a leading +, spaces, dots, dashes or parentheses
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{5,}\d/;
+const MONTH = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const DATE = `(?:${MONTH}\\s+)?(?:\\d{1,2}/)?(?:19|20)\\d{2}`;
+const PERIOD_PATTERN = new RegExp(`${DATE}\\s*(?:-|–|—|to)\\s*(?:${DATE}|present|current|now)|${DATE}`, "i");
+const INSTITUTION_PATTERN = /university|college|institute|school|academy|polytechnic/i;
+const DEGREE_PATTERN =
+  /\b(bachelor|master|doctor|ph\.?\s?d|mba|associate|diploma|b\.?\s?sc?\b|m\.?\s?sc?\b|b\.?\s?a\b|m\.?\s?a\b|b\.?\s?eng|m\.?\s?eng)/i;
+const SEPARATOR = /\s+(?:\||—|–|-|@)\s+|\s*,\s+|\s*\|\s*/;
+
+function headingSection(line: string): Section | undefined {
+  const heading = line.replace(/[:\s]+$/, "").trim();
+  if (heading.length > 40) {
+    return undefined;
+  }
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading))?.[0];
+}
+
+function splitSections(lines: string[]): Record<Section, string[]> {
+  const sections: Record<Section, string[]> = {
+    header: [],
+    skills: [],
+    experience: [],
+    education: [],
+    other: [],
+  };
+  let current: Section = "header";
+
+  for (const line of lines) {
+    // "Skills: TypeScript, React" is a heading and its content on one line
+    const inline = line.match(/^([a-z &]+):\s*(.+)$/i);
+    const inlineSection = inline && headingSection(inline[1]);
+    if (inlineSection) {
+      current = inlineSection;
+      sections[current].push(inline[2]);
+      continue;
+    }
+    const section = headingSection(line);
+    if (section) {
+      current = section;
+      continue;
+    }
+    sections[current].push(line);
+  }
+  return sections;
+}
+
+function findName(lines: string[]): string | null {
+  const candidate = lines.slice(0, 5).find((line) =>
+    !EMAIL_PATTERN.test(line) &&
+    !/\d/.test(line) &&
+    /^[A-ZÀ-Þ][A-Za-zÀ-ÿ'.-]*(\s+[A-ZÀ-Þ][A-Za-zÀ-ÿ'.-]*){1,3}$/.test(line),
+  );
+  return candidate ?? null;
+}
+
+function findPhone(text: string): string | null {
+  for (const match of Array.from(text.matchAll(new RegExp(PHONE_PATTERN, "g")))) {
+    const digits = match[0].replace(/\D/g, "");
+    // Skip year ranges like "2019 - 2021"
+    if (digits.length >= 7 && digits.length <= 15 && !/^\d{4}\s*[-–]\s*\d{4}$/.test(match[0].trim())) {
+      return match[0].trim();
+    }
+  }
+  return null;
+}
+
+function parseSkills(lines: string[]): string[] {
+  const skills = lines
+    .flatMap((line) => line.split(/[,;•|·]|\s{2,}/))
+    .map((skill) => skill.replace(/^[-*\s]+/, "").trim())
+    .filter((skill) => skill.length > 0 && skill.length <= 40);
+  // Dedupe case-insensitively, keeping the first spelling
+  const seen = new Set<string>();
+  return skills.filter((skill) => {
+    const key = skill.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// Text on the same line as a date range, or on the line before a line that is only a date range
+function datedEntries(lines: string[]): { text: string; period: string }[] {
+  const entries: { text: string; period: string }[] = [];
+  lines.forEach((line, index) => {
+    const period = line.match(PERIOD_PATTERN)?.[0];
+    if (!period) {
+      return;
+    }
+    let text = line.replace(period, "").replace(/[\s(),|–—-]+$/, "").replace(/^[\s(),|–—-]+/, "");
+    if (!text && index > 0) {
+      text = lines[index - 1];
+    }
+    if (text) {
+      entries.push({ text, period: period.trim() });
+    }
+  });
+  return entries;
+}
+
+function parseEmployers(lines: string[]): ParsedResumeEmployer[] {
+  return datedEntries(lines).map(({ text, period }) => {
+    const at = text.match(/^(.+?)\s+at\s+(.+)$/i);
+    if (at) {
+      return { name: at[2].trim(), title: at[1].trim(), period };
+    }
+    const [name, title] = text.split(SEPARATOR).map((part) => part.trim()).filter(Boolean);
+    return { name, title: title ?? null, period };
+  });
+}
+
+function parseEducation(lines: string[]): ParsedResumeEducation[] {
+  const education: ParsedResumeEducation[] = [];
+  lines.forEach((line, index) => {
+    const parts = line.replace(PERIOD_PATTERN, "").split(SEPARATOR).map((part) => part.trim()).filter(Boolean);
+    const institution = parts.find((part) => INSTITUTION_PATTERN.test(part));
+    if (!institution) {
+      return;
+    }
+    // The degree is either on the same line or the line above the institution
+    const previous = lines[index - 1];
+    const degree =
+      parts.find((part) => part !== institution && DEGREE_PATTERN.test(part)) ??
+      (previous && DEGREE_PATTERN.test(previous) && !INSTITUTION_PATTERN.test(previous)
+        ? previous.replace(PERIOD_PATTERN, "").replace(/[\s,|–—-]+$/, "")
+        : null);
+    education.push({
+      institution,
+      degree,
+      period: (line.match(PERIOD_PATTERN) ?? previous?.match(PERIOD_PATTERN))?.[0].trim() ?? null,
+    });
+  });
+  return education;
+}
+
+/**
+ * Heuristically pulls contact details, skills, employers and education out of
+ * resume text. Resumes have no standard layout, so every field is best-effort
+ * and may be null or empty.
+ */
+export function parseResumeText(text: string): ParsedResume {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, " ").replace(/^[•*·-]\s*/, "").trim())
+    .filter(Boolean);
+  const sections = splitSections(lines);
+
+  return {
+    name: findName(sections.header),
+    email: text.match(EMAIL_PATTERN)?.[0] ?? null,
+    phone: findPhone(sections.header.join("\n")) ?? findPhone(text),
+    skills: parseSkills(sections.skills),
+    employers: parseEmployers(sections.experience),
+    education: parseEducation(sections.education),
+  };
+}
+
+// Extraction failures (corrupt or scanned files) shouldn't block an upload
+export async function readResume(
+  data: Buffer,
+  contentType: string,
+): Promise<{ text: string; parsed: ParsedResume } | null> {
+  try {
+    const text = await extractResumeText(data, contentType);
+    return { text, parsed: parseResumeText(text) };
+  } catch (error) {
+    console.error("Error parsing resume:", error);
+    return null;
+  }
+}
+
+export async function parseResume(data: Buffer, contentType: string): Promise<ParsedResume | null> {
+  return (await readResume(data, contentType))?.parsed ?? null;
+}
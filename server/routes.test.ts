@@ -0,0 +1,416 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { sessionRegistry } from "./sessionStore";
+import { createTestApp, inviteAndSignUp, pdfWithText, signUp, TestClient, TEST_PASSWORD } from "./testing";
+
+// Everything organization A owns is named with this, so a response from
+// organization B that mentions it has leaked A's data
+const MARKER = "Alpha";
+
+function resume(test: ReturnType<TestClient["post"]>, name: string) {
+  return test.attach("resume", pdfWithText(`${name} resume`), {
+    filename: `${name}.pdf`,
+    contentType: "application/pdf",
+  });
+}
+
+function route(layer: any): string[] {
+  return Object.keys(layer.route.methods).map((method) => `${method.toUpperCase()} ${layer.route.path}`);
+}
+
+// Alice is an admin of organizations A and B, and works in B; every id below
+// belongs to A. Bob is an admin of B only, and Carol a recruiter in A only.
+describe("organization isolation", () => {
+  let app: Express;
+  let alice: TestClient;
+  let bob: TestClient;
+  let carol: TestClient;
+  let aliceId: string;
+  let carolId: string;
+  const a = {} as {
+    organization: number;
+    pipeline: number;
+    position: number;
+    candidate: number;
+    attachment: number;
+    interview: number;
+    note: number;
+    notification: number;
+    savedSearch: number;
+    invitation: number;
+  };
+  const b = {} as { organization: number; position: number; candidate: number };
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    alice = await signUp(app, "alice@example.com");
+    aliceId = (await alice.get("/api/auth/user")).body.id;
+    a.organization = (await alice.get("/api/organizations")).body[0].id;
+    carol = await inviteAndSignUp(app, alice, "carol@example.com", "recruiter");
+    carolId = (await carol.get("/api/auth/user")).body.id;
+
+    a.pipeline = (
+      await alice.post("/api/pipelines").send({
+        name: `${MARKER} pipeline`,
+        stages: [{ name: `${MARKER} screen`, color: "gray", isTerminal: false }],
+      })
+    ).body.id;
+    a.position = (
+      await alice.post("/api/positions").send({
+        title: `${MARKER} engineer`,
+        department: MARKER,
+        location: "Remote",
+        pipelineId: a.pipeline,
+      })
+    ).body.id;
+    a.candidate = (
+      await alice.post("/api/candidates").send({
+        name: `${MARKER} Ann`,
+        email: "ann@example.com",
+        phone: "555-0100",
+        positionId: a.position,
+      })
+    ).body.id;
+    const duplicate = (
+      await alice.post("/api/candidates").send({
+        name: `${MARKER} Ann Again`,
+        email: "ann.again@example.com",
+        phone: "555-0101",
+        positionId: a.position,
+      })
+    ).body.id;
+    // Merging keeps the duplicate's resume as an attachment
+    await resume(alice.post(`/api/candidates/${a.candidate}/resume`), MARKER).expect(201);
+    await resume(alice.post(`/api/candidates/${duplicate}/resume`), `${MARKER} again`).expect(201);
+    await alice.post(`/api/candidates/${a.candidate}/merge`).send({ sourceId: duplicate }).expect(200);
+    a.attachment = (await alice.get(`/api/candidates/${a.candidate}/attachments`)).body[0].id;
+    a.interview = (
+      await alice.post(`/api/candidates/${a.candidate}/interviews`).send({
+        scheduledAt: "2030-01-01T10:00:00Z",
+        interviewerId: carolId,
+        location: `${MARKER} office`,
+      })
+    ).body.id;
+    a.note = (await alice.post(`/api/candidates/${a.candidate}/notes`).send({ body: `${MARKER} note` })).body.id;
+    await carol.post(`/api/candidates/${a.candidate}/notes`).send({ body: `${MARKER} thoughts, @alice?` }).expect(201);
+    a.notification = (await alice.get("/api/notifications")).body[0].id;
+    a.savedSearch = (
+      await alice.post("/api/saved-searches").send({
+        name: `${MARKER} search`,
+        positionId: a.position,
+        search: "",
+        sort: "createdAt",
+        order: "desc",
+        shared: true,
+      })
+    ).body.id;
+    a.invitation = (await alice.post("/api/invitations").send({ email: "dave@example.com", role: "recruiter" })).body.id;
+
+    // Creating B switches Alice to it
+    b.organization = (await alice.post("/api/organizations").send({ name: "Beta" }).expect(201)).body.id;
+    bob = await inviteAndSignUp(app, alice, "bob@example.com", "admin");
+    b.position = (
+      await alice.post("/api/positions").send({ title: "Beta engineer", department: "Beta", location: "Remote" })
+    ).body.id;
+    // Same email as A's candidate, which is only a duplicate within A
+    b.candidate = (
+      await alice.post("/api/candidates").send({
+        name: "Beta Bea",
+        email: "ann@example.com",
+        phone: "555-0200",
+        positionId: b.position,
+      }).expect(201)
+    ).body.id;
+
+    for (const [name, id] of Object.entries(a)) {
+      expect(id, name).toEqual(expect.any(Number));
+    }
+  });
+
+  const expectNoLeak = (res: { status: number; text: string }) => {
+    expect(res.status).toBe(200);
+    expect(res.text).not.toContain(MARKER);
+  };
+
+  // One check per route, keyed like the Express route table. Each either
+  // points a request at organization A's records from B and expects them to
+  // be missing, or lists B's records and expects none of A's among them.
+  const probes: Record<string, () => Promise<void>> = {
+    "GET /api/dashboard/stats": async () => {
+      const res = await alice.get("/api/dashboard/stats").expect(200);
+      expect(res.body.totalPositions).toBe(1);
+      expect(res.body.totalCandidates).toBe(1);
+    },
+    "GET /api/organizations": async () => {
+      const res = await bob.get("/api/organizations").expect(200);
+      expect(res.body.map((organization: { id: number }) => organization.id)).toEqual([b.organization]);
+    },
+    "PUT /api/organizations/current": async () => {
+      await bob.put("/api/organizations/current").send({ organizationId: a.organization }).expect(404);
+    },
+    "PUT /api/organizations/current/name": async () => {
+      await alice.put("/api/organizations/current/name").send({ name: "Beta renamed" }).expect(200);
+      expect((await storage.getOrganization(a.organization))?.name).not.toBe("Beta renamed");
+    },
+    "DELETE /api/organizations/current/members/:userId": async () => {
+      await alice.delete(`/api/organizations/current/members/${carolId}`).expect(404);
+    },
+    "GET /api/invitations": async () => {
+      const res = await alice.get("/api/invitations").expect(200);
+      expect(res.body).toEqual([]);
+    },
+    "POST /api/invitations": async () => {
+      // Dave's invitation to A doesn't count as one to B
+      const res = await alice.post("/api/invitations").send({ email: "dave@example.com", role: "read_only" }).expect(201);
+      await alice.delete(`/api/invitations/${res.body.id}`).expect(204);
+      expect((await storage.getInvitations(a.organization)).map((invitation) => invitation.id)).toEqual([a.invitation]);
+    },
+    "DELETE /api/invitations/:id": async () => {
+      await alice.delete(`/api/invitations/${a.invitation}`).expect(404);
+    },
+    "GET /api/positions": async () => {
+      expectNoLeak(await alice.get("/api/positions"));
+    },
+    "GET /api/positions/export": async () => {
+      expectNoLeak(await alice.get("/api/positions/export?format=csv"));
+    },
+    "POST /api/positions": async () => {
+      await alice
+        .post("/api/positions")
+        .send({ title: "Beta designer", department: "Beta", location: "Remote", pipelineId: a.pipeline })
+        .expect(400);
+    },
+    "PUT /api/positions/:id": async () => {
+      await alice.put(`/api/positions/${a.position}`).send({ title: "Taken" }).expect(404);
+      await alice.put(`/api/positions/${b.position}`).send({ pipelineId: a.pipeline }).expect(400);
+    },
+    "PUT /api/positions/:id/archive": async () => {
+      await alice.put(`/api/positions/${a.position}/archive`).send({ archived: true }).expect(404);
+    },
+    "DELETE /api/positions/:id": async () => {
+      await alice.delete(`/api/positions/${a.position}`).expect(404);
+    },
+    "GET /api/pipelines": async () => {
+      expectNoLeak(await alice.get("/api/pipelines"));
+    },
+    "POST /api/pipelines": async () => {
+      const res = await alice
+        .post("/api/pipelines")
+        .send({ name: "Beta pipeline", stages: [{ name: "Applied", color: "gray", isTerminal: false }] })
+        .expect(201);
+      const pipelines = await storage.getPipelines(a.organization);
+      expect(pipelines.map((pipeline) => pipeline.id)).not.toContain(res.body.id);
+    },
+    "PUT /api/pipelines/:id": async () => {
+      await alice.put(`/api/pipelines/${a.pipeline}`).send({ name: "Taken" }).expect(404);
+    },
+    "DELETE /api/pipelines/:id": async () => {
+      await alice.delete(`/api/pipelines/${a.pipeline}`).expect(404);
+    },
+    "GET /api/candidates": async () => {
+      expectNoLeak(await alice.get("/api/candidates"));
+    },
+    "GET /api/candidates/export": async () => {
+      expectNoLeak(await alice.get("/api/candidates/export?format=csv"));
+    },
+    "POST /api/candidates": async () => {
+      await alice
+        .post("/api/candidates")
+        .send({ name: "Beta Ben", email: "ben@example.com", phone: "555-0201", positionId: a.position })
+        .expect(400);
+    },
+    "POST /api/candidates/import": async () => {
+      const csv = `name,email,phone,position\nBeta Ben,ben@example.com,555-0201,${MARKER} engineer\n`;
+      const res = await alice
+        .post("/api/candidates/import")
+        .field("mapping", JSON.stringify({ name: "name", email: "email", phone: "phone", positionApplied: "position" }))
+        .attach("file", Buffer.from(csv), { filename: "candidates.csv", contentType: "text/csv" })
+        .expect(200);
+      expect(res.body.invalid).toBe(1);
+    },
+    "PUT /api/candidates/:id": async () => {
+      await alice.put(`/api/candidates/${a.candidate}`).send({ name: "Taken" }).expect(404);
+      await alice.put(`/api/candidates/${b.candidate}`).send({ positionId: a.position }).expect(400);
+    },
+    "GET /api/candidates/:id": async () => {
+      await alice.get(`/api/candidates/${a.candidate}`).expect(404);
+    },
+    "GET /api/candidates/:id/history": async () => {
+      await alice.get(`/api/candidates/${a.candidate}/history`).expect(404);
+    },
+    "GET /api/candidates/:id/duplicates": async () => {
+      await alice.get(`/api/candidates/${a.candidate}/duplicates`).expect(404);
+      expectNoLeak(await alice.get(`/api/candidates/${b.candidate}/duplicates`));
+    },
+    "POST /api/candidates/:id/merge": async () => {
+      await alice.post(`/api/candidates/${b.candidate}/merge`).send({ sourceId: a.candidate }).expect(404);
+      await alice.post(`/api/candidates/${a.candidate}/merge`).send({ sourceId: b.candidate }).expect(404);
+    },
+    "POST /api/candidates/:id/resume": async () => {
+      await resume(alice.post(`/api/candidates/${a.candidate}/resume`), "Beta").expect(404);
+    },
+    "POST /api/resumes/parse": async () => {
+      expectNoLeak(await resume(alice.post("/api/resumes/parse"), "Beta"));
+      // Signing in doesn't pick an organization; the role still comes from one
+      const freshCarol = new TestClient(app);
+      await freshCarol.post("/api/auth/login").send({ email: "carol@example.com", password: TEST_PASSWORD }).expect(204);
+      await resume(freshCarol.post("/api/resumes/parse"), "Carol").expect(200);
+    },
+    "GET /api/candidates/:id/resume": async () => {
+      await alice.get(`/api/candidates/${a.candidate}/resume`).expect(404);
+    },
+    "DELETE /api/candidates/:id/resume": async () => {
+      await alice.delete(`/api/candidates/${a.candidate}/resume`).expect(404);
+    },
+    "GET /api/candidates/:id/attachments": async () => {
+      await alice.get(`/api/candidates/${a.candidate}/attachments`).expect(404);
+    },
+    "GET /api/candidates/:id/attachments/:attachmentId": async () => {
+      await alice.get(`/api/candidates/${a.candidate}/attachments/${a.attachment}`).expect(404);
+      await alice.get(`/api/candidates/${b.candidate}/attachments/${a.attachment}`).expect(404);
+    },
+    "DELETE /api/candidates/:id/attachments/:attachmentId": async () => {
+      await alice.delete(`/api/candidates/${a.candidate}/attachments/${a.attachment}`).expect(404);
+      await alice.delete(`/api/candidates/${b.candidate}/attachments/${a.attachment}`).expect(404);
+    },
+    "GET /api/candidates/:id/interviews": async () => {
+      await alice.get(`/api/candidates/${a.candidate}/interviews`).expect(404);
+    },
+    "POST /api/candidates/:id/interviews": async () => {
+      const interview = { scheduledAt: "2030-01-02T10:00:00Z", interviewerId: carolId };
+      await alice.post(`/api/candidates/${a.candidate}/interviews`).send(interview).expect(404);
+      await alice.post(`/api/candidates/${b.candidate}/interviews`).send(interview).expect(400);
+    },
+    "DELETE /api/candidates/:id/interviews/:interviewId": async () => {
+      await alice.delete(`/api/candidates/${a.candidate}/interviews/${a.interview}`).expect(404);
+      await alice.delete(`/api/candidates/${b.candidate}/interviews/${a.interview}`).expect(404);
+    },
+    "GET /api/candidates/:id/notes": async () => {
+      await alice.get(`/api/candidates/${a.candidate}/notes`).expect(404);
+    },
+    "POST /api/candidates/:id/notes": async () => {
+      await alice.post(`/api/candidates/${a.candidate}/notes`).send({ body: "Beta note" }).expect(404);
+    },
+    "PUT /api/candidates/:id/notes/:noteId": async () => {
+      await alice.put(`/api/candidates/${a.candidate}/notes/${a.note}`).send({ body: "Taken" }).expect(404);
+      await alice.put(`/api/candidates/${b.candidate}/notes/${a.note}`).send({ body: "Taken" }).expect(404);
+    },
+    "DELETE /api/candidates/:id/notes/:noteId": async () => {
+      await alice.delete(`/api/candidates/${a.candidate}/notes/${a.note}`).expect(404);
+      await alice.delete(`/api/candidates/${b.candidate}/notes/${a.note}`).expect(404);
+    },
+    "GET /api/candidates/:id/notes/:noteId/revisions": async () => {
+      await alice.get(`/api/candidates/${a.candidate}/notes/${a.note}/revisions`).expect(404);
+      await alice.get(`/api/candidates/${b.candidate}/notes/${a.note}/revisions`).expect(404);
+    },
+    "DELETE /api/candidates/:id": async () => {
+      await alice.delete(`/api/candidates/${a.candidate}`).expect(404);
+    },
+    "GET /api/users": async () => {
+      const res = await alice.get("/api/users").expect(200);
+      expect(res.body.map((user: { id: string }) => user.id)).not.toContain(carolId);
+    },
+    "GET /api/search": async () => {
+      const res = await alice.get(`/api/search?q=${MARKER}`).expect(200);
+      expect(res.text).not.toContain(MARKER);
+    },
+    "GET /api/saved-searches": async () => {
+      expectNoLeak(await alice.get("/api/saved-searches"));
+    },
+    "POST /api/saved-searches": async () => {
+      await alice
+        .post("/api/saved-searches")
+        .send({ name: "Beta search", positionId: a.position, search: "", sort: "createdAt", order: "desc", shared: true })
+        .expect(400);
+    },
+    "PUT /api/saved-searches/:id": async () => {
+      await alice.put(`/api/saved-searches/${a.savedSearch}`).send({ name: "Taken" }).expect(404);
+    },
+    "DELETE /api/saved-searches/:id": async () => {
+      await alice.delete(`/api/saved-searches/${a.savedSearch}`).expect(404);
+    },
+    "PUT /api/saved-searches/:id/pin": async () => {
+      await alice.put(`/api/saved-searches/${a.savedSearch}/pin`).send({ pinned: true }).expect(404);
+    },
+    "GET /api/notifications": async () => {
+      const res = await alice.get("/api/notifications").expect(200);
+      expect(res.body).toEqual([]);
+    },
+    "POST /api/notifications/read-all": async () => {
+      await alice.post("/api/notifications/read-all").expect(204);
+      const [notification] = await storage.getNotifications(a.organization, aliceId);
+      expect(notification.readAt).toBeNull();
+    },
+    "POST /api/notifications/:id/read": async () => {
+      await alice.post(`/api/notifications/${a.notification}/read`).expect(404);
+    },
+    "GET /api/admin/users": async () => {
+      const res = await alice.get("/api/admin/users").expect(200);
+      expect(res.body.map((user: { id: string }) => user.id)).not.toContain(carolId);
+    },
+    "PUT /api/admin/users/:userId/role": async () => {
+      await alice.put(`/api/admin/users/${carolId}/role`).send({ role: "admin" }).expect(404);
+    },
+    "PUT /api/admin/users/:userId/active": async () => {
+      await alice.put(`/api/admin/users/${carolId}/active`).send({ active: false }).expect(404);
+    },
+    "POST /api/admin/users/:userId/password-reset": async () => {
+      await alice.post(`/api/admin/users/${carolId}/password-reset`).expect(404);
+    },
+    "GET /api/admin/users/:userId/sessions": async () => {
+      await alice.get(`/api/admin/users/${carolId}/sessions`).expect(404);
+    },
+    "DELETE /api/admin/users/:userId/sessions": async () => {
+      await alice.delete(`/api/admin/users/${carolId}/sessions`).expect(404);
+    },
+    "DELETE /api/admin/users/:userId/sessions/:sid": async () => {
+      const [session] = await sessionRegistry.listUserSessions(carolId);
+      await alice.delete(`/api/admin/users/${carolId}/sessions/${session.sid}`).expect(404);
+    },
+  };
+
+  // Routes that don't work on an organization's records
+  const unscoped = [
+    "GET /api/auth/config",
+    "GET /api/auth/user",
+    "POST /api/auth/login",
+    "POST /api/auth/signup",
+    "GET /api/auth/password-reset/:token",
+    "POST /api/auth/password-reset/:token",
+    "GET /api/login",
+    "GET /api/logout",
+    // Reached with an invitation's secret token rather than a membership
+    "GET /api/invitations/token/:token",
+    "POST /api/invitations/token/:token/accept",
+    // Creates a new organization
+    "POST /api/organizations",
+  ];
+
+  it("probes every API route", () => {
+    const routes = (app as any)._router.stack
+      .filter((layer: any) => layer.route?.path.startsWith("/api"))
+      .flatMap(route);
+    expect(routes.filter((key: string) => !(key in probes) && !unscoped.includes(key))).toEqual([]);
+  });
+
+  it.each(Object.keys(probes))("%s keeps organization A's records out of B", async (key) => {
+    await probes[key]();
+  });
+
+  it("leaves organization A's records as they were", async () => {
+    await alice.put("/api/organizations/current").send({ organizationId: a.organization }).expect(200);
+    await alice.get(`/api/candidates/${a.candidate}`).expect(200);
+    await alice.get(`/api/candidates/${a.candidate}/attachments/${a.attachment}`).expect(200);
+    const interviews = await alice.get(`/api/candidates/${a.candidate}/interviews`).expect(200);
+    expect(interviews.body.map((interview: { id: number }) => interview.id)).toEqual([a.interview]);
+    const notes = await alice.get(`/api/candidates/${a.candidate}/notes`).expect(200);
+    expect(notes.body.map((note: { id: number }) => note.id)).toContain(a.note);
+    const searches = await alice.get("/api/saved-searches").expect(200);
+    expect(searches.body.map((search: { id: number }) => search.id)).toEqual([a.savedSearch]);
+    const users = await alice.get("/api/admin/users").expect(200);
+    expect(users.body.find((user: { id: string }) => user.id === carolId)).toMatchObject({ role: "recruiter", deactivatedAt: null });
+    const position = await alice.get("/api/positions").expect(200);
+    expect(position.text).toContain(`${MARKER} engineer`);
+  });
+});
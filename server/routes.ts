@@ -1,30 +1,680 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertPositionSchema, insertCandidateSchema } from "@shared/schema";
+import { randomUUID } from "crypto";
+import multer from "multer";
+import { storage, type CandidateFilters, type PositionFilters } from "./storage";
+import { blobStore } from "./blobStorage";
+import { parseResume, readResume } from "./resumeParser";
+import { sendExport, candidateExportColumns, positionExportColumns } from "./exporter";
+import { candidateSortValue, pageQuerySchema, positionSortValue, toPage } from "./pagination";
+import { setupAuth, isAuthenticated, authStrategy, authProviders } from "./replitAuth";
+import { PASSWORD_RESET_TTL_MS } from "./localAuth";
+import { canManageAccount, currentRole, effectiveRole, isInstallationAdmin, requirePermission } from "./permissions";
+import { currentOrganizationId, resolveOrganization, withOrganization } from "./organizations";
+import { sessionRegistry } from "./sessionStore";
+import { INVITATION_TTL_MS, invitationUnavailableReason } from "./invitations";
+import { createSecretToken, hashSecretToken } from "./tokens";
+import {
+  insertPositionSchema,
+  insertCandidateSchema,
+  insertPipelineSchema,
+  insertCandidateNoteSchema,
+  insertCandidateInterviewSchema,
+  insertSavedSearchSchema,
+  insertOrganizationSchema,
+  insertInvitationSchema,
+  RESUME_CONTENT_TYPES,
+  MAX_RESUME_BYTES,
+  EXPORT_FORMATS,
+  type Candidate,
+  type CandidateNote,
+  type SavedSearch,
+  type SavedSearchWithCount,
+  type User,
+  type Member,
+  type ManagedUser,
+  type AuthUser,
+  type AuthConfig,
+} from "@shared/schema";
+import { findMentionedUsers } from "@shared/mentions";
+import { parseCsv } from "@shared/csv";
+import {
+  CANDIDATE_IMPORT_FIELDS,
+  candidateImportMappingSchema,
+  type CandidateImportMapping,
+  type CandidateImportResult,
+  type CandidateImportRow,
+} from "@shared/candidateImport";
+import { candidateMergeSchema, mergedCandidateValues } from "@shared/candidateMerge";
+import { DuplicateIndex, type DuplicateFields } from "@shared/duplicates";
+import { CANDIDATE_SORT_FIELDS, POSITION_SORT_FIELDS } from "@shared/pagination";
+import { candidateQuerySchema, parseCandidateQuery } from "@shared/candidateQuery";
+import { DEFAULT_SEARCH_RESULTS, MAX_SEARCH_RESULTS } from "@shared/search";
+import { ROLES } from "@shared/permissions";
 import { z } from "zod";
 
+const exportQuerySchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default("csv"),
+});
+
+// Shared by the candidate list and export; `search` uses the query syntax
+// in shared/candidateQuery.ts and a syntax error is a 400
+const candidateFilterSchema = z.object({
+  positionId: z.coerce.number().int().positive().optional(),
+  status: z.string().optional(),
+  search: candidateQuerySchema.optional(),
+});
+
+// Shared by the position list and export; archived positions are left out
+// unless asked for
+const positionFilterSchema = z
+  .object({
+    archived: z.enum(["true", "false", "all"]).default("false"),
+  })
+  .transform(({ archived }): PositionFilters => ({
+    archived: archived === "all" ? undefined : archived === "true",
+  }));
+
+const positionArchiveSchema = z.object({
+  archived: z.boolean(),
+});
+
+// Without reassignTo a position can only be deleted once no candidate applied for it
+const positionDeleteSchema = z.object({
+  reassignTo: z.coerce.number().int().positive().optional(),
+});
+
+const userRoleSchema = z.object({
+  role: z.enum(ROLES),
+});
+
+const userActiveSchema = z.object({
+  active: z.boolean(),
+});
+
+// ADMIN_USER_IDS admins count too; deactivated ones can't sign in, so they don't
+function activeAdmins(members: Member[]): Member[] {
+  return members.filter((member) => effectiveRole(member.id, member.role) === "admin" && !member.deactivatedAt);
+}
+
+// Admins manage the members of their organization and anyone else is
+// missing, except to installation admins
+async function findManagedUser(req: Request, userId: string): Promise<User | undefined> {
+  const members = await storage.getOrganizationMembers(currentOrganizationId(req));
+  const member = members.find((candidate) => candidate.id === userId);
+  if (member || !isInstallationAdmin((req.user as any).claims.sub)) {
+    return member;
+  }
+  return await storage.getUser(userId);
+}
+
+const accountElsewhereMessage =
+  "This user also belongs to organizations you don't administer; ask an installation admin";
+
+async function revokeUserSessions(userId: string) {
+  for (const session of await sessionRegistry.listUserSessions(userId)) {
+    await sessionRegistry.revokeSession(session.sid);
+  }
+}
+
+const organizationSwitchSchema = z.object({
+  organizationId: z.number().int().positive(),
+});
+
+// Once streaming has started the status is already sent, so the only way
+// to signal a failure is to cut the download short
+function failExport(res: Response, error: unknown, subject: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid data", errors: error.errors });
+  }
+  console.error(`Error exporting ${subject}:`, error);
+  if (res.headersSent) {
+    res.destroy(error instanceof Error ? error : undefined);
+  } else {
+    res.status(500).json({ message: `Failed to export ${subject}` });
+  }
+}
+
+// The filters a saved search applies to the candidate list; its search text
+// was validated when it was saved
+function savedSearchFilters(savedSearch: SavedSearch): CandidateFilters {
+  return {
+    positionId: savedSearch.positionId ?? undefined,
+    status: savedSearch.status ?? undefined,
+    search: parseCandidateQuery(savedSearch.search).query,
+  };
+}
+
+// Other users' saved searches are only visible once shared
+async function findVisibleSavedSearch(
+  organizationId: number,
+  id: number,
+  userId: string,
+): Promise<SavedSearch | undefined> {
+  const savedSearch = await storage.getSavedSearch(organizationId, id);
+  return savedSearch && (savedSearch.ownerId === userId || savedSearch.shared) ? savedSearch : undefined;
+}
+
+const savedSearchPinSchema = z.object({
+  pinned: z.boolean(),
+});
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_RESULTS).default(DEFAULT_SEARCH_RESULTS),
+});
+
+const statusReasonSchema = z.object({
+  statusReason: z.string().trim().max(1000).optional(),
+});
+
+// Creating a candidate that looks like an existing one needs allowDuplicate
+const duplicateOverrideSchema = z.object({
+  allowDuplicate: z.boolean().optional(),
+});
+
+// Candidates whose position couldn't be matched when positionId was
+// introduced have none and use the default pipeline
+async function getCandidatePipeline(organizationId: number, candidate: { positionId: number | null }) {
+  return await storage.getPipelineForPosition(organizationId, candidate.positionId);
+}
+
+// Candidates keep their status when the pipeline they move through changes or
+// loses stages, so such changes are refused while any would be left in a
+// status that isn't a stage anymore. `stagesAfter` gives the stage names a
+// position's candidates would have after the change, or undefined where it
+// doesn't affect them
+async function countStrandedCandidates(
+  organizationId: number,
+  stagesAfter: (positionId: number | null) => Promise<Set<string> | undefined>,
+  filters?: CandidateFilters,
+): Promise<number> {
+  const stagesByPosition = new Map<number | null, Set<string> | undefined>();
+  let stranded = 0;
+  for await (const candidate of storage.iterateCandidates(organizationId, filters)) {
+    if (!stagesByPosition.has(candidate.positionId)) {
+      stagesByPosition.set(candidate.positionId, await stagesAfter(candidate.positionId));
+    }
+    const stages = stagesByPosition.get(candidate.positionId);
+    if (stages && !stages.has(candidate.status)) {
+      stranded++;
+    }
+  }
+  return stranded;
+}
+
+function strandedCandidatesResponse(res: Response, candidateCount: number) {
+  const who = candidateCount === 1 ? "1 candidate is" : `${candidateCount} candidates are`;
+  return res.status(409).json({
+    message: `${who} in a stage that wouldn't exist in their pipeline anymore; move them to another stage first`,
+    candidateCount,
+  });
+}
+
+function stageNames(stages: { name: string }[]): Set<string> {
+  return new Set(stages.map((stage) => stage.name));
+}
+
+// The pipeline a position overrides the default with, if any
+async function pipelineOverride(organizationId: number, positionId: number | null): Promise<number | null> {
+  const position = positionId ? await storage.getPosition(organizationId, positionId) : undefined;
+  return position?.pipelineId ?? null;
+}
+
+function positionKey(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+const MAX_IMPORT_ROWS = 5000;
+
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 1 },
+}).single("file");
+
+const importOptionsSchema = z.object({
+  mapping: z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "mapping must be JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(candidateImportMappingSchema),
+  dryRun: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+  skipDuplicates: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+// Validates each data row exactly like POST /api/candidates would. The
+// position column holds a title, matched to a position ignoring case.
+async function validateImportRows(
+  organizationId: number,
+  headers: string[],
+  rows: string[][],
+  mapping: CandidateImportMapping,
+): Promise<CandidateImportRow[]> {
+  const pipelines = new Map<number, Awaited<ReturnType<typeof getCandidatePipeline>>>();
+  const positionIds = new Map<string, number>();
+  // Oldest first wins when titles repeat, as in the positionId migration
+  for (const position of (await storage.getPositions(organizationId)).sort((a, b) => b.id - a.id)) {
+    positionIds.set(positionKey(position.title), position.id);
+  }
+
+  const results: CandidateImportRow[] = [];
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+    const values: Record<string, string> = {};
+    for (const { field } of CANDIDATE_IMPORT_FIELDS) {
+      const column = mapping[field] ? headers.indexOf(mapping[field]!) : -1;
+      const value = column >= 0 ? row[column]?.trim() : undefined;
+      // Blank optional cells mean "not provided" rather than an empty string
+      if (value) {
+        values[field] = value;
+      }
+    }
+
+    const result: CandidateImportRow = { row: index + 2, errors: [], duplicates: [] };
+    const { positionApplied, ...fields } = values;
+    const positionId = positionApplied ? positionIds.get(positionKey(positionApplied)) : undefined;
+    const parsed = insertCandidateSchema.safeParse({ ...fields, positionId });
+    if (!parsed.success) {
+      result.errors = parsed.error.errors.map((issue) =>
+        issue.path[0] === "positionId"
+          ? `positionApplied: ${positionApplied ? `No position titled "${positionApplied}"` : "Required"}`
+          : `${issue.path.join(".")}: ${issue.message}`,
+      );
+      results.push(result);
+      continue;
+    }
+
+    const candidate = parsed.data;
+    let pipeline = pipelines.get(candidate.positionId);
+    if (!pipeline) {
+      pipeline = await getCandidatePipeline(organizationId, candidate);
+      pipelines.set(candidate.positionId, pipeline);
+    }
+    if (!candidate.status) {
+      candidate.status = pipeline.stages[0].name;
+    } else if (!pipeline.stages.some((stage) => stage.name === candidate.status)) {
+      result.errors.push(`status: "${candidate.status}" is not a stage of the ${pipeline.name} pipeline`);
+    }
+    if (result.errors.length === 0) {
+      result.candidate = candidate;
+    }
+    results.push(result);
+  }
+  return results;
+}
+
+// Compares each valid row with the existing candidates and with the valid
+// rows above it, so a file listing someone twice is caught as well
+async function flagImportDuplicates(organizationId: number, results: CandidateImportRow[]) {
+  type Entry = DuplicateFields & { candidateId?: number; row?: number };
+  const index = new DuplicateIndex<Entry>();
+  for await (const candidate of storage.iterateCandidates(organizationId)) {
+    index.add({ ...candidate, candidateId: candidate.id });
+  }
+  for (const result of results) {
+    if (!result.candidate) continue;
+    result.duplicates = index.find(result.candidate).map(({ item, reasons }) => ({
+      candidateId: item.candidateId,
+      row: item.row,
+      name: item.name,
+      reasons,
+    }));
+    index.add({ ...result.candidate, row: result.row });
+  }
+}
+
+// Streams a stored file as a download; false when the blob is missing
+async function sendBlob(
+  res: Response,
+  key: string,
+  file: { fileName: string; contentType: string; size: number | null },
+): Promise<boolean> {
+  const stream = await blobStore.get(key);
+  if (!stream) {
+    return false;
+  }
+
+  res.attachment(file.fileName);
+  res.setHeader("Content-Type", file.contentType);
+  if (file.size != null) {
+    res.setHeader("Content-Length", file.size);
+  }
+  stream.on("error", (error) => {
+    console.error("Error streaming file:", error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+  return true;
+}
+
+const resumeUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_RESUME_BYTES, files: 1 },
+}).single("resume");
+
+// The declared content type must match the file's leading bytes:
+// PDFs start with "%PDF-" and DOCX files are ZIP archives ("PK\x03\x04").
+function isValidResume(file: Express.Multer.File): boolean {
+  switch (file.mimetype) {
+    case "application/pdf":
+      return file.buffer.subarray(0, 5).toString("latin1") === "%PDF-";
+    case "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+      return file.buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+    default:
+      return false;
+  }
+}
+
+type ResumeUpload = { file: Express.Multer.File; error?: undefined } | { file?: undefined; error: string };
+
+// Runs multer and validates the uploaded file; `error` is a message for the client
+function receiveResumeUpload(req: Request, res: Response): Promise<ResumeUpload> {
+  return new Promise((resolve, reject) => {
+    resumeUpload(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        resolve({
+          error: err.code === "LIMIT_FILE_SIZE"
+            ? `Resume must be at most ${MAX_RESUME_BYTES / (1024 * 1024)} MB`
+            : err.message,
+        });
+      } else if (err) {
+        reject(err);
+      } else if (!req.file) {
+        resolve({ error: "No resume file provided" });
+      } else if (!isValidResume(req.file)) {
+        resolve({ error: "Resume must be a PDF or DOCX file" });
+      } else {
+        resolve({ file: req.file });
+      }
+    });
+  });
+}
+
+function displayName(user: User) {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+}
+
+// Notifies users @mentioned in a note, skipping the author and anyone
+// already mentioned in the previous body of an edited note. Only members of
+// the candidate's organization can be mentioned.
+async function notifyMentions(note: CandidateNote, candidate: Candidate, actor: User, previousBody?: string) {
+  const users = await storage.getOrganizationMembers(candidate.organizationId);
+  const alreadyMentioned = new Set(
+    previousBody ? findMentionedUsers(previousBody, users).map((user) => user.id) : [],
+  );
+
+  for (const user of findMentionedUsers(note.body, users)) {
+    if (user.id === actor.id || alreadyMentioned.has(user.id)) {
+      continue;
+    }
+    await storage.createNotification({
+      userId: user.id,
+      type: "mention",
+      actorId: actor.id,
+      candidateId: candidate.id,
+      noteId: note.id,
+      message: `${displayName(actor)} mentioned you in a note on ${candidate.name}`,
+    });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
   // Auth routes
+  // Public: tells the sign-in page which form to show
+  app.get('/api/auth/config', async (req, res) => {
+    try {
+      const config: AuthConfig = {
+        strategy: authStrategy,
+        providers: authProviders,
+        setupRequired: authStrategy === "local" && (await storage.getUsers()).length === 0,
+      };
+      res.json(config);
+    } catch (error) {
+      console.error("Error fetching auth config:", error);
+      res.status(500).json({ message: "Failed to fetch auth config" });
+    }
+  });
+
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      res.json(user);
+      const organization = await resolveOrganization(req);
+      const authUser: AuthUser | undefined = user && {
+        ...user,
+        organizationId: organization?.id ?? null,
+        role: organization ? (await currentRole(req)) ?? null : null,
+        installationAdmin: isInstallationAdmin(user.id),
+      };
+      res.json(authUser);
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
+  // Organization routes
+  // The organizations the user can switch between
+  app.get('/api/organizations', isAuthenticated, async (req: any, res) => {
+    try {
+      const organizations = await storage.getOrganizations(req.user.claims.sub);
+      res.json(organizations);
+    } catch (error) {
+      console.error("Error fetching organizations:", error);
+      res.status(500).json({ message: "Failed to fetch organizations" });
+    }
+  });
+
+  // The creator joins the new organization as its admin and switches to it
+  app.post('/api/organizations', isAuthenticated, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const validatedData = insertOrganizationSchema.parse(req.body);
+      const organization = await storage.createOrganization(validatedData, req.user.claims.sub);
+      req.session.organizationId = organization.id;
+      res.status(201).json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating organization:", error);
+        res.status(500).json({ message: "Failed to create organization" });
+      }
+    }
+  });
+
+  // Switches the organization the session works in
+  app.put('/api/organizations/current', isAuthenticated, async (req: any, res) => {
+    try {
+      const { organizationId } = organizationSwitchSchema.parse(req.body);
+      const organizations = await storage.getOrganizations(req.user.claims.sub);
+      const organization = organizations.find((candidate) => candidate.id === organizationId);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      req.session.organizationId = organization.id;
+      res.json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error switching organization:", error);
+        res.status(500).json({ message: "Failed to switch organization" });
+      }
+    }
+  });
+
+  app.put('/api/organizations/current/name', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const validatedData = insertOrganizationSchema.parse(req.body);
+      const organization = await storage.updateOrganization(organizationId, validatedData);
+      res.json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error renaming organization:", error);
+        res.status(500).json({ message: "Failed to rename organization" });
+      }
+    }
+  });
+
+  // People join an organization by accepting an invitation; admins can
+  // remove them again
+  app.delete('/api/organizations/current/members/:userId', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      if (req.params.userId === req.user.claims.sub) {
+        return res.status(400).json({ message: "You can't remove yourself from the organization" });
+      }
+      const members = await storage.getOrganizationMembers(organizationId);
+      if (!members.some((member) => member.id === req.params.userId)) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      const admins = activeAdmins(members);
+      if (admins.length === 1 && admins[0].id === req.params.userId) {
+        return res.status(400).json({ message: "There must be at least one admin" });
+      }
+      await storage.removeOrganizationMember(organizationId, req.params.userId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // Invitation routes
+  // Looked up by the token from the link, before signing in, so the page can
+  // say which organization it is for
+  app.get('/api/invitations/token/:token', async (req, res) => {
+    try {
+      const invitation = await storage.getInvitationByTokenHash(hashSecretToken(req.params.token));
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const unavailable = invitationUnavailableReason(invitation);
+      if (unavailable) {
+        return res.status(410).json({ message: unavailable });
+      }
+      const organization = await storage.getOrganization(invitation.organizationId);
+      res.json({
+        email: invitation.email,
+        role: invitation.role,
+        organizationName: organization?.name ?? "",
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      res.status(500).json({ message: "Failed to fetch invitation" });
+    }
+  });
+
+  // Joins the invitation's organization with its role there and switches to it
+  app.post('/api/invitations/token/:token/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      const invitation = await storage.getInvitationByTokenHash(hashSecretToken(req.params.token));
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const unavailable = invitationUnavailableReason(invitation);
+      if (unavailable) {
+        return res.status(410).json({ message: unavailable });
+      }
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      // An account without an email can't show it's the one the invitation was sent to
+      if (user.email?.toLowerCase() !== invitation.email) {
+        return res.status(403).json({
+          message: `This invitation was sent to ${invitation.email}; sign in with that account to accept it`,
+        });
+      }
+      const accepted = await storage.acceptInvitation(invitation.id, user.id);
+      req.session.organizationId = accepted.organizationId;
+      res.json({ organizationId: accepted.organizationId });
+    } catch (error) {
+      console.error("Error accepting invitation:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+
+  app.get('/api/invitations', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const invitations = await storage.getInvitations(organizationId);
+      res.json(invitations);
+    } catch (error) {
+      console.error("Error fetching invitations:", error);
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+
+  // The response carries the token for the link; it can't be read back later
+  app.post('/api/invitations', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const { email, role } = insertInvitationSchema.parse(req.body);
+      const members = await storage.getOrganizationMembers(organizationId);
+      if (members.some((member) => member.email?.toLowerCase() === email)) {
+        return res.status(409).json({ message: `${email} is already a member` });
+      }
+      const pending = await storage.getInvitations(organizationId);
+      const existing = pending.find((invitation) => invitation.email === email);
+      if (existing && existing.expiresAt.getTime() > Date.now()) {
+        return res.status(409).json({ message: `${email} already has a pending invitation` });
+      }
+      if (existing) {
+        await storage.deleteInvitation(existing.id);
+      }
+
+      const { token, tokenHash } = createSecretToken();
+      const { tokenHash: _, ...invitation } = await storage.createInvitation(organizationId, req.user.claims.sub, {
+        email,
+        role,
+        tokenHash,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      });
+      res.status(201).json({ ...invitation, token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating invitation:", error);
+        res.status(500).json({ message: "Failed to create invitation" });
+      }
+    }
+  });
+
+  app.delete('/api/invitations/:id', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const invitation = await storage.getInvitation(organizationId, parseInt(req.params.id));
+      if (!invitation || invitation.acceptedAt) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      await storage.deleteInvitation(invitation.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+
   // Dashboard stats
-  app.get('/api/dashboard/stats', isAuthenticated, async (req, res) => {
+  app.get('/api/dashboard/stats', isAuthenticated, withOrganization, async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
+      const organizationId = currentOrganizationId(req);
+      const stats = await storage.getDashboardStats(organizationId);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
@@ -33,20 +683,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Position routes
-  app.get('/api/positions', isAuthenticated, async (req, res) => {
+  // Paginated; see pageQuerySchema for the query parameters, and
+  // positionFilterSchema for `archived`
+  app.get('/api/positions', isAuthenticated, withOrganization, requirePermission("positions:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const options = pageQuerySchema(POSITION_SORT_FIELDS).parse(req.query);
+      const filters = positionFilterSchema.parse(req.query);
+      const result = await storage.getPositionPage(organizationId, options, filters);
+      res.json(toPage(result, options, positionSortValue));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error fetching positions:", error);
+        res.status(500).json({ message: "Failed to fetch positions" });
+      }
+    }
+  });
+
+  app.get('/api/positions/export', isAuthenticated, withOrganization, requirePermission("positions:view"), async (req, res) => {
     try {
-      const positions = await storage.getPositions();
-      res.json(positions);
+      const organizationId = currentOrganizationId(req);
+      const { format } = exportQuerySchema.parse(req.query);
+      const filters = positionFilterSchema.parse(req.query);
+      await sendExport(res, format, "positions", positionExportColumns, storage.iteratePositions(organizationId, filters));
     } catch (error) {
-      console.error("Error fetching positions:", error);
-      res.status(500).json({ message: "Failed to fetch positions" });
+      failExport(res, error, "positions");
     }
   });
 
-  app.post('/api/positions', isAuthenticated, async (req, res) => {
+  app.post('/api/positions', isAuthenticated, withOrganization, requirePermission("positions:manage"), async (req, res) => {
     try {
+      const organizationId = currentOrganizationId(req);
       const validatedData = insertPositionSchema.parse(req.body);
-      const position = await storage.createPosition(validatedData);
+      if (validatedData.pipelineId && !(await storage.getPipeline(organizationId, validatedData.pipelineId))) {
+        return res.status(400).json({ message: "Pipeline not found" });
+      }
+      const position = await storage.createPosition(organizationId, validatedData);
       res.status(201).json(position);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -58,11 +732,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/positions/:id', isAuthenticated, async (req, res) => {
+  // Changing the pipeline is refused while it would strand candidates; see
+  // countStrandedCandidates
+  app.put('/api/positions/:id', isAuthenticated, withOrganization, requirePermission("positions:manage"), async (req, res) => {
     try {
+      const organizationId = currentOrganizationId(req);
       const id = parseInt(req.params.id);
       const validatedData = insertPositionSchema.partial().parse(req.body);
-      const position = await storage.updatePosition(id, validatedData);
+      const existing = await storage.getPosition(organizationId, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Position not found" });
+      }
+      if (validatedData.pipelineId !== undefined && validatedData.pipelineId !== existing.pipelineId) {
+        const pipeline = validatedData.pipelineId
+          ? await storage.getPipeline(organizationId, validatedData.pipelineId)
+          : await storage.getPipelineForPosition(organizationId, null);
+        if (!pipeline) {
+          return res.status(400).json({ message: "Pipeline not found" });
+        }
+        const stages = stageNames(pipeline.stages);
+        const stranded = await countStrandedCandidates(organizationId, async () => stages, { positionId: id });
+        if (stranded > 0) {
+          return strandedCandidatesResponse(res, stranded);
+        }
+      }
+      const position = await storage.updatePosition(organizationId, id, validatedData);
       res.json(position);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -74,73 +768,1129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/positions/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/positions/:id/archive', isAuthenticated, withOrganization, requirePermission("positions:manage"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const { archived } = positionArchiveSchema.parse(req.body);
+      if (!(await storage.getPosition(organizationId, id))) {
+        return res.status(404).json({ message: "Position not found" });
+      }
+      const position = await storage.setPositionArchived(organizationId, id, archived);
+      res.json(position);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error archiving position:", error);
+        res.status(500).json({ message: "Failed to archive position" });
+      }
+    }
+  });
+
+  // ?reassignTo= moves the position's candidates to another position before
+  // deleting it; without it a position with candidates is a 409 that reports
+  // how many, so the client can offer to archive or reassign instead
+  app.delete('/api/positions/:id', isAuthenticated, withOrganization, requirePermission("positions:delete"), async (req, res) => {
     try {
+      const organizationId = currentOrganizationId(req);
       const id = parseInt(req.params.id);
-      await storage.deletePosition(id);
+      const { reassignTo } = positionDeleteSchema.parse(req.query);
+      const position = await storage.getPosition(organizationId, id);
+      if (!position) {
+        return res.status(404).json({ message: "Position not found" });
+      }
+
+      const candidateCount = await storage.countCandidates(organizationId, { positionId: id });
+      if (reassignTo === undefined) {
+        if (candidateCount > 0) {
+          const who = candidateCount === 1 ? "1 candidate has" : `${candidateCount} candidates have`;
+          return res.status(409).json({
+            message: `${who} applied for this position; archive it or move them to another position`,
+            candidateCount,
+          });
+        }
+      } else {
+        if (reassignTo === id) {
+          return res.status(400).json({ message: "Candidates must move to a different position" });
+        }
+        if (!(await storage.getPosition(organizationId, reassignTo))) {
+          return res.status(400).json({ message: "Position not found" });
+        }
+        // Moved candidates keep their status, so it must exist in the new pipeline
+        const pipeline = await storage.getPipelineForPosition(organizationId, reassignTo);
+        const stages = new Set(pipeline.stages.map((stage) => stage.name));
+        for await (const candidate of storage.iterateCandidates(organizationId, { positionId: id })) {
+          if (!stages.has(candidate.status)) {
+            return res.status(400).json({
+              message: `Status "${candidate.status}" of ${candidate.name} is not a stage of the ${pipeline.name} pipeline`,
+            });
+          }
+        }
+      }
+
+      await storage.deletePosition(organizationId, id, reassignTo);
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting position:", error);
-      res.status(500).json({ message: "Failed to delete position" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error deleting position:", error);
+        res.status(500).json({ message: "Failed to delete position" });
+      }
     }
   });
 
-  // Candidate routes
-  app.get('/api/candidates', isAuthenticated, async (req, res) => {
+  // Pipeline routes
+  app.get('/api/pipelines', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
     try {
-      const { position, status, search } = req.query;
-      const filters = {
-        position: position as string,
-        status: status as string,
-        search: search as string,
-      };
-      const candidates = await storage.getCandidates(filters);
-      res.json(candidates);
+      const organizationId = currentOrganizationId(req);
+      const pipelines = await storage.getPipelines(organizationId);
+      res.json(pipelines);
     } catch (error) {
-      console.error("Error fetching candidates:", error);
-      res.status(500).json({ message: "Failed to fetch candidates" });
+      console.error("Error fetching pipelines:", error);
+      res.status(500).json({ message: "Failed to fetch pipelines" });
     }
   });
 
-  app.post('/api/candidates', isAuthenticated, async (req, res) => {
+  app.post('/api/pipelines', isAuthenticated, withOrganization, requirePermission("pipelines:manage"), async (req, res) => {
     try {
-      const validatedData = insertCandidateSchema.parse(req.body);
-      const candidate = await storage.createCandidate(validatedData);
-      res.status(201).json(candidate);
+      const organizationId = currentOrganizationId(req);
+      const validatedData = insertPipelineSchema.parse(req.body);
+      if (validatedData.isDefault) {
+        // Positions without their own pipeline move to the new default
+        const stages = stageNames(validatedData.stages);
+        const stranded = await countStrandedCandidates(organizationId, async (positionId) =>
+          (await pipelineOverride(organizationId, positionId)) === null ? stages : undefined,
+        );
+        if (stranded > 0) {
+          return strandedCandidatesResponse(res, stranded);
+        }
+      }
+      const pipeline = await storage.createPipeline(organizationId, validatedData);
+      res.status(201).json(pipeline);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        console.error("Error creating candidate:", error);
-        res.status(500).json({ message: "Failed to create candidate" });
+        console.error("Error creating pipeline:", error);
+        res.status(500).json({ message: "Failed to create pipeline" });
       }
     }
   });
 
-  app.put('/api/candidates/:id', isAuthenticated, async (req, res) => {
+  // Like deletes, stage changes and switching the default are refused while
+  // they would strand candidates; see countStrandedCandidates
+  app.put('/api/pipelines/:id', isAuthenticated, withOrganization, requirePermission("pipelines:manage"), async (req, res) => {
     try {
+      const organizationId = currentOrganizationId(req);
       const id = parseInt(req.params.id);
-      const validatedData = insertCandidateSchema.partial().parse(req.body);
-      const candidate = await storage.updateCandidate(id, validatedData);
-      res.json(candidate);
+      const validatedData = insertPipelineSchema.partial().parse(req.body);
+      const existing = await storage.getPipeline(organizationId, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      if (existing.isDefault && validatedData.isDefault === false) {
+        return res.status(400).json({ message: "Make another pipeline the default instead" });
+      }
+      const becomesDefault = !existing.isDefault && validatedData.isDefault === true;
+      if (validatedData.stages || becomesDefault) {
+        const stages = stageNames(validatedData.stages ?? existing.stages);
+        const stranded = await countStrandedCandidates(organizationId, async (positionId) => {
+          const overrideId = await pipelineOverride(organizationId, positionId);
+          const usesPipeline = overrideId === id || (overrideId === null && existing.isDefault);
+          // Positions without their own pipeline move to it when it becomes the default
+          const movesToPipeline = overrideId === null && becomesDefault;
+          return (validatedData.stages && usesPipeline) || movesToPipeline ? stages : undefined;
+        });
+        if (stranded > 0) {
+          return strandedCandidatesResponse(res, stranded);
+        }
+      }
+      const pipeline = await storage.updatePipeline(organizationId, id, validatedData);
+      res.json(pipeline);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        console.error("Error updating candidate:", error);
-        res.status(500).json({ message: "Failed to update candidate" });
+        console.error("Error updating pipeline:", error);
+        res.status(500).json({ message: "Failed to update pipeline" });
       }
     }
   });
 
-  app.delete('/api/candidates/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/pipelines/:id', isAuthenticated, withOrganization, requirePermission("pipelines:manage"), async (req, res) => {
     try {
+      const organizationId = currentOrganizationId(req);
       const id = parseInt(req.params.id);
-      await storage.deleteCandidate(id);
+      const existing = await storage.getPipeline(organizationId, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Pipeline not found" });
+      }
+      if (existing.isDefault) {
+        return res.status(400).json({ message: "The default pipeline cannot be deleted" });
+      }
+      // Positions using it fall back to the default pipeline
+      const fallback = stageNames((await storage.getPipelineForPosition(organizationId, null)).stages);
+      const stranded = await countStrandedCandidates(organizationId, async (positionId) =>
+        (await pipelineOverride(organizationId, positionId)) === id ? fallback : undefined,
+      );
+      if (stranded > 0) {
+        return strandedCandidatesResponse(res, stranded);
+      }
+      await storage.deletePipeline(organizationId, id);
       res.status(204).send();
     } catch (error) {
-      console.error("Error deleting candidate:", error);
-      res.status(500).json({ message: "Failed to delete candidate" });
+      console.error("Error deleting pipeline:", error);
+      res.status(500).json({ message: "Failed to delete pipeline" });
+    }
+  });
+
+  // Candidate routes
+  // Paginated like /api/positions, filtered by candidateFilterSchema
+  app.get('/api/candidates', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const filters = candidateFilterSchema.parse(req.query);
+      const options = pageQuerySchema(CANDIDATE_SORT_FIELDS).parse(req.query);
+      const result = await storage.getCandidatePage(organizationId, filters, options);
+      res.json(toPage(result, options, candidateSortValue));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error fetching candidates:", error);
+        res.status(500).json({ message: "Failed to fetch candidates" });
+      }
+    }
+  });
+
+  // Registered before /api/candidates/:id so "export" isn't taken for an id
+  app.get('/api/candidates/export', isAuthenticated, withOrganization, requirePermission("candidates:export"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const { format } = exportQuerySchema.parse(req.query);
+      const filters = candidateFilterSchema.parse(req.query);
+      await sendExport(
+        res,
+        format,
+        "candidates",
+        candidateExportColumns,
+        storage.iterateCandidates(organizationId, filters),
+      );
+    } catch (error) {
+      failExport(res, error, "candidates");
+    }
+  });
+
+  app.post('/api/candidates', isAuthenticated, withOrganization, requirePermission("candidates:manage"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const validatedData = insertCandidateSchema.parse(req.body);
+      if (!(await storage.getPosition(organizationId, validatedData.positionId))) {
+        return res.status(400).json({ message: "Position not found" });
+      }
+      const pipeline = await getCandidatePipeline(organizationId, validatedData);
+      if (!validatedData.status) {
+        validatedData.status = pipeline.stages[0].name;
+      } else if (!pipeline.stages.some((stage) => stage.name === validatedData.status)) {
+        return res.status(400).json({
+          message: `Status "${validatedData.status}" is not a stage of the ${pipeline.name} pipeline`,
+        });
+      }
+      const { allowDuplicate } = duplicateOverrideSchema.parse(req.body);
+      if (!allowDuplicate) {
+        const duplicates = await storage.findDuplicateCandidates(organizationId, validatedData);
+        if (duplicates.length > 0) {
+          return res.status(409).json({ message: "This candidate may already exist", duplicates });
+        }
+      }
+      const { statusReason } = statusReasonSchema.parse(req.body);
+      const candidate = await storage.createCandidate(organizationId, validatedData, {
+        actorId: req.user.claims.sub,
+        reason: statusReason,
+      });
+      res.status(201).json(await storage.getCandidateWithPosition(organizationId, candidate.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating candidate:", error);
+        res.status(500).json({ message: "Failed to create candidate" });
+      }
+    }
+  });
+
+  // Multipart upload: `file` (CSV with a header row), `mapping` (JSON object of
+  // candidate field -> CSV header), `dryRun` ("true" by default) and
+  // `skipDuplicates` ("false" by default). A real run creates every valid row
+  // in one batch and skips the invalid ones, and likely duplicates if asked.
+  app.post('/api/candidates/import', isAuthenticated, withOrganization, requirePermission("candidates:import"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const uploadError = await new Promise<string | undefined>((resolve, reject) => {
+        csvUpload(req, res, (err: unknown) => {
+          if (err instanceof multer.MulterError) {
+            resolve(err.code === "LIMIT_FILE_SIZE" ? "CSV file must be at most 5 MB" : err.message);
+          } else if (err) {
+            reject(err);
+          } else {
+            resolve(req.file ? undefined : "No CSV file provided");
+          }
+        });
+      });
+      if (uploadError) {
+        return res.status(400).json({ message: uploadError });
+      }
+
+      const { mapping, dryRun, skipDuplicates } = importOptionsSchema.parse(req.body);
+      const [headers, ...rows] = parseCsv(req.file.buffer.toString("utf-8"));
+      if (!headers) {
+        return res.status(400).json({ message: "CSV file is empty" });
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        return res.status(400).json({ message: `CSV files are limited to ${MAX_IMPORT_ROWS} rows` });
+      }
+      const missing = Object.values(mapping).filter((header) => header && !headers.includes(header));
+      if (missing.length > 0) {
+        return res.status(400).json({ message: `Unknown CSV columns: ${missing.join(", ")}` });
+      }
+
+      const results = await validateImportRows(organizationId, headers, rows, mapping);
+      await flagImportDuplicates(organizationId, results);
+      const validRows = results.filter((result) => result.candidate);
+      const duplicateRows = validRows.filter((result) => result.duplicates.length > 0);
+      const rowsToImport = skipDuplicates
+        ? validRows.filter((result) => result.duplicates.length === 0)
+        : validRows;
+      let imported = 0;
+      if (!dryRun && rowsToImport.length > 0) {
+        const created = await storage.createCandidates(
+          organizationId,
+          rowsToImport.map((result) => result.candidate!),
+          { actorId: req.user.claims.sub, reason: "Imported from CSV" },
+        );
+        imported = created.length;
+      }
+
+      const response: CandidateImportResult = {
+        dryRun,
+        total: results.length,
+        valid: validRows.length,
+        invalid: results.length - validRows.length,
+        duplicates: duplicateRows.length,
+        imported,
+        rows: results,
+      };
+      res.status(dryRun ? 200 : 201).json(response);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error importing candidates:", error);
+      res.status(500).json({ message: "Failed to import candidates" });
+    }
+  });
+
+  app.put('/api/candidates/:id', isAuthenticated, withOrganization, requirePermission("candidates:manage"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const validatedData = insertCandidateSchema.partial().parse(req.body);
+      const existing = await storage.getCandidate(organizationId, id);
+      if (!existing) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      if (validatedData.positionId !== undefined && !(await storage.getPosition(organizationId, validatedData.positionId))) {
+        return res.status(400).json({ message: "Position not found" });
+      }
+      const merged = { ...existing, ...validatedData };
+      const pipeline = await getCandidatePipeline(organizationId, merged);
+      if (!pipeline.stages.some((stage) => stage.name === merged.status)) {
+        return res.status(400).json({
+          message: `Status "${merged.status}" is not a stage of the ${pipeline.name} pipeline`,
+        });
+      }
+      const { statusReason } = statusReasonSchema.parse(req.body);
+      const candidate = await storage.updateCandidate(organizationId, id, validatedData, {
+        actorId: req.user.claims.sub,
+        reason: statusReason,
+      });
+      res.json(await storage.getCandidateWithPosition(organizationId, candidate.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating candidate:", error);
+        res.status(500).json({ message: "Failed to update candidate" });
+      }
+    }
+  });
+
+  app.get('/api/candidates/:id', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidateWithPosition(organizationId, id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      res.json(candidate);
+    } catch (error) {
+      console.error("Error fetching candidate:", error);
+      res.status(500).json({ message: "Failed to fetch candidate" });
+    }
+  });
+
+  app.get('/api/candidates/:id/history', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidate(organizationId, id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      const history = await storage.getCandidateStatusHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching candidate history:", error);
+      res.status(500).json({ message: "Failed to fetch candidate history" });
+    }
+  });
+
+  app.get('/api/candidates/:id/duplicates', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidate(organizationId, id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      const duplicates = await storage.findDuplicateCandidates(organizationId, candidate, id);
+      res.json(duplicates);
+    } catch (error) {
+      console.error("Error finding duplicate candidates:", error);
+      res.status(500).json({ message: "Failed to find duplicate candidates" });
+    }
+  });
+
+  // Merges `sourceId` into this candidate, which keeps its id; `choices` picks
+  // per field whose value survives and defaults to this candidate's
+  app.post('/api/candidates/:id/merge', isAuthenticated, withOrganization, requirePermission("candidates:delete"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const { sourceId, choices } = candidateMergeSchema.parse(req.body);
+      if (sourceId === id) {
+        return res.status(400).json({ message: "A candidate can't be merged with itself" });
+      }
+      const [target, source] = await Promise.all([storage.getCandidate(organizationId, id), storage.getCandidate(organizationId, sourceId)]);
+      if (!target || !source) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+
+      const values = mergedCandidateValues(target, source, choices);
+      const merged = { ...target, ...values };
+      const pipeline = await getCandidatePipeline(organizationId, merged);
+      if (!pipeline.stages.some((stage) => stage.name === merged.status)) {
+        return res.status(400).json({
+          message: `Status "${merged.status}" is not a stage of the ${pipeline.name} pipeline`,
+        });
+      }
+      const candidate = await storage.mergeCandidates(organizationId, id, sourceId, values, {
+        actorId: req.user.claims.sub,
+        reason: `Merged with duplicate record #${sourceId}`,
+      });
+      res.json(await storage.getCandidateWithPosition(organizationId, candidate.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error merging candidates:", error);
+        res.status(500).json({ message: "Failed to merge candidates" });
+      }
+    }
+  });
+
+  // Resume file routes
+  app.post('/api/candidates/:id/resume', isAuthenticated, withOrganization, requirePermission("candidates:manage"), async (req, res) => {
+    // Set while the stored file isn't recorded on the candidate yet
+    let unrecordedKey: string | undefined;
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidate(organizationId, id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+
+      const { file, error } = await receiveResumeUpload(req, res);
+      if (!file) {
+        return res.status(400).json({ message: error });
+      }
+
+      const extension = RESUME_CONTENT_TYPES[file.mimetype as keyof typeof RESUME_CONTENT_TYPES];
+      const key = `resumes/${id}/${randomUUID()}${extension}`;
+      await blobStore.put(key, file.buffer, file.mimetype);
+      unrecordedKey = key;
+      const resume = await readResume(file.buffer, file.mimetype);
+      const updatedCandidate = await storage.setCandidateResumeFile(organizationId, id, {
+        key,
+        fileName: file.originalname,
+        contentType: file.mimetype,
+        size: file.size,
+      }, resume?.parsed ?? null, resume?.text ?? null);
+      unrecordedKey = undefined;
+      // Only drop the previous file once the new one is recorded
+      if (candidate.resumeFileKey) {
+        await blobStore.delete(candidate.resumeFileKey);
+      }
+      res.status(201).json(updatedCandidate);
+    } catch (error) {
+      console.error("Error uploading resume:", error);
+      if (unrecordedKey) {
+        await blobStore.delete(unrecordedKey).catch((cleanupError) =>
+          console.error("Error removing unrecorded resume file:", cleanupError));
+      }
+      res.status(500).json({ message: "Failed to upload resume" });
+    }
+  });
+
+  // Parses a resume without storing it, so a new candidate's form can be prefilled
+  app.post('/api/resumes/parse', isAuthenticated, withOrganization, requirePermission("candidates:manage"), async (req, res) => {
+    try {
+      const { file, error } = await receiveResumeUpload(req, res);
+      if (!file) {
+        return res.status(400).json({ message: error });
+      }
+      const parsedResume = await parseResume(file.buffer, file.mimetype);
+      if (!parsedResume) {
+        return res.status(422).json({ message: "Could not read text from this resume" });
+      }
+      res.json(parsedResume);
+    } catch (error) {
+      console.error("Error parsing resume:", error);
+      res.status(500).json({ message: "Failed to parse resume" });
+    }
+  });
+
+  app.get('/api/candidates/:id/resume', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const candidate = await storage.getCandidate(organizationId, parseInt(req.params.id));
+      if (!candidate?.resumeFileKey) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+      const sent = await sendBlob(res, candidate.resumeFileKey, {
+        fileName: candidate.resumeFileName ?? "resume",
+        contentType: candidate.resumeContentType ?? "application/octet-stream",
+        size: candidate.resumeFileSize,
+      });
+      if (!sent) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+    } catch (error) {
+      console.error("Error downloading resume:", error);
+      res.status(500).json({ message: "Failed to download resume" });
+    }
+  });
+
+  app.delete('/api/candidates/:id/resume', isAuthenticated, withOrganization, requirePermission("candidates:manage"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidate(organizationId, id);
+      if (!candidate?.resumeFileKey) {
+        return res.status(404).json({ message: "Resume not found" });
+      }
+      await storage.setCandidateResumeFile(organizationId, id, null);
+      await blobStore.delete(candidate.resumeFileKey);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting resume:", error);
+      res.status(500).json({ message: "Failed to delete resume" });
+    }
+  });
+
+  // Attachment routes
+  app.get('/api/candidates/:id/attachments', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      if (!(await storage.getCandidate(organizationId, id))) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      const attachments = await storage.getCandidateAttachments(id);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching attachments:", error);
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.get('/api/candidates/:id/attachments/:attachmentId', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const candidate = await storage.getCandidate(organizationId, parseInt(req.params.id));
+      const attachment = await storage.getCandidateAttachment(parseInt(req.params.attachmentId));
+      if (!candidate || !attachment || attachment.candidateId !== candidate.id) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      const sent = await sendBlob(res, attachment.fileKey, {
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.fileSize,
+      });
+      if (!sent) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+    } catch (error) {
+      console.error("Error downloading attachment:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+
+  app.delete('/api/candidates/:id/attachments/:attachmentId', isAuthenticated, withOrganization, requirePermission("candidates:manage"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const candidate = await storage.getCandidate(organizationId, parseInt(req.params.id));
+      const attachmentId = parseInt(req.params.attachmentId);
+      const attachment = await storage.getCandidateAttachment(attachmentId);
+      if (!candidate || !attachment || attachment.candidateId !== candidate.id) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      await storage.deleteCandidateAttachment(attachmentId);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting attachment:", error);
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Interview routes
+  app.get('/api/candidates/:id/interviews', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidate(organizationId, id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      const interviews = await storage.getCandidateInterviews(id);
+      res.json(interviews);
+    } catch (error) {
+      console.error("Error fetching interviews:", error);
+      res.status(500).json({ message: "Failed to fetch interviews" });
+    }
+  });
+
+  // The interviewer, if any, must be a member of the organization
+  app.post('/api/candidates/:id/interviews', isAuthenticated, withOrganization, requirePermission("candidates:manage"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidate(organizationId, id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      const validatedData = insertCandidateInterviewSchema.parse(req.body);
+      if (validatedData.interviewerId) {
+        const members = await storage.getOrganizationMembers(organizationId);
+        if (!members.some((member) => member.id === validatedData.interviewerId)) {
+          return res.status(400).json({ message: "Interviewer not found" });
+        }
+      }
+      const interview = await storage.createCandidateInterview(id, req.user.claims.sub, validatedData);
+      res.status(201).json(interview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error scheduling interview:", error);
+      res.status(500).json({ message: "Failed to schedule interview" });
+    }
+  });
+
+  app.delete('/api/candidates/:id/interviews/:interviewId', isAuthenticated, withOrganization, requirePermission("candidates:manage"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const candidate = await storage.getCandidate(organizationId, parseInt(req.params.id));
+      const interview = await storage.getCandidateInterview(parseInt(req.params.interviewId));
+      if (!candidate || !interview || interview.candidateId !== candidate.id) {
+        return res.status(404).json({ message: "Interview not found" });
+      }
+      await storage.deleteCandidateInterview(interview.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error cancelling interview:", error);
+      res.status(500).json({ message: "Failed to cancel interview" });
+    }
+  });
+
+  // Note routes
+  app.get('/api/candidates/:id/notes', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidate(organizationId, id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      const notes = await storage.getCandidateNotes(id);
+      res.json(notes);
+    } catch (error) {
+      console.error("Error fetching notes:", error);
+      res.status(500).json({ message: "Failed to fetch notes" });
+    }
+  });
+
+  app.post('/api/candidates/:id/notes', isAuthenticated, withOrganization, requirePermission("notes:write"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidate(organizationId, id);
+      if (!candidate) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      const author = await storage.getUser(req.user.claims.sub);
+      if (!author) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      const { body } = insertCandidateNoteSchema.parse(req.body);
+      const note = await storage.createCandidateNote(id, author.id, body);
+      await notifyMentions(note, candidate, author);
+      res.status(201).json(note);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error creating note:", error);
+      res.status(500).json({ message: "Failed to create note" });
+    }
+  });
+
+  app.put('/api/candidates/:id/notes/:noteId', isAuthenticated, withOrganization, requirePermission("notes:write"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const candidate = await storage.getCandidate(organizationId, id);
+      const note = await storage.getCandidateNote(parseInt(req.params.noteId));
+      if (!candidate || !note || note.candidateId !== id) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      const editor = await storage.getUser(req.user.claims.sub);
+      if (!editor) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (note.authorId !== editor.id) {
+        return res.status(403).json({ message: "Only the author can edit a note" });
+      }
+      const { body } = insertCandidateNoteSchema.parse(req.body);
+      if (body === note.body) {
+        return res.json(note);
+      }
+      const updatedNote = await storage.updateCandidateNote(note.id, body, editor.id);
+      await notifyMentions(updatedNote, candidate, editor, note.body);
+      res.json(updatedNote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating note:", error);
+      res.status(500).json({ message: "Failed to update note" });
+    }
+  });
+
+  app.delete('/api/candidates/:id/notes/:noteId', isAuthenticated, withOrganization, requirePermission("notes:write"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const candidate = await storage.getCandidate(organizationId, parseInt(req.params.id));
+      const note = await storage.getCandidateNote(parseInt(req.params.noteId));
+      if (!candidate || !note || note.candidateId !== candidate.id) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      if (note.authorId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the author can delete a note" });
+      }
+      await storage.deleteCandidateNote(note.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting note:", error);
+      res.status(500).json({ message: "Failed to delete note" });
+    }
+  });
+
+  app.get('/api/candidates/:id/notes/:noteId/revisions', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const candidate = await storage.getCandidate(organizationId, parseInt(req.params.id));
+      const note = await storage.getCandidateNote(parseInt(req.params.noteId));
+      if (!candidate || !note || note.candidateId !== candidate.id) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      const revisions = await storage.getCandidateNoteRevisions(note.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching note revisions:", error);
+      res.status(500).json({ message: "Failed to fetch note revisions" });
+    }
+  });
+
+  // Users that can be @mentioned: the current organization's members
+  app.get('/api/users', isAuthenticated, withOrganization, async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const users = await storage.getOrganizationMembers(organizationId);
+      res.json(users.map(({ id, email, firstName, lastName, profileImageUrl }) => ({
+        id,
+        email,
+        firstName,
+        lastName,
+        profileImageUrl,
+      })));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Full-text search across candidate profiles, resume text and notes
+  app.get('/api/search', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const { q, limit } = searchQuerySchema.parse(req.query);
+      res.json(await storage.fullTextSearch(organizationId, q, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error searching:", error);
+        res.status(500).json({ message: "Failed to search" });
+      }
+    }
+  });
+
+  // Saved search routes
+  // Each saved search comes with the number of candidates it matches right now
+  app.get('/api/saved-searches', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const savedSearches = await storage.getSavedSearches(organizationId, req.user.claims.sub);
+      const withCounts: SavedSearchWithCount[] = await Promise.all(
+        savedSearches.map(async (savedSearch) => ({
+          ...savedSearch,
+          count: await storage.countCandidates(organizationId, savedSearchFilters(savedSearch)),
+        })),
+      );
+      res.json(withCounts);
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      res.status(500).json({ message: "Failed to fetch saved searches" });
+    }
+  });
+
+  app.post('/api/saved-searches', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const validatedData = insertSavedSearchSchema.parse(req.body);
+      if (validatedData.positionId && !(await storage.getPosition(organizationId, validatedData.positionId))) {
+        return res.status(400).json({ message: "Position not found" });
+      }
+      const savedSearch = await storage.createSavedSearch(organizationId, req.user.claims.sub, validatedData);
+      res.status(201).json(savedSearch);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating saved search:", error);
+        res.status(500).json({ message: "Failed to create saved search" });
+      }
+    }
+  });
+
+  app.put('/api/saved-searches/:id', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const savedSearch = await findVisibleSavedSearch(organizationId, parseInt(req.params.id), req.user.claims.sub);
+      if (!savedSearch) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      if (savedSearch.ownerId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the owner can change a saved search" });
+      }
+      const validatedData = insertSavedSearchSchema.partial().parse(req.body);
+      if (validatedData.positionId && !(await storage.getPosition(organizationId, validatedData.positionId))) {
+        return res.status(400).json({ message: "Position not found" });
+      }
+      res.json(await storage.updateSavedSearch(savedSearch.id, validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating saved search:", error);
+        res.status(500).json({ message: "Failed to update saved search" });
+      }
+    }
+  });
+
+  app.delete('/api/saved-searches/:id', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const savedSearch = await findVisibleSavedSearch(organizationId, parseInt(req.params.id), req.user.claims.sub);
+      if (!savedSearch) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      if (savedSearch.ownerId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Only the owner can delete a saved search" });
+      }
+      await storage.deleteSavedSearch(savedSearch.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      res.status(500).json({ message: "Failed to delete saved search" });
+    }
+  });
+
+  // Pins are per user, so anyone who can see a saved search may pin it
+  app.put('/api/saved-searches/:id/pin', isAuthenticated, withOrganization, requirePermission("candidates:view"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const savedSearch = await findVisibleSavedSearch(organizationId, parseInt(req.params.id), req.user.claims.sub);
+      if (!savedSearch) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      const { pinned } = savedSearchPinSchema.parse(req.body);
+      await storage.setSavedSearchPinned(savedSearch.id, req.user.claims.sub, pinned);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error pinning saved search:", error);
+        res.status(500).json({ message: "Failed to pin saved search" });
+      }
+    }
+  });
+
+  // Notification routes
+  app.get('/api/notifications', isAuthenticated, withOrganization, async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const notifications = await storage.getNotifications(organizationId, req.user.claims.sub);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post('/api/notifications/read-all', isAuthenticated, withOrganization, async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      await storage.markAllNotificationsRead(organizationId, req.user.claims.sub);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  });
+
+  app.post('/api/notifications/:id/read', isAuthenticated, withOrganization, async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      const notifications = await storage.getNotifications(organizationId, req.user.claims.sub);
+      if (!notifications.some((notification) => notification.id === id)) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      await storage.markNotificationRead(id, req.user.claims.sub);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to mark notification read" });
+    }
+  });
+
+  app.delete('/api/candidates/:id', isAuthenticated, withOrganization, requirePermission("candidates:delete"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const id = parseInt(req.params.id);
+      if (!(await storage.getCandidate(organizationId, id))) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+      await storage.deleteCandidate(organizationId, id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting candidate:", error);
+      res.status(500).json({ message: "Failed to delete candidate" });
+    }
+  });
+
+  // User administration
+  // The current organization's members with their role there. Installation
+  // admins may also act on other users by id, but only members are listed
+  app.get('/api/admin/users', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const members = await storage.getOrganizationMembers(organizationId);
+      const users: ManagedUser[] = [];
+      for (const member of members) {
+        users.push({
+          ...member,
+          role: effectiveRole(member.id, member.role),
+          manageable: await canManageAccount(req.user.claims.sub, member.id),
+        });
+      }
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Sets the member's role in the current organization only
+  app.put('/api/admin/users/:userId/role', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req, res) => {
+    try {
+      const organizationId = currentOrganizationId(req);
+      const { role } = userRoleSchema.parse(req.body);
+      const members = await storage.getOrganizationMembers(organizationId);
+      const member = members.find((candidate) => candidate.id === req.params.userId);
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const admins = activeAdmins(members);
+      if (role !== "admin" && admins.length === 1 && admins[0].id === member.id) {
+        return res.status(400).json({ message: "There must be at least one admin" });
+      }
+      await storage.setMemberRole(organizationId, member.id, role);
+      res.json({ ...member, role: effectiveRole(member.id, role) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating role:", error);
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  // Deactivated users can't sign in anywhere, and their sessions end right
+  // away, so this needs a say over the account in every organization
+  app.put('/api/admin/users/:userId/active', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const { active } = userActiveSchema.parse(req.body);
+      const user = await findManagedUser(req, req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await canManageAccount(req.user.claims.sub, user.id))) {
+        return res.status(403).json({ message: accountElsewhereMessage });
+      }
+      if (!active) {
+        if (user.id === req.user.claims.sub) {
+          return res.status(400).json({ message: "You can't deactivate yourself" });
+        }
+        for (const organization of await storage.getOrganizations(user.id)) {
+          const admins = activeAdmins(await storage.getOrganizationMembers(organization.id));
+          if (admins.length === 1 && admins[0].id === user.id) {
+            return res.status(400).json({ message: `There must be at least one admin in ${organization.name}` });
+          }
+        }
+      }
+      const updated = await storage.setUserDeactivated(user.id, !active);
+      if (!active) {
+        await revokeUserSessions(user.id);
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // A link for the user to choose a new password; like invitation links, the
+  // admin passes it on and it can't be read back later
+  app.post('/api/admin/users/:userId/password-reset', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      if (authStrategy !== "local") {
+        return res.status(400).json({ message: "Password sign-in isn't enabled" });
+      }
+      const user = await findManagedUser(req, req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await canManageAccount(req.user.claims.sub, user.id))) {
+        return res.status(403).json({ message: accountElsewhereMessage });
+      }
+      const { token, tokenHash } = createSecretToken();
+      const reset = await storage.createPasswordReset(user.id, tokenHash, new Date(Date.now() + PASSWORD_RESET_TTL_MS));
+      res.status(201).json({ token, expiresAt: reset.expiresAt });
+    } catch (error) {
+      console.error("Error creating password reset:", error);
+      res.status(500).json({ message: "Failed to create reset link" });
+    }
+  });
+
+  // Session administration
+  // Sessions aren't tied to an organization, so these need the same say over
+  // the account as password resets
+  app.get('/api/admin/users/:userId/sessions', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const user = await findManagedUser(req, req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await canManageAccount(req.user.claims.sub, user.id))) {
+        return res.status(403).json({ message: accountElsewhereMessage });
+      }
+      const sessions = await sessionRegistry.listUserSessions(user.id);
+      res.json(sessions.map((session) => ({
+        ...session,
+        current: session.sid === req.sessionID,
+      })));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete('/api/admin/users/:userId/sessions', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const user = await findManagedUser(req, req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await canManageAccount(req.user.claims.sub, user.id))) {
+        return res.status(403).json({ message: accountElsewhereMessage });
+      }
+      await revokeUserSessions(user.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  app.delete('/api/admin/users/:userId/sessions/:sid', isAuthenticated, withOrganization, requirePermission("users:manage"), async (req: any, res) => {
+    try {
+      const user = await findManagedUser(req, req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await canManageAccount(req.user.claims.sub, user.id))) {
+        return res.status(403).json({ message: accountElsewhereMessage });
+      }
+      const sessions = await sessionRegistry.listUserSessions(user.id);
+      if (!sessions.some((session) => session.sid === req.params.sid)) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      await sessionRegistry.revokeSession(req.params.sid);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
     }
   });
 
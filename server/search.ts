@@ -0,0 +1,278 @@
+import type { Candidate, SearchDocument } from "@shared/schema";
+import type { SearchMatch, SearchSource, SnippetPart } from "@shared/search";
+
+// Matches kept per candidate in a result
+const MATCHES_PER_RESULT = 3;
+
+// Same ordering Postgres gets from setweight: profile (A), note (B), resume (C)
+const SOURCE_WEIGHTS: Record<SearchSource, number> = {
+  profile: 1,
+  note: 0.4,
+  resume: 0.2,
+};
+
+// What a candidate's profile document contains; migration 0009 backfills a subset of it
+export function profileSearchText(candidate: Candidate): string {
+  const resume = candidate.parsedResume;
+  return [
+    candidate.name,
+    candidate.email,
+    candidate.phone,
+    candidate.positionApplied,
+    candidate.status,
+    candidate.tags.join(" "),
+    resume?.skills.join(", "),
+    ...(resume?.employers ?? []).map((employer) => [employer.title, employer.name].filter(Boolean).join(", ")),
+    ...(resume?.education ?? []).map((entry) => [entry.degree, entry.institution].filter(Boolean).join(", ")),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function searchDocumentKey(source: SearchSource, sourceId: number): string {
+  return `${source}:${sourceId}`;
+}
+
+// Private-use characters mark highlights in Postgres headlines, as they can't
+// occur in ordinary text
+export const HIGHLIGHT_START = "\uE000";
+export const HIGHLIGHT_STOP = "\uE001";
+
+// Splits a ts_headline result into plain and highlighted parts
+export function headlineParts(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  headline.split(new RegExp(`[${HIGHLIGHT_START}${HIGHLIGHT_STOP}]`)).forEach((piece, index) => {
+    if (piece) {
+      parts.push({ text: piece.replace(/\s+/g, " "), highlight: index % 2 === 1 });
+    }
+  });
+  return parts;
+}
+
+// A document that matched a search, before results are grouped by candidate
+export interface SearchHit {
+  source: SearchSource;
+  sourceId: number;
+  candidateId: number;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+export interface GroupedSearchHits {
+  candidateId: number;
+  score: number;
+  matches: SearchMatch[];
+}
+
+// Candidates ranked by the sum of their documents' scores
+export function groupSearchHits(hits: SearchHit[], limit: number): GroupedSearchHits[] {
+  const groups = new Map<number, { candidateId: number; score: number; hits: SearchHit[] }>();
+  for (const hit of hits) {
+    const group = groups.get(hit.candidateId) ?? { candidateId: hit.candidateId, score: 0, hits: [] };
+    group.score += hit.score;
+    group.hits.push(hit);
+    groups.set(hit.candidateId, group);
+  }
+  return Array.from(groups.values())
+    .sort((a, b) => b.score - a.score || b.candidateId - a.candidateId)
+    .slice(0, limit)
+    .map(({ candidateId, score, hits: groupHits }) => ({
+      candidateId,
+      score,
+      matches: groupHits
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MATCHES_PER_RESULT)
+        .map((hit) => ({
+          source: hit.source,
+          noteId: hit.source === "note" ? hit.sourceId : null,
+          snippet: hit.snippet,
+        })),
+    }));
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+// Words are runs of letters (including accented Latin) and digits, folded to
+// lowercase ASCII so "Résumé" finds "resume"
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[A-Za-z0-9\u00C0-\u024F]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({ term: foldTerm(match[0]), start: match.index, end: match.index + match[0].length });
+  }
+  return tokens;
+}
+
+function foldTerm(word: string): string {
+  return word.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+// Each entry is a word or, for quoted text, a phrase of consecutive words
+interface ParsedSearch {
+  include: string[][];
+  exclude: string[][];
+}
+
+// Follows the websearch_to_tsquery syntax Postgres uses: words must all
+// match, "quoted words" must be adjacent and a leading - excludes a word
+function parseSearchText(text: string): ParsedSearch {
+  const parsed: ParsedSearch = { include: [], exclude: [] };
+  const pattern = /(-?)(?:"([^"]*)"?|(\S+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const [, minus, phrase, word] = match;
+    const terms = tokenize(phrase ?? word).map((token) => token.term);
+    if (terms.length === 0) {
+      continue;
+    }
+    // A word with punctuation inside, like node.js, is searched as a phrase too
+    (minus ? parsed.exclude : parsed.include).push(terms);
+  }
+  return parsed;
+}
+
+interface IndexedDocument {
+  document: SearchDocument;
+  tokens: Token[];
+}
+
+/**
+ * In-process inverted index over search documents, used by MemStorage in
+ * place of Postgres full-text search. Postings map each word to the
+ * documents containing it and the word's positions in each, so phrases can
+ * be checked without rescanning text. Unlike Postgres there is no stemming
+ * or stop-word list: words match exactly.
+ */
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number[]>>();
+
+  set(document: SearchDocument) {
+    const key = searchDocumentKey(document.source, document.sourceId);
+    this.delete(key);
+    const tokens = tokenize(document.body);
+    this.documents.set(key, { document, tokens });
+    tokens.forEach((token, position) => {
+      const documents = this.postings.get(token.term) ?? new Map<string, number[]>();
+      const positions = documents.get(key) ?? [];
+      positions.push(position);
+      documents.set(key, positions);
+      this.postings.set(token.term, documents);
+    });
+  }
+
+  delete(key: string) {
+    const indexed = this.documents.get(key);
+    if (!indexed) {
+      return;
+    }
+    for (const token of indexed.tokens) {
+      const documents = this.postings.get(token.term);
+      documents?.delete(key);
+      if (documents?.size === 0) {
+        this.postings.delete(token.term);
+      }
+    }
+    this.documents.delete(key);
+  }
+
+  // Positions where the phrase starts in the document
+  private phrasePositions(terms: string[], key: string): number[] {
+    const starts = this.postings.get(terms[0])?.get(key) ?? [];
+    return starts.filter((start) =>
+      terms.every((term, offset) => this.postings.get(term)?.get(key)?.includes(start + offset)),
+    );
+  }
+
+  // Occurrences of each term weighted by how rare the term is, damped for long documents
+  private score(source: SearchSource, include: string[][], matches: number[][], length: number): number {
+    const relevance = include.reduce((sum, terms, index) => {
+      const rarity = Math.log(1 + this.documents.size / (this.postings.get(terms[0])?.size ?? 1));
+      return sum + matches[index].length * rarity;
+    }, 0);
+    return (SOURCE_WEIGHTS[source] * relevance) / Math.log(2 + length);
+  }
+
+  // `accept` skips documents the caller may not see, before they're ranked
+  search(text: string, limit: number, accept: (document: SearchDocument) => boolean = () => true): SearchHit[] {
+    const { include, exclude } = parseSearchText(text);
+    if (include.length === 0) {
+      return [];
+    }
+
+    // Start from the documents holding the rarest first word
+    const [rarest] = include
+      .map((terms) => this.postings.get(terms[0]))
+      .sort((a, b) => (a?.size ?? 0) - (b?.size ?? 0));
+    const hits: SearchHit[] = [];
+    for (const key of Array.from(rarest?.keys() ?? [])) {
+      const matches = include.map((terms) => this.phrasePositions(terms, key));
+      if (
+        matches.some((positions) => positions.length === 0) ||
+        exclude.some((terms) => this.phrasePositions(terms, key).length > 0)
+      ) {
+        continue;
+      }
+
+      const { document, tokens } = this.documents.get(key)!;
+      if (!accept(document)) {
+        continue;
+      }
+      const score = this.score(document.source, include, matches, tokens.length);
+      const highlighted = new Set<number>();
+      include.forEach((terms, index) => {
+        for (const start of matches[index]) {
+          terms.forEach((_, offset) => highlighted.add(start + offset));
+        }
+      });
+      hits.push({
+        source: document.source,
+        sourceId: document.sourceId,
+        candidateId: document.candidateId,
+        score,
+        snippet: snippet(document.body, tokens, highlighted),
+      });
+    }
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+// Words of context kept before and after the first match
+const SNIPPET_WORDS_BEFORE = 8;
+const SNIPPET_WORDS_AFTER = 20;
+
+function snippet(body: string, tokens: Token[], highlighted: Set<number>): SnippetPart[] {
+  const first = Math.min(...Array.from(highlighted));
+  const from = Math.max(0, first - SNIPPET_WORDS_BEFORE);
+  const to = Math.min(tokens.length - 1, first + SNIPPET_WORDS_AFTER);
+
+  const parts: SnippetPart[] = [];
+  const push = (text: string, highlight: boolean) => {
+    const flattened = text.replace(/\s+/g, " ");
+    if (flattened) {
+      parts.push({ text: flattened, highlight });
+    }
+  };
+  let cursor = tokens[from].start;
+  for (let position = from; position <= to; position++) {
+    if (highlighted.has(position)) {
+      push(body.slice(cursor, tokens[position].start), false);
+      push(body.slice(tokens[position].start, tokens[position].end), true);
+      cursor = tokens[position].end;
+    }
+  }
+  push(body.slice(cursor, tokens[to].end), false);
+
+  if (from > 0) {
+    parts.unshift({ text: "… ", highlight: false });
+  }
+  if (to < tokens.length - 1) {
+    parts.push({ text: " …", highlight: false });
+  }
+  return parts;
+}
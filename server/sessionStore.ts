@@ -0,0 +1,104 @@
+import session from "express-session";
+import MemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, eq, gt, sql } from "drizzle-orm";
+import { sessions } from "@shared/schema";
+import { getDb } from "./db";
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+export interface ActiveSession {
+  sid: string;
+  expiresAt: Date | null;
+}
+
+export interface SessionRegistry {
+  store: session.Store;
+  listUserSessions(userId: string): Promise<ActiveSession[]>;
+  revokeSession(sid: string): Promise<void>;
+}
+
+// Passport serializes the whole user object, so the OIDC subject lives at passport.user.claims.sub
+function sessionUserId(sess: any): string | undefined {
+  return sess?.passport?.user?.claims?.sub;
+}
+
+function destroy(store: session.Store, sid: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    store.destroy(sid, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+function createMemoryRegistry(): SessionRegistry {
+  const Store = MemoryStore(session);
+  const store = new Store({
+    checkPeriod: 86400000, // prune expired entries every 24h
+  });
+
+  return {
+    store,
+    listUserSessions: (userId) =>
+      new Promise((resolve, reject) => {
+        store.all((err, all) => {
+          if (err) return reject(err);
+          const now = Date.now();
+          resolve(
+            Object.entries(all ?? {})
+              .filter(([, sess]) => sessionUserId(sess) === userId)
+              .map(([sid, sess]) => ({
+                sid,
+                expiresAt: sess.cookie?.expires ? new Date(sess.cookie.expires) : null,
+              }))
+              // memorystore only prunes on its check period; match the Postgres listing
+              .filter(({ expiresAt }) => !expiresAt || expiresAt.getTime() > now),
+          );
+        });
+      }),
+    revokeSession: (sid) => destroy(store, sid),
+  };
+}
+
+function createPostgresRegistry(): SessionRegistry {
+  const PgStore = connectPg(session);
+  const store = new PgStore({
+    conString: process.env.DATABASE_URL,
+    // The sessions table is created by the checked-in migrations
+    createTableIfMissing: false,
+    ttl: SESSION_TTL_MS / 1000,
+    tableName: "sessions",
+    pruneSessionInterval: 15 * 60, // seconds
+  });
+
+  return {
+    store,
+    listUserSessions: async (userId) => {
+      const rows = await getDb()
+        .select({ sid: sessions.sid, expiresAt: sessions.expire })
+        .from(sessions)
+        .where(
+          and(
+            eq(sql`${sessions.sess}->'passport'->'user'->'claims'->>'sub'`, userId),
+            gt(sessions.expire, new Date()),
+          ),
+        );
+      return rows;
+    },
+    revokeSession: (sid) => destroy(store, sid),
+  };
+}
+
+// SESSION_STORE picks where sessions live: "memory" (default, lost on restart)
+// or "postgres" (the sessions table in DATABASE_URL, shared by all instances).
+function createSessionRegistry(): SessionRegistry {
+  const backend = process.env.SESSION_STORE ?? "memory";
+  switch (backend) {
+    case "memory":
+      return createMemoryRegistry();
+    case "postgres":
+      return createPostgresRegistry();
+    default:
+      throw new Error(`Unknown SESSION_STORE "${backend}". Use memory or postgres.`);
+  }
+}
+
+export const sessionRegistry = createSessionRegistry();
@@ -1,62 +1,671 @@
 import {
   type User,
   type UpsertUser,
+  type Organization,
+  type InsertOrganization,
+  type OrganizationMember,
+  type Member,
+  type Invitation,
+  type InvitationWithInviter,
+  type UserCredential,
+  type PasswordReset,
   type Position,
   type InsertPosition,
   type Candidate,
+  type CandidateWithPosition,
   type InsertCandidate,
+  type Pipeline,
+  type PipelineStage,
+  type PipelineWithStages,
+  type InsertPipeline,
+  DEFAULT_PIPELINE,
+  type InsertPipelineStage,
+  type DashboardStats,
+  type CandidateStatusChange,
+  type CandidateStatusChangeWithActor,
+  type UserSummary,
+  type CandidateNote,
+  type CandidateNoteWithAuthor,
+  type CandidateNoteRevision,
+  type CandidateNoteRevisionWithEditor,
+  type Notification,
+  type InsertNotification,
+  type NotificationWithActor,
+  type ResumeFile,
+  type ParsedResume,
+  type CandidateAttachment,
+  type CandidateInterview,
+  type CandidateInterviewWithInterviewer,
+  type InsertCandidateInterview,
+  type SearchDocument,
+  type SavedSearch,
+  type SavedSearchPin,
+  type SavedSearchWithOwner,
+  type InsertSavedSearch,
 } from "@shared/schema";
+import { DuplicateIndex, type DuplicateFields, type DuplicateMatch } from "@shared/duplicates";
+import type { CandidateMergeValues } from "@shared/candidateMerge";
+import { candidateMatchesQuery, type CandidateQuery } from "@shared/candidateQuery";
+import type { CandidateSortField, PositionSortField } from "@shared/pagination";
+import type { SearchResult, SearchSource } from "@shared/search";
+import { DEFAULT_ROLE, type Role } from "@shared/permissions";
+import { blobStore } from "./blobStorage";
+import { DatabaseStorage } from "./databaseStorage";
+import { FileJournal, type JournalEntry, type PersistedState } from "./fileJournal";
+import {
+  candidateSortValue,
+  paginateInMemory,
+  positionSortValue,
+  type PageOptions,
+  type PageResult,
+} from "./pagination";
+import { groupSearchHits, profileSearchText, searchDocumentKey, SearchIndex } from "./search";
+
+// archived: true for only archived positions, false for only the others,
+// undefined for both
+export interface PositionFilters {
+  archived?: boolean;
+}
+
+export interface CandidateFilters {
+  positionId?: number;
+  status?: string;
+  // Parsed from the search box syntax in shared/candidateQuery.ts
+  search?: CandidateQuery;
+}
+
+// Who changed a candidate's status and why, recorded in its status history
+export interface StatusChangeContext {
+  actorId?: string;
+  reason?: string;
+}
+
+// Positions, candidates, pipelines, saved searches and everything read through
+// them are scoped to an organization: methods taking an organizationId only see and
+// change rows of that organization, and treat any other row as missing
+export type NewInvitation = Pick<Invitation, "email" | "role" | "tokenHash" | "expiresAt">;
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
+  // While no one belongs to an organization, a new user joins the first one
+  // as its admin
   upsertUser(user: UpsertUser): Promise<User>;
+  // Creates the installation's first account, which joins the first
+  // organization as its admin; undefined when any account exists already.
+  // Checked and created in one step so two sign-ups can't both be first.
+  createFirstUser(user: UpsertUser): Promise<User | undefined>;
+  // Creates an invited account with its password and accepts the invitation
+  // for it in one step; undefined, with nothing created, when the invitation
+  // is used, expired or gone, or an account with the email exists already
+  createInvitedUser(invitationId: number, user: UpsertUser, passwordHash: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
+  // The caller revokes a deactivated user's sessions
+  setUserDeactivated(id: string, deactivated: boolean): Promise<User>;
+  // Emails are compared case-insensitively
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // Local credential operations
+  getUserCredential(userId: string): Promise<UserCredential | undefined>;
+  // Also clears failed attempts and any lockout
+  setUserPassword(userId: string, passwordHash: string): Promise<void>;
+  // Counts a failed sign-in; the attempt that reaches maxAttempts locks the
+  // account until lockedUntil and starts the count over
+  recordFailedLogin(userId: string, maxAttempts: number, lockedUntil: Date): Promise<UserCredential>;
+  // Sets lastLoginAt and clears failed attempts
+  recordLogin(userId: string): Promise<User>;
+  // Replaces the user's unused reset links
+  createPasswordReset(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordReset>;
+  getPasswordResetByTokenHash(tokenHash: string): Promise<PasswordReset | undefined>;
+  // Marks the link used and sets the password; throws if it was already used
+  completePasswordReset(id: number, passwordHash: string): Promise<void>;
+
+  // Organization operations
+  // The organizations the user is a member of, by name
+  getOrganizations(userId: string): Promise<Organization[]>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  // The creator becomes its first member, as an admin, and it gets its own
+  // copy of DEFAULT_PIPELINE
+  createOrganization(organization: InsertOrganization, creatorId: string): Promise<Organization>;
+  updateOrganization(id: number, organization: Partial<InsertOrganization>): Promise<Organization>;
+  // With each member's role in the organization
+  getOrganizationMembers(organizationId: number): Promise<Member[]>;
+  // Undefined when the user isn't a member
+  getMemberRole(organizationId: number, userId: string): Promise<Role | undefined>;
+  setMemberRole(organizationId: number, userId: string, role: Role): Promise<void>;
+  removeOrganizationMember(organizationId: number, userId: string): Promise<void>;
+
+  // Invitation operations
+  // Those not accepted yet, including expired ones, newest first
+  getInvitations(organizationId: number): Promise<InvitationWithInviter[]>;
+  getInvitation(organizationId: number, id: number): Promise<Invitation | undefined>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined>;
+  createInvitation(organizationId: number, invitedById: string, invitation: NewInvitation): Promise<Invitation>;
+  deleteInvitation(id: number): Promise<void>;
+  // Marks the invitation used and adds the user to its organization with its
+  // role, which applies there only; a member keeps the role they have. Throws
+  // if it was already accepted
+  acceptInvitation(id: number, userId: string): Promise<Invitation>;
   
   // Position operations
-  getPositions(): Promise<Position[]>;
-  createPosition(position: InsertPosition): Promise<Position>;
-  updatePosition(id: number, position: Partial<InsertPosition>): Promise<Position>;
-  deletePosition(id: number): Promise<void>;
+  getPositions(organizationId: number): Promise<Position[]>;
+  getPosition(organizationId: number, id: number): Promise<Position | undefined>;
+  getPositionPage(
+    organizationId: number,
+    options: PageOptions<PositionSortField>,
+    filters?: PositionFilters,
+  ): Promise<PageResult<Position>>;
+  // Yields positions in batches from the backend, for exports
+  iteratePositions(organizationId: number, filters?: PositionFilters): AsyncIterable<Position>;
+  createPosition(organizationId: number, position: InsertPosition): Promise<Position>;
+  // A new title is copied to the position's candidates
+  updatePosition(organizationId: number, id: number, position: Partial<InsertPosition>): Promise<Position>;
+  setPositionArchived(organizationId: number, id: number, archived: boolean): Promise<Position>;
+  // Refuses while candidates still reference the position, unless reassignTo
+  // names a position to move them (and saved searches) to first; the move and
+  // the delete happen together
+  deletePosition(organizationId: number, id: number, reassignTo?: number): Promise<void>;
+
+  // Pipeline operations
+  getPipelines(organizationId: number): Promise<PipelineWithStages[]>;
+  getPipeline(organizationId: number, id: number): Promise<PipelineWithStages | undefined>;
+  // The position's own pipeline, or the organization's default one when it
+  // has no override
+  getPipelineForPosition(organizationId: number, positionId: number | null): Promise<PipelineWithStages>;
+  createPipeline(organizationId: number, pipeline: InsertPipeline): Promise<PipelineWithStages>;
+  // Making a pipeline the default unsets the organization's previous one
+  updatePipeline(organizationId: number, id: number, pipeline: Partial<InsertPipeline>): Promise<PipelineWithStages>;
+  deletePipeline(organizationId: number, id: number): Promise<void>;
   
   // Candidate operations
-  getCandidates(filters?: {
-    position?: string;
-    status?: string;
-    search?: string;
-  }): Promise<Candidate[]>;
-  createCandidate(candidate: InsertCandidate): Promise<Candidate>;
-  updateCandidate(id: number, candidate: Partial<InsertCandidate>): Promise<Candidate>;
-  deleteCandidate(id: number): Promise<void>;
+  getCandidates(organizationId: number, filters?: CandidateFilters): Promise<Candidate[]>;
+  getCandidatePage(
+    organizationId: number,
+    filters: CandidateFilters,
+    options: PageOptions<CandidateSortField>,
+  ): Promise<PageResult<CandidateWithPosition>>;
+  // Like getCandidates, but yields rows in batches instead of loading them all
+  iterateCandidates(organizationId: number, filters?: CandidateFilters): AsyncIterable<Candidate>;
+  countCandidates(organizationId: number, filters?: CandidateFilters): Promise<number>;
+  getCandidate(organizationId: number, id: number): Promise<Candidate | undefined>;
+  // Candidate joined with its linked position (candidatesRelations.position)
+  getCandidateWithPosition(organizationId: number, id: number): Promise<CandidateWithPosition | undefined>;
+  // positionApplied is copied from the position, which must exist in the organization
+  createCandidate(
+    organizationId: number,
+    candidate: InsertCandidate,
+    context?: StatusChangeContext,
+  ): Promise<Candidate>;
+  // All-or-nothing where the backend supports transactions
+  createCandidates(
+    organizationId: number,
+    candidates: InsertCandidate[],
+    context?: StatusChangeContext,
+  ): Promise<Candidate[]>;
+  updateCandidate(
+    organizationId: number,
+    id: number,
+    candidate: Partial<InsertCandidate>,
+    context?: StatusChangeContext,
+  ): Promise<Candidate>;
+  // Replaces the uploaded resume metadata, parse result and extracted text (which is
+  // only kept for full-text search); the caller owns the blobs themselves
+  setCandidateResumeFile(
+    organizationId: number,
+    id: number,
+    file: ResumeFile | null,
+    parsedResume?: ParsedResume | null,
+    resumeText?: string | null,
+  ): Promise<Candidate>;
+  // Also deletes the candidate's uploaded resume and attachments from blob storage
+  deleteCandidate(organizationId: number, id: number): Promise<void>;
+  // Candidates whose email, phone or name look like the given ones
+  findDuplicateCandidates(
+    organizationId: number,
+    fields: DuplicateFields,
+    excludeId?: number,
+  ): Promise<DuplicateMatch[]>;
+  /**
+   * Folds the source candidate into the target: its status history, notes,
+   * notifications and attachments move to the target, the target takes
+   * `values`, and the source is deleted. A resume file that doesn't end up
+   * on the target is kept as an attachment instead.
+   */
+  mergeCandidates(
+    organizationId: number,
+    targetId: number,
+    sourceId: number,
+    values: CandidateMergeValues,
+    context?: StatusChangeContext,
+  ): Promise<Candidate>;
+  // The operations below take ids of a candidate, note or attachment the
+  // caller already found through the organization's candidates
+  // Newest first
+  getCandidateStatusHistory(candidateId: number): Promise<CandidateStatusChangeWithActor[]>;
+
+  // Attachment operations
+  getCandidateAttachments(candidateId: number): Promise<CandidateAttachment[]>;
+  getCandidateAttachment(id: number): Promise<CandidateAttachment | undefined>;
+  // Also deletes the file from blob storage
+  deleteCandidateAttachment(id: number): Promise<void>;
+
+  // Interview operations
+  // Soonest first
+  getCandidateInterviews(candidateId: number): Promise<CandidateInterviewWithInterviewer[]>;
+  getCandidateInterview(id: number): Promise<CandidateInterview | undefined>;
+  createCandidateInterview(
+    candidateId: number,
+    createdById: string,
+    interview: InsertCandidateInterview,
+  ): Promise<CandidateInterview>;
+  deleteCandidateInterview(id: number): Promise<void>;
   
+  // Note operations
+  getCandidateNotes(candidateId: number): Promise<CandidateNoteWithAuthor[]>;
+  getCandidateNote(id: number): Promise<CandidateNote | undefined>;
+  createCandidateNote(candidateId: number, authorId: string, body: string): Promise<CandidateNote>;
+  // Keeps the previous body as a revision
+  updateCandidateNote(id: number, body: string, editorId: string): Promise<CandidateNote>;
+  deleteCandidateNote(id: number): Promise<void>;
+  getCandidateNoteRevisions(noteId: number): Promise<CandidateNoteRevisionWithEditor[]>;
+
+  // Search operations
+  // Full-text search over candidate profiles, resume text and notes; best matches first
+  fullTextSearch(organizationId: number, text: string, limit: number): Promise<SearchResult[]>;
+
+  // Saved search operations
+  // The user's own saved searches and everyone's shared ones, by name
+  getSavedSearches(organizationId: number, userId: string): Promise<SavedSearchWithOwner[]>;
+  getSavedSearch(organizationId: number, id: number): Promise<SavedSearch | undefined>;
+  createSavedSearch(organizationId: number, ownerId: string, savedSearch: InsertSavedSearch): Promise<SavedSearch>;
+  // Unsharing also unpins it for everyone but the owner
+  updateSavedSearch(id: number, savedSearch: Partial<InsertSavedSearch>): Promise<SavedSearch>;
+  deleteSavedSearch(id: number): Promise<void>;
+  setSavedSearchPinned(id: number, userId: string, pinned: boolean): Promise<void>;
+
+  // Notification operations
+  // Those about the organization's candidates, plus any not about a candidate
+  getNotifications(organizationId: number, userId: string): Promise<NotificationWithActor[]>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: number, userId: string): Promise<void>;
+  markAllNotificationsRead(organizationId: number, userId: string): Promise<void>;
+
   // Dashboard stats
-  getDashboardStats(): Promise<{
-    totalPositions: number;
-    totalCandidates: number;
-    inReview: number;
-    shortlisted: number;
-  }>;
+  getDashboardStats(organizationId: number): Promise<DashboardStats>;
 }
 
+function savedSearchPinKey(userId: string, savedSearchId: number): string {
+  return `${userId}:${savedSearchId}`;
+}
+
+function organizationMemberKey(organizationId: number, userId: string): string {
+  return `${organizationId}:${userId}`;
+}
+
+// Seeded on first start, matching migrations/0014_organizations.sql
+const DEFAULT_ORGANIZATION: InsertOrganization = { name: "Default" };
+
+export interface MemStorageOptions {
+  // Directory for the journal and snapshots; without one nothing is persisted
+  dataDir?: string;
+  // How often the journal is compacted into a fresh snapshot
+  snapshotIntervalMs?: number;
+}
+
+const COUNTERS = [
+  "nextOrganizationId",
+  "nextPositionId",
+  "nextCandidateId",
+  "nextPipelineId",
+  "nextPipelineStageId",
+  "nextStatusChangeId",
+  "nextNoteId",
+  "nextNoteRevisionId",
+  "nextNotificationId",
+  "nextAttachmentId",
+  "nextInterviewId",
+  "nextSavedSearchId",
+  "nextInvitationId",
+  "nextPasswordResetId",
+] as const;
+type Counter = (typeof COUNTERS)[number];
+
 export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
+  private organizations: Map<number, Organization> = new Map();
+  // Keyed by organizationMemberKey
+  private organizationMembers: Map<string, OrganizationMember> = new Map();
+  private invitations: Map<number, Invitation> = new Map();
+  private userCredentials: Map<string, UserCredential> = new Map();
+  private passwordResets: Map<number, PasswordReset> = new Map();
   private positions: Map<number, Position> = new Map();
   private candidates: Map<number, Candidate> = new Map();
+  private pipelines: Map<number, Pipeline> = new Map();
+  private pipelineStages: Map<number, PipelineStage> = new Map();
+  private candidateStatusHistory: Map<number, CandidateStatusChange> = new Map();
+  private candidateNotes: Map<number, CandidateNote> = new Map();
+  private candidateNoteRevisions: Map<number, CandidateNoteRevision> = new Map();
+  private notifications: Map<number, Notification> = new Map();
+  private candidateAttachments: Map<number, CandidateAttachment> = new Map();
+  private candidateInterviews: Map<number, CandidateInterview> = new Map();
+  // Persisted like the other collections; searchIndex is rebuilt from it on load
+  private searchDocuments: Map<string, SearchDocument> = new Map();
+  private searchIndex = new SearchIndex();
+  private savedSearches: Map<number, SavedSearch> = new Map();
+  // Keyed by savedSearchPinKey
+  private savedSearchPins: Map<string, SavedSearchPin> = new Map();
+  private nextOrganizationId = 1;
   private nextPositionId = 1;
   private nextCandidateId = 1;
+  private nextPipelineId = 1;
+  private nextPipelineStageId = 1;
+  private nextStatusChangeId = 1;
+  private nextNoteId = 1;
+  private nextNoteRevisionId = 1;
+  private nextNotificationId = 1;
+  private nextAttachmentId = 1;
+  private nextInterviewId = 1;
+  private nextSavedSearchId = 1;
+  private nextInvitationId = 1;
+  private nextPasswordResetId = 1;
+  private journal?: FileJournal;
+
+  constructor(options: MemStorageOptions = {}) {
+    if (options.dataDir) {
+      this.journal = new FileJournal(options.dataDir);
+      this.scheduleSnapshots(options.snapshotIntervalMs ?? 5 * 60 * 1000);
+      const state = this.journal.load();
+      if (state) {
+        this.restore(state);
+        const roles = this.legacyUserRoles();
+        this.ensureOrganizations(roles);
+        this.ensureMemberRoles(roles);
+        this.ensurePipelineOrganizations();
+        this.ensureDefaultPipelines();
+        this.ensureCandidatePositions();
+        this.ensureSearchDocuments();
+        this.journal.compact(this.snapshot());
+        return;
+      }
+    }
+
+    const organization = this.ensureOrganizations();
+    this.ensureDefaultPipelines();
 
-  constructor() {
     // Add some sample data
-    this.positions.set(1, {
+    this.save("positions", this.positions, 1, {
       id: 1,
+      organizationId: organization.id,
       title: "Senior Frontend Developer",
       department: "Engineering",
       location: "Remote",
       description: "We're looking for a Senior Frontend Developer to join our engineering team.",
       status: "Active",
+      pipelineId: null,
+      archivedAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
-    this.nextPositionId = 2;
+    this.setCounter("nextPositionId", 2);
+  }
+
+  // Journals written before pipelines existed have no default pipeline, and
+  // new organizations get theirs from createOrganization
+  private ensureDefaultPipelines() {
+    for (const organization of Array.from(this.organizations.values())) {
+      const hasDefault = Array.from(this.pipelines.values()).some(
+        (p) => p.organizationId === organization.id && p.isDefault,
+      );
+      if (!hasDefault) {
+        this.insertPipeline(organization.id, DEFAULT_PIPELINE);
+      }
+    }
+  }
+
+  // Journals written before pipelines belonged to an organization shared them;
+  // matches migrations/0018_organization_pipelines.sql
+  private ensurePipelineOrganizations() {
+    const shared = Array.from(this.pipelines.values()).filter((p) => p.organizationId === undefined);
+    if (shared.length === 0) {
+      return;
+    }
+    const [first, ...others] = Array.from(this.organizations.values()).sort((a, b) => a.id - b.id);
+    for (const pipeline of shared) {
+      this.save("pipelines", this.pipelines, pipeline.id, { ...pipeline, organizationId: first.id });
+    }
+    for (const organization of others) {
+      for (const pipeline of shared) {
+        const copy: Pipeline = { ...pipeline, id: this.nextId("nextPipelineId"), organizationId: organization.id };
+        this.save("pipelines", this.pipelines, copy.id, copy);
+        for (const stage of this.withStages(pipeline).stages) {
+          const id = this.nextId("nextPipelineStageId");
+          this.save("pipelineStages", this.pipelineStages, id, { ...stage, id, pipelineId: copy.id });
+        }
+        for (const position of Array.from(this.positions.values())) {
+          if (position.organizationId === organization.id && position.pipelineId === pipeline.id) {
+            this.save("positions", this.positions, position.id, { ...position, pipelineId: copy.id });
+          }
+        }
+      }
+    }
+  }
+
+  // Journals written before roles were per organization kept one role on each
+  // user, and those written before roles existed had none; users without one
+  // get what migrations/0013_user_roles.sql gives them
+  private legacyUserRoles(): Map<string, Role> {
+    const users = Array.from(this.users.values()) as (User & { role?: Role })[];
+    const roles = new Map<string, Role>();
+    const unassigned: User[] = [];
+    for (const user of users) {
+      if (user.role) {
+        roles.set(user.id, user.role);
+      } else {
+        unassigned.push(user);
+      }
+    }
+    unassigned
+      .sort((a, b) => (a.createdAt?.getTime() ?? Infinity) - (b.createdAt?.getTime() ?? Infinity) || a.id.localeCompare(b.id))
+      .forEach((user, index) => {
+        roles.set(user.id, index === 0 && users.length === unassigned.length ? "admin" : "recruiter");
+      });
+    return roles;
+  }
+
+  // Each membership takes its user's legacy role; matches
+  // migrations/0017_member_roles.sql
+  private ensureMemberRoles(roles: Map<string, Role>) {
+    for (const [key, member] of Array.from(this.organizationMembers)) {
+      if (!member.role) {
+        this.save("organizationMembers", this.organizationMembers, key, {
+          ...member,
+          role: roles.get(member.userId) ?? DEFAULT_ROLE,
+        });
+      }
+    }
+    for (const user of Array.from(this.users.values()) as (User & { role?: Role })[]) {
+      if (user.role) {
+        const { role, ...rest } = user;
+        this.save("users", this.users, user.id, rest);
+      }
+    }
+  }
+
+  // Journals written before organizations existed put everything in a default
+  // one that every user joins; matches migrations/0014_organizations.sql
+  private ensureOrganizations(roles = new Map<string, Role>()): Organization {
+    const [first] = Array.from(this.organizations.values()).sort((a, b) => a.id - b.id);
+    if (first) {
+      return first;
+    }
+    const organization = this.insertOrganization(DEFAULT_ORGANIZATION);
+    for (const user of Array.from(this.users.values())) {
+      this.insertOrganizationMember(organization.id, user.id, roles.get(user.id) ?? DEFAULT_ROLE);
+    }
+    const scoped: [string, Map<number, { organizationId: number }>][] = [
+      ["positions", this.positions],
+      ["candidates", this.candidates],
+      ["savedSearches", this.savedSearches],
+    ];
+    for (const [collection, map] of scoped) {
+      for (const [id, row] of Array.from(map)) {
+        this.save(collection, map, id, { ...row, organizationId: organization.id });
+      }
+    }
+    return organization;
+  }
+
+  // Journals written before candidates were linked to positions by id; matches
+  // migrations/0011_candidate_position_ids.sql
+  private ensureCandidatePositions() {
+    const byTitle = new Map<string, Position>();
+    for (const position of Array.from(this.positions.values()).sort((a, b) => b.id - a.id)) {
+      byTitle.set(position.title.trim().toLowerCase(), position);
+    }
+    for (const candidate of Array.from(this.candidates.values())) {
+      const position = candidate.positionId
+        ? this.positions.get(candidate.positionId)
+        : byTitle.get(candidate.positionApplied.trim().toLowerCase());
+      if (position && (candidate.positionId !== position.id || candidate.positionApplied !== position.title)) {
+        this.save("candidates", this.candidates, candidate.id, {
+          ...candidate,
+          positionId: position.id,
+          positionApplied: position.title,
+        });
+      }
+    }
+    for (const savedSearch of Array.from(this.savedSearches.values())) {
+      const { position, ...rest } = savedSearch as SavedSearch & { position?: string | null };
+      if (position !== undefined) {
+        const match = position ? byTitle.get(position.trim().toLowerCase()) : undefined;
+        this.save("savedSearches", this.savedSearches, savedSearch.id, {
+          ...rest,
+          positionId: match?.id ?? null,
+          search:
+            position && !match
+              ? `${rest.search} position:"${position.replace(/["\\]/g, "\\$&")}"`.trim()
+              : rest.search,
+        });
+      }
+    }
+  }
+
+  // Journals written before full-text search existed have no search documents
+  private ensureSearchDocuments() {
+    for (const document of Array.from(this.searchDocuments.values())) {
+      this.searchIndex.set(document);
+    }
+    for (const candidate of Array.from(this.candidates.values())) {
+      if (!this.searchDocuments.has(searchDocumentKey("profile", candidate.id))) {
+        this.indexCandidate(candidate);
+      }
+    }
+    for (const note of Array.from(this.candidateNotes.values())) {
+      if (!this.searchDocuments.has(searchDocumentKey("note", note.id))) {
+        this.indexDocument("note", note.id, note.candidateId, note.body);
+      }
+    }
+  }
+
+  // Persistence helpers: every mutation goes through these so it is journaled
+  private collections(): Record<string, Map<string | number, unknown>> {
+    return {
+      users: this.users,
+      organizations: this.organizations,
+      organizationMembers: this.organizationMembers,
+      invitations: this.invitations,
+      userCredentials: this.userCredentials,
+      passwordResets: this.passwordResets,
+      positions: this.positions,
+      candidates: this.candidates,
+      pipelines: this.pipelines,
+      pipelineStages: this.pipelineStages,
+      candidateStatusHistory: this.candidateStatusHistory,
+      candidateNotes: this.candidateNotes,
+      candidateNoteRevisions: this.candidateNoteRevisions,
+      notifications: this.notifications,
+      candidateAttachments: this.candidateAttachments,
+      candidateInterviews: this.candidateInterviews,
+      searchDocuments: this.searchDocuments,
+      savedSearches: this.savedSearches,
+      savedSearchPins: this.savedSearchPins,
+    };
+  }
+
+  private snapshot(): PersistedState {
+    return {
+      collections: Object.fromEntries(
+        Object.entries(this.collections()).map(([name, map]) => [name, Array.from(map)]),
+      ),
+      counters: Object.fromEntries(COUNTERS.map((name) => [name, this[name]])),
+    };
+  }
+
+  private restore(state: PersistedState) {
+    const collections = this.collections();
+    for (const [name, entries] of Object.entries(state.collections)) {
+      const map = collections[name];
+      if (!map) continue;
+      for (const [key, value] of entries) {
+        map.set(key, value);
+      }
+    }
+    for (const name of COUNTERS) {
+      this[name] = state.counters[name] ?? this[name];
+    }
+  }
+
+  private scheduleSnapshots(intervalMs: number) {
+    const timer = setInterval(() => {
+      if (this.journal?.hasPendingEntries()) {
+        this.journal.compact(this.snapshot());
+      }
+    }, intervalMs);
+    timer.unref();
+  }
+
+  private record(entry: JournalEntry) {
+    this.journal?.append(entry);
+  }
+
+  private save<K extends string | number, V>(collection: string, map: Map<K, V>, key: K, value: V) {
+    map.set(key, value);
+    this.record({ type: "put", collection, key, value });
+  }
+
+  private remove<K extends string | number, V>(collection: string, map: Map<K, V>, key: K) {
+    map.delete(key);
+    this.record({ type: "delete", collection, key });
+  }
+
+  // Search documents are saved like any row and mirrored into the index
+  private indexDocument(source: SearchSource, sourceId: number, candidateId: number, body: string) {
+    const document: SearchDocument = { source, sourceId, candidateId, body, updatedAt: new Date() };
+    this.save("searchDocuments", this.searchDocuments, searchDocumentKey(source, sourceId), document);
+    this.searchIndex.set(document);
+  }
+
+  private unindexDocument(source: SearchSource, sourceId: number) {
+    const key = searchDocumentKey(source, sourceId);
+    if (this.searchDocuments.has(key)) {
+      this.remove("searchDocuments", this.searchDocuments, key);
+      this.searchIndex.delete(key);
+    }
+  }
+
+  private indexCandidate(candidate: Candidate) {
+    this.indexDocument("profile", candidate.id, candidate.id, profileSearchText(candidate));
+  }
+
+  private setCounter(name: Counter, value: number) {
+    this[name] = value;
+    this.record({ type: "counter", name, value });
+  }
+
+  private nextId(name: Counter): number {
+    const id = this[name];
+    this.setCounter(name, id + 1);
+    return id;
   }
 
   // User operations
@@ -72,70 +681,539 @@ export class MemStorage implements IStorage {
       firstName: userData.firstName || null,
       lastName: userData.lastName || null,
       profileImageUrl: userData.profileImageUrl || null,
+      lastLoginAt: userData.lastLoginAt ?? existingUser?.lastLoginAt ?? null,
+      deactivatedAt: userData.deactivatedAt ?? existingUser?.deactivatedAt ?? null,
       createdAt: existingUser?.createdAt || new Date(),
       updatedAt: new Date(),
     };
-    this.users.set(userData.id, user);
+    this.save("users", this.users, userData.id, user);
+    if (this.organizationMembers.size === 0) {
+      const [first] = Array.from(this.organizations.values()).sort((a, b) => a.id - b.id);
+      if (first) {
+        this.insertOrganizationMember(first.id, user.id, "admin");
+      }
+    }
     return user;
   }
 
-  // Position operations
-  async getPositions(): Promise<Position[]> {
-    return Array.from(this.positions.values()).sort((a, b) => {
-      const dateA = a.createdAt?.getTime() || 0;
-      const dateB = b.createdAt?.getTime() || 0;
-      return dateB - dateA;
+  async createFirstUser(userData: UpsertUser): Promise<User | undefined> {
+    if (this.users.size > 0) {
+      return undefined;
+    }
+    // upsertUser doesn't await before saving, so nothing runs in between
+    return await this.upsertUser(userData);
+  }
+
+  async createInvitedUser(invitationId: number, userData: UpsertUser, passwordHash: string): Promise<User | undefined> {
+    const invitation = this.invitations.get(invitationId);
+    const email = userData.email?.toLowerCase();
+    const emailTaken = !!email && Array.from(this.users.values()).some((user) => user.email?.toLowerCase() === email);
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt.getTime() <= Date.now() || emailTaken) {
+      return undefined;
+    }
+    // Claimed and created before the first await, so a concurrent sign-up
+    // finds the invitation used or the email taken
+    this.save("invitations", this.invitations, invitationId, {
+      ...invitation,
+      acceptedAt: new Date(),
+      acceptedById: userData.id,
     });
+    const user = await this.upsertUser(userData);
+    await this.setUserPassword(user.id, passwordHash);
+    this.insertOrganizationMember(invitation.organizationId, user.id, invitation.role);
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) =>
+      (a.firstName ?? a.email ?? a.id).localeCompare(b.firstName ?? b.email ?? b.id),
+    );
+  }
+
+  async setUserDeactivated(id: string, deactivated: boolean): Promise<User> {
+    const existingUser = this.users.get(id);
+    if (!existingUser) {
+      throw new Error(`User with id ${id} not found`);
+    }
+    const updatedUser: User = {
+      ...existingUser,
+      deactivatedAt: deactivated ? existingUser.deactivatedAt ?? new Date() : null,
+      updatedAt: new Date(),
+    };
+    this.save("users", this.users, id, updatedUser);
+    return updatedUser;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const normalized = email.toLowerCase();
+    return Array.from(this.users.values()).find((user) => user.email?.toLowerCase() === normalized);
+  }
+
+  // Local credential operations
+  async getUserCredential(userId: string): Promise<UserCredential | undefined> {
+    return this.userCredentials.get(userId);
+  }
+
+  async setUserPassword(userId: string, passwordHash: string): Promise<void> {
+    if (!this.users.has(userId)) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    this.save("userCredentials", this.userCredentials, userId, {
+      userId,
+      passwordHash,
+      failedLoginCount: 0,
+      lockedUntil: null,
+      updatedAt: new Date(),
+    });
+  }
+
+  async recordFailedLogin(userId: string, maxAttempts: number, lockedUntil: Date): Promise<UserCredential> {
+    const credential = this.userCredentials.get(userId);
+    if (!credential) {
+      throw new Error(`User with id ${userId} has no password`);
+    }
+    const failedLoginCount = credential.failedLoginCount + 1;
+    const updated: UserCredential =
+      failedLoginCount >= maxAttempts
+        ? { ...credential, failedLoginCount: 0, lockedUntil, updatedAt: new Date() }
+        : { ...credential, failedLoginCount, updatedAt: new Date() };
+    this.save("userCredentials", this.userCredentials, userId, updated);
+    return updated;
+  }
+
+  async recordLogin(userId: string): Promise<User> {
+    const existingUser = this.users.get(userId);
+    if (!existingUser) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    const credential = this.userCredentials.get(userId);
+    if (credential && (credential.failedLoginCount > 0 || credential.lockedUntil)) {
+      this.save("userCredentials", this.userCredentials, userId, {
+        ...credential,
+        failedLoginCount: 0,
+        lockedUntil: null,
+        updatedAt: new Date(),
+      });
+    }
+    const updatedUser: User = { ...existingUser, lastLoginAt: new Date() };
+    this.save("users", this.users, userId, updatedUser);
+    return updatedUser;
+  }
+
+  async createPasswordReset(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordReset> {
+    for (const reset of Array.from(this.passwordResets.values())) {
+      if (reset.userId === userId && !reset.usedAt) {
+        this.remove("passwordResets", this.passwordResets, reset.id);
+      }
+    }
+    const newReset: PasswordReset = {
+      id: this.nextId("nextPasswordResetId"),
+      userId,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.save("passwordResets", this.passwordResets, newReset.id, newReset);
+    return newReset;
+  }
+
+  async getPasswordResetByTokenHash(tokenHash: string): Promise<PasswordReset | undefined> {
+    return Array.from(this.passwordResets.values()).find((reset) => reset.tokenHash === tokenHash);
+  }
+
+  async completePasswordReset(id: number, passwordHash: string): Promise<void> {
+    const reset = this.passwordResets.get(id);
+    if (!reset) {
+      throw new Error(`Password reset with id ${id} not found`);
+    }
+    if (reset.usedAt) {
+      throw new Error(`Password reset with id ${id} was already used`);
+    }
+    this.save("passwordResets", this.passwordResets, id, { ...reset, usedAt: new Date() });
+    await this.setUserPassword(reset.userId, passwordHash);
   }
 
-  async createPosition(position: InsertPosition): Promise<Position> {
+  // Organization operations
+  private insertOrganization(organization: InsertOrganization): Organization {
+    const newOrganization: Organization = {
+      id: this.nextId("nextOrganizationId"),
+      name: organization.name,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.save("organizations", this.organizations, newOrganization.id, newOrganization);
+    return newOrganization;
+  }
+
+  // Someone who is already a member keeps their role
+  private insertOrganizationMember(organizationId: number, userId: string, role: Role) {
+    const key = organizationMemberKey(organizationId, userId);
+    if (!this.organizationMembers.has(key)) {
+      this.save("organizationMembers", this.organizationMembers, key, {
+        organizationId,
+        userId,
+        role,
+        createdAt: new Date(),
+      });
+    }
+  }
+
+  async getOrganizations(userId: string): Promise<Organization[]> {
+    return Array.from(this.organizations.values())
+      .filter((organization) => this.organizationMembers.has(organizationMemberKey(organization.id, userId)))
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async createOrganization(organization: InsertOrganization, creatorId: string): Promise<Organization> {
+    const newOrganization = this.insertOrganization(organization);
+    this.insertOrganizationMember(newOrganization.id, creatorId, "admin");
+    this.insertPipeline(newOrganization.id, DEFAULT_PIPELINE);
+    return newOrganization;
+  }
+
+  async updateOrganization(id: number, organization: Partial<InsertOrganization>): Promise<Organization> {
+    const existing = this.organizations.get(id);
+    if (!existing) {
+      throw new Error(`Organization with id ${id} not found`);
+    }
+    const updated: Organization = { ...existing, ...organization, updatedAt: new Date() };
+    this.save("organizations", this.organizations, id, updated);
+    return updated;
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<Member[]> {
+    const members: Member[] = [];
+    for (const user of await this.getUsers()) {
+      const member = this.organizationMembers.get(organizationMemberKey(organizationId, user.id));
+      if (member) {
+        members.push({ ...user, role: member.role });
+      }
+    }
+    return members;
+  }
+
+  async getMemberRole(organizationId: number, userId: string): Promise<Role | undefined> {
+    return this.organizationMembers.get(organizationMemberKey(organizationId, userId))?.role;
+  }
+
+  async setMemberRole(organizationId: number, userId: string, role: Role): Promise<void> {
+    const key = organizationMemberKey(organizationId, userId);
+    const member = this.organizationMembers.get(key);
+    if (!member) {
+      throw new Error(`User with id ${userId} is not a member of organization ${organizationId}`);
+    }
+    this.save("organizationMembers", this.organizationMembers, key, { ...member, role });
+  }
+
+  async removeOrganizationMember(organizationId: number, userId: string): Promise<void> {
+    const key = organizationMemberKey(organizationId, userId);
+    if (this.organizationMembers.has(key)) {
+      this.remove("organizationMembers", this.organizationMembers, key);
+    }
+  }
+  // Invitation operations
+  async getInvitations(organizationId: number): Promise<InvitationWithInviter[]> {
+    return Array.from(this.invitations.values())
+      .filter((invitation) => invitation.organizationId === organizationId && !invitation.acceptedAt)
+      .sort((a, b) => b.id - a.id)
+      .map(({ tokenHash, ...invitation }) => ({ ...invitation, invitedBy: this.userSummary(invitation.invitedById) }));
+  }
+
+  async getInvitation(organizationId: number, id: number): Promise<Invitation | undefined> {
+    return this.inOrganization(organizationId, this.invitations.get(id));
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    return Array.from(this.invitations.values()).find((invitation) => invitation.tokenHash === tokenHash);
+  }
+
+  async createInvitation(organizationId: number, invitedById: string, invitation: NewInvitation): Promise<Invitation> {
+    const newInvitation: Invitation = {
+      id: this.nextId("nextInvitationId"),
+      organizationId,
+      email: invitation.email,
+      role: invitation.role,
+      tokenHash: invitation.tokenHash,
+      invitedById,
+      acceptedById: null,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: null,
+      createdAt: new Date(),
+    };
+    this.save("invitations", this.invitations, newInvitation.id, newInvitation);
+    return newInvitation;
+  }
+
+  async deleteInvitation(id: number): Promise<void> {
+    if (!this.invitations.has(id)) {
+      throw new Error(`Invitation with id ${id} not found`);
+    }
+    this.remove("invitations", this.invitations, id);
+  }
+
+  async acceptInvitation(id: number, userId: string): Promise<Invitation> {
+    const invitation = this.invitations.get(id);
+    const user = this.users.get(userId);
+    if (!invitation || !user) {
+      throw new Error(invitation ? `User with id ${userId} not found` : `Invitation with id ${id} not found`);
+    }
+    if (invitation.acceptedAt) {
+      throw new Error(`Invitation with id ${id} was already accepted`);
+    }
+    const accepted: Invitation = { ...invitation, acceptedAt: new Date(), acceptedById: userId };
+    this.save("invitations", this.invitations, id, accepted);
+    this.insertOrganizationMember(invitation.organizationId, userId, invitation.role);
+    return accepted;
+  }
+
+
+  // Rows of another organization are treated as missing
+  private inOrganization<T extends { organizationId: number }>(organizationId: number, row: T | undefined): T | undefined {
+    return row?.organizationId === organizationId ? row : undefined;
+  }
+
+  // Position operations
+  async getPositions(organizationId: number): Promise<Position[]> {
+    return Array.from(this.positions.values())
+      .filter((position) => position.organizationId === organizationId)
+      .sort((a, b) => {
+        const dateA = a.createdAt?.getTime() || 0;
+        const dateB = b.createdAt?.getTime() || 0;
+        return dateB - dateA;
+      });
+  }
+
+  async getPosition(organizationId: number, id: number): Promise<Position | undefined> {
+    return this.inOrganization(organizationId, this.positions.get(id));
+  }
+
+  private filterPositions(positions: Position[], filters: PositionFilters = {}): Position[] {
+    return filters.archived === undefined
+      ? positions
+      : positions.filter((position) => !!position.archivedAt === filters.archived);
+  }
+
+  async getPositionPage(
+    organizationId: number,
+    options: PageOptions<PositionSortField>,
+    filters?: PositionFilters,
+  ): Promise<PageResult<Position>> {
+    return paginateInMemory(
+      this.filterPositions(await this.getPositions(organizationId), filters),
+      options,
+      positionSortValue,
+    );
+  }
+
+  async *iteratePositions(organizationId: number, filters?: PositionFilters): AsyncIterable<Position> {
+    for (const position of this.filterPositions(await this.getPositions(organizationId), filters)) {
+      yield position;
+    }
+  }
+
+  async createPosition(organizationId: number, position: InsertPosition): Promise<Position> {
     const newPosition: Position = {
-      id: this.nextPositionId++,
+      id: this.nextId("nextPositionId"),
+      organizationId,
       title: position.title,
       department: position.department,
       location: position.location,
       description: position.description || null,
       status: position.status || "Active",
+      pipelineId: position.pipelineId ?? null,
+      archivedAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
-    this.positions.set(newPosition.id, newPosition);
+    this.save("positions", this.positions, newPosition.id, newPosition);
     return newPosition;
   }
 
-  async updatePosition(id: number, position: Partial<InsertPosition>): Promise<Position> {
-    const existingPosition = this.positions.get(id);
-    if (!existingPosition) {
-      throw new Error(`Position with id ${id} not found`);
-    }
-    
+  async updatePosition(organizationId: number, id: number, position: Partial<InsertPosition>): Promise<Position> {
+    const existingPosition = this.requirePosition(organizationId, id);
+
     const updatedPosition: Position = {
       ...existingPosition,
       ...position,
       updatedAt: new Date(),
     };
-    this.positions.set(id, updatedPosition);
+    this.save("positions", this.positions, id, updatedPosition);
+    if (updatedPosition.title !== existingPosition.title) {
+      for (const candidate of Array.from(this.candidates.values())) {
+        if (candidate.positionId === id) {
+          const renamed = { ...candidate, positionApplied: updatedPosition.title };
+          this.save("candidates", this.candidates, candidate.id, renamed);
+          this.indexCandidate(renamed);
+        }
+      }
+    }
     return updatedPosition;
   }
 
-  async deletePosition(id: number): Promise<void> {
-    if (!this.positions.has(id)) {
-      throw new Error(`Position with id ${id} not found`);
+  async setPositionArchived(organizationId: number, id: number, archived: boolean): Promise<Position> {
+    const existingPosition = this.requirePosition(organizationId, id);
+    const updatedPosition: Position = {
+      ...existingPosition,
+      archivedAt: archived ? existingPosition.archivedAt ?? new Date() : null,
+      updatedAt: new Date(),
+    };
+    this.save("positions", this.positions, id, updatedPosition);
+    return updatedPosition;
+  }
+
+  async deletePosition(organizationId: number, id: number, reassignTo?: number): Promise<void> {
+    this.requirePosition(organizationId, id);
+    const affected = Array.from(this.candidates.values()).filter((candidate) => candidate.positionId === id);
+    const target = reassignTo === undefined ? undefined : this.requirePosition(organizationId, reassignTo);
+    if (affected.length > 0 && !target) {
+      throw new Error(`Position with id ${id} still has candidates`);
+    }
+
+    for (const candidate of affected) {
+      const moved = { ...candidate, positionId: target!.id, positionApplied: target!.title, updatedAt: new Date() };
+      this.save("candidates", this.candidates, candidate.id, moved);
+      this.indexCandidate(moved);
+    }
+    // Saved searches follow the candidates, or match any position (ON DELETE SET NULL)
+    for (const savedSearch of Array.from(this.savedSearches.values())) {
+      if (savedSearch.positionId === id) {
+        this.save("savedSearches", this.savedSearches, savedSearch.id, {
+          ...savedSearch,
+          positionId: target?.id ?? null,
+        });
+      }
+    }
+    this.remove("positions", this.positions, id);
+  }
+
+  // Pipeline operations
+  private withStages(pipeline: Pipeline): PipelineWithStages {
+    const stages = Array.from(this.pipelineStages.values())
+      .filter((stage) => stage.pipelineId === pipeline.id)
+      .sort((a, b) => a.sortOrder - b.sortOrder);
+    return { ...pipeline, stages };
+  }
+
+  private replaceStages(pipelineId: number, stages: InsertPipelineStage[]) {
+    for (const stage of Array.from(this.pipelineStages.values())) {
+      if (stage.pipelineId === pipelineId) {
+        this.remove("pipelineStages", this.pipelineStages, stage.id);
+      }
+    }
+    stages.forEach((stage, index) => {
+      const newStage: PipelineStage = {
+        id: this.nextId("nextPipelineStageId"),
+        pipelineId,
+        name: stage.name,
+        color: stage.color,
+        sortOrder: index,
+        isTerminal: stage.isTerminal ?? false,
+      };
+      this.save("pipelineStages", this.pipelineStages, newStage.id, newStage);
+    });
+  }
+
+  // Only one pipeline per organization may be the default at a time
+  private clearDefaultPipeline(organizationId: number, exceptId: number) {
+    for (const pipeline of Array.from(this.pipelines.values())) {
+      if (pipeline.organizationId === organizationId && pipeline.isDefault && pipeline.id !== exceptId) {
+        this.save("pipelines", this.pipelines, pipeline.id, { ...pipeline, isDefault: false });
+      }
+    }
+  }
+
+  private insertPipeline(organizationId: number, pipeline: InsertPipeline): PipelineWithStages {
+    const newPipeline: Pipeline = {
+      id: this.nextId("nextPipelineId"),
+      organizationId,
+      name: pipeline.name,
+      isDefault: pipeline.isDefault ?? false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.save("pipelines", this.pipelines, newPipeline.id, newPipeline);
+    this.replaceStages(newPipeline.id, pipeline.stages);
+    if (newPipeline.isDefault) {
+      this.clearDefaultPipeline(organizationId, newPipeline.id);
+    }
+    return this.withStages(newPipeline);
+  }
+
+  async getPipelines(organizationId: number): Promise<PipelineWithStages[]> {
+    return Array.from(this.pipelines.values())
+      .filter((pipeline) => pipeline.organizationId === organizationId)
+      .sort((a, b) => a.id - b.id)
+      .map((pipeline) => this.withStages(pipeline));
+  }
+
+  async getPipeline(organizationId: number, id: number): Promise<PipelineWithStages | undefined> {
+    const pipeline = this.inOrganization(organizationId, this.pipelines.get(id));
+    return pipeline ? this.withStages(pipeline) : undefined;
+  }
+
+  async getPipelineForPosition(organizationId: number, positionId: number | null): Promise<PipelineWithStages> {
+    const overrideId = positionId ? this.inOrganization(organizationId, this.positions.get(positionId))?.pipelineId : null;
+    const pipeline =
+      (overrideId ? this.inOrganization(organizationId, this.pipelines.get(overrideId)) : undefined) ??
+      Array.from(this.pipelines.values()).find((p) => p.organizationId === organizationId && p.isDefault);
+    if (!pipeline) {
+      throw new Error("No default pipeline configured");
     }
-    this.positions.delete(id);
+    return this.withStages(pipeline);
+  }
+
+  async createPipeline(organizationId: number, pipeline: InsertPipeline): Promise<PipelineWithStages> {
+    return this.insertPipeline(organizationId, pipeline);
+  }
+
+  async updatePipeline(organizationId: number, id: number, pipeline: Partial<InsertPipeline>): Promise<PipelineWithStages> {
+    const existingPipeline = this.inOrganization(organizationId, this.pipelines.get(id));
+    if (!existingPipeline) {
+      throw new Error(`Pipeline with id ${id} not found`);
+    }
+
+    const { stages, ...fields } = pipeline;
+    const updatedPipeline: Pipeline = {
+      ...existingPipeline,
+      ...fields,
+      updatedAt: new Date(),
+    };
+    this.save("pipelines", this.pipelines, id, updatedPipeline);
+    if (stages) {
+      this.replaceStages(id, stages);
+    }
+    if (updatedPipeline.isDefault) {
+      this.clearDefaultPipeline(organizationId, id);
+    }
+    return this.withStages(updatedPipeline);
+  }
+
+  async deletePipeline(organizationId: number, id: number): Promise<void> {
+    if (!this.inOrganization(organizationId, this.pipelines.get(id))) {
+      throw new Error(`Pipeline with id ${id} not found`);
+    }
+    this.replaceStages(id, []);
+    // Positions using this pipeline fall back to the default one
+    for (const position of Array.from(this.positions.values())) {
+      if (position.pipelineId === id) {
+        this.save("positions", this.positions, position.id, { ...position, pipelineId: null });
+      }
+    }
+    this.remove("pipelines", this.pipelines, id);
   }
 
   // Candidate operations
-  async getCandidates(filters?: {
-    position?: string;
-    status?: string;
-    search?: string;
-  }): Promise<Candidate[]> {
-    let candidatesList = Array.from(this.candidates.values());
+  async getCandidates(organizationId: number, filters?: CandidateFilters): Promise<Candidate[]> {
+    let candidatesList = Array.from(this.candidates.values()).filter((c) => c.organizationId === organizationId);
     
     if (filters) {
-      if (filters.position) {
-        candidatesList = candidatesList.filter(c => c.positionApplied === filters.position);
+      if (filters.positionId) {
+        candidatesList = candidatesList.filter(c => c.positionId === filters.positionId);
       }
       
       if (filters.status) {
@@ -143,11 +1221,8 @@ export class MemStorage implements IStorage {
       }
       
       if (filters.search) {
-        const searchLower = filters.search.toLowerCase();
-        candidatesList = candidatesList.filter(c => 
-          c.name.toLowerCase().includes(searchLower) ||
-          c.email.toLowerCase().includes(searchLower)
-        );
+        const query = filters.search;
+        candidatesList = candidatesList.filter(c => candidateMatchesQuery(c, query));
       }
     }
     
@@ -158,61 +1233,622 @@ export class MemStorage implements IStorage {
     });
   }
 
-  async createCandidate(candidate: InsertCandidate): Promise<Candidate> {
+  async getCandidatePage(
+    organizationId: number,
+    filters: CandidateFilters,
+    options: PageOptions<CandidateSortField>,
+  ): Promise<PageResult<CandidateWithPosition>> {
+    const page = paginateInMemory(await this.getCandidates(organizationId, filters), options, candidateSortValue);
+    return { ...page, items: page.items.map((candidate) => this.withPosition(candidate)) };
+  }
+
+  // Everything is already in memory, so there is nothing to batch
+  async *iterateCandidates(organizationId: number, filters?: CandidateFilters): AsyncIterable<Candidate> {
+    for (const candidate of await this.getCandidates(organizationId, filters)) {
+      yield candidate;
+    }
+  }
+
+  async countCandidates(organizationId: number, filters?: CandidateFilters): Promise<number> {
+    return (await this.getCandidates(organizationId, filters)).length;
+  }
+
+  async getCandidate(organizationId: number, id: number): Promise<Candidate | undefined> {
+    return this.inOrganization(organizationId, this.candidates.get(id));
+  }
+
+  async getCandidateWithPosition(organizationId: number, id: number): Promise<CandidateWithPosition | undefined> {
+    const candidate = this.inOrganization(organizationId, this.candidates.get(id));
+    return candidate && this.withPosition(candidate);
+  }
+
+  private withPosition(candidate: Candidate): CandidateWithPosition {
+    const position = candidate.positionId ? this.positions.get(candidate.positionId) : undefined;
+    return { ...candidate, position: position ?? null };
+  }
+
+  private requirePosition(organizationId: number, id: number): Position {
+    const position = this.inOrganization(organizationId, this.positions.get(id));
+    if (!position) {
+      throw new Error(`Position with id ${id} not found`);
+    }
+    return position;
+  }
+
+  private requireCandidate(organizationId: number, id: number): Candidate {
+    const candidate = this.inOrganization(organizationId, this.candidates.get(id));
+    if (!candidate) {
+      throw new Error(`Candidate with id ${id} not found`);
+    }
+    return candidate;
+  }
+
+  private recordStatusChange(
+    candidateId: number,
+    fromStatus: string | null,
+    toStatus: string,
+    context: StatusChangeContext,
+  ) {
+    const change: CandidateStatusChange = {
+      id: this.nextId("nextStatusChangeId"),
+      candidateId,
+      fromStatus,
+      toStatus,
+      actorId: context.actorId ?? null,
+      reason: context.reason ?? null,
+      createdAt: new Date(),
+    };
+    this.save("candidateStatusHistory", this.candidateStatusHistory, change.id, change);
+  }
+
+  async createCandidate(
+    organizationId: number,
+    candidate: InsertCandidate,
+    context: StatusChangeContext = {},
+  ): Promise<Candidate> {
+    const position = this.requirePosition(organizationId, candidate.positionId);
     const newCandidate: Candidate = {
-      id: this.nextCandidateId++,
+      id: this.nextId("nextCandidateId"),
+      organizationId,
       email: candidate.email,
       name: candidate.name,
       phone: candidate.phone,
-      positionApplied: candidate.positionApplied,
+      positionApplied: position.title,
       status: candidate.status || "New",
+      tags: candidate.tags ?? [],
       resume: candidate.resume || null,
-      positionId: candidate.positionId || null,
+      resumeFileKey: null,
+      resumeFileName: null,
+      resumeContentType: null,
+      resumeFileSize: null,
+      resumeUploadedAt: null,
+      parsedResume: null,
+      positionId: position.id,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
-    this.candidates.set(newCandidate.id, newCandidate);
+    this.save("candidates", this.candidates, newCandidate.id, newCandidate);
+    this.indexCandidate(newCandidate);
+    this.recordStatusChange(newCandidate.id, null, newCandidate.status, context);
     return newCandidate;
   }
 
-  async updateCandidate(id: number, candidate: Partial<InsertCandidate>): Promise<Candidate> {
-    const existingCandidate = this.candidates.get(id);
-    if (!existingCandidate) {
-      throw new Error(`Candidate with id ${id} not found`);
+  async createCandidates(
+    organizationId: number,
+    candidates: InsertCandidate[],
+    context: StatusChangeContext = {},
+  ): Promise<Candidate[]> {
+    // Check every position first so nothing is created when one is missing
+    for (const candidate of candidates) {
+      this.requirePosition(organizationId, candidate.positionId);
     }
-    
+    const created: Candidate[] = [];
+    for (const candidate of candidates) {
+      created.push(await this.createCandidate(organizationId, candidate, context));
+    }
+    return created;
+  }
+
+  async updateCandidate(
+    organizationId: number,
+    id: number,
+    candidate: Partial<InsertCandidate>,
+    context: StatusChangeContext = {},
+  ): Promise<Candidate> {
+    const existingCandidate = this.requireCandidate(organizationId, id);
+
     const updatedCandidate: Candidate = {
       ...existingCandidate,
       ...candidate,
       updatedAt: new Date(),
     };
-    this.candidates.set(id, updatedCandidate);
+    if (candidate.positionId !== undefined) {
+      updatedCandidate.positionApplied = this.requirePosition(organizationId, candidate.positionId).title;
+    }
+    this.save("candidates", this.candidates, id, updatedCandidate);
+    this.indexCandidate(updatedCandidate);
+    if (updatedCandidate.status !== existingCandidate.status) {
+      this.recordStatusChange(id, existingCandidate.status, updatedCandidate.status, context);
+    }
     return updatedCandidate;
   }
 
-  async deleteCandidate(id: number): Promise<void> {
-    if (!this.candidates.has(id)) {
-      throw new Error(`Candidate with id ${id} not found`);
+  async setCandidateResumeFile(
+    organizationId: number,
+    id: number,
+    file: ResumeFile | null,
+    parsedResume: ParsedResume | null = null,
+    resumeText: string | null = null,
+  ): Promise<Candidate> {
+    const existingCandidate = this.requireCandidate(organizationId, id);
+
+    const updatedCandidate: Candidate = {
+      ...existingCandidate,
+      resumeFileKey: file?.key ?? null,
+      resumeFileName: file?.fileName ?? null,
+      resumeContentType: file?.contentType ?? null,
+      resumeFileSize: file?.size ?? null,
+      resumeUploadedAt: file ? new Date() : null,
+      parsedResume: file ? parsedResume : null,
+      updatedAt: new Date(),
+    };
+    this.save("candidates", this.candidates, id, updatedCandidate);
+    this.indexCandidate(updatedCandidate);
+    if (file && resumeText) {
+      this.indexDocument("resume", id, id, resumeText);
+    } else {
+      this.unindexDocument("resume", id);
+    }
+    return updatedCandidate;
+  }
+
+  async deleteCandidate(organizationId: number, id: number): Promise<void> {
+    const candidate = this.requireCandidate(organizationId, id);
+    for (const change of Array.from(this.candidateStatusHistory.values())) {
+      if (change.candidateId === id) {
+        this.remove("candidateStatusHistory", this.candidateStatusHistory, change.id);
+      }
+    }
+    for (const note of Array.from(this.candidateNotes.values())) {
+      if (note.candidateId === id) {
+        await this.deleteCandidateNote(note.id);
+      }
+    }
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.candidateId === id) {
+        this.remove("notifications", this.notifications, notification.id);
+      }
+    }
+    const attachments = await this.getCandidateAttachments(id);
+    for (const attachment of attachments) {
+      this.remove("candidateAttachments", this.candidateAttachments, attachment.id);
+    }
+    for (const interview of Array.from(this.candidateInterviews.values())) {
+      if (interview.candidateId === id) {
+        this.remove("candidateInterviews", this.candidateInterviews, interview.id);
+      }
+    }
+    this.remove("candidates", this.candidates, id);
+    this.unindexDocument("profile", id);
+    this.unindexDocument("resume", id);
+    if (candidate.resumeFileKey) {
+      await blobStore.delete(candidate.resumeFileKey);
+    }
+    for (const attachment of attachments) {
+      await blobStore.delete(attachment.fileKey);
+    }
+  }
+
+  async findDuplicateCandidates(
+    organizationId: number,
+    fields: DuplicateFields,
+    excludeId?: number,
+  ): Promise<DuplicateMatch[]> {
+    const others = Array.from(this.candidates.values()).filter(
+      (candidate) => candidate.organizationId === organizationId && candidate.id !== excludeId,
+    );
+    return new DuplicateIndex(others)
+      .find(fields)
+      .map(({ item, reasons }) => ({ candidate: item, reasons }));
+  }
+
+  private moveToCandidate<V extends { id: number; candidateId: number | null }>(
+    collection: string,
+    map: Map<number, V>,
+    fromId: number,
+    toId: number,
+  ) {
+    for (const value of Array.from(map.values())) {
+      if (value.candidateId === fromId) {
+        this.save(collection, map, value.id, { ...value, candidateId: toId });
+      }
+    }
+  }
+
+  async mergeCandidates(
+    organizationId: number,
+    targetId: number,
+    sourceId: number,
+    values: CandidateMergeValues,
+    context: StatusChangeContext = {},
+  ): Promise<Candidate> {
+    const target = this.requireCandidate(organizationId, targetId);
+    const source = this.requireCandidate(organizationId, sourceId);
+
+    this.moveToCandidate("candidateStatusHistory", this.candidateStatusHistory, sourceId, targetId);
+    const movedNotes = Array.from(this.candidateNotes.values()).filter((note) => note.candidateId === sourceId);
+    this.moveToCandidate("candidateNotes", this.candidateNotes, sourceId, targetId);
+    for (const note of movedNotes) {
+      this.indexDocument("note", note.id, targetId, note.body);
+    }
+    this.moveToCandidate("notifications", this.notifications, sourceId, targetId);
+    this.moveToCandidate("candidateAttachments", this.candidateAttachments, sourceId, targetId);
+    this.moveToCandidate("candidateInterviews", this.candidateInterviews, sourceId, targetId);
+
+    const mergedCandidate: Candidate = { ...target, ...values, updatedAt: new Date() };
+    for (const candidate of [target, source]) {
+      if (candidate.resumeFileKey && candidate.resumeFileKey !== mergedCandidate.resumeFileKey) {
+        const attachment: CandidateAttachment = {
+          id: this.nextId("nextAttachmentId"),
+          candidateId: targetId,
+          fileKey: candidate.resumeFileKey,
+          fileName: candidate.resumeFileName ?? "resume",
+          contentType: candidate.resumeContentType ?? "application/octet-stream",
+          fileSize: candidate.resumeFileSize ?? 0,
+          uploadedAt: candidate.resumeUploadedAt ?? new Date(),
+        };
+        this.save("candidateAttachments", this.candidateAttachments, attachment.id, attachment);
+      }
+    }
+
+    this.save("candidates", this.candidates, targetId, mergedCandidate);
+    this.indexCandidate(mergedCandidate);
+    // The resume text follows the resume file
+    const sourceResume = this.searchDocuments.get(searchDocumentKey("resume", sourceId));
+    if (sourceResume && source.resumeFileKey === mergedCandidate.resumeFileKey) {
+      this.indexDocument("resume", targetId, targetId, sourceResume.body);
+    }
+    if (mergedCandidate.status !== target.status) {
+      this.recordStatusChange(targetId, target.status, mergedCandidate.status, context);
+    }
+    this.remove("candidates", this.candidates, sourceId);
+    this.unindexDocument("profile", sourceId);
+    this.unindexDocument("resume", sourceId);
+    return mergedCandidate;
+  }
+
+  private userSummary(id: string | null): UserSummary | null {
+    const user = id ? this.users.get(id) : undefined;
+    if (!user) {
+      return null;
+    }
+    const { id: userId, email, firstName, lastName, profileImageUrl } = user;
+    return { id: userId, email, firstName, lastName, profileImageUrl };
+  }
+
+  async getCandidateStatusHistory(candidateId: number): Promise<CandidateStatusChangeWithActor[]> {
+    return Array.from(this.candidateStatusHistory.values())
+      .filter((change) => change.candidateId === candidateId)
+      .sort((a, b) => b.id - a.id)
+      .map((change) => ({ ...change, actor: this.userSummary(change.actorId) }));
+  }
+
+  // Attachment operations
+  async getCandidateAttachments(candidateId: number): Promise<CandidateAttachment[]> {
+    return Array.from(this.candidateAttachments.values())
+      .filter((attachment) => attachment.candidateId === candidateId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getCandidateAttachment(id: number): Promise<CandidateAttachment | undefined> {
+    return this.candidateAttachments.get(id);
+  }
+
+  async deleteCandidateAttachment(id: number): Promise<void> {
+    const attachment = this.candidateAttachments.get(id);
+    if (!attachment) {
+      throw new Error(`Attachment with id ${id} not found`);
+    }
+    this.remove("candidateAttachments", this.candidateAttachments, id);
+    await blobStore.delete(attachment.fileKey);
+  }
+
+  // Interview operations
+  async getCandidateInterviews(candidateId: number): Promise<CandidateInterviewWithInterviewer[]> {
+    return Array.from(this.candidateInterviews.values())
+      .filter((interview) => interview.candidateId === candidateId)
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime() || a.id - b.id)
+      .map((interview) => ({ ...interview, interviewer: this.userSummary(interview.interviewerId) }));
+  }
+
+  async getCandidateInterview(id: number): Promise<CandidateInterview | undefined> {
+    return this.candidateInterviews.get(id);
+  }
+
+  async createCandidateInterview(
+    candidateId: number,
+    createdById: string,
+    interview: InsertCandidateInterview,
+  ): Promise<CandidateInterview> {
+    const newInterview: CandidateInterview = {
+      id: this.nextId("nextInterviewId"),
+      candidateId,
+      scheduledAt: interview.scheduledAt,
+      durationMinutes: interview.durationMinutes,
+      interviewerId: interview.interviewerId,
+      location: interview.location || null,
+      notes: interview.notes || null,
+      createdById,
+      createdAt: new Date(),
+    };
+    this.save("candidateInterviews", this.candidateInterviews, newInterview.id, newInterview);
+    return newInterview;
+  }
+
+  async deleteCandidateInterview(id: number): Promise<void> {
+    if (!this.candidateInterviews.has(id)) {
+      throw new Error(`Interview with id ${id} not found`);
+    }
+    this.remove("candidateInterviews", this.candidateInterviews, id);
+  }
+
+  // Note operations
+  async getCandidateNotes(candidateId: number): Promise<CandidateNoteWithAuthor[]> {
+    const revisions = Array.from(this.candidateNoteRevisions.values());
+    return Array.from(this.candidateNotes.values())
+      .filter((note) => note.candidateId === candidateId)
+      .sort((a, b) => b.id - a.id)
+      .map((note) => ({
+        ...note,
+        author: this.userSummary(note.authorId),
+        revisionCount: revisions.filter((revision) => revision.noteId === note.id).length,
+      }));
+  }
+
+  async getCandidateNote(id: number): Promise<CandidateNote | undefined> {
+    return this.candidateNotes.get(id);
+  }
+
+  async createCandidateNote(candidateId: number, authorId: string, body: string): Promise<CandidateNote> {
+    const newNote: CandidateNote = {
+      id: this.nextId("nextNoteId"),
+      candidateId,
+      authorId,
+      body,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.save("candidateNotes", this.candidateNotes, newNote.id, newNote);
+    this.indexDocument("note", newNote.id, candidateId, body);
+    return newNote;
+  }
+
+  async updateCandidateNote(id: number, body: string, editorId: string): Promise<CandidateNote> {
+    const existingNote = this.candidateNotes.get(id);
+    if (!existingNote) {
+      throw new Error(`Note with id ${id} not found`);
+    }
+
+    const revision: CandidateNoteRevision = {
+      id: this.nextId("nextNoteRevisionId"),
+      noteId: id,
+      body: existingNote.body,
+      editorId,
+      createdAt: new Date(),
+    };
+    this.save("candidateNoteRevisions", this.candidateNoteRevisions, revision.id, revision);
+
+    const updatedNote: CandidateNote = {
+      ...existingNote,
+      body,
+      updatedAt: new Date(),
+    };
+    this.save("candidateNotes", this.candidateNotes, id, updatedNote);
+    this.indexDocument("note", id, updatedNote.candidateId, body);
+    return updatedNote;
+  }
+
+  async deleteCandidateNote(id: number): Promise<void> {
+    if (!this.candidateNotes.has(id)) {
+      throw new Error(`Note with id ${id} not found`);
+    }
+    for (const revision of Array.from(this.candidateNoteRevisions.values())) {
+      if (revision.noteId === id) {
+        this.remove("candidateNoteRevisions", this.candidateNoteRevisions, revision.id);
+      }
+    }
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.noteId === id) {
+        this.remove("notifications", this.notifications, notification.id);
+      }
+    }
+    this.remove("candidateNotes", this.candidateNotes, id);
+    this.unindexDocument("note", id);
+  }
+
+  async getCandidateNoteRevisions(noteId: number): Promise<CandidateNoteRevisionWithEditor[]> {
+    return Array.from(this.candidateNoteRevisions.values())
+      .filter((revision) => revision.noteId === noteId)
+      .sort((a, b) => b.id - a.id)
+      .map((revision) => ({ ...revision, editor: this.userSummary(revision.editorId) }));
+  }
+
+  // Search operations
+  async fullTextSearch(organizationId: number, text: string, limit: number): Promise<SearchResult[]> {
+    // Each candidate can contribute several documents, so rank more than `limit`
+    const hits = this.searchIndex.search(
+      text,
+      limit * 5,
+      (document) => this.candidates.get(document.candidateId)?.organizationId === organizationId,
+    );
+    return groupSearchHits(hits, limit).map(({ candidateId, ...result }) => ({
+      ...result,
+      candidate: this.candidates.get(candidateId)!,
+    }));
+  }
+
+  // Saved search operations
+  async getSavedSearches(organizationId: number, userId: string): Promise<SavedSearchWithOwner[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(
+        (savedSearch) =>
+          savedSearch.organizationId === organizationId && (savedSearch.ownerId === userId || savedSearch.shared),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id)
+      .map((savedSearch) => ({
+        ...savedSearch,
+        owner: this.userSummary(savedSearch.ownerId),
+        pinned: this.savedSearchPins.has(savedSearchPinKey(userId, savedSearch.id)),
+      }));
+  }
+
+  async getSavedSearch(organizationId: number, id: number): Promise<SavedSearch | undefined> {
+    return this.inOrganization(organizationId, this.savedSearches.get(id));
+  }
+
+  async createSavedSearch(
+    organizationId: number,
+    ownerId: string,
+    savedSearch: InsertSavedSearch,
+  ): Promise<SavedSearch> {
+    const newSavedSearch: SavedSearch = {
+      id: this.nextId("nextSavedSearchId"),
+      organizationId,
+      ownerId,
+      name: savedSearch.name,
+      positionId: savedSearch.positionId ?? null,
+      status: savedSearch.status ?? null,
+      search: savedSearch.search ?? "",
+      sort: savedSearch.sort ?? "createdAt",
+      order: savedSearch.order ?? "desc",
+      shared: savedSearch.shared ?? false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.save("savedSearches", this.savedSearches, newSavedSearch.id, newSavedSearch);
+    return newSavedSearch;
+  }
+
+  async updateSavedSearch(id: number, savedSearch: Partial<InsertSavedSearch>): Promise<SavedSearch> {
+    const existing = this.savedSearches.get(id);
+    if (!existing) {
+      throw new Error(`Saved search with id ${id} not found`);
+    }
+    const updated: SavedSearch = { ...existing, ...savedSearch, updatedAt: new Date() };
+    this.save("savedSearches", this.savedSearches, id, updated);
+    if (!updated.shared) {
+      for (const [key, pin] of Array.from(this.savedSearchPins)) {
+        if (pin.savedSearchId === id && pin.userId !== updated.ownerId) {
+          this.remove("savedSearchPins", this.savedSearchPins, key);
+        }
+      }
+    }
+    return updated;
+  }
+
+  async deleteSavedSearch(id: number): Promise<void> {
+    if (!this.savedSearches.has(id)) {
+      throw new Error(`Saved search with id ${id} not found`);
+    }
+    for (const [key, pin] of Array.from(this.savedSearchPins)) {
+      if (pin.savedSearchId === id) {
+        this.remove("savedSearchPins", this.savedSearchPins, key);
+      }
+    }
+    this.remove("savedSearches", this.savedSearches, id);
+  }
+
+  async setSavedSearchPinned(id: number, userId: string, pinned: boolean): Promise<void> {
+    const key = savedSearchPinKey(userId, id);
+    if (pinned && !this.savedSearchPins.has(key)) {
+      this.save("savedSearchPins", this.savedSearchPins, key, { userId, savedSearchId: id, createdAt: new Date() });
+    } else if (!pinned && this.savedSearchPins.has(key)) {
+      this.remove("savedSearchPins", this.savedSearchPins, key);
+    }
+  }
+
+  // Notification operations
+  private inNotificationScope(notification: Notification, organizationId: number, userId: string): boolean {
+    return (
+      notification.userId === userId &&
+      (notification.candidateId === null ||
+        this.candidates.get(notification.candidateId)?.organizationId === organizationId)
+    );
+  }
+
+  async getNotifications(organizationId: number, userId: string): Promise<NotificationWithActor[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => this.inNotificationScope(notification, organizationId, userId))
+      .sort((a, b) => b.id - a.id)
+      .map((notification) => ({ ...notification, actor: this.userSummary(notification.actorId) }));
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const newNotification: Notification = {
+      id: this.nextId("nextNotificationId"),
+      userId: notification.userId,
+      type: notification.type,
+      actorId: notification.actorId ?? null,
+      candidateId: notification.candidateId ?? null,
+      noteId: notification.noteId ?? null,
+      message: notification.message,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.save("notifications", this.notifications, newNotification.id, newNotification);
+    return newNotification;
+  }
+
+  async markNotificationRead(id: number, userId: string): Promise<void> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) {
+      throw new Error(`Notification with id ${id} not found`);
+    }
+    if (!notification.readAt) {
+      this.save("notifications", this.notifications, id, { ...notification, readAt: new Date() });
+    }
+  }
+
+  async markAllNotificationsRead(organizationId: number, userId: string): Promise<void> {
+    for (const notification of Array.from(this.notifications.values())) {
+      if (this.inNotificationScope(notification, organizationId, userId) && !notification.readAt) {
+        this.save("notifications", this.notifications, notification.id, {
+          ...notification,
+          readAt: new Date(),
+        });
+      }
     }
-    this.candidates.delete(id);
   }
 
   // Dashboard stats
-  async getDashboardStats(): Promise<{
-    totalPositions: number;
-    totalCandidates: number;
-    inReview: number;
-    shortlisted: number;
-  }> {
-    const candidatesList = Array.from(this.candidates.values());
+  async getDashboardStats(organizationId: number): Promise<DashboardStats> {
+    const candidatesList = await this.getCandidates(organizationId);
+    const statusCounts: Record<string, number> = {};
+    for (const candidate of candidatesList) {
+      statusCounts[candidate.status] = (statusCounts[candidate.status] ?? 0) + 1;
+    }
     
     return {
-      totalPositions: this.positions.size,
+      totalPositions: this.filterPositions(await this.getPositions(organizationId), { archived: false }).length,
       totalCandidates: candidatesList.length,
-      inReview: candidatesList.filter(c => c.status === "In Review").length,
-      shortlisted: candidatesList.filter(c => c.status === "Shortlisted").length,
+      statusCounts,
     };
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+// STORAGE_BACKEND picks where data lives: "memory" (default, resets on restart
+// unless MEMORY_STORAGE_DIR is set) or "database" (Postgres via Drizzle, see
+// server/db.ts for driver options).
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND ?? "memory";
+  switch (backend) {
+    case "memory":
+      return new MemStorage({ dataDir: process.env.MEMORY_STORAGE_DIR });
+    case "database":
+      return new DatabaseStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use memory or database.`);
+  }
+}
+
+export const storage = createStorage();
@@ -0,0 +1,106 @@
+import express, { type Express } from "express";
+import request, { type Test } from "supertest";
+import type { Role } from "@shared/permissions";
+import { registerRoutes } from "./routes";
+
+// The app as server/index.ts builds it, without the client bundle and the
+// request log. Migrates the database first when storage is backed by one.
+export async function createTestApp(): Promise<Express> {
+  if (process.env.STORAGE_BACKEND === "database") {
+    const { getDb } = await import("./db");
+    const { runMigrations } = await import("./migrator");
+    await runMigrations(getDb());
+  }
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  await registerRoutes(app);
+  return app;
+}
+
+type Method = "get" | "post" | "put" | "delete";
+
+// One signed-in browser. The session cookie is only set for HTTPS, so
+// requests claim to come through an HTTPS proxy and the cookie is kept here.
+export class TestClient {
+  private cookie: string | undefined;
+
+  constructor(private readonly app: Express) {}
+
+  get(path: string) {
+    return this.request("get", path);
+  }
+
+  post(path: string) {
+    return this.request("post", path);
+  }
+
+  put(path: string) {
+    return this.request("put", path);
+  }
+
+  delete(path: string) {
+    return this.request("delete", path);
+  }
+
+  private request(method: Method, path: string): Test {
+    const test = request(this.app)[method](path).set("X-Forwarded-Proto", "https");
+    if (this.cookie) {
+      test.set("Cookie", this.cookie);
+    }
+    test.on("response", (res) => {
+      const cookies: string[] | undefined = res.headers["set-cookie"];
+      if (cookies?.length) {
+        this.cookie = cookies[0].split(";")[0];
+      }
+    });
+    return test;
+  }
+}
+
+// Every account the helpers sign up has this password
+export const TEST_PASSWORD = "correct horse battery";
+
+// Signs up with an invitation token, or as the first account without one
+export async function signUp(app: Express, email: string, token?: string): Promise<TestClient> {
+  const client = new TestClient(app);
+  const res = await client
+    .post("/api/auth/signup")
+    .send(token ? { token, password: TEST_PASSWORD } : { email, password: TEST_PASSWORD });
+  if (res.status !== 201) {
+    throw new Error(`Signing up ${email} failed with ${res.status}: ${JSON.stringify(res.body)}`);
+  }
+  return client;
+}
+
+// Invites `email` to the admin's current organization and signs them up
+export async function inviteAndSignUp(app: Express, admin: TestClient, email: string, role: Role): Promise<TestClient> {
+  const res = await admin.post("/api/invitations").send({ email, role });
+  if (res.status !== 201) {
+    throw new Error(`Inviting ${email} failed with ${res.status}: ${JSON.stringify(res.body)}`);
+  }
+  return signUp(app, email, res.body.token);
+}
+
+// A one-page PDF showing `text`, small enough to build here
+export function pdfWithText(text: string): Buffer {
+  const stream = `BT /F1 12 Tf 72 720 Td (${text.replace(/[\\()]/g, "\\$&")}) Tj ET`;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
@@ -0,0 +1,13 @@
+import { createHash, randomBytes } from "crypto";
+
+// Tokens for links such as invitations and password resets. The token goes in
+// the link; only its hash is stored, so a leaked database can't be used to
+// follow them.
+export function createSecretToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashSecretToken(token) };
+}
+
+export function hashSecretToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import type { InsertCandidate } from "./schema";
+import type { DuplicateReason } from "./duplicates";
+
+// Candidate fields a CSV column can be mapped to, in wizard order
+export const CANDIDATE_IMPORT_FIELDS = [
+  { field: "name", label: "Full Name", required: true },
+  { field: "email", label: "Email", required: true },
+  { field: "phone", label: "Phone", required: true },
+  { field: "positionApplied", label: "Position Applied", required: true },
+  { field: "status", label: "Status", required: false },
+  { field: "resume", label: "Resume Link", required: false },
+] as const;
+
+export type CandidateImportField = (typeof CANDIDATE_IMPORT_FIELDS)[number]["field"];
+
+// Maps each candidate field to the CSV header it is read from
+export const candidateImportMappingSchema = z
+  .object(
+    Object.fromEntries(
+      CANDIDATE_IMPORT_FIELDS.map(({ field, required }) => [
+        field,
+        required ? z.string().min(1) : z.string().min(1).optional(),
+      ]),
+    ) as Record<CandidateImportField, z.ZodString | z.ZodOptional<z.ZodString>>,
+  )
+  .strict();
+
+export type CandidateImportMapping = Partial<Record<CandidateImportField, string>>;
+
+// An existing candidate (candidateId) or an earlier row of the same file (row)
+// that a row looks like
+export interface CandidateImportDuplicate {
+  candidateId?: number;
+  row?: number;
+  name: string;
+  reasons: DuplicateReason[];
+}
+
+export interface CandidateImportRow {
+  // Data row number, counting the header as row 1 (blank lines are skipped)
+  row: number;
+  candidate?: InsertCandidate;
+  errors: string[];
+  // Only checked for valid rows; a warning, not an error
+  duplicates: CandidateImportDuplicate[];
+}
+
+export interface CandidateImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  // Valid rows that look like an existing candidate or an earlier row
+  duplicates: number;
+  // How many candidates were created; always 0 for a dry run
+  imported: number;
+  rows: CandidateImportRow[];
+}
+
+const HEADER_ALIASES: Record<CandidateImportField, string[]> = {
+  name: ["name", "full name", "candidate", "candidate name", "applicant"],
+  email: ["email", "email address", "e-mail"],
+  phone: ["phone", "phone number", "mobile", "telephone", "cell"],
+  positionApplied: ["position", "position applied", "role", "job", "job title", "applied for"],
+  status: ["status", "stage"],
+  resume: ["resume", "resume link", "resume url", "cv", "cv link"],
+};
+
+// Pre-selects a column for every field whose header looks like a known alias
+export function guessImportMapping(headers: string[]): CandidateImportMapping {
+  const mapping: CandidateImportMapping = {};
+  for (const { field } of CANDIDATE_IMPORT_FIELDS) {
+    const header = headers.find((h) => HEADER_ALIASES[field].includes(h.trim().toLowerCase()));
+    if (header) {
+      mapping[field] = header;
+    }
+  }
+  return mapping;
+}
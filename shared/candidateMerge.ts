@@ -0,0 +1,97 @@
+import { z } from "zod";
+import type { Candidate } from "./schema";
+
+// Fields chosen per conflict on the merge screen, each covering the columns
+// that have to move together
+export const CANDIDATE_MERGE_FIELDS = [
+  { field: "name", label: "Full Name", columns: ["name"] },
+  { field: "email", label: "Email", columns: ["email"] },
+  { field: "phone", label: "Phone", columns: ["phone"] },
+  { field: "position", label: "Position", columns: ["positionApplied", "positionId"] },
+  { field: "status", label: "Status", columns: ["status"] },
+  { field: "resume", label: "Resume Link", columns: ["resume"] },
+  {
+    field: "resumeFile",
+    label: "Resume File",
+    columns: [
+      "resumeFileKey",
+      "resumeFileName",
+      "resumeContentType",
+      "resumeFileSize",
+      "resumeUploadedAt",
+      "parsedResume",
+    ],
+  },
+] as const;
+
+export type CandidateMergeField = (typeof CANDIDATE_MERGE_FIELDS)[number]["field"];
+
+// "target" keeps the surviving record's value, "source" takes the merged-away one's
+export const MERGE_SIDES = ["target", "source"] as const;
+export type MergeSide = (typeof MERGE_SIDES)[number];
+
+export type CandidateMergeChoices = Partial<Record<CandidateMergeField, MergeSide>>;
+
+export const candidateMergeSchema = z.object({
+  sourceId: z.number().int().positive(),
+  choices: z
+    .object(
+      Object.fromEntries(
+        CANDIDATE_MERGE_FIELDS.map(({ field }) => [field, z.enum(MERGE_SIDES).optional()]),
+      ) as Record<CandidateMergeField, z.ZodOptional<z.ZodEnum<["target", "source"]>>>,
+    )
+    .strict()
+    .default({}),
+});
+
+// Column values written to the surviving record
+export type CandidateMergeValues = Partial<Omit<Candidate, "id" | "createdAt" | "updatedAt">>;
+
+// What the merge screen shows for a field; null when the record has no value
+export function mergeFieldValue(field: CandidateMergeField, candidate: Candidate): string | null {
+  switch (field) {
+    case "position":
+      return candidate.positionApplied;
+    case "resumeFile":
+      return candidate.resumeFileName;
+    default:
+      return candidate[field] || null;
+  }
+}
+
+// Both records have a value for the field and they differ
+export function isMergeConflict(field: CandidateMergeField, target: Candidate, source: Candidate): boolean {
+  const { columns } = CANDIDATE_MERGE_FIELDS.find((entry) => entry.field === field)!;
+  return (
+    mergeFieldValue(field, target) !== null &&
+    mergeFieldValue(field, source) !== null &&
+    columns.some((column) => JSON.stringify(target[column]) !== JSON.stringify(source[column]))
+  );
+}
+
+// Keep the target's value unless only the source has one
+export function defaultMergeSide(field: CandidateMergeField, target: Candidate, source: Candidate): MergeSide {
+  return mergeFieldValue(field, target) === null && mergeFieldValue(field, source) !== null ? "source" : "target";
+}
+
+// Values the target takes from the source, given a side for each field
+export function mergedCandidateValues(
+  target: Candidate,
+  source: Candidate,
+  choices: CandidateMergeChoices,
+): CandidateMergeValues {
+  const values: Record<string, unknown> = {};
+  for (const { field, columns } of CANDIDATE_MERGE_FIELDS) {
+    if ((choices[field] ?? defaultMergeSide(field, target, source)) === "source") {
+      for (const column of columns) {
+        values[column] = source[column];
+      }
+    }
+  }
+  // Tags aren't a choice: the surviving record keeps both sets
+  const extraTags = source.tags.filter((tag) => !target.tags.includes(tag));
+  if (extraTags.length) {
+    values.tags = [...target.tags, ...extraTags];
+  }
+  return values as CandidateMergeValues;
+}
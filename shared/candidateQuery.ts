@@ -0,0 +1,280 @@
+import { z } from "zod";
+import type { Candidate } from "./schema";
+
+/**
+ * Candidate search syntax. Terms are separated by spaces and must all match:
+ *
+ *   jane                  free text in the name, email, position or status
+ *   "jane doe"            a phrase, matched as a whole
+ *   status:"In Review"    a field; see CANDIDATE_QUERY_FIELDS
+ *   created:>2025-01-01   a date field compared with >, >=, <, <= or to a single day
+ *   -rejected             a leading - excludes whatever the term matches
+ */
+export const CANDIDATE_QUERY_FIELDS = [
+  { field: "name", kind: "text", description: "Name contains" },
+  { field: "email", kind: "text", description: "Email contains" },
+  { field: "phone", kind: "text", description: "Phone contains" },
+  { field: "position", kind: "text", description: "Position title contains" },
+  { field: "status", kind: "exact", description: "Status is" },
+  { field: "tag", kind: "exact", description: "Has tag" },
+  { field: "created", kind: "date", description: "Added on, before or after a date" },
+  { field: "updated", kind: "date", description: "Last changed on, before or after a date" },
+] as const;
+
+export type CandidateQueryField = (typeof CANDIDATE_QUERY_FIELDS)[number]["field"];
+export type DateQueryField = Extract<(typeof CANDIDATE_QUERY_FIELDS)[number], { kind: "date" }>["field"];
+export type ValueQueryField = Exclude<CandidateQueryField, DateQueryField>;
+
+// Two-character operators first so ">=" isn't read as ">" followed by "="
+export const DATE_OPERATORS = [">=", "<=", ">", "<"] as const;
+// "=" is a bare date: anything during that (UTC) day
+export type DateOperator = (typeof DATE_OPERATORS)[number] | "=";
+
+export type CandidateQueryTerm =
+  | { type: "text"; value: string; negated: boolean }
+  | { type: "field"; field: ValueQueryField; value: string; negated: boolean }
+  | { type: "date"; field: DateQueryField; operator: DateOperator; date: string; negated: boolean };
+
+export interface CandidateQuery {
+  terms: CandidateQueryTerm[];
+}
+
+export interface QuerySyntaxError {
+  message: string;
+  // Index into the query string where the problem starts
+  position: number;
+}
+
+export type CandidateQueryParseResult =
+  | { query: CandidateQuery; error?: undefined }
+  | { query?: undefined; error: QuerySyntaxError };
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function isValidDate(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// Thrown inside the parser only; parseCandidateQuery turns it into a result
+class SyntaxProblem {
+  constructor(
+    readonly message: string,
+    readonly position: number,
+  ) {}
+}
+
+class QueryReader {
+  private index = 0;
+
+  constructor(private readonly input: string) {}
+
+  get position() {
+    return this.index;
+  }
+
+  atEnd() {
+    return this.index >= this.input.length;
+  }
+
+  skipWhitespace() {
+    while (!this.atEnd() && /\s/.test(this.input[this.index])) {
+      this.index++;
+    }
+  }
+
+  peek(): string {
+    return this.input[this.index] ?? "";
+  }
+
+  startsWith(text: string) {
+    return this.input.startsWith(text, this.index);
+  }
+
+  advance(count = 1) {
+    this.index += count;
+  }
+
+  // "field:" at the current position, without consuming it
+  fieldName(): string | null {
+    const match = /^([A-Za-z]+):/.exec(this.input.slice(this.index));
+    return match ? match[1] : null;
+  }
+
+  // A quoted phrase (with \" and \\ escapes) or a run of non-space characters
+  value(): string {
+    if (this.peek() !== '"') {
+      const start = this.index;
+      while (!this.atEnd() && !/\s/.test(this.peek())) {
+        this.index++;
+      }
+      return this.input.slice(start, this.index);
+    }
+
+    const start = this.index;
+    this.index++;
+    let value = "";
+    while (!this.atEnd()) {
+      const ch = this.input[this.index++];
+      if (ch === '"') {
+        return value;
+      }
+      if (ch === "\\" && !this.atEnd()) {
+        value += this.input[this.index++];
+      } else {
+        value += ch;
+      }
+    }
+    throw new SyntaxProblem("Missing closing quote", start);
+  }
+}
+
+function parseTerm(reader: QueryReader): CandidateQueryTerm {
+  const start = reader.position;
+  const negated = reader.peek() === "-";
+  if (negated) {
+    reader.advance();
+    if (reader.atEnd() || /\s/.test(reader.peek())) {
+      throw new SyntaxProblem("Expected a term after -", start);
+    }
+  }
+
+  const name = reader.fieldName();
+  if (name === null) {
+    const value = reader.value();
+    if (!value) {
+      throw new SyntaxProblem("Empty phrase", start);
+    }
+    return { type: "text", value, negated };
+  }
+
+  const fieldStart = reader.position;
+  const entry = CANDIDATE_QUERY_FIELDS.find(({ field }) => field === name.toLowerCase());
+  if (!entry) {
+    throw new SyntaxProblem(`Unknown field "${name}"; put text containing ":" in quotes`, fieldStart);
+  }
+  reader.advance(name.length + 1);
+
+  if (entry.kind === "date") {
+    const operator = DATE_OPERATORS.find((op) => reader.startsWith(op)) ?? "=";
+    if (operator !== "=") {
+      reader.advance(operator.length);
+    }
+    const valueStart = reader.position;
+    const date = reader.value();
+    if (!isValidDate(date)) {
+      throw new SyntaxProblem(`Expected a date like 2025-01-31 after ${entry.field}:`, valueStart);
+    }
+    return { type: "date", field: entry.field, operator, date, negated };
+  }
+
+  const valueStart = reader.position;
+  const value = reader.value();
+  if (!value) {
+    throw new SyntaxProblem(`Missing value after ${entry.field}:`, valueStart);
+  }
+  return { type: "field", field: entry.field, value, negated };
+}
+
+export function parseCandidateQuery(input: string): CandidateQueryParseResult {
+  const reader = new QueryReader(input);
+  const terms: CandidateQueryTerm[] = [];
+  try {
+    reader.skipWhitespace();
+    while (!reader.atEnd()) {
+      terms.push(parseTerm(reader));
+      reader.skipWhitespace();
+    }
+  } catch (problem) {
+    if (problem instanceof SyntaxProblem) {
+      return { error: { message: problem.message, position: problem.position } };
+    }
+    throw problem;
+  }
+  return { query: { terms } };
+}
+
+export function querySyntaxMessage(error: QuerySyntaxError): string {
+  return `${error.message} (at character ${error.position + 1})`;
+}
+
+// Validates a `search` parameter into its AST; syntax errors become issues on it
+export const candidateQuerySchema = z.string().transform((input, ctx): CandidateQuery => {
+  const result = parseCandidateQuery(input);
+  if (result.error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: querySyntaxMessage(result.error),
+      params: { position: result.error.position },
+    });
+    return z.NEVER;
+  }
+  return result.query;
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The instants a date term accepts, as [from, to): `from` inclusive and `to`
+ * exclusive, either missing when unbounded. Days are UTC days.
+ */
+export function dateTermRange(term: Extract<CandidateQueryTerm, { type: "date" }>): { from?: Date; to?: Date } {
+  const day = new Date(`${term.date}T00:00:00Z`);
+  const nextDay = new Date(day.getTime() + DAY_MS);
+  switch (term.operator) {
+    case ">":
+      return { from: nextDay };
+    case ">=":
+      return { from: day };
+    case "<":
+      return { to: day };
+    case "<=":
+      return { to: nextDay };
+    case "=":
+      return { from: day, to: nextDay };
+  }
+}
+
+function contains(haystack: string, needle: string) {
+  return haystack.toLowerCase().includes(needle.toLowerCase());
+}
+
+function fieldMatches(candidate: Candidate, field: ValueQueryField, value: string): boolean {
+  switch (field) {
+    case "name":
+    case "email":
+    case "phone":
+      return contains(candidate[field], value);
+    case "position":
+      return contains(candidate.positionApplied, value);
+    case "status":
+      return candidate.status.toLowerCase() === value.toLowerCase();
+    case "tag":
+      return candidate.tags.includes(value.toLowerCase());
+  }
+}
+
+function termMatches(candidate: Candidate, term: CandidateQueryTerm): boolean {
+  switch (term.type) {
+    case "text":
+      return [candidate.name, candidate.email, candidate.positionApplied, candidate.status].some((value) =>
+        contains(value, term.value),
+      );
+    case "field":
+      return fieldMatches(candidate, term.field, term.value);
+    case "date": {
+      const value = term.field === "created" ? candidate.createdAt : candidate.updatedAt;
+      const { from, to } = dateTermRange(term);
+      return !!value && (!from || value >= from) && (!to || value < to);
+    }
+  }
+}
+
+// How MemStorage applies a query; DatabaseStorage translates the same terms to SQL
+export function candidateMatchesQuery(candidate: Candidate, query: CandidateQuery): boolean {
+  return query.terms.every((term) => termMatches(candidate, term) !== term.negated);
+}
@@ -0,0 +1,162 @@
+import type { Candidate, InsertCandidate } from "./schema";
+
+export type DuplicateReason = "email" | "phone" | "name";
+
+// The contact fields two candidate records are compared on
+export type DuplicateFields = Pick<InsertCandidate, "name" | "email" | "phone">;
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  email: "same email",
+  phone: "same phone",
+  name: "similar name",
+};
+
+export interface DuplicateMatch {
+  candidate: Candidate;
+  reasons: DuplicateReason[];
+}
+
+// Names at least this similar (1 = identical) count as the same person
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+// Shorter numbers are too likely to be placeholders or extensions
+const MIN_PHONE_DIGITS = 7;
+
+// Lowercased, with any "+tag" dropped from the local part
+export function normalizeEmail(email: string): string {
+  const normalized = email.trim().toLowerCase();
+  const at = normalized.lastIndexOf("@");
+  if (at < 0) {
+    return normalized;
+  }
+  const local = normalized.slice(0, at).replace(/\+.*$/, "");
+  return `${local}@${normalized.slice(at + 1)}`;
+}
+
+// Digits only, keeping the last ten so "+1 (555) 010-0199" matches "555.010.0199";
+// empty when there are too few digits to compare
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return digits.length < MIN_PHONE_DIGITS ? "" : digits.slice(-10);
+}
+
+// Lowercased words without accents, punctuation or initials, in sorted order
+// so "Doe, Jane Q." and "jane doe" compare equal
+export function nameTokens(name: string): string[] {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1)
+    .sort();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Fuzzy match on the sorted name tokens; they must share at least one word,
+// so "Jon Smith" matches "John Smith" but "Jane Doe" doesn't match "Jake Dee"
+function namesMatch(a: string[], b: string[]): boolean {
+  if (!a.length || !b.length || !a.some((token) => b.includes(token))) {
+    return false;
+  }
+  const left = a.join(" ");
+  const right = b.join(" ");
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length) >= NAME_SIMILARITY_THRESHOLD;
+}
+
+interface NormalizedFields {
+  email: string;
+  phone: string;
+  name: string[];
+}
+
+function normalize(fields: DuplicateFields): NormalizedFields {
+  return {
+    email: normalizeEmail(fields.email),
+    phone: normalizePhone(fields.phone),
+    name: nameTokens(fields.name),
+  };
+}
+
+// Records sharing any of these keys are worth comparing in full
+function indexKeys(fields: NormalizedFields): string[] {
+  return [
+    ...(fields.email ? [`email:${fields.email}`] : []),
+    ...(fields.phone ? [`phone:${fields.phone}`] : []),
+    ...fields.name.map((token) => `name:${token}`),
+  ];
+}
+
+function compare(a: NormalizedFields, b: NormalizedFields): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  if (a.email && a.email === b.email) {
+    reasons.push("email");
+  }
+  if (a.phone && a.phone === b.phone) {
+    reasons.push("phone");
+  }
+  if (namesMatch(a.name, b.name)) {
+    reasons.push("name");
+  }
+  return reasons;
+}
+
+// Why `a` and `b` look like the same person; empty when they don't
+export function duplicateReasons(a: DuplicateFields, b: DuplicateFields): DuplicateReason[] {
+  return compare(normalize(a), normalize(b));
+}
+
+/**
+ * Looks up likely duplicates among many records without comparing against
+ * every one of them: exact email and phone matches come from maps, and
+ * names are only compared with records sharing a word.
+ */
+export class DuplicateIndex<T extends DuplicateFields> {
+  private entries: { item: T; fields: NormalizedFields }[] = [];
+  private byKey = new Map<string, number[]>();
+
+  constructor(items: Iterable<T> = []) {
+    for (const item of Array.from(items)) {
+      this.add(item);
+    }
+  }
+
+  add(item: T) {
+    const index = this.entries.length;
+    const fields = normalize(item);
+    this.entries.push({ item, fields });
+    for (const key of indexKeys(fields)) {
+      const list = this.byKey.get(key) ?? [];
+      list.push(index);
+      this.byKey.set(key, list);
+    }
+  }
+
+  find(input: DuplicateFields): { item: T; reasons: DuplicateReason[] }[] {
+    const fields = normalize(input);
+    const candidates = new Set<number>();
+    for (const key of indexKeys(fields)) {
+      for (const index of this.byKey.get(key) ?? []) {
+        candidates.add(index);
+      }
+    }
+    return Array.from(candidates)
+      .sort((a, b) => a - b)
+      .map((index) => ({ item: this.entries[index].item, reasons: compare(fields, this.entries[index].fields) }))
+      .filter((match) => match.reasons.length > 0);
+  }
+}
@@ -0,0 +1,31 @@
+import type { UserSummary } from "./schema";
+
+// "@" not preceded by a word character, so emails like jane@example.com don't count.
+// A handle can't end with "." so "ping @jane." mentions "jane".
+const MENTION_PATTERN = /(?<![\w@])@([a-z0-9](?:[\w.+-]*[\w+-])?)/gi;
+
+/**
+ * The handle teammates use to @mention a user: the local part of their
+ * email, or first.last when they have no email.
+ */
+export function mentionHandle(user: Pick<UserSummary, "id" | "email" | "firstName" | "lastName">): string {
+  if (user.email) {
+    return user.email.split("@")[0].toLowerCase();
+  }
+  const name = [user.firstName, user.lastName].filter(Boolean).join(".");
+  return (name || user.id).toLowerCase().replace(/\s+/g, ".");
+}
+
+// Unique, lowercased handles mentioned in a note body
+export function extractMentions(body: string): string[] {
+  const handles = Array.from(body.matchAll(MENTION_PATTERN), (match) => match[1].toLowerCase());
+  return Array.from(new Set(handles));
+}
+
+export function findMentionedUsers<T extends Pick<UserSummary, "id" | "email" | "firstName" | "lastName">>(
+  body: string,
+  users: T[],
+): T[] {
+  const handles = new Set(extractMentions(body));
+  return users.filter((user) => handles.has(mentionHandle(user)));
+}
@@ -0,0 +1,25 @@
+export const SORT_ORDERS = ["asc", "desc"] as const;
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+// "position" sorts by the position title the candidate applied for
+export const CANDIDATE_SORT_FIELDS = ["name", "status", "position", "createdAt", "updatedAt"] as const;
+export type CandidateSortField = (typeof CANDIDATE_SORT_FIELDS)[number];
+
+export const POSITION_SORT_FIELDS = ["title", "department", "location", "status", "createdAt", "updatedAt"] as const;
+export type PositionSortField = (typeof POSITION_SORT_FIELDS)[number];
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * One page of a list endpoint. Pass `nextCursor` back as `cursor` for the
+ * following page, or use `offset` for numbered pages; `offset` is null when
+ * the page was requested by cursor.
+ */
+export interface Page<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number | null;
+  nextCursor: string | null;
+}
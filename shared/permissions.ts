@@ -0,0 +1,62 @@
+// A user's role decides what they may do; the server checks each route's
+// permission and the client hides actions the user's role lacks
+export const ROLES = ["admin", "recruiter", "hiring_manager", "interviewer", "read_only"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Admin",
+  recruiter: "Recruiter",
+  hiring_manager: "Hiring Manager",
+  interviewer: "Interviewer",
+  read_only: "Read-only",
+};
+
+export const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  admin: "Everything, including managing users and their roles",
+  recruiter: "Manages positions, pipelines and candidates, including imports and deletes",
+  hiring_manager: "Edits positions and moves candidates through the pipeline; can't delete or import",
+  interviewer: "Views positions and candidates and writes notes",
+  read_only: "Views positions and candidates",
+};
+
+// Users who sign in for the first time start here until an admin promotes them
+export const DEFAULT_ROLE: Role = "read_only";
+
+export const PERMISSIONS = [
+  "positions:view",
+  // Create, edit and archive
+  "positions:manage",
+  "positions:delete",
+  "pipelines:manage",
+  "candidates:view",
+  // Create and edit, including status changes and resume files
+  "candidates:manage",
+  // Also needed to merge, which deletes the duplicate record
+  "candidates:delete",
+  "candidates:import",
+  "candidates:export",
+  "notes:write",
+  "users:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  recruiter: PERMISSIONS.filter((permission) => permission !== "users:manage"),
+  hiring_manager: [
+    "positions:view",
+    "positions:manage",
+    "candidates:view",
+    "candidates:manage",
+    "candidates:export",
+    "notes:write",
+  ],
+  interviewer: ["positions:view", "candidates:view", "notes:write"],
+  read_only: ["positions:view", "candidates:view"],
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
@@ -7,10 +7,18 @@ import {
   index,
   serial,
   integer,
+  boolean,
+  uniqueIndex,
+  primaryKey,
+  customType,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
+import type { SearchSource } from "./search";
+import { CANDIDATE_SORT_FIELDS, SORT_ORDERS, type CandidateSortField, type SortOrder } from "./pagination";
+import { parseCandidateQuery, querySyntaxMessage } from "./candidateQuery";
+import { DEFAULT_ROLE, ROLES, type Role } from "./permissions";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -30,46 +38,494 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  lastLoginAt: timestamp("last_login_at"),
+  // Deactivated users can't sign in; their sessions are revoked when it's set
+  deactivatedAt: timestamp("deactivated_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Positions table
-export const positions = pgTable("positions", {
+// The client companies hiring is run for. Positions, candidates and saved
+// searches belong to one organization and only its members see them
+export const organizations = pgTable("organizations", {
   id: serial("id").primaryKey(),
-  title: varchar("title").notNull(),
-  department: varchar("department").notNull(),
-  description: text("description"),
-  location: varchar("location").notNull(),
-  status: varchar("status").notNull().default("Active"),
+  name: varchar("name").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const organizationMembers = pgTable(
+  "organization_members",
+  {
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // See shared/permissions.ts; it only applies in this organization. The
+    // first user to sign in becomes an admin of the first organization
+    role: varchar("role").$type<Role>().notNull().default(DEFAULT_ROLE),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.organizationId, table.userId] }),
+    index("IDX_organization_members_user").on(table.userId),
+  ],
+);
+
+// Single-use links that let someone join an organization with a role. Only a
+// hash of the token is stored; the link itself is shown once, when created
+export const invitations = pgTable(
+  "invitations",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    email: varchar("email").notNull(),
+    role: varchar("role").$type<Role>().notNull(),
+    tokenHash: varchar("token_hash").notNull().unique(),
+    invitedById: varchar("invited_by_id").references(() => users.id, { onDelete: "set null" }),
+    acceptedById: varchar("accepted_by_id").references(() => users.id, { onDelete: "set null" }),
+    expiresAt: timestamp("expires_at").notNull(),
+    acceptedAt: timestamp("accepted_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_invitations_organization").on(table.organizationId)],
+);
+
+// Passwords for local sign-in (AUTH_STRATEGY=local), kept apart from users so
+// the hash never travels with a user record
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: varchar("password_hash").notNull(),
+  // Failed attempts since the last successful sign-in or lockout
+  failedLoginCount: integer("failed_login_count").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Single-use links an admin hands out so a user can choose a new password
+export const passwordResets = pgTable(
+  "password_resets",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tokenHash: varchar("token_hash").notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_password_resets_user").on(table.userId)],
+);
+
+// Badge colors a pipeline stage can use; the client maps each to Tailwind classes
+export const PIPELINE_COLORS = [
+  "gray",
+  "blue",
+  "indigo",
+  "purple",
+  "yellow",
+  "orange",
+  "green",
+  "red",
+] as const;
+
+// Resume uploads accepted by the server: PDF and DOCX, up to 10 MB
+export const RESUME_CONTENT_TYPES = {
+  "application/pdf": ".pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+} as const;
+export const MAX_RESUME_BYTES = 10 * 1024 * 1024;
+
+// Formats offered by the list export endpoints
+export const EXPORT_FORMATS = ["csv", "xlsx", "jsonl"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Hiring pipelines: an ordered list of stages a candidate's status moves through.
+// Each organization has its own, one of which is its default
+export const pipelines = pgTable(
+  "pipelines",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    isDefault: boolean("is_default").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_pipelines_organization").on(table.organizationId)],
+);
+
+export const pipelineStages = pgTable(
+  "pipeline_stages",
+  {
+    id: serial("id").primaryKey(),
+    pipelineId: integer("pipeline_id")
+      .notNull()
+      .references(() => pipelines.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    color: varchar("color").notNull().default("gray"),
+    sortOrder: integer("sort_order").notNull(),
+    isTerminal: boolean("is_terminal").notNull().default(false),
+  },
+  (table) => [uniqueIndex("IDX_pipeline_stage_name").on(table.pipelineId, table.name)],
+);
+
+// Positions table
+export const positions = pgTable(
+  "positions",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    title: varchar("title").notNull(),
+    department: varchar("department").notNull(),
+    description: text("description"),
+    location: varchar("location").notNull(),
+    status: varchar("status").notNull().default("Active"),
+    // Overrides the default pipeline for this position's candidates
+    pipelineId: integer("pipeline_id").references(() => pipelines.id, { onDelete: "set null" }),
+    // Archived positions are hidden from the positions list and new candidates
+    // but keep their candidates; set through the archive endpoint only
+    archivedAt: timestamp("archived_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_positions_organization").on(table.organizationId)],
+);
+
 // Candidates table
-export const candidates = pgTable("candidates", {
+export const candidates = pgTable(
+  "candidates",
+  {
+    id: serial("id").primaryKey(),
+    // Always the organization of the candidate's position
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    email: varchar("email").notNull(),
+    phone: varchar("phone").notNull(),
+    resume: varchar("resume"),
+    // Uploaded resume; the file itself lives in blob storage under resumeFileKey
+    resumeFileKey: varchar("resume_file_key"),
+    resumeFileName: varchar("resume_file_name"),
+    resumeContentType: varchar("resume_content_type"),
+    resumeFileSize: integer("resume_file_size"),
+    resumeUploadedAt: timestamp("resume_uploaded_at"),
+    // Extracted from the uploaded file; null when there is none or it couldn't be read
+    parsedResume: jsonb("parsed_resume").$type<ParsedResume>(),
+    // The position applied for. positionApplied copies its title so candidates
+    // sort, search and export by it; storage keeps it in step with the position.
+    // Rows migration 0011 couldn't match to a position keep their original text
+    // and a null positionId
+    positionId: integer("position_id").references(() => positions.id),
+    positionApplied: varchar("position_applied").notNull(),
+    status: varchar("status").notNull().default("New"),
+    // Free-form labels such as "referral", stored lowercased
+    tags: text("tags").array().notNull().default([]),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_candidates_organization").on(table.organizationId)],
+);
+
+// Candidate status transitions; fromStatus is null for the status set on creation
+export const candidateStatusHistory = pgTable(
+  "candidate_status_history",
+  {
+    id: serial("id").primaryKey(),
+    candidateId: integer("candidate_id")
+      .notNull()
+      .references(() => candidates.id, { onDelete: "cascade" }),
+    fromStatus: varchar("from_status"),
+    toStatus: varchar("to_status").notNull(),
+    actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_status_history_candidate").on(table.candidateId)],
+);
+
+// Recruiter notes on candidates; bodies are markdown
+export const candidateNotes = pgTable(
+  "candidate_notes",
+  {
+    id: serial("id").primaryKey(),
+    candidateId: integer("candidate_id")
+      .notNull()
+      .references(() => candidates.id, { onDelete: "cascade" }),
+    authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+    body: text("body").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_candidate_notes_candidate").on(table.candidateId)],
+);
+
+// Files kept on a candidate besides the current resume, e.g. the resume of a
+// duplicate record merged into it; the files live in blob storage under fileKey
+export const candidateAttachments = pgTable(
+  "candidate_attachments",
+  {
+    id: serial("id").primaryKey(),
+    candidateId: integer("candidate_id")
+      .notNull()
+      .references(() => candidates.id, { onDelete: "cascade" }),
+    fileKey: varchar("file_key").notNull(),
+    fileName: varchar("file_name").notNull(),
+    contentType: varchar("content_type").notNull(),
+    fileSize: integer("file_size").notNull(),
+    uploadedAt: timestamp("uploaded_at").defaultNow(),
+  },
+  (table) => [index("IDX_candidate_attachments_candidate").on(table.candidateId)],
+);
+
+// Interviews scheduled with a candidate; the interviewer is a member of the
+// candidate's organization, or null once their account is gone
+export const candidateInterviews = pgTable(
+  "candidate_interviews",
+  {
+    id: serial("id").primaryKey(),
+    candidateId: integer("candidate_id")
+      .notNull()
+      .references(() => candidates.id, { onDelete: "cascade" }),
+    scheduledAt: timestamp("scheduled_at").notNull(),
+    durationMinutes: integer("duration_minutes").notNull().default(60),
+    interviewerId: varchar("interviewer_id").references(() => users.id, { onDelete: "set null" }),
+    // A room, address or meeting link
+    location: varchar("location"),
+    notes: text("notes"),
+    createdById: varchar("created_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_candidate_interviews_candidate").on(table.candidateId)],
+);
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Text covered by full-text search: one row per candidate profile (sourceId is
+// the candidate id), resume (likewise) and note (sourceId is the note id).
+// Postgres derives `vector`, weighting profiles above notes above resumes
+export const searchDocuments = pgTable(
+  "search_documents",
+  {
+    source: varchar("source").$type<SearchSource>().notNull(),
+    sourceId: integer("source_id").notNull(),
+    candidateId: integer("candidate_id")
+      .notNull()
+      .references(() => candidates.id, { onDelete: "cascade" }),
+    body: text("body").notNull(),
+    vector: tsvector("vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', "body"), CASE "source" WHEN 'profile' THEN 'A' WHEN 'note' THEN 'B' ELSE 'C' END::"char")`,
+    ),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.source, table.sourceId] }),
+    index("IDX_search_documents_vector").using("gin", table.vector),
+    index("IDX_search_documents_candidate").on(table.candidateId),
+  ],
+);
+
+// Previous bodies of a note, one row per edit
+export const candidateNoteRevisions = pgTable("candidate_note_revisions", {
   id: serial("id").primaryKey(),
-  name: varchar("name").notNull(),
-  email: varchar("email").notNull(),
-  phone: varchar("phone").notNull(),
-  resume: varchar("resume"),
-  positionId: integer("position_id").references(() => positions.id),
-  positionApplied: varchar("position_applied").notNull(),
-  status: varchar("status").notNull().default("New"),
+  noteId: integer("note_id")
+    .notNull()
+    .references(() => candidateNotes.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  editorId: varchar("editor_id").references(() => users.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// In-app notifications, e.g. being @mentioned in a note
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: serial("id").primaryKey(),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    type: varchar("type").notNull(),
+    actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+    candidateId: integer("candidate_id").references(() => candidates.id, { onDelete: "cascade" }),
+    noteId: integer("note_id").references(() => candidateNotes.id, { onDelete: "cascade" }),
+    message: text("message").notNull(),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_notifications_user").on(table.userId)],
+);
+
+// Named candidate list filters; `search` uses the syntax in shared/candidateQuery.ts.
+// Shared ones are visible to every member of the organization, but only the
+// owner may change them
+export const savedSearches = pgTable(
+  "saved_searches",
+  {
+    id: serial("id").primaryKey(),
+    organizationId: integer("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    ownerId: varchar("owner_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    positionId: integer("position_id").references(() => positions.id, { onDelete: "set null" }),
+    status: varchar("status"),
+    search: text("search").notNull().default(""),
+    sort: varchar("sort").$type<CandidateSortField>().notNull().default("createdAt"),
+    order: varchar("order").$type<SortOrder>().notNull().default("desc"),
+    shared: boolean("shared").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_saved_searches_owner").on(table.ownerId)],
+);
+
+// Saved searches a user has pinned to their sidebar
+export const savedSearchPins = pgTable(
+  "saved_search_pins",
+  {
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    savedSearchId: integer("saved_search_id")
+      .notNull()
+      .references(() => savedSearches.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.savedSearchId] })],
+);
+
 // Relations
-export const positionsRelations = relations(positions, ({ many }) => ({
+export const organizationMembersRelations = relations(organizationMembers, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationMembers.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [organizationMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+export const invitationsRelations = relations(invitations, ({ one }) => ({
+  invitedBy: one(users, {
+    fields: [invitations.invitedById],
+    references: [users.id],
+  }),
+}));
+
+export const pipelinesRelations = relations(pipelines, ({ many }) => ({
+  stages: many(pipelineStages),
+  positions: many(positions),
+}));
+
+export const pipelineStagesRelations = relations(pipelineStages, ({ one }) => ({
+  pipeline: one(pipelines, {
+    fields: [pipelineStages.pipelineId],
+    references: [pipelines.id],
+  }),
+}));
+
+export const positionsRelations = relations(positions, ({ one, many }) => ({
   candidates: many(candidates),
+  pipeline: one(pipelines, {
+    fields: [positions.pipelineId],
+    references: [pipelines.id],
+  }),
 }));
 
-export const candidatesRelations = relations(candidates, ({ one }) => ({
+export const candidatesRelations = relations(candidates, ({ one, many }) => ({
   position: one(positions, {
     fields: [candidates.positionId],
     references: [positions.id],
   }),
+  statusHistory: many(candidateStatusHistory),
+  notes: many(candidateNotes),
+  interviews: many(candidateInterviews),
+}));
+
+export const candidateNotesRelations = relations(candidateNotes, ({ one, many }) => ({
+  candidate: one(candidates, {
+    fields: [candidateNotes.candidateId],
+    references: [candidates.id],
+  }),
+  author: one(users, {
+    fields: [candidateNotes.authorId],
+    references: [users.id],
+  }),
+  revisions: many(candidateNoteRevisions),
+}));
+
+export const candidateNoteRevisionsRelations = relations(candidateNoteRevisions, ({ one }) => ({
+  note: one(candidateNotes, {
+    fields: [candidateNoteRevisions.noteId],
+    references: [candidateNotes.id],
+  }),
+  editor: one(users, {
+    fields: [candidateNoteRevisions.editorId],
+    references: [users.id],
+  }),
+}));
+
+export const candidateInterviewsRelations = relations(candidateInterviews, ({ one }) => ({
+  candidate: one(candidates, {
+    fields: [candidateInterviews.candidateId],
+    references: [candidates.id],
+  }),
+  interviewer: one(users, {
+    fields: [candidateInterviews.interviewerId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  actor: one(users, {
+    fields: [notifications.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const savedSearchesRelations = relations(savedSearches, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [savedSearches.ownerId],
+    references: [users.id],
+  }),
+  pins: many(savedSearchPins),
+}));
+
+export const savedSearchPinsRelations = relations(savedSearchPins, ({ one }) => ({
+  savedSearch: one(savedSearches, {
+    fields: [savedSearchPins.savedSearchId],
+    references: [savedSearches.id],
+  }),
+}));
+
+export const candidateStatusHistoryRelations = relations(candidateStatusHistory, ({ one }) => ({
+  candidate: one(candidates, {
+    fields: [candidateStatusHistory.candidateId],
+    references: [candidates.id],
+  }),
+  actor: one(users, {
+    fields: [candidateStatusHistory.actorId],
+    references: [users.id],
+  }),
 }));
 
 // Schemas
@@ -78,14 +534,148 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: (schema) => schema.trim().min(1).max(100),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254),
+  role: z.enum(ROLES),
+});
+
+export const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(200, "Password must be at most 200 characters");
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(254),
+  password: z.string().min(1).max(200),
+});
+
+// With a token the email comes from the invitation; without one only the
+// first account of a new install can be created
+export const signupSchema = z.object({
+  token: z.string().min(1).optional(),
+  email: z.string().trim().toLowerCase().email().max(254).optional(),
+  firstName: z.string().trim().max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+  password: passwordSchema,
+});
+
+export const passwordResetSchema = z.object({
+  password: passwordSchema,
+});
+
+// The organization comes from the request, never the body
 export const insertPositionSchema = createInsertSchema(positions).omit({
   id: true,
+  organizationId: true,
+  archivedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertCandidateSchema = createInsertSchema(candidates).omit({
+// positionApplied is filled in from the position by storage
+export const insertCandidateSchema = createInsertSchema(candidates, {
+  positionId: z.number({ required_error: "Select a position" }).int().positive(),
+  tags: z
+    .array(z.string().trim().toLowerCase().min(1).max(50))
+    .max(20)
+    .transform((tags) => Array.from(new Set(tags)))
+    .optional(),
+}).omit({
   id: true,
+  organizationId: true,
+  positionApplied: true,
+  resumeFileKey: true,
+  resumeFileName: true,
+  resumeContentType: true,
+  resumeFileSize: true,
+  resumeUploadedAt: true,
+  parsedResume: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPipelineStageSchema = createInsertSchema(pipelineStages, {
+  name: (schema) => schema.trim().min(1),
+  color: z.enum(PIPELINE_COLORS),
+}).omit({
+  id: true,
+  pipelineId: true,
+  sortOrder: true,
+});
+
+// Stages are given in pipeline order; their index becomes sortOrder
+export const insertPipelineSchema = createInsertSchema(pipelines, {
+  name: (schema) => schema.trim().min(1),
+})
+  .omit({
+    id: true,
+    organizationId: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    stages: z
+      .array(insertPipelineStageSchema)
+      .min(1)
+      .refine(
+        (stages) => new Set(stages.map((stage) => stage.name)).size === stages.length,
+        { message: "Stage names must be unique within a pipeline" },
+      ),
+  });
+
+// Every organization starts with it; matches migrations/0002_default_pipeline.sql
+export const DEFAULT_PIPELINE: InsertPipeline = {
+  name: "Default",
+  isDefault: true,
+  stages: [
+    { name: "New", color: "blue", isTerminal: false },
+    { name: "In Review", color: "yellow", isTerminal: false },
+    { name: "Shortlisted", color: "green", isTerminal: false },
+    { name: "Hired", color: "purple", isTerminal: true },
+    { name: "Rejected", color: "red", isTerminal: true },
+  ],
+};
+
+export const insertCandidateNoteSchema = z.object({
+  body: z.string().trim().min(1).max(20000),
+});
+
+export const insertCandidateInterviewSchema = z.object({
+  scheduledAt: z.coerce.date(),
+  durationMinutes: z.number().int().min(5).max(8 * 60).default(60),
+  interviewerId: z.string().min(1).nullable().default(null),
+  location: z.string().trim().max(500).nullable().default(null),
+  notes: z.string().trim().max(5000).nullable().default(null),
+});
+
+// A null positionId or status means any
+export const insertSavedSearchSchema = createInsertSchema(savedSearches, {
+  name: (schema) => schema.trim().min(1).max(100),
+  status: (schema) => schema.trim().min(1),
+  search: (schema) =>
+    schema
+      .trim()
+      .max(500)
+      .superRefine((search, ctx) => {
+        const { error } = parseCandidateQuery(search);
+        if (error) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: querySyntaxMessage(error) });
+        }
+      }),
+  sort: z.enum(CANDIDATE_SORT_FIELDS),
+  order: z.enum(SORT_ORDERS),
+}).omit({
+  id: true,
+  organizationId: true,
+  ownerId: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -93,7 +683,107 @@ export const insertCandidateSchema = createInsertSchema(candidates).omit({
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+// A user with their role in one organization
+export type Member = User & { role: Role };
+// As listed on the Users page; manageable is whether the admin may reset the
+// user's password, end their sessions or deactivate them, which reach into
+// every organization the user belongs to
+export type ManagedUser = Member & { manageable: boolean };
+// As returned by /api/auth/user: with the organization the user is working
+// in and their role there, both null when they don't belong to any.
+// installationAdmin is set for ADMIN_USER_IDS
+export type AuthUser = User & { organizationId: number | null; role: Role | null; installationAdmin: boolean };
+// How users sign in, picked by AUTH_STRATEGY on the server
+export const AUTH_STRATEGIES = ["replit", "oidc", "local", "demo"] as const;
+export type AuthStrategy = (typeof AUTH_STRATEGIES)[number];
+// An OIDC provider to sign in with at /api/login/<id>
+export type AuthProvider = { id: string; label: string };
+// As returned by /api/auth/config; setupRequired means local sign-in with no
+// accounts yet, so the first one can be created without an invitation
+export type AuthConfig = { strategy: AuthStrategy; providers: AuthProvider[]; setupRequired: boolean };
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
+export type UserCredential = typeof userCredentials.$inferSelect;
+export type PasswordReset = typeof passwordResets.$inferSelect;
+export type Signup = z.infer<typeof signupSchema>;
 export type Position = typeof positions.$inferSelect;
 export type InsertPosition = z.infer<typeof insertPositionSchema>;
 export type Candidate = typeof candidates.$inferSelect;
 export type InsertCandidate = z.infer<typeof insertCandidateSchema>;
+export type Pipeline = typeof pipelines.$inferSelect;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type PipelineWithStages = Pipeline & { stages: PipelineStage[] };
+export type InsertPipeline = z.infer<typeof insertPipelineSchema>;
+export type InsertPipelineStage = z.infer<typeof insertPipelineStageSchema>;
+
+export type ResumeFile = {
+  key: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+};
+
+export interface ParsedResumeEmployer {
+  name: string;
+  title: string | null;
+  period: string | null;
+}
+
+export interface ParsedResumeEducation {
+  institution: string;
+  degree: string | null;
+  period: string | null;
+}
+
+export interface ParsedResume {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  skills: string[];
+  employers: ParsedResumeEmployer[];
+  education: ParsedResumeEducation[];
+}
+
+export type CandidateWithPosition = Candidate & { position: Position | null };
+export type CandidateStatusChange = typeof candidateStatusHistory.$inferSelect;
+export type UserSummary = Pick<User, "id" | "email" | "firstName" | "lastName" | "profileImageUrl">;
+export type CandidateStatusChangeWithActor = CandidateStatusChange & { actor: UserSummary | null };
+
+export type CandidateNote = typeof candidateNotes.$inferSelect;
+export type CandidateNoteWithAuthor = CandidateNote & {
+  author: UserSummary | null;
+  revisionCount: number;
+};
+export type CandidateNoteRevision = typeof candidateNoteRevisions.$inferSelect;
+export type CandidateNoteRevisionWithEditor = CandidateNoteRevision & { editor: UserSummary | null };
+export type CandidateAttachment = typeof candidateAttachments.$inferSelect;
+export type CandidateInterview = typeof candidateInterviews.$inferSelect;
+export type InsertCandidateInterview = z.infer<typeof insertCandidateInterviewSchema>;
+export type CandidateInterviewWithInterviewer = CandidateInterview & { interviewer: UserSummary | null };
+export type SearchDocument = Omit<typeof searchDocuments.$inferSelect, "vector">;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type NotificationWithActor = Notification & { actor: UserSummary | null };
+// As listed to admins; the token itself is only returned once, on creation
+export type InvitationWithInviter = Omit<Invitation, "tokenHash"> & { invitedBy: UserSummary | null };
+
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+// As listed for one user: whether they pinned it, and how many candidates it matches now
+export type SavedSearchWithOwner = SavedSearch & {
+  owner: UserSummary | null;
+  pinned: boolean;
+};
+export type SavedSearchWithCount = SavedSearchWithOwner & { count: number };
+export type SavedSearchPin = typeof savedSearchPins.$inferSelect;
+
+export interface DashboardStats {
+  // Archived positions aren't counted
+  totalPositions: number;
+  totalCandidates: number;
+  // Candidate count per status, across every pipeline
+  statusCounts: Record<string, number>;
+}
@@ -0,0 +1,35 @@
+import type { Candidate } from "./schema";
+
+// What a search document was built from: a candidate's own fields, the text
+// of their resume file, or one of their notes
+export const SEARCH_SOURCES = ["profile", "resume", "note"] as const;
+export type SearchSource = (typeof SEARCH_SOURCES)[number];
+
+export const SEARCH_SOURCE_LABELS: Record<SearchSource, string> = {
+  profile: "Profile",
+  resume: "Resume",
+  note: "Note",
+};
+
+// A stretch of snippet text; highlighted parts are words that matched
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchMatch {
+  source: SearchSource;
+  // Set for note matches
+  noteId: number | null;
+  snippet: SnippetPart[];
+}
+
+// One candidate and the documents of theirs that matched, best first
+export interface SearchResult {
+  candidate: Candidate;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export const DEFAULT_SEARCH_RESULTS = 20;
+export const MAX_SEARCH_RESULTS = 50;
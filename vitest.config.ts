@@ -0,0 +1,43 @@
+import { defineConfig } from "vitest/config";
+import os from "os";
+import path from "path";
+
+// Server tests run against both storage backends: MemStorage, and
+// DatabaseStorage on an in-memory PGlite database. Storage and sign-in are
+// picked from the environment when their modules load, so each test file
+// gets a fresh app with these settings.
+const env = {
+  AUTH_STRATEGY: "local",
+  SESSION_SECRET: "test-session-secret",
+  BLOB_STORAGE_DIR: path.join(os.tmpdir(), "recruitmaster-test-blobs"),
+};
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: "memory",
+          include: ["server/**/*.test.ts"],
+          env: { ...env, STORAGE_BACKEND: "memory" },
+        },
+      },
+      {
+        extends: true,
+        test: {
+          name: "pglite",
+          include: ["server/**/*.test.ts"],
+          env: { ...env, STORAGE_BACKEND: "database", DATABASE_DRIVER: "pglite" },
+          // Migrating a fresh database takes a few seconds
+          hookTimeout: 60_000,
+        },
+      },
+    ],
+  },
+});